@@ -1,13 +1,59 @@
 "use client";
 
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { Knob } from './components/Knob';
 import { Mixer } from './components/Mixer';
 import { Visualizer, VisualizerHandle } from './components/Visualizer';
-import { AudioSettings, PhysicsSettings, MusicSettings } from './types';
+import { ScenePresets } from './components/ScenePresets';
+import { BounceExport, type BounceSession } from './components/BounceExport';
+import { MasterTakes } from './components/MasterTakes';
+import { MidiPanel } from './components/MidiPanel';
+import { MidiLearnable, useMidiControl } from './components/MidiLearnable';
+import { TempoPanel } from './components/TempoPanel';
+import { SynthPanel } from './components/SynthPanel';
+import { TimbrePanel } from './components/TimbrePanel';
+import { HarmonyPanel } from './components/HarmonyPanel';
+import { ProgressionPanel } from './components/ProgressionPanel';
+import { MelodyPanel } from './components/MelodyPanel';
+import { GroovePanel } from './components/GroovePanel';
+import { RolePanel } from './components/RolePanel';
+import { SamplePanel } from './components/SamplePanel';
+import { LibraryPanel } from './components/LibraryPanel';
+import { BankPanel } from './components/BankPanel';
+import { ReverbPanel } from './components/ReverbPanel';
+import { FxRackPanel } from './components/FxRackPanel';
+import { AuxPanel } from './components/AuxPanel';
+import { CustomScales } from './components/CustomScales';
+import { AudioSettings, PhysicsSettings, MusicSettings, PhysicsKnobs, LofiSettings, SynthSettings, TempoSettings, TimbreSettings, HarmonySettings, ProgressionSettings, MelodySettings, GrooveSettings, RoleSettings, BankSettings, ReverbSettings, ImpulseSettings, FxRackSettings, AuxSettings, MultibandSettings } from './types';
+import { sampleLibrary } from './services/sampleLibrary';
 import { audioService } from './services/audioEngine';
-import { SCALES, DEFAULT_SCALE_ID } from './src/music/scales';
+import { midiService } from './services/midi';
+import { SCALES, DEFAULT_SCALE_ID, resolveScale, type ScaleDef } from './src/music/scales';
 import { NOTE_NAMES, pitchClassToNoteName } from './src/music/notes';
+import { bpmToPhysicsTempo, physicsTempoToBpm, resolveBpm, tempoKnobToPhysics } from './src/music/tempo';
+import { applyProgressionStep } from './src/music/progression';
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  DEFAULT_AUX_SETTINGS,
+  DEFAULT_GYRO_SETTINGS,
+  DEFAULT_LOFI_SETTINGS,
+  DEFAULT_MUSIC_SETTINGS,
+  DEFAULT_PHYSICS_KNOBS,
+  DEFAULT_SYNTH_SETTINGS,
+  DEFAULT_TEMPO_SETTINGS,
+  DEFAULT_TIMBRE_SETTINGS,
+  DEFAULT_HARMONY_SETTINGS,
+  DEFAULT_PROGRESSION_SETTINGS,
+  DEFAULT_MELODY_SETTINGS,
+  DEFAULT_MULTIBAND_SETTINGS,
+  DEFAULT_GROOVE_SETTINGS,
+  DEFAULT_ROLE_SETTINGS,
+  DEFAULT_BANK_SETTINGS,
+  DEFAULT_REVERB_SETTINGS,
+  DEFAULT_IMPULSE_SETTINGS,
+  DEFAULT_FX_RACK_SETTINGS,
+} from './src/scene/defaults';
+import type { SceneState } from './src/scene/presets';
 import {
   Waves,
   Activity,
@@ -57,6 +103,7 @@ type KnobWithIconProps = {
   onIconClick?: () => void;
   children?: React.ReactNode;
   live?: boolean;
+  format?: (v: number) => string;
 };
 
 const KnobWithIcon: React.FC<KnobWithIconProps> = ({
@@ -69,20 +116,23 @@ const KnobWithIcon: React.FC<KnobWithIconProps> = ({
   onIconClick,
   children,
   live = false,
+  format = (v) => v.toFixed(2),
 }) => (
   <div className="flex flex-col items-center gap-2 group relative w-20" title={label}>
-    <BufferedKnob
-      value={value}
-      onCommit={onChange}
-      live={live}
-      min={0}
-      max={1}
-      steps={step ? Math.round(1 / step) + 1 : undefined}
-      defaultValue={defaultValue}
-      size={46}
-      color="#7A8476"
-      format={(v) => v.toFixed(2)}
-    />
+    <MidiLearnable id={`knob.${label.toLowerCase()}`} label={label} value={value} onChange={onChange}>
+      <BufferedKnob
+        value={value}
+        onCommit={onChange}
+        live={live}
+        min={0}
+        max={1}
+        steps={step ? Math.round(1 / step) + 1 : undefined}
+        defaultValue={defaultValue}
+        size={46}
+        color="#7A8476"
+        format={format}
+      />
+    </MidiLearnable>
     {onIconClick ? (
       <button
         type="button"
@@ -118,53 +168,44 @@ const App: React.FC = () => {
   const testReportUrl = `${basePath}/reports/executive_test_report.html`;
 
   // Mixer-controlled audio params only (avoid rewriting these on every knob tick)
-  const [mixerSettings, setMixerSettings] = useState<AudioSettings>({
-    volume: 0.7,
-    low: 0,
-    mid: 0,
-    high: 0,
-    reverbWet: 0.3,
-    baseFrequency: 440,
-    pingPongWet: 0.0,
-    sampleGain: 1,
-    compThreshold: -12,
-    compRatio: 3,
-    compAttack: 0.005,   // 5ms
-    compRelease: 0.5,    // 500ms
-    makeupGainDb: 8,
-    limiterThreshold: -1,
-  });
+  const [mixerSettings, setMixerSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
 
   // Physics knobs (0..1)
-  const [physicsKnobs, setPhysicsKnobs] = useState({
-    reverb: 0.3,
-    tempo: 0.5,
-    gravity: 0.0,
-    budding: 0.0,
-    cannibalism: 0.0,
-    wind: 0.0,
-    reverse: 0.0,
-    tuning: 0.5,
-    blackHole: 0.0,
-    doppler: 0.0,
-    pingPong: 0.0,
-    weakness: 0.0,
-    magneto: 0.5,
-    fragmentation: 0.0,
-    freeze: 0.0,
-    geometryWarp: 0.0,
-    roomWave: 0.0,
-  });
-
-  const [musicSettings, setMusicSettings] = useState<MusicSettings>({
-    root: 0,
-    scaleId: SCALES[DEFAULT_SCALE_INDEX]?.id ?? DEFAULT_SCALE_ID,
-    scaleIndex: DEFAULT_SCALE_VALUE,
-    quantizeEnabled: true,
-    noImmediateRepeat: true,
-    avoidLeadingTone: false,
-    noThirds: false,
-  });
+  const [physicsKnobs, setPhysicsKnobs] = useState<PhysicsKnobs>(DEFAULT_PHYSICS_KNOBS);
+
+  const [musicSettings, setMusicSettings] = useState<MusicSettings>(DEFAULT_MUSIC_SETTINGS);
+
+  const [lofiSettings, setLofiSettings] = useState<LofiSettings>(DEFAULT_LOFI_SETTINGS);
+
+  // Deterministic run seed (null = free-running Math.random)
+  const [seed, setSeed] = useState<number | null>(null);
+
+  const [tempo, setTempo] = useState<TempoSettings>(DEFAULT_TEMPO_SETTINGS);
+  const clockBpm = useSyncExternalStore(
+    midiService.subscribe,
+    () => midiService.getState().clockBpm,
+    () => null
+  );
+  const bpm = resolveBpm(tempo, clockBpm);
+
+  const [synth, setSynth] = useState<SynthSettings>(DEFAULT_SYNTH_SETTINGS);
+  const [timbre, setTimbre] = useState<TimbreSettings>(DEFAULT_TIMBRE_SETTINGS);
+  const [harmony, setHarmony] = useState<HarmonySettings>(DEFAULT_HARMONY_SETTINGS);
+  const [progression, setProgression] = useState<ProgressionSettings>(DEFAULT_PROGRESSION_SETTINGS);
+  const [melody, setMelody] = useState<MelodySettings>(DEFAULT_MELODY_SETTINGS);
+  const [groove, setGroove] = useState<GrooveSettings>(DEFAULT_GROOVE_SETTINGS);
+  const [roles, setRoles] = useState<RoleSettings>(DEFAULT_ROLE_SETTINGS);
+  const [banks, setBanks] = useState<BankSettings>(DEFAULT_BANK_SETTINGS);
+  const [reverb, setReverb] = useState<ReverbSettings>(DEFAULT_REVERB_SETTINGS);
+  const [impulse, setImpulse] = useState<ImpulseSettings>(DEFAULT_IMPULSE_SETTINGS);
+  const [fxRack, setFxRack] = useState<FxRackSettings>(DEFAULT_FX_RACK_SETTINGS);
+  const [aux, setAux] = useState<AuxSettings>(DEFAULT_AUX_SETTINGS);
+  const [multiband, setMultiband] = useState<MultibandSettings>(DEFAULT_MULTIBAND_SETTINGS);
+  const progressionPosition = useSyncExternalStore(
+    audioService.subscribeProgression,
+    audioService.getProgressionPosition,
+    audioService.getProgressionPosition
+  );
 
   const [isMusicOpen, setIsMusicOpen] = useState(false);
   const musicPanelRef = useRef<HTMLDivElement>(null);
@@ -172,7 +213,7 @@ const App: React.FC = () => {
   // Derived physics for engine (memoized to avoid object churn each render)
   const physicsSettings: PhysicsSettings = useMemo(
     () => ({
-      tempo: physicsKnobs.tempo * 2 + 0.1,
+      tempo: tempo.physicsSync ? bpmToPhysicsTempo(bpm) : tempoKnobToPhysics(physicsKnobs.tempo),
       gravity: physicsKnobs.gravity,
       buddingChance: physicsKnobs.budding,
       cannibalism: physicsKnobs.cannibalism,
@@ -188,7 +229,7 @@ const App: React.FC = () => {
       geometryWarp: physicsKnobs.geometryWarp,
       roomWave: physicsKnobs.roomWave,
     }),
-    [physicsKnobs]
+    [physicsKnobs, tempo.physicsSync, bpm]
   );
 
   // Derived audio params from knobs
@@ -258,6 +299,80 @@ const App: React.FC = () => {
     audioService.updateMusicSettings(musicSettings);
   }, [musicSettings]);
 
+  useEffect(() => {
+    audioService.setRandomSeed(seed);
+  }, [seed]);
+
+  useEffect(() => {
+    audioService.setTempo({ ...tempo, bpm });
+  }, [tempo, bpm]);
+
+  useEffect(() => {
+    audioService.setSynthSettings(synth);
+  }, [synth]);
+
+  useEffect(() => {
+    audioService.setTimbreSettings(timbre);
+  }, [timbre]);
+
+  useEffect(() => {
+    audioService.setHarmonySettings(harmony);
+  }, [harmony]);
+
+  useEffect(() => {
+    audioService.setProgressionSettings(progression);
+  }, [progression]);
+
+  useEffect(() => {
+    audioService.setMelodySettings(melody);
+  }, [melody]);
+
+  useEffect(() => {
+    audioService.setGrooveSettings(groove);
+  }, [groove]);
+
+  useEffect(() => {
+    audioService.setRoleSettings(roles);
+  }, [roles]);
+
+  useEffect(() => {
+    audioService.setBankSettings(banks);
+  }, [banks]);
+
+  useEffect(() => {
+    audioService.setReverbSettings(reverb);
+  }, [reverb]);
+
+  useEffect(() => {
+    audioService.setImpulseSettings(impulse);
+  }, [impulse]);
+
+  useEffect(() => {
+    audioService.setFxRackSettings(fxRack);
+  }, [fxRack]);
+
+  useEffect(() => {
+    audioService.setAuxSettings(aux);
+  }, [aux]);
+
+  useEffect(() => {
+    audioService.setMultibandSettings(multiband);
+  }, [multiband]);
+
+  // A scene naming a user IR pulls it from the library; the room plays until (or unless) it loads.
+  useEffect(() => {
+    if (impulse.source === 'user' && impulse.sampleId) void sampleLibrary.loadImpulse(impulse.sampleId);
+  }, [impulse.source, impulse.sampleId]);
+
+  // Following MIDI clock needs input ports even when MIDI out and learn are off.
+  useEffect(() => {
+    if (tempo.source === 'midi') void midiService.requestAccess();
+  }, [tempo.source]);
+
+  const updateTempo = useCallback((patch: Partial<TempoSettings>) => {
+    setTempo((prev) => ({ ...prev, ...patch }));
+  }, []);
+
   const handleStart = useCallback(async () => {
     const next = !isPlaying;
     setIsPlaying(next);
@@ -297,7 +412,9 @@ const App: React.FC = () => {
     setAudioNeedsUnlock(false);
     await audioService.suspend();
     visualizerRef.current?.reset();
-  }, []);
+    // Stop rewinds the seeded streams so the next Play replays the same run.
+    audioService.setRandomSeed(seed);
+  }, [seed]);
 
   const handleUnlockAudio = useCallback(async () => {
     try {
@@ -310,17 +427,29 @@ const App: React.FC = () => {
     setAudioNeedsUnlock(state !== 'running');
   }, [hasInteracted]);
 
+  // What the room plays right now: the panel's settings with the progression step applied.
+  const playedMusic = useMemo(
+    () => applyProgressionStep(musicSettings, progressionPosition.step),
+    [musicSettings, progressionPosition]
+  );
+
   const selectedScale = useMemo(
-    () => SCALES.find((scale) => scale.id === musicSettings.scaleId) ?? FALLBACK_SCALE,
-    [musicSettings.scaleId]
+    () => (playedMusic.customScale ? resolveScale(playedMusic) : SCALES.find((scale) => scale.id === playedMusic.scaleId) ?? FALLBACK_SCALE),
+    [playedMusic]
   );
 
   const scalePreview = useMemo(() => {
-    const rootName = pitchClassToNoteName(musicSettings.root);
+    const rootName = pitchClassToNoteName(playedMusic.root);
+    const tuning = selectedScale.tuning;
+    const step = progressionPosition.step ? ` | step ${progressionPosition.index + 1}: ${progressionPosition.step.label}` : '';
+    if (tuning) {
+      const cents = tuning.cents.map((c) => c.toFixed(1)).join(' ');
+      return `Scale: ${rootName} ${selectedScale.label} | cents: ${cents} | period: ${tuning.period.toFixed(1)}${step}`;
+    }
     const intervals = selectedScale.intervals.join(' ');
-    const notes = selectedScale.intervals.map((i) => pitchClassToNoteName(musicSettings.root + i)).join(' ');
-    return `Scale: ${rootName} ${selectedScale.label} | intervals: ${intervals} | notes: ${notes}`;
-  }, [musicSettings.root, selectedScale]);
+    const notes = selectedScale.intervals.map((i) => pitchClassToNoteName(playedMusic.root + i)).join(' ');
+    return `Scale: ${rootName} ${selectedScale.label} | intervals: ${intervals} | notes: ${notes}${step}`;
+  }, [playedMusic.root, selectedScale, progressionPosition]);
 
   const setScaleByIndex = useCallback((index: number) => {
     const clamped = clampScaleIndex(index);
@@ -329,9 +458,14 @@ const App: React.FC = () => {
       ...prev,
       scaleId: scale.id,
       scaleIndex: scaleValueFromIndex(clamped),
+      customScale: null,
     }));
   }, []);
 
+  const selectCustomScale = useCallback((scale: ScaleDef, root?: number) => {
+    setMusicSettings((prev) => ({ ...prev, scaleId: scale.id, customScale: scale, root: root ?? prev.root }));
+  }, []);
+
   const setScaleById = useCallback((scaleId: string) => {
     const index = SCALES.findIndex((scale) => scale.id === scaleId);
     setScaleByIndex(index >= 0 ? index : DEFAULT_SCALE_INDEX);
@@ -345,6 +479,74 @@ const App: React.FC = () => {
     setIsMusicOpen((prev) => !prev);
   }, []);
 
+  const getScene = useCallback((): SceneState => ({
+    audio: mixerSettings,
+    physics: physicsKnobs,
+    music: musicSettings,
+    lofi: lofiSettings,
+    gyro: visualizerRef.current?.getGyroState() ?? DEFAULT_GYRO_SETTINGS,
+    tempo,
+    synth,
+    timbre,
+    harmony,
+    progression,
+    melody,
+    groove,
+    roles,
+    banks,
+    reverb,
+    impulse,
+    fxRack,
+    aux,
+    multiband,
+    seed,
+  }), [mixerSettings, physicsKnobs, musicSettings, lofiSettings, tempo, synth, timbre, harmony, progression, melody, groove, roles, banks, reverb, impulse, fxRack, aux, multiband, seed]);
+
+  const getBounceSession = useCallback((): BounceSession => ({
+    audio: engineAudioSettings,
+    physics: physicsSettings,
+    music: musicSettings,
+    seed,
+    room: visualizerRef.current?.getRoomSnapshot() ?? null,
+  }), [engineAudioSettings, physicsSettings, musicSettings, seed]);
+
+  // Gyro rings live on the canvas, so MIDI-learn reaches them through the Visualizer handle.
+  const setGyroAxis = useCallback((axis: 'pan' | 'depth' | 'width', value: number) => {
+    const visualizer = visualizerRef.current;
+    if (!visualizer) return;
+    visualizer.setGyroState({ ...visualizer.getGyroState(), [axis]: value });
+  }, []);
+  const readGyroAxis = (axis: 'pan' | 'depth' | 'width') => () => visualizerRef.current?.getGyroState()[axis] ?? 0;
+  useMidiControl('gyro.pan', 'Gyro Pan', readGyroAxis('pan'), (v) => setGyroAxis('pan', v), -1, 1);
+  useMidiControl('gyro.depth', 'Gyro Depth', readGyroAxis('depth'), (v) => setGyroAxis('depth', v), -1, 1);
+  useMidiControl('gyro.width', 'Gyro Width', readGyroAxis('width'), (v) => setGyroAxis('width', v), -1, 1);
+
+  // Engine settings follow state through the effects above; LO-FI and gyro are pushed directly.
+  const applyScene = useCallback((scene: SceneState) => {
+    setMixerSettings(scene.audio);
+    setPhysicsKnobs(scene.physics);
+    setMusicSettings(scene.music);
+    setLofiSettings(scene.lofi);
+    setTempo(scene.tempo);
+    setSynth(scene.synth);
+    setTimbre(scene.timbre);
+    setHarmony(scene.harmony);
+    setProgression(scene.progression);
+    setMelody(scene.melody);
+    setGroove(scene.groove);
+    setRoles(scene.roles);
+    setBanks(scene.banks);
+    setReverb(scene.reverb);
+    setImpulse(scene.impulse);
+    setFxRack(scene.fxRack);
+    setAux(scene.aux);
+    setMultiband(scene.multiband);
+    setSeed(scene.seed);
+    audioService.setLofiParams(scene.lofi);
+    audioService.setLofiEnabled(scene.lofi.enabled);
+    visualizerRef.current?.setGyroState(scene.gyro);
+  }, []);
+
   // helpers: reduce inline noise
   const setKnob = useCallback(<K extends keyof typeof physicsKnobs>(key: K, v: number) => {
     setPhysicsKnobs((p) => ({ ...p, [key]: v }));
@@ -378,13 +580,21 @@ const App: React.FC = () => {
             physics={physicsSettings}
             audioSettings={engineAudioSettings}
             musicSettings={musicSettings}
+            seed={seed}
           />
         </div>
 
         <div className="flex flex-col xl:flex-row justify-center gap-6 mb-1">
           <div className="relative flex flex-wrap justify-center gap-4 px-4 py-4 bg-[#F2F2F0] rounded-3xl border border-[#B9BCB7] shadow-sm w-full xl:w-auto">
             <GroupLabel text="Physics" />
-            <KnobWithIcon value={physicsKnobs.tempo} onChange={(v) => setKnob('tempo', v)} icon={Activity} label="Tempo" defaultValue={0.5} />
+            <KnobWithIcon
+              value={physicsKnobs.tempo}
+              onChange={(v) => setKnob('tempo', v)}
+              icon={Activity}
+              label="Tempo"
+              defaultValue={0.5}
+              format={(v) => `${Math.round(physicsTempoToBpm(tempoKnobToPhysics(v)))} BPM`}
+            />
             <KnobWithIcon value={physicsKnobs.gravity} onChange={(v) => setKnob('gravity', v)} icon={MoveDown} label="Gravity" defaultValue={0.0} />
             <KnobWithIcon value={physicsKnobs.wind} onChange={(v) => setKnob('wind', v)} icon={Wind} label="Wind" defaultValue={0.0} />
             <KnobWithIcon value={physicsKnobs.freeze} onChange={(v) => setKnob('freeze', v)} icon={Snowflake} label="Freeze" defaultValue={0.0} />
@@ -477,6 +687,12 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  <CustomScales
+                    activeScaleId={musicSettings.scaleId}
+                    activeScale={musicSettings.customScale ?? null}
+                    onSelect={selectCustomScale}
+                  />
+
                   <div className="mt-3 grid grid-cols-2 gap-2 text-[9px] uppercase tracking-widest text-[#5F665F]">
                     <label className="flex items-center gap-2">
                       <input
@@ -527,11 +743,48 @@ const App: React.FC = () => {
         <Mixer
           settings={engineAudioSettings}
           setSettings={setMixerSettings}
+          lofi={lofiSettings}
+          setLofi={setLofiSettings}
+          multiband={multiband}
+          setMultiband={setMultiband}
           isPlaying={isPlaying}
           onPlayPause={handleStart}
           onStop={handleStop}
         />
 
+        <ReverbPanel reverb={reverb} onChange={setReverb} impulse={impulse} onImpulseChange={setImpulse} />
+        <AuxPanel aux={aux} onChange={setAux} />
+        <FxRackPanel rack={fxRack} onChange={setFxRack} />
+
+        <SamplePanel />
+        <BankPanel banks={banks} onChange={setBanks} />
+        <LibraryPanel />
+
+        <SynthPanel synth={synth} onChange={setSynth} />
+
+        <TimbrePanel timbre={timbre} onChange={setTimbre} />
+        <RolePanel roles={roles} onChange={setRoles} />
+        <HarmonyPanel harmony={harmony} onChange={setHarmony} />
+        <ProgressionPanel
+          progression={progression}
+          position={progressionPosition}
+          customScale={musicSettings.customScale ?? null}
+          onChange={setProgression}
+          onJump={(index) => audioService.jumpProgression(index)}
+        />
+        <MelodyPanel melody={melody} root={playedMusic.root} onChange={setMelody} />
+
+        <TempoPanel tempo={tempo} onChange={updateTempo} bpm={bpm} clockBpm={clockBpm} />
+        <GroovePanel groove={groove} bpm={bpm} onChange={setGroove} />
+
+        <ScenePresets getScene={getScene} onLoad={applyScene} seed={seed} onSeedChange={setSeed} />
+
+        <BounceExport getSession={getBounceSession} />
+
+        <MasterTakes />
+
+        <MidiPanel />
+
         {!hasInteracted && (
           <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-[#F2F2F0] opacity-100">
             <div className="relative w-64 h-64 md:w-80 md:h-80 mb-12">
@@ -0,0 +1,216 @@
+import React from 'react';
+import { Send } from 'lucide-react';
+import type { AuxBusId, AuxFxBusId, AuxReturnSettings, AuxSend, AuxSettings, InsertEffectId, SoundRole } from '../types';
+import { AUX_BUSES, AUX_EFFECTS, AUX_FX_BUSES, AUX_SEND_SOURCES, defaultAuxSettings } from '../src/audio/auxSends';
+import { SOUND_ROLES } from '../src/audio/roles';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type AuxPanelProps = {
+  aux: AuxSettings;
+  onChange: React.Dispatch<React.SetStateAction<AuxSettings>>;
+};
+
+type CurveKnob = {
+  id: 'low' | 'high' | 'curve';
+  label: string;
+  range: [number, number];
+  format: (v: number) => string;
+};
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider disabled:text-[#C7C9C5]';
+
+const formatPercent = (v: number) => `${Math.round(v * 100)}%`;
+
+const CURVE_KNOBS: CurveKnob[] = [
+  { id: 'low', label: 'Low', range: [0, 1], format: formatPercent },
+  { id: 'high', label: 'High', range: [0, 1], format: formatPercent },
+  { id: 'curve', label: 'Curve', range: [-1, 1], format: (v) => (Math.abs(v) < 0.02 ? 'Linear' : v < 0 ? 'Early' : 'Late') },
+];
+
+// What Low and High mean for each source, in the words of the room.
+const SOURCE_ENDS: Record<AuxSend['source'], [string, string]> = {
+  fixed: ['', 'Send'],
+  depth: ['Near', 'Far'],
+  size: ['Small', 'Large'],
+};
+
+const DEFAULT_AUX = defaultAuxSettings();
+
+const isFxBus = (bus: AuxBusId): bus is AuxFxBusId => (AUX_FX_BUSES as AuxBusId[]).includes(bus);
+
+export const AuxPanel: React.FC<AuxPanelProps> = ({ aux, onChange }) => {
+  const sending = AUX_BUSES.filter(({ id }) => {
+    const send = aux.sends[id];
+    return send.high > 0 || (send.source !== 'fixed' && send.low > 0);
+  }).length;
+
+  // Functional updates: MIDI can move several knobs before the next render.
+  const updateSend = (bus: AuxBusId, patch: Partial<AuxSend>) =>
+    onChange((prev) => ({ ...prev, sends: { ...prev.sends, [bus]: { ...prev.sends[bus], ...patch } } }));
+  const updateRole = (bus: AuxBusId, role: SoundRole, value: number) =>
+    onChange((prev) => ({
+      ...prev,
+      sends: { ...prev.sends, [bus]: { ...prev.sends[bus], roles: { ...prev.sends[bus].roles, [role]: value } } },
+    }));
+  const updateReturn = (bus: AuxFxBusId, patch: Partial<AuxReturnSettings>) =>
+    onChange((prev) => ({ ...prev, returns: { ...prev.returns, [bus]: { ...prev.returns[bus], ...patch } } }));
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Send size={12} /> AUX SENDS
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">
+          {sending ? `${sending} of ${AUX_BUSES.length} buses fed` : 'Every send closed'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => onChange(defaultAuxSettings())}
+          aria-label="Reset aux sends"
+          className={chipClass(false)}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3 px-2 overflow-x-auto">
+        {AUX_BUSES.map((bus) => {
+          const send = aux.sends[bus.id];
+          const fixed = send.source === 'fixed';
+          const ends = SOURCE_ENDS[send.source];
+          const fxBus = isFxBus(bus.id) ? bus.id : null;
+          return (
+            <div key={bus.id} className="flex items-end gap-4">
+              <div className="flex flex-col gap-1 w-44 shrink-0">
+                <span className="text-[8px] uppercase text-[#7A8476]">{bus.label}</span>
+                {fxBus && (
+                  <select
+                    value={aux.returns[fxBus].effect}
+                    onChange={(e) => updateReturn(fxBus, { effect: e.target.value as InsertEffectId })}
+                    aria-label={`${bus.label} effect`}
+                    className={selectClass}
+                  >
+                    {AUX_EFFECTS.map((effect) => (
+                      <option key={effect.id} value={effect.id}>
+                        {effect.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <div className="flex gap-1">
+                  {AUX_SEND_SOURCES.map((source) => (
+                    <button
+                      key={source.id}
+                      type="button"
+                      onClick={() => updateSend(bus.id, { source: source.id })}
+                      aria-pressed={send.source === source.id}
+                      aria-label={`${bus.label} send by ${source.label}`}
+                      className={chipClass(send.source === source.id)}
+                    >
+                      {source.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {CURVE_KNOBS.map((knob) => {
+                // A fixed send has one level; the curve only bends a send that follows the room.
+                const disabled = fixed && knob.id !== 'high';
+                const label = knob.id === 'low' ? ends[0] || knob.label : knob.id === 'high' ? ends[1] : knob.label;
+                const set = (v: number) => updateSend(bus.id, { [knob.id]: v });
+                return (
+                  <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+                    <MidiLearnable
+                      id={`aux.${bus.id}.${knob.id}`}
+                      label={`Aux ${bus.label} ${knob.label}`}
+                      value={send[knob.id]}
+                      onChange={set}
+                      min={knob.range[0]}
+                      max={knob.range[1]}
+                    >
+                      <BufferedKnob
+                        value={send[knob.id]}
+                        onCommit={set}
+                        min={knob.range[0]}
+                        max={knob.range[1]}
+                        defaultValue={DEFAULT_AUX.sends[bus.id][knob.id]}
+                        size={34}
+                        color="#7A8476"
+                        format={knob.format}
+                        disabled={disabled}
+                      />
+                    </MidiLearnable>
+                    <span className="text-[8px] uppercase text-[#7A8476]">{label}</span>
+                  </div>
+                );
+              })}
+
+              {fxBus ? (
+                <div className="flex flex-col items-center gap-1 w-16">
+                  <MidiLearnable
+                    id={`aux.${fxBus}.return`}
+                    label={`Aux ${bus.label} Return`}
+                    value={aux.returns[fxBus].level}
+                    onChange={(v) => updateReturn(fxBus, { level: v })}
+                    min={0}
+                    max={1}
+                  >
+                    <BufferedKnob
+                      value={aux.returns[fxBus].level}
+                      onCommit={(v) => updateReturn(fxBus, { level: v })}
+                      min={0}
+                      max={1}
+                      defaultValue={DEFAULT_AUX.returns[fxBus].level}
+                      size={34}
+                      color="#7A8476"
+                      format={formatPercent}
+                    />
+                  </MidiLearnable>
+                  <span className="text-[8px] uppercase text-[#7A8476]">Return</span>
+                </div>
+              ) : (
+                // Reverb and delay come back on the Mixer's wet knobs.
+                <div className="w-16 pb-1 text-center text-[8px] uppercase text-[#7A8476]">Mixer</div>
+              )}
+
+              <div className="flex items-end gap-1 border-l border-[#C7C9C5] pl-3">
+                {SOUND_ROLES.map((role) => (
+                  <div key={role.id} className="flex flex-col items-center gap-1 w-12">
+                    <MidiLearnable
+                      id={`aux.${bus.id}.role.${role.id}`}
+                      label={`Aux ${bus.label} ${role.label}`}
+                      value={send.roles[role.id]}
+                      onChange={(v) => updateRole(bus.id, role.id, v)}
+                      min={0}
+                      max={1}
+                    >
+                      <BufferedKnob
+                        value={send.roles[role.id]}
+                        onCommit={(v) => updateRole(bus.id, role.id, v)}
+                        min={0}
+                        max={1}
+                        defaultValue={1}
+                        size={26}
+                        color="#7A8476"
+                        format={formatPercent}
+                      />
+                    </MidiLearnable>
+                    <span className="text-[8px] uppercase text-[#7A8476]">{role.label}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
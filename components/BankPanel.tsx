@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Layers } from 'lucide-react';
+import type { BankSettings, SampleBankId, SlotRule, SlotZone } from '../types';
+import {
+  BANK_SELECT_MODES,
+  BANK_SLOT_RANGE,
+  SLOT_WEIGHT_RANGE,
+  SLOT_ZONES,
+  bankSlotCount,
+  defaultBankSettings,
+  defaultSlotRule,
+} from '../src/audio/bankSelect';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type BankPanelProps = {
+  banks: BankSettings;
+  onChange: React.Dispatch<React.SetStateAction<BankSettings>>;
+};
+
+type RuleKnob = {
+  id: 'weight' | 'minSize' | 'maxSize';
+  label: string;
+  range: [number, number];
+  format: (v: number) => string;
+};
+
+type SizeKnob = {
+  id: 'micSlots' | 'smpSlots' | 'synthWeight';
+  label: string;
+  value: number;
+  set: (v: number) => void;
+  range: [number, number];
+  steps?: number;
+  format: (v: number) => string;
+};
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider';
+
+const formatWeight = (v: number) => (v <= 0 ? 'Off' : `x${v.toFixed(2)}`);
+const formatSize = (v: number) => `${Math.round(v * 100)}%`;
+
+const RULE_KNOBS: RuleKnob[] = [
+  { id: 'weight', label: 'Weight', range: SLOT_WEIGHT_RANGE, format: formatWeight },
+  { id: 'minSize', label: 'Min size', range: [0, 1], format: formatSize },
+  { id: 'maxSize', label: 'Max size', range: [0, 1], format: formatSize },
+];
+
+const DEFAULT_RULE = defaultSlotRule();
+const DEFAULT_BANKS = defaultBankSettings();
+
+const BANK_TABS: { id: SampleBankId; label: string }[] = [
+  { id: 'mic', label: 'Mic' },
+  { id: 'smp', label: 'Samples' },
+];
+
+const SLOT_STEPS = BANK_SLOT_RANGE[1] - BANK_SLOT_RANGE[0] + 1;
+const formatCount = (v: number) => `${Math.round(v)}`;
+
+export const BankPanel: React.FC<BankPanelProps> = ({ banks, onChange }) => {
+  const [tab, setTab] = useState<SampleBankId>('smp');
+  const { mode } = banks;
+  const prefix = tab === 'mic' ? 'M' : 'S';
+  const modeLabel = BANK_SELECT_MODES.find((entry) => entry.id === mode)?.label ?? mode;
+
+  // Functional updates: MIDI can move several knobs before the next render.
+  const updateRule = (bank: SampleBankId, index: number, patch: Partial<SlotRule>) =>
+    onChange((prev) => ({
+      ...prev,
+      rules: { ...prev.rules, [bank]: prev.rules[bank].map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) },
+    }));
+  const setSlots = (bank: SampleBankId, value: number) =>
+    onChange((prev) => ({ ...prev, [bank === 'mic' ? 'micSlots' : 'smpSlots']: Math.round(value) }));
+
+  const sizeKnobs: SizeKnob[] = [
+    { id: 'micSlots', label: 'Mic slots', value: banks.micSlots, set: (v) => setSlots('mic', v), range: BANK_SLOT_RANGE, steps: SLOT_STEPS, format: formatCount },
+    { id: 'smpSlots', label: 'Smp slots', value: banks.smpSlots, set: (v) => setSlots('smp', v), range: BANK_SLOT_RANGE, steps: SLOT_STEPS, format: formatCount },
+    { id: 'synthWeight', label: 'Synth', value: banks.synthWeight, set: (v) => onChange((prev) => ({ ...prev, synthWeight: v })), range: SLOT_WEIGHT_RANGE, format: formatWeight },
+  ];
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Layers size={12} /> BANKS
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">
+          {banks.micSlots} mic {banks.smpSlots} smp {modeLabel}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        {BANK_SELECT_MODES.map((entry) => (
+          <button
+            key={entry.id}
+            type="button"
+            onClick={() => onChange((prev) => ({ ...prev, mode: entry.id }))}
+            aria-pressed={mode === entry.id}
+            className={chipClass(mode === entry.id)}
+          >
+            {entry.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange(defaultBankSettings())}
+          aria-label="Reset banks"
+          className={chipClass(false)}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2 mb-2">
+        {sizeKnobs.map((knob) => (
+          <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+            <MidiLearnable
+              id={`banks.${knob.id}`}
+              label={`Banks ${knob.label}`}
+              value={knob.value}
+              onChange={knob.set}
+              min={knob.range[0]}
+              max={knob.range[1]}
+            >
+              <BufferedKnob
+                value={knob.value}
+                onCommit={knob.set}
+                min={knob.range[0]}
+                max={knob.range[1]}
+                steps={knob.steps}
+                defaultValue={DEFAULT_BANKS[knob.id]}
+                size={34}
+                color="#7A8476"
+                format={knob.format}
+              />
+            </MidiLearnable>
+            <span className="text-[8px] uppercase text-[#7A8476]">{knob.label}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 ml-auto text-[9px] uppercase text-[#7A8476]">
+          {BANK_TABS.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => setTab(entry.id)}
+              aria-pressed={tab === entry.id}
+              aria-label={`${entry.label} slot rules`}
+              className={chipClass(tab === entry.id)}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 px-2 max-h-72 overflow-y-auto">
+        {banks.rules[tab].slice(0, bankSlotCount(banks, tab)).map((rule, index) => {
+          const label = `${prefix}${String(index + 1).padStart(2, '0')}`;
+          return (
+            <div key={label} className="flex items-end gap-4">
+              <div className="flex flex-col gap-1 w-24">
+                <span className="text-[8px] uppercase text-[#7A8476]">{label}</span>
+                <select
+                  value={rule.zone}
+                  onChange={(e) => updateRule(tab, index, { zone: e.target.value as SlotZone })}
+                  aria-label={`${label} zone`}
+                  className={selectClass}
+                >
+                  {SLOT_ZONES.map((zone) => (
+                    <option key={zone.id} value={zone.id}>
+                      {zone.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {RULE_KNOBS.map((knob) => {
+                const set = (v: number) => updateRule(tab, index, { [knob.id]: v });
+                return (
+                  <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+                    <MidiLearnable
+                      id={`banks.${tab}.${index}.${knob.id}`}
+                      label={`Slot ${label} ${knob.label}`}
+                      value={rule[knob.id]}
+                      onChange={set}
+                      min={knob.range[0]}
+                      max={knob.range[1]}
+                    >
+                      <BufferedKnob
+                        value={rule[knob.id]}
+                        onCommit={set}
+                        min={knob.range[0]}
+                        max={knob.range[1]}
+                        defaultValue={DEFAULT_RULE[knob.id]}
+                        size={34}
+                        color="#7A8476"
+                        format={knob.format}
+                      />
+                    </MidiLearnable>
+                    <span className="text-[8px] uppercase text-[#7A8476]">{knob.label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
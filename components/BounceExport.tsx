@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Disc3, Download } from 'lucide-react';
+import type { WavFormat } from '../src/audio/wav';
+import { MAX_BOUNCE_SECONDS, renderBounce, type BounceRequest } from '../services/offlineRender';
+
+export type BounceSession = Omit<BounceRequest, 'seconds' | 'format' | 'onProgress'>;
+
+interface BounceExportProps {
+  getSession: () => BounceSession;
+}
+
+const FORMATS: { id: WavFormat; label: string }[] = [
+  { id: 'pcm24', label: '24-bit' },
+  { id: 'float32', label: '32-float' },
+];
+
+const MAX_MINUTES = MAX_BOUNCE_SECONDS / 60;
+
+const bounceFileName = (minutes: number, format: WavFormat) => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `glassroom-bounce-${minutes}min-${format === 'float32' ? '32f' : '24b'}-${stamp}.wav`;
+};
+
+export const BounceExport: React.FC<BounceExportProps> = ({ getSession }) => {
+  const [minutesText, setMinutesText] = useState('3');
+  const [format, setFormat] = useState<WavFormat>('pcm24');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [status, setStatus] = useState('');
+  const [result, setResult] = useState<{ url: string; name: string } | null>(null);
+  const resultUrlRef = useRef<string | null>(null);
+
+  useEffect(() => () => {
+    if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+  }, []);
+
+  const minutes = Math.max(0.1, Math.min(MAX_MINUTES, Number(minutesText) || 0));
+  const rendering = progress !== null;
+
+  const handleRender = async () => {
+    if (rendering) return;
+    if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+    resultUrlRef.current = null;
+    setResult(null);
+    setProgress(0);
+    setStatus('Rendering');
+    try {
+      const blob = await renderBounce({
+        ...getSession(),
+        seconds: minutes * 60,
+        format,
+        onProgress: setProgress,
+      });
+      const url = URL.createObjectURL(blob);
+      resultUrlRef.current = url;
+      setResult({ url, name: bounceFileName(minutes, format) });
+      setStatus(`Ready ${(blob.size / (1024 * 1024)).toFixed(1)} MB`);
+    } catch (err) {
+      console.warn('Bounce failed:', err);
+      setStatus('Bounce failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Disc3 size={12} /> BOUNCE
+        {status && <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[9px] uppercase text-[#7A8476]">
+        <span className="pl-1">Minutes</span>
+        <input
+          type="number"
+          min={0.1}
+          max={MAX_MINUTES}
+          step={0.5}
+          value={minutesText}
+          onChange={(e) => setMinutesText(e.target.value)}
+          disabled={rendering}
+          aria-label="Bounce length in minutes"
+          className="w-16 bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+        />
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as WavFormat)}
+          disabled={rendering}
+          aria-label="Bounce format"
+          className="bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+        >
+          {FORMATS.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => {
+            void handleRender();
+          }}
+          disabled={rendering}
+          title="Runs the room offline from its current state and renders the master bus to WAV"
+          aria-label="Render bounce"
+          className={`h-6 px-3 rounded-full border flex items-center gap-1 text-[9px] uppercase tracking-widest transition-all ${
+            rendering ? 'border-[#D9DBD6] text-[#C7C9C5] bg-[#F2F2F0] cursor-not-allowed' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+          }`}
+        >
+          <Disc3 size={10} /> Render
+        </button>
+        {rendering && (
+          <div className="flex-1 min-w-[120px] h-1.5 rounded-full bg-[#E7E8E5] border border-[#C7C9C5] overflow-hidden" aria-label="Bounce progress">
+            <div className="h-full bg-[#7A8476]" style={{ width: `${Math.round((progress ?? 0) * 100)}%` }} />
+          </div>
+        )}
+        {result && !rendering && (
+          <a
+            href={result.url}
+            download={result.name}
+            className="h-6 px-3 rounded-full border border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white flex items-center gap-1 text-[9px] uppercase tracking-widest"
+          >
+            <Download size={10} /> WAV
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { CUSTOM_SCALE_PREFIX, defineTunedScale, type ScaleDef } from '../src/music/scales';
+import { applyKeyboardMap, parseKbm, parseScala, parseScaleSteps, scaleFromScala } from '../src/music/scala';
+import { loadCustomScales, saveCustomScales } from '../src/music/scaleStorage';
+
+interface CustomScalesProps {
+  activeScaleId: string;
+  activeScale: ScaleDef | null; // the custom scale the music settings carry, if any
+  onSelect: (scale: ScaleDef, root?: number) => void;
+}
+
+const newScaleId = () => `${CUSTOM_SCALE_PREFIX}${uuidv4()}`;
+
+const tuningSummary = (scale: ScaleDef) => {
+  const tuning = scale.tuning;
+  if (!tuning) return '';
+  const period = Math.abs(tuning.period - 1200) < 0.01 ? 'oct' : `${Math.round(tuning.period)}c`;
+  return `${tuning.cents.length}/${period}${tuning.reference ? ' kbm' : ''}`;
+};
+
+const fileLabel = (name: string) => name.replace(/\.(scl|kbm)$/i, '');
+
+export const CustomScales: React.FC<CustomScalesProps> = ({ activeScaleId, activeScale, onSelect }) => {
+  const [scales, setScales] = useState<ScaleDef[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [name, setName] = useState('');
+  const [steps, setSteps] = useState('');
+  const [status, setStatus] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // localStorage is only touched after mount so server and client markup match.
+  useEffect(() => {
+    setScales(loadCustomScales());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    if (!saveCustomScales(scales)) setStatus('Storage blocked - scales last until reload');
+  }, [loaded, scales]);
+
+  // A scene can bring a scale this browser has not seen yet; keep it in the library.
+  useEffect(() => {
+    if (!loaded || !activeScale) return;
+    setScales((prev) => (prev.some((scale) => scale.id === activeScale.id) ? prev : [...prev, activeScale]));
+  }, [activeScale, loaded]);
+
+  const upsert = (scale: ScaleDef) =>
+    setScales((prev) =>
+      prev.some((entry) => entry.id === scale.id) ? prev.map((entry) => (entry.id === scale.id ? scale : entry)) : [...prev, scale]
+    );
+
+  const handleAdd = () => {
+    try {
+      const parsed = parseScaleSteps(steps);
+      const scale = defineTunedScale(newScaleId(), name.trim() || `Custom ${scales.length + 1}`, parsed.cents, parsed.period);
+      upsert(scale);
+      onSelect(scale);
+      setSteps('');
+      setName('');
+      setStatus(`Added ${scale.label}`);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Invalid steps');
+    }
+  };
+
+  const handleDelete = (scale: ScaleDef) => {
+    setScales((prev) => prev.filter((entry) => entry.id !== scale.id));
+    setStatus(`Deleted ${scale.label}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    // .scl files first, so a .kbm picked together with its scale maps that scale.
+    files.sort((a, b) => Number(/\.kbm$/i.test(a.name)) - Number(/\.kbm$/i.test(b.name)));
+    let target = activeScale;
+    const notes: string[] = [];
+    for (const file of files) {
+      try {
+        const text = await file.text();
+        if (/\.kbm$/i.test(file.name)) {
+          if (!target) throw new Error('select a custom scale first');
+          const kbm = parseKbm(text);
+          const mapped = applyKeyboardMap(target, kbm);
+          upsert(mapped);
+          onSelect(mapped, ((kbm.middleNote % 12) + 12) % 12);
+          target = mapped;
+          notes.push(`mapped ${mapped.label}`);
+        } else {
+          const scale = scaleFromScala(newScaleId(), parseScala(text), fileLabel(file.name));
+          upsert(scale);
+          onSelect(scale);
+          target = scale;
+          notes.push(`imported ${scale.label}`);
+        }
+      } catch (err) {
+        console.warn('Scala import failed:', file.name, err);
+        notes.push(`${file.name}: ${err instanceof Error ? err.message : 'failed'}`);
+      }
+    }
+    setStatus(notes.join('; '));
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="text-[9px] uppercase tracking-widest text-[#7A8476] mb-1">Custom / Tunings</div>
+      <div className="max-h-24 overflow-y-auto rounded-md border border-[#B9BCB7] bg-[#E7E8E5]">
+        {scales.length === 0 && <div className="px-2 py-1 text-[9px] uppercase text-[#7A8476]">No custom scales</div>}
+        {scales.map((scale) => {
+          const isActive = scale.id === activeScaleId;
+          return (
+            <div
+              key={scale.id}
+              className={`flex items-center border-b border-[#D9DBD6] last:border-b-0 ${
+                isActive ? 'bg-[#D9DBD6] text-[#2E2F2B]' : 'hover:bg-[#D9DBD6] text-[#5F665F]'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(scale)}
+                className="flex-1 min-w-0 flex items-center justify-between px-2 py-1 text-left text-[10px]"
+              >
+                <span className="truncate">{scale.label}</span>
+                <span className="text-[8px] uppercase tracking-wider text-[#7A8476]">{tuningSummary(scale)}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(scale)}
+                disabled={isActive}
+                aria-label={`Delete ${scale.label}`}
+                title={isActive ? 'Pick another scale before deleting this one' : undefined}
+                className="px-2 text-[#7A8476] hover:text-[#2E2F2B] disabled:text-[#C7C9C5]"
+              >
+                <Trash2 size={10} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-2 flex flex-col gap-1">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          aria-label="Custom scale name"
+          className="bg-[#E7E8E5] border border-[#B9BCB7] text-[10px] px-2 py-1 rounded-sm"
+        />
+        <input
+          type="text"
+          value={steps}
+          onChange={(e) => setSteps(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="9/8 5/4 3/2 5/3 2/1"
+          aria-label="Custom scale steps"
+          title="Ratios (3/2) or cents (701.96), last step is the period"
+          className="bg-[#E7E8E5] border border-[#B9BCB7] text-[10px] px-2 py-1 rounded-sm"
+        />
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!steps.trim()}
+            className="flex-1 h-6 rounded-sm border border-[#B9BCB7] bg-[#E7E8E5] text-[9px] uppercase tracking-widest text-[#5F665F] hover:bg-[#D9DBD6] disabled:text-[#C7C9C5] flex items-center justify-center gap-1"
+          >
+            <Plus size={10} /> Add
+          </button>
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            title="Scala .scl adds a scale; .kbm maps the selected custom scale"
+            className="flex-1 h-6 rounded-sm border border-[#B9BCB7] bg-[#E7E8E5] text-[9px] uppercase tracking-widest text-[#5F665F] hover:bg-[#D9DBD6] flex items-center justify-center gap-1"
+          >
+            <Upload size={10} /> .scl/.kbm
+          </button>
+        </div>
+        {status && <div className="text-[8px] uppercase tracking-wider text-[#7A8476] break-words">{status}</div>}
+      </div>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".scl,.kbm"
+        multiple
+        onChange={handleImport}
+        className="hidden"
+        aria-label="Import Scala files"
+      />
+    </div>
+  );
+};
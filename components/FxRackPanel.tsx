@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Blocks, ChevronLeft, ChevronRight, GripVertical, X } from 'lucide-react';
+import type { FxRackSettings, InsertEffectId, InsertSlot } from '../types';
+import { createInsertSlot, MAX_INSERT_SLOTS, moveInsertSlot } from '../src/audio/effects/rack';
+import { getInsertEffect, INSERT_EFFECTS, resolveEffectParams } from '../src/audio/effects/registry';
+import type { EffectParamDef } from '../src/audio/effects/types';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type FxRackPanelProps = {
+  rack: FxRackSettings;
+  onChange: React.Dispatch<React.SetStateAction<FxRackSettings>>;
+};
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const iconButtonClass =
+  'h-5 w-5 flex items-center justify-center rounded-full border border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white disabled:opacity-40';
+
+const formatParam = (def: EffectParamDef) =>
+  def.format ??
+  ((v: number) => {
+    const digits = def.max - def.min >= 100 ? 0 : def.max - def.min >= 10 ? 1 : 2;
+    return `${v.toFixed(digits)}${def.unit ? ` ${def.unit}` : ''}`;
+  });
+
+export const FxRackPanel: React.FC<FxRackPanelProps> = ({ rack, onChange }) => {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  // Only the grip arms a drag, so turning a knob never picks the card up.
+  const [grabbed, setGrabbed] = useState<string | null>(null);
+  const { slots } = rack;
+  const full = slots.length >= MAX_INSERT_SLOTS;
+
+  // Functional updates throughout: MIDI can move several params before the next render.
+  const updateSlot = (id: string, patch: (slot: InsertSlot) => InsertSlot) =>
+    onChange((prev) => ({ ...prev, slots: prev.slots.map((slot) => (slot.id === id ? patch(slot) : slot)) }));
+  const setParam = (id: string, paramId: string, value: number) =>
+    updateSlot(id, (slot) => ({
+      ...slot,
+      params: { ...resolveEffectParams(getInsertEffect(slot.effect), slot.params), [paramId]: value },
+    }));
+  const addSlot = (effect: InsertEffectId) =>
+    onChange((prev) => (prev.slots.length >= MAX_INSERT_SLOTS ? prev : { ...prev, slots: [...prev.slots, createInsertSlot(effect)] }));
+  const removeSlot = (id: string) => onChange((prev) => ({ ...prev, slots: prev.slots.filter((slot) => slot.id !== id) }));
+  const move = (from: number, to: number) => onChange((prev) => ({ ...prev, slots: moveInsertSlot(prev.slots, from, to) }));
+
+  const handleDrop = (to: number) => {
+    if (dragFrom !== null) move(dragFrom, to);
+    setDragFrom(null);
+    setGrabbed(null);
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Blocks size={12} /> FX RACK
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">
+          {slots.length ? `${slots.length}/${MAX_INSERT_SLOTS} inserts after LO-FI` : 'Empty - add an effect'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <span className="pl-1 pr-1">Add</span>
+        {INSERT_EFFECTS.map((effect) => (
+          <button
+            key={effect.id}
+            type="button"
+            onClick={() => addSlot(effect.id)}
+            disabled={full}
+            aria-label={`Add ${effect.label}`}
+            className={chipClass(false)}
+          >
+            {effect.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {slots.map((slot, index) => {
+          const effect = getInsertEffect(slot.effect);
+          const params = resolveEffectParams(effect, slot.params);
+          const name = `${index + 1} ${effect.label}`;
+          return (
+            <div
+              key={slot.id}
+              draggable={grabbed === slot.id}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', slot.id);
+                setDragFrom(index);
+              }}
+              onDragOver={(e) => {
+                if (dragFrom === null) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => {
+                setDragFrom(null);
+                setGrabbed(null);
+              }}
+              aria-label={`Insert ${name}`}
+              className={`bg-[#E7E8E5] rounded-2xl border px-2 py-2 ${
+                dragFrom === index ? 'border-[#7A8476] opacity-60' : 'border-[#C7C9C5]'
+              } ${slot.bypass ? 'opacity-70' : ''}`}
+            >
+              <div className="flex items-center gap-1 mb-2 text-[9px] uppercase text-[#5F665F]">
+                <span
+                  onPointerDown={() => setGrabbed(slot.id)}
+                  onPointerUp={() => setGrabbed(null)}
+                  title="Drag to reorder"
+                  className="cursor-grab text-[#7A8476]"
+                >
+                  <GripVertical size={12} aria-hidden />
+                </span>
+                <span className="pr-1">{name}</span>
+                <button
+                  type="button"
+                  onClick={() => updateSlot(slot.id, (s) => ({ ...s, bypass: !s.bypass }))}
+                  aria-pressed={slot.bypass}
+                  aria-label={`Bypass ${name}`}
+                  className={chipClass(slot.bypass)}
+                >
+                  {slot.bypass ? 'Bypassed' : 'Bypass'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${name} earlier`}
+                  className={iconButtonClass}
+                >
+                  <ChevronLeft size={10} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === slots.length - 1}
+                  aria-label={`Move ${name} later`}
+                  className={iconButtonClass}
+                >
+                  <ChevronRight size={10} />
+                </button>
+                <button type="button" onClick={() => removeSlot(slot.id)} aria-label={`Remove ${name}`} className={iconButtonClass}>
+                  <X size={10} />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-3 px-1">
+                {effect.params.map((def) =>
+                  def.options ? (
+                    <div key={def.id} className="flex flex-col items-center gap-1">
+                      <div className="flex gap-1">
+                        {def.options.map((option, value) => (
+                          <button
+                            key={option}
+                            type="button"
+                            onClick={() => setParam(slot.id, def.id, value)}
+                            aria-pressed={params[def.id] === value}
+                            aria-label={`${name} ${def.label} ${option}`}
+                            className={chipClass(params[def.id] === value)}
+                          >
+                            {option}
+                          </button>
+                        ))}
+                      </div>
+                      <span className="text-[8px] uppercase text-[#7A8476]">{def.label}</span>
+                    </div>
+                  ) : (
+                    <div key={def.id} className="flex flex-col items-center gap-1 w-16">
+                      <MidiLearnable
+                        id={`fx.${index + 1}.${def.id}`}
+                        label={`FX ${name} ${def.label}`}
+                        value={params[def.id]}
+                        onChange={(v) => setParam(slot.id, def.id, v)}
+                        min={def.min}
+                        max={def.max}
+                      >
+                        <BufferedKnob
+                          value={params[def.id]}
+                          onCommit={(v) => setParam(slot.id, def.id, v)}
+                          min={def.min}
+                          max={def.max}
+                          defaultValue={def.default}
+                          size={34}
+                          color="#7A8476"
+                          format={formatParam(def)}
+                        />
+                      </MidiLearnable>
+                      <span className="text-[8px] uppercase text-[#7A8476]">{def.label}</span>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Drum } from 'lucide-react';
+import type { GrooveSettings } from '../types';
+import { GROOVE_DIVISIONS, GROOVE_HUMANIZE_SECONDS, GROOVE_LATENCY_RANGE, grooveStepSeconds } from '../src/music/groove';
+import { NOTE_DIVISIONS } from '../src/music/tempo';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type GroovePanelProps = {
+  groove: GrooveSettings;
+  bpm: number; // resolved clock, for the slot length readout
+  onChange: React.Dispatch<React.SetStateAction<GrooveSettings>>;
+};
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const divisionLabel = (id: string) => NOTE_DIVISIONS.find((division) => division.id === id)?.label ?? id;
+
+export const GroovePanel: React.FC<GroovePanelProps> = ({ groove, bpm, onChange }) => {
+  const { enabled } = groove;
+  const patch = (next: Partial<GrooveSettings>) => onChange((prev) => ({ ...prev, ...next }));
+  const slotMs = grooveStepSeconds(groove.division, bpm) * 1000;
+  // A cutoff shorter than the slot drops some hits on purpose; say so.
+  const status = enabled
+    ? `${divisionLabel(groove.division)} = ${Math.round(slotMs)} ms${groove.maxLatencyMs < slotMs ? ' - cutoff skips late hits' : ''}`
+    : 'Free time';
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Drum size={12} /> GROOVE
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => patch({ enabled: !enabled })}
+          aria-pressed={enabled}
+          aria-label="Rhythmic quantize"
+          title="Hold each collision sound back to the next grid slot of the clock"
+          className={chipClass(enabled)}
+        >
+          Grid {enabled ? 'on' : 'off'}
+        </button>
+        {GROOVE_DIVISIONS.map((division) => (
+          <button
+            key={division}
+            type="button"
+            onClick={() => patch({ division })}
+            disabled={!enabled}
+            aria-pressed={groove.division === division}
+            aria-label={`Grid ${divisionLabel(division)}`}
+            className={chipClass(groove.division === division)}
+          >
+            {divisionLabel(division)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2">
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable id="groove.swing" label="Groove swing" value={groove.swing} onChange={(v) => patch({ swing: v })}>
+            <BufferedKnob
+              value={groove.swing}
+              onCommit={(v) => patch({ swing: v })}
+              defaultValue={0}
+              size={34}
+              color="#7A8476"
+              format={(v) => `${Math.round(50 + v * 25)}%`}
+              disabled={!enabled}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Swing</span>
+        </div>
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable id="groove.humanize" label="Groove humanize" value={groove.humanize} onChange={(v) => patch({ humanize: v })}>
+            <BufferedKnob
+              value={groove.humanize}
+              onCommit={(v) => patch({ humanize: v })}
+              defaultValue={0.2}
+              size={34}
+              color="#7A8476"
+              format={(v) => `+-${Math.round(v * GROOVE_HUMANIZE_SECONDS * 1000)} ms`}
+              disabled={!enabled}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Human</span>
+        </div>
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable
+            id="groove.maxLatencyMs"
+            label="Groove latency cutoff"
+            value={groove.maxLatencyMs}
+            onChange={(v) => patch({ maxLatencyMs: Math.round(v) })}
+            min={GROOVE_LATENCY_RANGE[0]}
+            max={GROOVE_LATENCY_RANGE[1]}
+          >
+            <BufferedKnob
+              value={groove.maxLatencyMs}
+              onCommit={(v) => patch({ maxLatencyMs: Math.round(v) })}
+              min={GROOVE_LATENCY_RANGE[0]}
+              max={GROOVE_LATENCY_RANGE[1]}
+              defaultValue={150}
+              size={34}
+              color="#7A8476"
+              format={(v) => `${Math.round(v)} ms`}
+              disabled={!enabled}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Max wait</span>
+        </div>
+      </div>
+    </div>
+  );
+};
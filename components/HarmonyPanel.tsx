@@ -0,0 +1,137 @@
+import React from 'react';
+import { Layers3 } from 'lucide-react';
+import type { CollisionKind, HarmonySettings, HarmonyVoicing } from '../types';
+import { COLLISION_KINDS, HARMONY_VOICE_RANGE, HARMONY_VOICINGS } from '../src/music/harmony';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type HarmonyPanelProps = {
+  harmony: HarmonySettings;
+  onChange: React.Dispatch<React.SetStateAction<HarmonySettings>>;
+};
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider disabled:text-[#C7C9C5]';
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+export const HarmonyPanel: React.FC<HarmonyPanelProps> = ({ harmony, onChange }) => {
+  const { enabled, byCollision } = harmony;
+  const patch = (next: Partial<HarmonySettings>) => onChange((prev) => ({ ...prev, ...next }));
+  const setRule = (kind: CollisionKind, voicing: HarmonyVoicing) =>
+    onChange((prev) => ({ ...prev, rules: { ...prev.rules, [kind]: voicing } }));
+
+  const voicingLabel = HARMONY_VOICINGS.find((voicing) => voicing.id === harmony.voicing)?.label ?? harmony.voicing;
+  const status = !enabled ? 'Single notes' : byCollision ? `By collision, ${harmony.voices} voices` : `${voicingLabel}, ${harmony.voices} voices`;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Layers3 size={12} /> HARMONY
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => patch({ enabled: !enabled })}
+          aria-pressed={enabled}
+          aria-label="Chord mode"
+          title="Stack scale tones on every collision instead of a single note"
+          className={chipClass(enabled)}
+        >
+          Chords {enabled ? 'on' : 'off'}
+        </button>
+        <span className="pl-2">Voicing</span>
+        {HARMONY_VOICINGS.map((voicing) => (
+          <button
+            key={voicing.id}
+            type="button"
+            onClick={() => patch({ voicing: voicing.id })}
+            disabled={!enabled || byCollision}
+            aria-pressed={harmony.voicing === voicing.id}
+            className={chipClass(harmony.voicing === voicing.id)}
+          >
+            {voicing.label}
+          </button>
+        ))}
+        <span className="pl-2">Rules</span>
+        <button
+          type="button"
+          onClick={() => patch({ byCollision: !byCollision })}
+          disabled={!enabled}
+          aria-pressed={byCollision}
+          aria-label="Voicing by collision"
+          title="Pick the voicing from what was hit: wall, another bubble or the void"
+          className={chipClass(byCollision)}
+        >
+          By hit {byCollision ? 'on' : 'off'}
+        </button>
+        {COLLISION_KINDS.map((kind) => (
+          <label key={kind.id} className="flex items-center gap-1">
+            {kind.label}
+            <select
+              value={harmony.rules[kind.id]}
+              onChange={(e) => setRule(kind.id, e.target.value as HarmonyVoicing)}
+              disabled={!enabled || !byCollision}
+              aria-label={`${kind.label} voicing`}
+              className={selectClass}
+            >
+              {HARMONY_VOICINGS.map((voicing) => (
+                <option key={voicing.id} value={voicing.id}>{voicing.label}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2 mt-2">
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable
+            id="harmony.voices"
+            label="Harmony voices"
+            value={harmony.voices}
+            onChange={(v) => patch({ voices: Math.round(v) })}
+            min={HARMONY_VOICE_RANGE[0]}
+            max={HARMONY_VOICE_RANGE[1]}
+          >
+            <BufferedKnob
+              value={harmony.voices}
+              onCommit={(v) => patch({ voices: Math.round(v) })}
+              min={HARMONY_VOICE_RANGE[0]}
+              max={HARMONY_VOICE_RANGE[1]}
+              steps={HARMONY_VOICE_RANGE[1] - HARMONY_VOICE_RANGE[0] + 1}
+              defaultValue={3}
+              size={34}
+              color="#7A8476"
+              format={(v) => `${Math.round(v)}`}
+              disabled={!enabled}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Voices</span>
+        </div>
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable
+            id="harmony.spread"
+            label="Harmony spread"
+            value={harmony.spread}
+            onChange={(v) => patch({ spread: v })}
+          >
+            <BufferedKnob
+              value={harmony.spread}
+              onCommit={(v) => patch({ spread: v })}
+              defaultValue={0.3}
+              size={34}
+              color="#7A8476"
+              format={(v) => `${Math.round(v * 100)}%`}
+              disabled={!enabled}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Spread</span>
+        </div>
+      </div>
+    </div>
+  );
+};
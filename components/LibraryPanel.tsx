@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { ArrowDownToLine, Download, Library, Save, Trash2, Upload } from 'lucide-react';
+import { sampleLibrary } from '../services/sampleLibrary';
+import {
+  BANK_SLOTS,
+  formatBytes,
+  KIT_SLOTS,
+  kitSlotBank,
+  kitSlotIndex,
+  kitSlotLabel,
+  matchesSampleQuery,
+  parseTags,
+  type LibrarySample,
+} from '../src/library/sampleLibrary';
+
+const LibraryButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}> = ({ label, onClick, disabled, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+    className={`h-6 px-2 rounded-full border flex items-center gap-1 text-[9px] uppercase tracking-widest transition-all ${
+      disabled ? 'border-[#D9DBD6] text-[#C7C9C5] bg-[#F2F2F0] cursor-not-allowed' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const inputClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider min-w-0';
+
+const formatDuration = (seconds: number) => (seconds < 1 ? `${Math.round(seconds * 1000)} ms` : `${seconds.toFixed(1)} s`);
+
+// Name and tags commit on blur or Enter, so typing does not write IndexedDB per key.
+const SampleRow: React.FC<{
+  sample: LibrarySample;
+  target: string;
+  busy: boolean;
+  onLoad: () => void;
+}> = ({ sample, target, busy, onLoad }) => {
+  const [name, setName] = useState(sample.name);
+  const [tags, setTags] = useState(sample.tags.join(' '));
+
+  useEffect(() => setName(sample.name), [sample.name]);
+  useEffect(() => setTags(sample.tags.join(' ')), [sample.tags]);
+
+  const commit = () => {
+    if (name.trim() !== sample.name) void sampleLibrary.renameSample(sample.id, name);
+    const parsed = parseTags(tags);
+    if (parsed.join(' ') !== sample.tags.join(' ')) void sampleLibrary.setSampleTags(sample.id, parsed);
+  };
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-1 text-[10px] border-b border-[#D9DBD6] last:border-b-0">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commit}
+        onKeyDown={onKeyDown}
+        aria-label={`Name of ${sample.name}`}
+        className="flex-1 min-w-0 bg-transparent text-[#2E2F2B] truncate focus:bg-[#F2F2F0] rounded-sm px-1"
+      />
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        onBlur={commit}
+        onKeyDown={onKeyDown}
+        placeholder="tags"
+        aria-label={`Tags of ${sample.name}`}
+        className="w-28 bg-transparent text-[8px] uppercase tracking-wider text-[#7A8476] focus:bg-[#F2F2F0] rounded-sm px-1"
+      />
+      <span className="text-[8px] uppercase tracking-wider text-[#7A8476] tabular-nums">
+        {formatDuration(sample.duration)} {formatBytes(sample.size)}
+      </span>
+      <LibraryButton label={`Load ${sample.name} into ${target}`} onClick={onLoad} disabled={busy}>
+        <ArrowDownToLine size={10} />
+      </LibraryButton>
+      <LibraryButton label={`Delete ${sample.name}`} onClick={() => void sampleLibrary.removeSample(sample.id)} disabled={busy}>
+        <Trash2 size={10} />
+      </LibraryButton>
+    </div>
+  );
+};
+
+export const LibraryPanel: React.FC = () => {
+  const state = useSyncExternalStore(sampleLibrary.subscribe, sampleLibrary.getState, sampleLibrary.getState);
+  const [target, setTarget] = useState(kitSlotIndex('smp', 0)); // S01: files usually land in the sample bank
+  const [query, setQuery] = useState('');
+  const [kitName, setKitName] = useState('');
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+
+  // IndexedDB is only touched after mount so server and client markup match.
+  useEffect(() => {
+    void sampleLibrary.load();
+  }, []);
+
+  const { bank, index } = kitSlotBank(target);
+  const targetLabel = kitSlotLabel(target);
+  const samples = state.samples.filter((sample) => matchesSampleQuery(sample, query));
+  const known = new Set(state.samples.map((sample) => sample.id));
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length) void sampleLibrary.importFiles(files, parseTags(query));
+  };
+
+  const handleZip = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) void sampleLibrary.importZip(file);
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = await sampleLibrary.exportZip();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'glassroom-library.zip';
+      link.click();
+      window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.warn('Library export failed:', err);
+    }
+  };
+
+  const usage = state.usage && state.usage.quota ? `${formatBytes(state.usage.used)} of ${formatBytes(state.usage.quota)}` : '';
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Library size={12} /> LIBRARY
+        {!state.persistent && <span className="text-[8px] uppercase text-[#5F665F]">(memory only)</span>}
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{state.status || usage}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <span className="pl-1 pr-1">Slot</span>
+        <select
+          value={target}
+          onChange={(e) => setTarget(Number(e.target.value))}
+          aria-label="Library target slot"
+          className={inputClass}
+        >
+          {(['mic', 'smp'] as const).map((slotBank) => (
+            <optgroup key={slotBank} label={slotBank === 'mic' ? 'Mic' : 'Samples'}>
+              {Array.from({ length: BANK_SLOTS }, (_, slotIndex) => {
+                const slot = kitSlotIndex(slotBank, slotIndex);
+                return (
+                  <option key={slot} value={slot}>
+                    {kitSlotLabel(slot)}
+                  </option>
+                );
+              })}
+            </optgroup>
+          ))}
+        </select>
+        <LibraryButton label={`Save ${targetLabel} to the library`} onClick={() => void sampleLibrary.saveSlot(bank, index)} disabled={state.busy}>
+          <Save size={10} /> Save slot
+        </LibraryButton>
+        <LibraryButton label="Add audio files to the library" onClick={() => filesInputRef.current?.click()} disabled={state.busy}>
+          <Upload size={10} /> Files
+        </LibraryButton>
+        <LibraryButton label="Export library as zip" onClick={() => void handleExport()} disabled={state.busy || !state.samples.length}>
+          <Download size={10} /> Zip
+        </LibraryButton>
+        <LibraryButton label="Import library zip" onClick={() => zipInputRef.current?.click()} disabled={state.busy}>
+          <Upload size={10} /> Zip
+        </LibraryButton>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search name or tag"
+          aria-label="Search library"
+          title="Files added while searching get these words as tags"
+          className={`${inputClass} ml-auto w-40`}
+        />
+      </div>
+
+      <div className="bg-[#E7E8E5] rounded-2xl border border-[#C7C9C5] max-h-40 overflow-y-auto mb-2">
+        {samples.length === 0 && (
+          <div className="px-3 py-2 text-[9px] uppercase text-[#7A8476]">
+            {state.samples.length ? 'No match' : 'Library empty - save a slot or add files'}
+          </div>
+        )}
+        {samples.map((sample) => (
+          <SampleRow
+            key={sample.id}
+            sample={sample}
+            target={targetLabel}
+            busy={state.busy}
+            onLoad={() => void sampleLibrary.loadIntoSlot(sample.id, bank, index)}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <span className="pl-1 pr-1">Kits</span>
+        <input
+          value={kitName}
+          onChange={(e) => setKitName(e.target.value)}
+          placeholder="Kit name"
+          aria-label="Kit name"
+          className={`${inputClass} w-40`}
+        />
+        <LibraryButton
+          label="Save every slot of both banks as a kit"
+          onClick={() => {
+            void sampleLibrary.saveKit(kitName);
+            setKitName('');
+          }}
+          disabled={state.busy}
+        >
+          <Save size={10} /> Save kit
+        </LibraryButton>
+      </div>
+
+      <div className="bg-[#E7E8E5] rounded-2xl border border-[#C7C9C5] max-h-32 overflow-y-auto">
+        {state.kits.length === 0 && <div className="px-3 py-2 text-[9px] uppercase text-[#7A8476]">No kits</div>}
+        {state.kits.map((kit) => {
+          const filled = kit.slots.filter(Boolean).length;
+          const missing = kit.slots.filter((slot) => slot && !known.has(slot.sampleId)).length;
+          return (
+            <div key={kit.id} className="flex items-center gap-2 px-3 py-1 text-[10px] border-b border-[#D9DBD6] last:border-b-0">
+              <span className="truncate flex-1 text-[#2E2F2B]">{kit.name}</span>
+              <span className="text-[8px] uppercase tracking-wider text-[#7A8476] tabular-nums">
+                {filled}/{KIT_SLOTS}
+                {missing ? ` ${missing} missing` : ''}
+              </span>
+              <LibraryButton label={`Load kit ${kit.name}`} onClick={() => void sampleLibrary.loadKit(kit.id)} disabled={state.busy}>
+                <ArrowDownToLine size={10} /> Load
+              </LibraryButton>
+              <LibraryButton label={`Delete kit ${kit.name}`} onClick={() => void sampleLibrary.removeKit(kit.id)} disabled={state.busy}>
+                <Trash2 size={10} />
+              </LibraryButton>
+            </div>
+          );
+        })}
+      </div>
+
+      <input
+        ref={filesInputRef}
+        type="file"
+        accept="audio/*"
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+        aria-label="Add library files"
+      />
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        onChange={handleZip}
+        className="hidden"
+        aria-label="Import library zip file"
+      />
+    </div>
+  );
+};
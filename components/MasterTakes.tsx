@@ -0,0 +1,120 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Download, ListMusic, Trash2 } from 'lucide-react';
+import { masterRecorder } from '../services/masterRecorder';
+import { formatElapsed, formatPeakDb, takeFileName, type TakeFormat, type TakeMeta } from '../src/recorder/takes';
+
+const FORMATS: { id: TakeFormat; label: string }[] = [
+  { id: 'wav', label: 'WAV 24' },
+  { id: 'webm', label: 'WebM' },
+];
+
+const TakeButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}> = ({ label, onClick, disabled, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+    className={`h-6 px-2 rounded-full border flex items-center gap-1 text-[9px] uppercase tracking-widest transition-all ${
+      disabled ? 'border-[#D9DBD6] text-[#C7C9C5] bg-[#F2F2F0] cursor-not-allowed' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+export const MasterTakes: React.FC = () => {
+  const state = useSyncExternalStore(masterRecorder.subscribe, masterRecorder.getState, masterRecorder.getState);
+  const [webmSupported, setWebmSupported] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // IndexedDB and MediaRecorder are only touched after mount so server and client markup match.
+  useEffect(() => {
+    void masterRecorder.load();
+    setWebmSupported(masterRecorder.canRecordWebm());
+  }, []);
+
+  const handleDownload = async (take: TakeMeta) => {
+    setBusyId(take.id);
+    try {
+      const blob = await masterRecorder.exportTake(take.id);
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = takeFileName(take);
+      link.click();
+      window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.warn('Take export failed:', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const recording = Boolean(state.active);
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <ListMusic size={12} /> TAKES
+        {!state.persistent && <span className="text-[8px] uppercase text-[#5F665F]">(memory only)</span>}
+        {state.status && <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{state.status}</span>}
+      </div>
+
+      <div className="flex items-center gap-1 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <span className="pl-1 pr-1">Format</span>
+        {FORMATS.map((option) => {
+          const disabled = recording || (option.id === 'webm' && !webmSupported);
+          return (
+            <TakeButton
+              key={option.id}
+              label={`Record takes as ${option.label}`}
+              onClick={() => masterRecorder.setFormat(option.id)}
+              disabled={disabled}
+            >
+              <span className={state.format === option.id ? 'text-[#2E2F2B]' : ''}>
+                {state.format === option.id ? '● ' : ''}{option.label}
+              </span>
+            </TakeButton>
+          );
+        })}
+      </div>
+
+      <div className="bg-[#E7E8E5] rounded-2xl border border-[#C7C9C5] max-h-40 overflow-y-auto">
+        {state.takes.length === 0 && (
+          <div className="px-3 py-2 text-[9px] uppercase text-[#7A8476]">No takes - record from the transport</div>
+        )}
+        {state.takes.map((take) => {
+          const isActive = state.active?.id === take.id;
+          const duration = isActive ? state.active?.elapsedMs ?? 0 : take.durationMs;
+          const peak = isActive ? state.active?.peakDb ?? take.peakDb : take.peakDb;
+          return (
+            <div
+              key={take.id}
+              className="flex items-center gap-2 px-3 py-1 text-[10px] border-b border-[#D9DBD6] last:border-b-0"
+            >
+              <span className="truncate flex-1 text-[#2E2F2B]">{take.name}</span>
+              <span className="text-[8px] uppercase tracking-wider text-[#7A8476] tabular-nums">
+                {take.format} {formatElapsed(duration)} PK {formatPeakDb(peak)}
+                {take.status === 'recovered' ? ' RECOVERED' : ''}
+                {isActive ? ' ●' : ''}
+              </span>
+              <TakeButton label="Download take" onClick={() => void handleDownload(take)} disabled={isActive || busyId === take.id}>
+                <Download size={10} />
+              </TakeButton>
+              <TakeButton label="Delete take" onClick={() => void masterRecorder.remove(take.id)} disabled={isActive}>
+                <Trash2 size={10} />
+              </TakeButton>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
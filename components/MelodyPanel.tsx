@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Spline } from 'lucide-react';
+import type { MelodySettings } from '../types';
+import {
+  MELODY_CONTOURS,
+  MELODY_PHRASE_RANGE,
+  emptyMarkovTable,
+  markovTransitionCount,
+  parseTrainingPhrase,
+  trainMarkovTable,
+} from '../src/music/melody';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type MelodyPanelProps = {
+  melody: MelodySettings;
+  root: number; // pitch class the room is playing in, for note-name training
+  onChange: React.Dispatch<React.SetStateAction<MelodySettings>>;
+};
+
+type MelodyKnob = 'stepWeight' | 'contourAmount' | 'resolution';
+
+const KNOBS: { id: MelodyKnob; label: string; title: string; defaultValue: number }[] = [
+  { id: 'stepWeight', label: 'Steps', title: 'Melody steps vs leaps', defaultValue: 0.6 },
+  { id: 'contourAmount', label: 'Contour', title: 'Melody contour strength', defaultValue: 0.5 },
+  { id: 'resolution', label: 'Resolve', title: 'Melody pull to the root', defaultValue: 0.6 },
+];
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const formatPercent = (v: number) => `${Math.round(v * 100)}%`;
+
+export const MelodyPanel: React.FC<MelodyPanelProps> = ({ melody, root, onChange }) => {
+  const { enabled, markov } = melody;
+  const [phrase, setPhrase] = useState('');
+  const [note, setNote] = useState('');
+  const transitions = markovTransitionCount(melody.markovTable);
+
+  const patch = (next: Partial<MelodySettings>) => onChange((prev) => ({ ...prev, ...next }));
+
+  const train = () => {
+    try {
+      const degrees = parseTrainingPhrase(phrase, root);
+      onChange((prev) => ({ ...prev, markovTable: trainMarkovTable(prev.markovTable, degrees) }));
+      setNote(`Learned ${degrees.length - 1} moves`);
+      setPhrase('');
+    } catch (err) {
+      setNote(err instanceof Error ? err.message : 'Invalid phrase');
+    }
+  };
+
+  const contourLabel = MELODY_CONTOURS.find((contour) => contour.id === melody.contour)?.label ?? melody.contour;
+  const status = note || (enabled ? `${contourLabel}, ${melody.phraseLength} notes${markov ? `, Markov ${transitions}` : ''}` : 'Nearest note');
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Spline size={12} /> MELODY
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => patch({ enabled: !enabled })}
+          aria-pressed={enabled}
+          aria-label="Melodic model"
+          title="Choose notes as phrases (steps, contour, resolution) instead of the nearest scale tone"
+          className={chipClass(enabled)}
+        >
+          Phrases {enabled ? 'on' : 'off'}
+        </button>
+        <span className="pl-2">Contour</span>
+        {MELODY_CONTOURS.map((contour) => (
+          <button
+            key={contour.id}
+            type="button"
+            onClick={() => patch({ contour: contour.id })}
+            disabled={!enabled}
+            aria-pressed={melody.contour === contour.id}
+            className={chipClass(melody.contour === contour.id)}
+          >
+            {contour.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2">
+        {KNOBS.map((knob) => (
+          <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+            <MidiLearnable id={`melody.${knob.id}`} label={knob.title} value={melody[knob.id]} onChange={(v) => patch({ [knob.id]: v })}>
+              <BufferedKnob
+                value={melody[knob.id]}
+                onCommit={(v) => patch({ [knob.id]: v })}
+                defaultValue={knob.defaultValue}
+                size={34}
+                color="#7A8476"
+                format={formatPercent}
+                disabled={!enabled}
+              />
+            </MidiLearnable>
+            <span className="text-[8px] uppercase text-[#7A8476]">{knob.label}</span>
+          </div>
+        ))}
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable
+            id="melody.phraseLength"
+            label="Melody phrase length"
+            value={melody.phraseLength}
+            onChange={(v) => patch({ phraseLength: Math.round(v) })}
+            min={MELODY_PHRASE_RANGE[0]}
+            max={MELODY_PHRASE_RANGE[1]}
+          >
+            <BufferedKnob
+              value={melody.phraseLength}
+              onCommit={(v) => patch({ phraseLength: Math.round(v) })}
+              min={MELODY_PHRASE_RANGE[0]}
+              max={MELODY_PHRASE_RANGE[1]}
+              steps={MELODY_PHRASE_RANGE[1] - MELODY_PHRASE_RANGE[0] + 1}
+              defaultValue={8}
+              size={34}
+              color="#7A8476"
+              format={(v) => `${Math.round(v)} notes`}
+              disabled={!enabled}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Phrase</span>
+        </div>
+
+        <div className="flex flex-col gap-1 flex-1 min-w-[14rem]">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => patch({ markov: !markov })}
+              disabled={!enabled}
+              aria-pressed={markov}
+              aria-label="Markov table"
+              title="Weigh each next note by how often the trained phrases made that move"
+              className={chipClass(markov)}
+            >
+              Markov {markov ? 'on' : 'off'}
+            </button>
+            <span className="text-[9px] uppercase text-[#7A8476]">{transitions} moves</span>
+            <button
+              type="button"
+              onClick={() => {
+                patch({ markovTable: emptyMarkovTable() });
+                setNote('Table cleared');
+              }}
+              disabled={transitions === 0}
+              className={chipClass(false)}
+            >
+              Clear
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={phrase}
+              onChange={(e) => {
+                setPhrase(e.target.value);
+                setNote('');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') train();
+              }}
+              placeholder="C D E G E D C or 0 2 4 7"
+              aria-label="Training phrase"
+              title="Note names in the current key, or semitones above the root; each phrase adds its moves to the table"
+              className="flex-1 bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+            />
+            <button type="button" onClick={train} disabled={!phrase.trim()} className={chipClass(false)}>
+              Train
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
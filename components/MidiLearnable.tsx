@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useSyncExternalStore } from 'react';
+import { midiService } from '../services/midi';
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+/**
+ * Register a control with MIDI-learn. read/write use the control's own range;
+ * the service only ever sees 0..1.
+ */
+export const useMidiControl = (
+  id: string,
+  label: string,
+  read: () => number,
+  write: (value: number) => void,
+  min = 0,
+  max = 1
+) => {
+  const latest = useRef({ read, write, min, max });
+  latest.current = { read, write, min, max };
+
+  useEffect(
+    () =>
+      midiService.registerControl({
+        id,
+        label,
+        get: () => {
+          const { read: r, min: lo, max: hi } = latest.current;
+          return clamp01((r() - lo) / (hi - lo || 1));
+        },
+        set: (value) => {
+          const { write: w, min: lo, max: hi } = latest.current;
+          w(lo + clamp01(value) * (hi - lo));
+        },
+      }),
+    [id, label]
+  );
+};
+
+type MidiLearnableProps = {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  className?: string;
+  children: React.ReactNode;
+};
+
+/** Wraps a knob or fader; in learn mode a click arms it and the next CC binds to it. */
+export const MidiLearnable: React.FC<MidiLearnableProps> = ({ id, label, value, onChange, min = 0, max = 1, className, children }) => {
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  useMidiControl(
+    id,
+    label,
+    () => valueRef.current,
+    (next) => {
+      // React state lags one render behind; soft takeover compares against what was just sent.
+      valueRef.current = next;
+      onChange(next);
+    },
+    min,
+    max
+  );
+
+  const state = useSyncExternalStore(midiService.subscribe, midiService.getState, midiService.getState);
+  if (!state.learning) return <div className={`relative ${className ?? ''}`}>{children}</div>;
+
+  const armed = state.armedId === id;
+  const bound = Object.values(state.mappings).flat().find((m) => m.controlId === id);
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      {children}
+      <button
+        type="button"
+        onClick={() => midiService.armControl(armed ? null : id)}
+        aria-label={`Learn ${label}`}
+        title={armed ? 'Move a hardware control to bind it' : `Learn ${label}`}
+        className={`absolute inset-0 z-10 rounded-xl border-2 flex items-end justify-center pb-0.5 text-[8px] uppercase tracking-widest transition-colors ${
+          armed ? 'border-[#3F453F] bg-[#3F453F]/20 text-[#2E2F2B] animate-pulse' : bound ? 'border-[#7A8476] bg-[#7A8476]/10 text-[#3F453F]' : 'border-dashed border-[#7A8476] bg-transparent text-[#5F665F]'
+        }`}
+      >
+        {armed ? 'Move' : bound ? `CC${bound.cc}` : ''}
+      </button>
+    </div>
+  );
+};
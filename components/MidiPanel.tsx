@@ -0,0 +1,237 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Cable, OctagonX, Trash2 } from 'lucide-react';
+import { midiService } from '../services/midi';
+import { MIDI_GATE_RANGE } from '../src/midi/settings';
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+const ACCESS_LABEL: Record<string, string> = {
+  idle: '',
+  pending: 'Waiting for MIDI permission',
+  granted: '',
+  denied: 'MIDI permission denied',
+  unsupported: 'Web MIDI not supported in this browser',
+};
+
+const percent = (x: number) => Math.round(x * 100);
+
+const RangeInput: React.FC<{ label: string; value: number; onCommit: (value: number) => void }> = ({ label, value, onCommit }) => (
+  <input
+    type="number"
+    min={0}
+    max={100}
+    step={1}
+    value={percent(value)}
+    onChange={(e) => {
+      const next = Number(e.target.value);
+      if (Number.isFinite(next)) onCommit(Math.max(0, Math.min(100, next)) / 100);
+    }}
+    aria-label={label}
+    className="w-12 bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-2 py-0.5 text-[9px] text-[#2E2F2B]"
+  />
+);
+
+const ToggleChip: React.FC<{ label: string; active: boolean; onClick: () => void; children: React.ReactNode }> = ({ label, active, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={active}
+    aria-label={label}
+    title={label}
+    className={`h-5 px-2 rounded-full border text-[8px] uppercase tracking-widest ${
+      active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F]'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider disabled:text-[#C7C9C5]';
+
+export const MidiPanel: React.FC = () => {
+  const state = useSyncExternalStore(midiService.subscribe, midiService.getState, midiService.getState);
+  const { out } = state;
+  const [gateText, setGateText] = useState(String(out.gateMs));
+
+  useEffect(() => {
+    midiService.load();
+  }, []);
+
+  useEffect(() => {
+    setGateText(String(out.gateMs));
+  }, [out.gateMs]);
+
+  const commitGate = () => {
+    const next = Number(gateText);
+    if (Number.isFinite(next)) midiService.setOut({ gateMs: next });
+    else setGateText(String(out.gateMs));
+  };
+
+  const labelFor = (controlId: string) => state.controls.find((c) => c.id === controlId)?.label ?? controlId;
+  const devices = Object.keys(state.mappings);
+  const armedLabel = state.armedId ? labelFor(state.armedId) : null;
+
+  const status = ACCESS_LABEL[state.access] ||
+    (armedLabel ? `Move a control for ${armedLabel}` : '') ||
+    (state.lastLearned ? `Learned ${labelFor(state.lastLearned)}` : '') ||
+    (out.enabled && state.access === 'granted' && state.outputs.length === 0 ? 'No MIDI outputs found' : '');
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Cable size={12} /> MIDI
+        {status && <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => midiService.setOut({ enabled: !out.enabled })}
+          aria-pressed={out.enabled}
+          aria-label="MIDI out"
+          title="Send every collision as a note (CC10 pan, CC91 depth, CC1 doppler)"
+          className={`h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all ${
+            out.enabled ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+          }`}
+        >
+          Out {out.enabled ? 'on' : 'off'}
+        </button>
+        <select
+          value={out.portId ?? ''}
+          onChange={(e) => midiService.setOut({ portId: e.target.value || null })}
+          disabled={!out.enabled}
+          aria-label="MIDI output port"
+          className={`${selectClass} max-w-[220px]`}
+        >
+          <option value="">First available</option>
+          {state.outputs.map((port) => (
+            <option key={port.id} value={port.id}>{port.name}</option>
+          ))}
+          {out.portId && !state.outputs.some((port) => port.id === out.portId) && (
+            <option value={out.portId}>Disconnected port</option>
+          )}
+        </select>
+        <span className="pl-1">Ch</span>
+        <select
+          value={out.channel}
+          onChange={(e) => midiService.setOut({ channel: Number(e.target.value) })}
+          disabled={!out.enabled}
+          aria-label="MIDI output channel"
+          className={selectClass}
+        >
+          {CHANNELS.map((ch) => (
+            <option key={ch} value={ch}>{ch}</option>
+          ))}
+        </select>
+        <span className="pl-1">Gate</span>
+        <input
+          type="number"
+          min={MIDI_GATE_RANGE[0]}
+          max={MIDI_GATE_RANGE[1]}
+          step={10}
+          value={gateText}
+          onChange={(e) => setGateText(e.target.value)}
+          onBlur={commitGate}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitGate();
+          }}
+          disabled={!out.enabled}
+          aria-label="MIDI note length in ms"
+          className="w-20 bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+        />
+        <span>ms</span>
+        <button
+          type="button"
+          onClick={() => midiService.panic()}
+          disabled={!out.enabled}
+          aria-label="MIDI panic"
+          title="All notes off"
+          className="h-6 px-2 rounded-full border border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white flex items-center gap-1 text-[9px] uppercase tracking-widest disabled:text-[#C7C9C5] disabled:border-[#D9DBD6]"
+        >
+          <OctagonX size={10} /> Panic
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => midiService.setLearning(!state.learning)}
+          aria-pressed={state.learning}
+          aria-label="MIDI learn"
+          title="Click a knob or fader, then move a hardware control"
+          className={`h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all ${
+            state.learning ? 'border-[#3F453F] bg-[#3F453F] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+          }`}
+        >
+          Learn {state.learning ? 'on' : 'off'}
+        </button>
+        {state.learning && (
+          <select
+            value={state.armedId ?? ''}
+            onChange={(e) => midiService.armControl(e.target.value || null)}
+            aria-label="Control to learn"
+            className={`${selectClass} max-w-[200px]`}
+          >
+            <option value="">Pick a control</option>
+            {state.controls.map((control) => (
+              <option key={control.id} value={control.id}>{control.label}</option>
+            ))}
+          </select>
+        )}
+        <span className="pl-1 truncate">
+          In: {state.inputs.length ? state.inputs.map((port) => port.name).join(', ') : '--'}
+        </span>
+      </div>
+
+      {devices.length > 0 && (
+        <div className="mt-2 bg-[#E7E8E5] rounded-2xl border border-[#C7C9C5] max-h-48 overflow-y-auto">
+          {devices.map((device) => (
+            <div key={device} className="border-b border-[#D9DBD6] last:border-b-0">
+              <div className="px-3 pt-1 text-[8px] uppercase text-[#7A8476] truncate">{device}</div>
+              {state.mappings[device].map((mapping) => (
+                <div key={mapping.controlId} className="flex flex-wrap items-center gap-2 px-3 py-1 text-[9px] uppercase text-[#5F665F]">
+                  <span className="w-28 truncate text-[#2E2F2B]">{labelFor(mapping.controlId)}</span>
+                  <span className="tabular-nums">CH{mapping.channel} CC{mapping.cc}</span>
+                  <span>Min</span>
+                  <RangeInput
+                    label={`${labelFor(mapping.controlId)} minimum`}
+                    value={mapping.min}
+                    onCommit={(min) => midiService.updateMapping(device, mapping.controlId, { min })}
+                  />
+                  <span>Max</span>
+                  <RangeInput
+                    label={`${labelFor(mapping.controlId)} maximum`}
+                    value={mapping.max}
+                    onCommit={(max) => midiService.updateMapping(device, mapping.controlId, { max })}
+                  />
+                  <ToggleChip
+                    label="Invert"
+                    active={mapping.invert}
+                    onClick={() => midiService.updateMapping(device, mapping.controlId, { invert: !mapping.invert })}
+                  >
+                    Inv
+                  </ToggleChip>
+                  <ToggleChip
+                    label="Soft takeover"
+                    active={mapping.soft}
+                    onClick={() => midiService.updateMapping(device, mapping.controlId, { soft: !mapping.soft })}
+                  >
+                    Soft
+                  </ToggleChip>
+                  <button
+                    type="button"
+                    onClick={() => midiService.removeMapping(device, mapping.controlId)}
+                    aria-label={`Remove mapping for ${labelFor(mapping.controlId)}`}
+                    className="h-5 px-2 rounded-full border border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white"
+                  >
+                    <Trash2 size={9} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,31 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { AudioSettings } from '../types';
-import { Play, Pause, Square, Sliders, Mic2, XCircle, Bus, Headphones, Brush, Book, Database } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { AudioSettings, LofiSettings, MultibandBand, MultibandBandId, MultibandSettings } from '../types';
+import { Play, Pause, Square, Circle, Sliders, Mic2, XCircle, Bus, Headphones, Brush, Book, Database, Gauge } from 'lucide-react';
 import { audioService } from '../services/audioEngine';
+import { masterRecorder } from '../services/masterRecorder';
+import { formatElapsed, formatPeakDb } from '../src/recorder/takes';
 import { BufferedKnob } from './BufferedKnob';
 import { TapeCassette } from './TapeCassette';
+import { MidiLearnable } from './MidiLearnable';
+import { encodeWav, joinFloat32Chunks } from '../src/audio/wav';
+import { DEFAULT_LIMITER_CEILING, LIMITER_CEILING_RANGE } from '../src/audio/limiter';
+import {
+  BAND_GAIN_RANGE,
+  BAND_RATIO_RANGE,
+  BAND_THRESHOLD_RANGE,
+  defaultMultibandSettings,
+  HIGH_CROSSOVER_RANGE,
+  LOW_CROSSOVER_RANGE,
+  MULTIBAND_BANDS,
+} from '../src/audio/multiband';
 
 interface MixerProps {
   settings: AudioSettings;
   setSettings: React.Dispatch<React.SetStateAction<AudioSettings>>;
+  lofi: LofiSettings;
+  setLofi: React.Dispatch<React.SetStateAction<LofiSettings>>;
+  multiband: MultibandSettings;
+  setMultiband: React.Dispatch<React.SetStateAction<MultibandSettings>>;
   isPlaying: boolean;
   onPlayPause: () => void;
   onStop: () => void;
@@ -63,6 +81,25 @@ const CONTROL_COL_W = 72;
 const FADER_TRACK_W = 10; // align with VU meter width
 const DATA_GRID_COLS = '1fr 16px 1fr 16px';
 const MAX_RECORD_MS = 10000;
+// The GR meters read full at this much gain reduction.
+const GR_METER_DB = 12;
+const DYNAMICS_KNOB_SIZE = 30;
+
+type Reduction = Record<MultibandBandId | 'limiter', number>;
+const NO_REDUCTION: Reduction = { low: 0, mid: 0, high: 0, limiter: 0 };
+const GR_METERS: { id: keyof Reduction; label: string }[] = [
+  ...MULTIBAND_BANDS.map(({ id }) => ({ id, label: id })),
+  { id: 'limiter', label: 'lim' },
+];
+
+const BAND_KNOBS: { id: keyof MultibandBand; label: string; range: [number, number]; format: (v: number) => string }[] = [
+  { id: 'threshold', label: 'Thr', range: BAND_THRESHOLD_RANGE, format: (v) => `${v.toFixed(0)}dB` },
+  { id: 'ratio', label: 'Ratio', range: BAND_RATIO_RANGE, format: (v) => `${v.toFixed(1)}:1` },
+  { id: 'gain', label: 'Gain', range: BAND_GAIN_RANGE, format: (v) => `${v > 0 ? '+' : ''}${v.toFixed(1)}dB` },
+];
+
+const DEFAULT_MULTIBAND = defaultMultibandSettings();
+const formatHz = (v: number) => (v >= 1000 ? `${(v / 1000).toFixed(1)}k` : `${Math.round(v)}`);
 
 type FallbackRecorder = {
   ctx: AudioContext;
@@ -73,42 +110,6 @@ type FallbackRecorder = {
   sampleRate: number;
 };
 
-const encodeWav = (buffers: Float32Array[], sampleRate: number) => {
-  const length = buffers.reduce((sum, b) => sum + b.length, 0);
-  const buffer = new ArrayBuffer(44 + length * 2);
-  const view = new DataView(buffer);
-  const writeString = (offset: number, value: string) => {
-    for (let i = 0; i < value.length; i++) {
-      view.setUint8(offset + i, value.charCodeAt(i));
-    }
-  };
-
-  writeString(0, 'RIFF');
-  view.setUint32(4, 36 + length * 2, true);
-  writeString(8, 'WAVE');
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, 1, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * 2, true);
-  view.setUint16(32, 2, true);
-  view.setUint16(34, 16, true);
-  writeString(36, 'data');
-  view.setUint32(40, length * 2, true);
-
-  let offset = 44;
-  buffers.forEach((buf) => {
-    for (let i = 0; i < buf.length; i++) {
-      const sample = Math.max(-1, Math.min(1, buf[i]));
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
-      offset += 2;
-    }
-  });
-
-  return new Blob([view.buffer], { type: 'audio/wav' });
-};
-
 type FaderProps = {
   value: number;
   min: number;
@@ -223,7 +224,50 @@ const ControlColumn: React.FC<ControlColumnProps> = ({ label, bottom, children }
   </div>
 );
 
-export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying, onPlayPause, onStop }) => {
+type DynamicsKnobProps = {
+  id: string;
+  label: string;
+  caption: string;
+  value: number;
+  range: [number, number];
+  defaultValue: number;
+  format: (v: number) => string;
+  onChange: (v: number) => void;
+};
+
+const DynamicsKnob: React.FC<DynamicsKnobProps> = ({ id, label, caption, value, range, defaultValue, format, onChange }) => (
+  <div className="flex flex-col items-center gap-1 w-14">
+    <MidiLearnable id={id} label={label} value={value} onChange={onChange} min={range[0]} max={range[1]}>
+      <BufferedKnob
+        value={value}
+        onCommit={onChange}
+        min={range[0]}
+        max={range[1]}
+        defaultValue={defaultValue}
+        size={DYNAMICS_KNOB_SIZE}
+        color="#7A8476"
+        format={format}
+      />
+    </MidiLearnable>
+    <span className="text-[8px] uppercase opacity-60">{caption}</span>
+  </div>
+);
+
+// Gain reduction grows down from the top, like the needle of a compressor.
+const ReductionMeter: React.FC<{ label: string; db: number }> = ({ label, db }) => {
+  const fill = clamp(db / GR_METER_DB, 0, 1);
+  return (
+    <div className="flex flex-col items-center gap-1 w-8">
+      <div className="relative w-[10px] h-12 rounded-sm bg-[#B9BCB7]/30 overflow-hidden" role="meter" aria-label={`${label} gain reduction`} aria-valuemin={0} aria-valuemax={GR_METER_DB} aria-valuenow={Math.round(db * 10) / 10}>
+        <div className="absolute inset-x-0 top-0 bg-[#7A8476]" style={{ height: `${fill * 100}%` }} />
+      </div>
+      <span className="text-[8px] uppercase opacity-60">{label}</span>
+      <span className="text-[8px] tabular-nums opacity-60">{db >= 0.05 ? `-${db.toFixed(1)}` : '0.0'}</span>
+    </div>
+  );
+};
+
+export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, lofi, setLofi, multiband, setMultiband, isPlaying, onPlayPause, onStop }) => {
   const peakCanvasRef = useRef<HTMLCanvasElement>(null);
   const mainCanvasRef = useRef<HTMLCanvasElement>(null);
   const micVURef = useRef<HTMLCanvasElement>(null);
@@ -235,14 +279,13 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
   const fallbackRecorderRef = useRef<FallbackRecorder | null>(null);
 
   const [isRecording, setIsRecording] = useState(false);
+  const recorderState = useSyncExternalStore(masterRecorder.subscribe, masterRecorder.getState, masterRecorder.getState);
+  const masterTake = recorderState.active;
   const [bank, setBank] = useState(audioService.getBankSnapshot());
   const [micGain, setMicGain] = useState(2.6);
-  const [lofiEnabled, setLofiEnabled] = useState(false);
-  const [lofiDrive, setLofiDrive] = useState(0);
-  const [lofiTape, setLofiTape] = useState(0);
-  const [lofiCrush, setLofiCrush] = useState(0);
   const [lofiLevel, setLofiLevel] = useState(0);
   const lofiLevelUpdateRef = useRef(0);
+  const [reduction, setReduction] = useState<Reduction>(NO_REDUCTION);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const sampleLoadRef = useRef({ startIndex: 0, overwrite: false });
   const recordSlotRef = useRef<number | null>(null);
@@ -260,31 +303,50 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
     setSettings(prev => ({ ...prev, [band]: val }));
   };
 
+  const handleMicGain = (v: number) => {
+    if (!audioService.getMicStream()) void audioService.ensureMic({ fromUserGesture: true });
+    setMicGain(v);
+    audioService.setMicGain(v);
+  };
+
+  const handleLevel = (v: number) => {
+    audioService.setMasterGain(v);
+    setSettings(p => ({ ...p, volume: v }));
+  };
+
   const handleLofiToggle = useCallback(() => {
-    const next = !lofiEnabled;
-    setLofiEnabled(next);
+    const next = !lofi.enabled;
+    setLofi(prev => ({ ...prev, enabled: next }));
     audioService.setLofiEnabled(next);
-  }, [lofiEnabled]);
+  }, [lofi.enabled, setLofi]);
 
   const handleLofiDrive = useCallback((v: number) => {
-    setLofiDrive(v);
+    setLofi(prev => ({ ...prev, drive: v }));
     audioService.setLofiParams({ drive: v });
-  }, []);
+  }, [setLofi]);
 
   const handleLofiTape = useCallback((v: number) => {
-    setLofiTape(v);
+    setLofi(prev => ({ ...prev, tape: v }));
     audioService.setLofiParams({ tape: v });
-  }, []);
+  }, [setLofi]);
 
   const handleLofiCrush = useCallback((v: number) => {
-    setLofiCrush(v);
+    setLofi(prev => ({ ...prev, crush: v }));
     audioService.setLofiParams({ crush: v });
-  }, []);
+  }, [setLofi]);
+
+  const handleCeiling = (v: number) => setSettings(p => ({ ...p, limiterThreshold: v }));
+  const updateMultiband = (patch: Partial<MultibandSettings>) => setMultiband(prev => ({ ...prev, ...patch }));
+  const updateBand = (band: MultibandBandId, patch: Partial<MultibandBand>) =>
+    setMultiband(prev => ({ ...prev, bands: { ...prev.bands, [band]: { ...prev.bands[band], ...patch } } }));
 
   const refreshBank = useCallback(() => {
     setBank(audioService.getBankSnapshot());
   }, []);
 
+  // Bank sizes and library loads change the slots from outside this panel.
+  useEffect(() => audioService.subscribeBank(refreshBank), [refreshBank]);
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length) {
       const { startIndex, overwrite } = sampleLoadRef.current;
@@ -350,7 +412,7 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
       // ignore
     }
     setIsRecording(false);
-    const blob = encodeWav(fallback.buffers, fallback.sampleRate);
+    const blob = encodeWav([joinFloat32Chunks(fallback.buffers)], fallback.sampleRate);
     const stored = await audioService.loadMicSampleBlob(blob, recordSlotRef.current ?? undefined);
     recordSlotRef.current = null;
     if (stored) refreshBank();
@@ -500,6 +562,7 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
       if (now - lofiLevelUpdateRef.current > 120) {
         lofiLevelUpdateRef.current = now;
         setLofiLevel(dbToLevel(mainDb));
+        setReduction(audioService.getDynamicsReduction());
       }
 
       animationRef.current = requestAnimationFrame(drawVU);
@@ -513,6 +576,7 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
 
   const micFull = bank.mic.every(Boolean);
   const smpFull = bank.smp.every(Boolean);
+  const slotRows = Math.max(bank.mic.length, bank.smp.length);
   const isRecorderActive = isRecording || recorderRef.current?.state === 'recording' || Boolean(fallbackRecorderRef.current);
   const recordDisabled = micFull && !isRecorderActive;
   const formatSlots = (slots: boolean[]) => {
@@ -593,71 +657,94 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
               >
                 <Mic2 size={14} className="fill-current" />
               </button>
+              <button
+                type="button"
+                onClick={() => {
+                  void masterRecorder.toggle();
+                }}
+                aria-label={masterTake ? 'Stop master take' : 'Record master take'}
+                className={`w-9 h-9 sm:w-10 sm:h-10 rounded-full border ${masterTake ? 'border-[#3F453F] bg-[#3F453F] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-[#B9BCB7]'} flex items-center justify-center transition-all`}
+                title={masterTake ? 'Stop master take' : `Record master take (${recorderState.format.toUpperCase()}, post-limiter)`}
+              >
+                <Circle size={12} className="fill-current" />
+              </button>
             </div>
+            {masterTake && (
+              <div className="w-full flex items-center justify-center gap-2 text-[9px] uppercase tabular-nums text-[#3F453F]" aria-live="polite">
+                <span>REC {formatElapsed(masterTake.elapsedMs)}</span>
+                <span className="opacity-70">PK {formatPeakDb(masterTake.peakDb)}</span>
+              </div>
+            )}
             <div className="w-full h-px bg-[#B9BCB7] opacity-60" />
             <div className="relative w-full" style={{ aspectRatio: '95 / 60' }}>
               <BulbIcon className="absolute top-[38%] left-[14%] -translate-x-1/2 -translate-y-1/2 w-4 h-4 text-[#7A8476] pointer-events-none" />
               <TapeCassette
-                enabled={lofiEnabled}
-                tape={lofiTape}
+                enabled={lofi.enabled}
+                tape={lofi.tape}
                 level={lofiLevel}
                 className="absolute inset-0 w-full h-full text-[#7A8476] pointer-events-none"
               />
               <div className="absolute inset-x-4 top-[84%] -translate-y-1/3 flex items-end justify-center">
                 <div className="flex items-end justify-center gap-2">
                   <div className="px-0.5 rounded-md border border-[#B9BCB7] bg-[#E7E8E5]/70 backdrop-blur-sm" style={{ paddingTop: '0.01rem', paddingBottom: '0.01rem' }}>
-                    <BufferedKnob
-                      value={lofiDrive}
-                      onCommit={handleLofiDrive}
-                      min={0}
-                      max={1}
-                      defaultValue={0}
-                      size={26}
-                      color="#7A8476"
-                      label="DRIVE"
-                      format={() => ''}
-                      className="lofi-knob"
-                      live
-                    />
+                    <MidiLearnable id="lofi.drive" label="LO-FI Drive" value={lofi.drive} onChange={handleLofiDrive}>
+                      <BufferedKnob
+                        value={lofi.drive}
+                        onCommit={handleLofiDrive}
+                        min={0}
+                        max={1}
+                        defaultValue={0}
+                        size={26}
+                        color="#7A8476"
+                        label="DRIVE"
+                        format={() => ''}
+                        className="lofi-knob"
+                        live
+                      />
+                    </MidiLearnable>
                   </div>
                   <div className="px-0.5 rounded-md border border-[#B9BCB7] bg-[#E7E8E5]/70 backdrop-blur-sm" style={{ paddingTop: '0.01rem', paddingBottom: '0.01rem' }}>
-                    <BufferedKnob
-                      value={lofiTape}
-                      onCommit={handleLofiTape}
-                      min={0}
-                      max={1}
-                      defaultValue={0}
-                      size={26}
-                      color="#7A8476"
-                      label="TAPE"
-                      format={() => ''}
-                      className="lofi-knob"
-                      live
-                    />
+                    <MidiLearnable id="lofi.tape" label="LO-FI Tape" value={lofi.tape} onChange={handleLofiTape}>
+                      <BufferedKnob
+                        value={lofi.tape}
+                        onCommit={handleLofiTape}
+                        min={0}
+                        max={1}
+                        defaultValue={0}
+                        size={26}
+                        color="#7A8476"
+                        label="TAPE"
+                        format={() => ''}
+                        className="lofi-knob"
+                        live
+                      />
+                    </MidiLearnable>
                   </div>
                   <div className="px-0.5 rounded-md border border-[#B9BCB7] bg-[#E7E8E5]/70 backdrop-blur-sm" style={{ paddingTop: '0.01rem', paddingBottom: '0.01rem' }}>
-                    <BufferedKnob
-                      value={lofiCrush}
-                      onCommit={handleLofiCrush}
-                      min={0}
-                      max={1}
-                      defaultValue={0}
-                      size={26}
-                      color="#7A8476"
-                      label="CRUSH"
-                      format={() => ''}
-                      className="lofi-knob"
-                      live
-                    />
+                    <MidiLearnable id="lofi.crush" label="LO-FI Crush" value={lofi.crush} onChange={handleLofiCrush}>
+                      <BufferedKnob
+                        value={lofi.crush}
+                        onCommit={handleLofiCrush}
+                        min={0}
+                        max={1}
+                        defaultValue={0}
+                        size={26}
+                        color="#7A8476"
+                        label="CRUSH"
+                        format={() => ''}
+                        className="lofi-knob"
+                        live
+                      />
+                    </MidiLearnable>
                   </div>
                 </div>
               </div>
               <button
                 type="button"
                 onClick={handleLofiToggle}
-                aria-pressed={lofiEnabled}
-                className={`absolute left-[86%] top-[38%] -translate-x-1/2 -translate-y-1/2 w-3.5 h-3.5 rounded-full border transition-colors ${lofiEnabled ? 'bg-[#7A8476] border-[#7A8476]' : 'bg-[#D9DBD6] border-[#B9BCB7]'}`}
-                title={lofiEnabled ? 'LO-FI on' : 'LO-FI off'}
+                aria-pressed={lofi.enabled}
+                className={`absolute left-[86%] top-[38%] -translate-x-1/2 -translate-y-1/2 w-3.5 h-3.5 rounded-full border transition-colors ${lofi.enabled ? 'bg-[#7A8476] border-[#7A8476]' : 'bg-[#D9DBD6] border-[#B9BCB7]'}`}
+                title={lofi.enabled ? 'LO-FI on' : 'LO-FI off'}
               />
             </div>
           </div>
@@ -671,17 +758,15 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
           </div>
           <div className="grid grid-cols-2 justify-items-center items-center" style={{ height: CONTROL_ZONE_H }}>
             <ControlColumn label="Gain" bottom={`${(micGain * 25).toFixed(0)}%`}>
-              <Fader
-                value={micGain}
-                min={0}
-                max={4}
-                defaultValue={2.6}
-                onChange={(v) => {
-                  if (!audioService.getMicStream()) void audioService.ensureMic({ fromUserGesture: true });
-                  setMicGain(v);
-                  audioService.setMicGain(v);
-                }}
-              />
+              <MidiLearnable id="mixer.micGain" label="Mic Gain" value={micGain} onChange={handleMicGain} min={0} max={4}>
+                <Fader
+                  value={micGain}
+                  min={0}
+                  max={4}
+                  defaultValue={2.6}
+                  onChange={handleMicGain}
+                />
+              </MidiLearnable>
             </ControlColumn>
             <ControlColumn label="VU" bottom="dB">
               <canvas ref={micVURef} width={FADER_TRACK_W} height={FADER_HEIGHT} className="rounded-sm bg-black/5" style={{ height: FADER_HEIGHT, width: FADER_TRACK_W }} />
@@ -703,16 +788,15 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
               <canvas ref={mainCanvasRef} width={FADER_TRACK_W} height={FADER_HEIGHT} className="rounded-sm bg-black/5" style={{ height: FADER_HEIGHT, width: FADER_TRACK_W }} />
             </ControlColumn>
             <ControlColumn label="Level" bottom={`${(settings.volume * 100).toFixed(0)}%`}>
-              <Fader
-                value={settings.volume}
-                min={0}
-                max={1}
-                defaultValue={0.7}
-                onChange={(v) => {
-                  audioService.setMasterGain(v);
-                  setSettings(p => ({ ...p, volume: v }));
-                }}
-              />
+              <MidiLearnable id="mixer.level" label="Level" value={settings.volume} onChange={handleLevel}>
+                <Fader
+                  value={settings.volume}
+                  min={0}
+                  max={1}
+                  defaultValue={0.7}
+                  onChange={handleLevel}
+                />
+              </MidiLearnable>
             </ControlColumn>
           </div>
         </div>
@@ -726,13 +810,15 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
           <div className="grid grid-cols-3 justify-items-center items-center" style={{ height: CONTROL_ZONE_H }}>
             {(['low', 'mid', 'high'] as const).map((band) => (
               <ControlColumn key={band} label={band} bottom={`${(settings[band] as number).toFixed(1)}dB`}>
-                <Fader
-                  value={settings[band] as number}
-                  min={-24}
-                  max={24}
-                  defaultValue={0}
-                  onChange={(v) => handleEQChange(band, v)}
-                />
+                <MidiLearnable id={`mixer.${band}`} label={`EQ ${band}`} value={settings[band] as number} onChange={(v) => handleEQChange(band, v)} min={-24} max={24}>
+                  <Fader
+                    value={settings[band] as number}
+                    min={-24}
+                    max={24}
+                    defaultValue={0}
+                    onChange={(v) => handleEQChange(band, v)}
+                  />
+                </MidiLearnable>
               </ControlColumn>
             ))}
           </div>
@@ -781,56 +867,69 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
               </div>
             </div>
 
-            <div className="w-full max-w-[260px] flex-1 min-h-0 relative z-0">
-              <div className="grid content-start gap-x-1 gap-y-[4px]" style={{ gridTemplateColumns: DATA_GRID_COLS, gridTemplateRows: 'repeat(6, 16px)' }}>
-                {bank.mic.map((hasMic, idx) => {
+            <div className="w-full max-w-[260px] flex-1 min-h-0 relative z-0 overflow-y-auto">
+              <div className="grid content-start gap-x-1 gap-y-[4px]" style={{ gridTemplateColumns: DATA_GRID_COLS, gridTemplateRows: `repeat(${slotRows}, 16px)` }}>
+                {Array.from({ length: slotRows }, (_, idx) => {
+                  const hasMic = bank.mic[idx];
                   const hasSmp = bank.smp[idx];
                   return (
                     <React.Fragment key={`row-${idx}`}>
-                      <button
-                        type="button"
-                        onClick={() => {
-                          void handleRecordToggle(idx);
-                        }}
-                        onPointerDown={handleRecordPointerDown(idx)}
-                        className={`w-full h-[16px] rounded-full border px-3 flex items-center justify-center text-[9px] tracking-widest uppercase leading-none transition-all ${
-                          hasMic ? 'bg-[#7A8476] text-[#F2F2F0] border-[#7A8476]' : 'bg-[#F2F2F0] text-[#5F665F] border-[#B9BCB7] hover:bg-white'
-                        }`}
-                      >
-                        MIC0{idx + 1}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => handleClearMicSlot(idx)}
-                        disabled={!hasMic}
-                        className={`h-[16px] w-[16px] rounded-full border flex items-center justify-center transition-all ${
-                          hasMic ? 'bg-[#F2F2F0] border-[#B9BCB7] hover:bg-[#E7E8E5]' : 'border-[#D9DBD6] text-[#C7C9C5] cursor-not-allowed opacity-50'
-                        }`}
-                      >
-                        <XCircle size={9} />
-                      </button>
-                      <label
-                        htmlFor={sampleInputId}
-                        role="button"
-                        tabIndex={0}
-                        onPointerDown={prepareSampleLoad(idx, true)}
-                        onClick={prepareSampleLoad(idx, true)}
-                        className={`w-full h-[16px] rounded-full border px-3 flex items-center justify-center text-[9px] tracking-widest uppercase leading-none transition-all ${
-                          hasSmp ? 'bg-[#7A8476] text-[#F2F2F0] border-[#7A8476]' : 'bg-[#F2F2F0] text-[#5F665F] border-[#B9BCB7] hover:bg-white'
-                        }`}
-                      >
-                        SMP0{idx + 1}
-                      </label>
-                      <button
-                        type="button"
-                        onClick={() => handleClearSampleSlot(idx)}
-                        disabled={!hasSmp}
-                        className={`h-[16px] w-[16px] rounded-full border flex items-center justify-center transition-all ${
-                          hasSmp ? 'bg-[#F2F2F0] border-[#B9BCB7] hover:bg-[#E7E8E5]' : 'border-[#D9DBD6] text-[#C7C9C5] cursor-not-allowed opacity-50'
-                        }`}
-                      >
-                        <XCircle size={9} />
-                      </button>
+                      {idx < bank.mic.length ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              void handleRecordToggle(idx);
+                            }}
+                            onPointerDown={handleRecordPointerDown(idx)}
+                            className={`w-full h-[16px] rounded-full border px-3 flex items-center justify-center text-[9px] tracking-widest uppercase leading-none transition-all ${
+                              hasMic ? 'bg-[#7A8476] text-[#F2F2F0] border-[#7A8476]' : 'bg-[#F2F2F0] text-[#5F665F] border-[#B9BCB7] hover:bg-white'
+                            }`}
+                          >
+                            {idx < 9 ? <>MIC0{idx + 1}</> : <>MIC{idx + 1}</>}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleClearMicSlot(idx)}
+                            disabled={!hasMic}
+                            className={`h-[16px] w-[16px] rounded-full border flex items-center justify-center transition-all ${
+                              hasMic ? 'bg-[#F2F2F0] border-[#B9BCB7] hover:bg-[#E7E8E5]' : 'border-[#D9DBD6] text-[#C7C9C5] cursor-not-allowed opacity-50'
+                            }`}
+                          >
+                            <XCircle size={9} />
+                          </button>
+                        </>
+                      ) : (
+                        <span className="col-span-2" />
+                      )}
+                      {idx < bank.smp.length ? (
+                        <>
+                          <label
+                            htmlFor={sampleInputId}
+                            role="button"
+                            tabIndex={0}
+                            onPointerDown={prepareSampleLoad(idx, true)}
+                            onClick={prepareSampleLoad(idx, true)}
+                            className={`w-full h-[16px] rounded-full border px-3 flex items-center justify-center text-[9px] tracking-widest uppercase leading-none transition-all ${
+                              hasSmp ? 'bg-[#7A8476] text-[#F2F2F0] border-[#7A8476]' : 'bg-[#F2F2F0] text-[#5F665F] border-[#B9BCB7] hover:bg-white'
+                            }`}
+                          >
+                            {idx < 9 ? <>SMP0{idx + 1}</> : <>SMP{idx + 1}</>}
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => handleClearSampleSlot(idx)}
+                            disabled={!hasSmp}
+                            className={`h-[16px] w-[16px] rounded-full border flex items-center justify-center transition-all ${
+                              hasSmp ? 'bg-[#F2F2F0] border-[#B9BCB7] hover:bg-[#E7E8E5]' : 'border-[#D9DBD6] text-[#C7C9C5] cursor-not-allowed opacity-50'
+                            }`}
+                          >
+                            <XCircle size={9} />
+                          </button>
+                        </>
+                      ) : (
+                        <span className="col-span-2" />
+                      )}
                     </React.Fragment>
                   );
                 })}
@@ -849,6 +948,89 @@ export const Mixer: React.FC<MixerProps> = ({ settings, setSettings, isPlaying,
           </div>
         </div>
       </div>
+
+      {/* DYNAMICS: multiband ahead of the master compressor, true-peak limiter last */}
+      <div className="mt-3 min-w-0 bg-[#D9DBD6] rounded-2xl border border-[#C7C9C5] p-3 flex flex-wrap items-end gap-x-4 gap-y-3">
+        <div className="flex flex-col items-center gap-2 w-20">
+          <div className="h-4 text-[#7A8476] leading-none flex items-center justify-center" title="Dynamics">
+            <Gauge size={14} />
+            <span className="sr-only">Dynamics</span>
+          </div>
+          <button
+            type="button"
+            onClick={() => updateMultiband({ enabled: !multiband.enabled })}
+            aria-pressed={multiband.enabled}
+            aria-label="Multiband compressor"
+            className={`w-full h-[16px] rounded-full border text-[9px] leading-none tracking-widest text-center ${multiband.enabled ? 'bg-[#7A8476] text-white border-[#7A8476]' : 'border-[#B9BCB7] text-[#5F665F] bg-[#F2F2F0]'}`}
+          >
+            {multiband.enabled ? 'MB ON' : 'MB OFF'}
+          </button>
+        </div>
+
+        <div className="flex items-end gap-1">
+          <DynamicsKnob
+            id="mixer.multiband.lowCrossover"
+            label="Multiband Low Crossover"
+            caption="Low X"
+            value={multiband.lowCrossover}
+            range={LOW_CROSSOVER_RANGE}
+            defaultValue={DEFAULT_MULTIBAND.lowCrossover}
+            format={formatHz}
+            onChange={(v) => updateMultiband({ lowCrossover: v })}
+          />
+          <DynamicsKnob
+            id="mixer.multiband.highCrossover"
+            label="Multiband High Crossover"
+            caption="High X"
+            value={multiband.highCrossover}
+            range={HIGH_CROSSOVER_RANGE}
+            defaultValue={DEFAULT_MULTIBAND.highCrossover}
+            format={formatHz}
+            onChange={(v) => updateMultiband({ highCrossover: v })}
+          />
+        </div>
+
+        {MULTIBAND_BANDS.map((band) => (
+          <div key={band.id} className="flex flex-col gap-1 border-l border-[#C7C9C5] pl-3">
+            <span className="text-[8px] uppercase text-[#7A8476]">{band.label}</span>
+            <div className="flex items-end gap-1">
+              {BAND_KNOBS.map((knob) => (
+                <DynamicsKnob
+                  key={knob.id}
+                  id={`mixer.multiband.${band.id}.${knob.id}`}
+                  label={`Multiband ${band.label} ${knob.label}`}
+                  caption={knob.label}
+                  value={multiband.bands[band.id][knob.id]}
+                  range={knob.range}
+                  defaultValue={DEFAULT_MULTIBAND.bands[band.id][knob.id]}
+                  format={knob.format}
+                  onChange={(v) => updateBand(band.id, { [knob.id]: v })}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-col gap-1 border-l border-[#C7C9C5] pl-3">
+          <span className="text-[8px] uppercase text-[#7A8476]">Limiter</span>
+          <DynamicsKnob
+            id="mixer.limiterCeiling"
+            label="Limiter Ceiling"
+            caption="Ceiling"
+            value={settings.limiterThreshold ?? DEFAULT_LIMITER_CEILING}
+            range={LIMITER_CEILING_RANGE}
+            defaultValue={DEFAULT_LIMITER_CEILING}
+            format={(v) => `${v.toFixed(1)}dBTP`}
+            onChange={handleCeiling}
+          />
+        </div>
+
+        <div className="flex items-end gap-1 border-l border-[#C7C9C5] pl-3 ml-auto">
+          {GR_METERS.map((meter) => (
+            <ReductionMeter key={meter.id} label={meter.label} db={reduction[meter.id]} />
+          ))}
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { ListOrdered } from 'lucide-react';
+import type { ProgressionAdvance, ProgressionSettings } from '../types';
+import {
+  PROGRESSION_ADVANCES,
+  PROGRESSION_PRESETS,
+  formatProgression,
+  parseProgression,
+  progressionRange,
+  progressionStepScaleLabel,
+  type ProgressionPosition,
+} from '../src/music/progression';
+import type { ScaleDef } from '../src/music/scales';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type ProgressionPanelProps = {
+  progression: ProgressionSettings;
+  position: ProgressionPosition;
+  customScale: ScaleDef | null; // the Music panel's user scale, played by D:custom steps
+  onChange: React.Dispatch<React.SetStateAction<ProgressionSettings>>;
+  onJump: (index: number) => void;
+};
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider disabled:text-[#C7C9C5]';
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+export const ProgressionPanel: React.FC<ProgressionPanelProps> = ({ progression, position, customScale, onChange, onJump }) => {
+  const { enabled, steps, advance } = progression;
+  const [text, setText] = useState(() => formatProgression(steps));
+  const [error, setError] = useState('');
+  const [minEvery, maxEvery] = progressionRange(advance);
+
+  // Scenes and presets replace the steps from outside; show what is actually loaded.
+  useEffect(() => {
+    setText(formatProgression(steps));
+    setError('');
+  }, [steps]);
+
+  const commitText = (value: string) => {
+    if (value.trim() === formatProgression(steps)) return;
+    try {
+      const parsed = parseProgression(value);
+      onChange((prev) => ({ ...prev, steps: parsed }));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid progression');
+    }
+  };
+
+  const selectAdvance = (id: ProgressionAdvance) =>
+    onChange((prev) => {
+      if (prev.advance === id) return prev;
+      const [lo, hi] = progressionRange(id);
+      return { ...prev, advance: id, every: Math.max(lo, Math.min(hi, prev.every)) };
+    });
+
+  const setEvery = (v: number) => onChange((prev) => ({ ...prev, every: Math.round(v) }));
+
+  const unit = advance === 'bars' ? 'bar' : 'hit';
+  const current = position.step;
+  const status = error
+    ? error
+    : enabled && current
+      ? `${position.index + 1}/${steps.length} ${current.label} - ${progressionStepScaleLabel(current, customScale)}`
+      : 'Off';
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <ListOrdered size={12} /> PROGRESSION
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => onChange((prev) => ({ ...prev, enabled: !prev.enabled }))}
+          disabled={steps.length === 0}
+          aria-pressed={enabled}
+          aria-label="Root and scale progression"
+          title="Move root and scale through the steps on a bar or collision count"
+          className={chipClass(enabled)}
+        >
+          Steps {enabled ? 'on' : 'off'}
+        </button>
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = PROGRESSION_PRESETS.find((option) => option.id === e.target.value);
+            if (preset) onChange((prev) => ({ ...prev, steps: parseProgression(preset.text) }));
+          }}
+          aria-label="Progression preset"
+          className={selectClass}
+        >
+          <option value="" disabled>
+            Preset
+          </option>
+          {PROGRESSION_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+        <span className="pl-2">Advance</span>
+        {PROGRESSION_ADVANCES.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => selectAdvance(option.id)}
+            aria-pressed={advance === option.id}
+            className={chipClass(advance === option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2">
+        <div className="flex flex-col gap-1 flex-1 min-w-[14rem]">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={(e) => commitText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitText(e.currentTarget.value);
+            }}
+            placeholder="Dm9 G7 Cmaj7 or D:dorian"
+            aria-label="Progression steps"
+            title="Chord symbols (Dm9, G7, Bbmaj7) or root:scale (C:mixolydian, C:custom for the loaded user scale), up to 16 steps"
+            className="bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+          />
+          <div className="flex flex-wrap gap-1">
+            {steps.map((step, index) => (
+              <button
+                key={`${index}.${step.label}`}
+                type="button"
+                onClick={() => onJump(index)}
+                disabled={!enabled}
+                aria-pressed={enabled && position.index === index}
+                aria-label={`Go to step ${index + 1} ${step.label}`}
+                title={progressionStepScaleLabel(step, customScale)}
+                className={`${chipClass(enabled && position.index === index)} normal-case`}
+              >
+                {step.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable
+            id="progression.every"
+            label="Progression step length"
+            value={progression.every}
+            onChange={setEvery}
+            min={minEvery}
+            max={maxEvery}
+          >
+            <BufferedKnob
+              value={progression.every}
+              onCommit={setEvery}
+              min={minEvery}
+              max={maxEvery}
+              steps={maxEvery - minEvery + 1}
+              defaultValue={advance === 'bars' ? 2 : 16}
+              size={34}
+              color="#7A8476"
+              format={(v) => `${Math.round(v)} ${unit}${Math.round(v) === 1 ? '' : 's'}`}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Every</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Box, Upload } from 'lucide-react';
+import type { ImpulseSettings, ReverbSettings } from '../types';
+import { BUNDLED_IMPULSES, defaultImpulseSettings, IMPULSE_STRETCH_RANGE, isImpulseSource } from '../src/audio/impulses';
+import { defaultReverbSettings, REVERB_PRE_DELAY_RANGE, reverbSizeFactor } from '../src/audio/reverb';
+import { IMPULSE_TAG } from '../src/library/sampleLibrary';
+import { sampleLibrary } from '../services/sampleLibrary';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type ReverbPanelProps = {
+  reverb: ReverbSettings;
+  onChange: React.Dispatch<React.SetStateAction<ReverbSettings>>;
+  impulse: ImpulseSettings;
+  onImpulseChange: React.Dispatch<React.SetStateAction<ImpulseSettings>>;
+};
+
+type ReverbKnob = {
+  id: 'size' | 'preDelay' | 'damping' | 'diffusion' | 'early';
+  label: string;
+  range: [number, number];
+  format: (v: number) => string;
+};
+
+type ImpulseKnob = {
+  id: 'start' | 'end' | 'stretch';
+  midi: string;
+  label: string;
+  range: [number, number];
+  format: (v: number) => string;
+};
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const formatPercent = (v: number) => `${Math.round(v * 100)}%`;
+const formatSize = (v: number) => `x${reverbSizeFactor(v).toFixed(2)}`;
+
+const DEFAULT_REVERB = defaultReverbSettings();
+const DEFAULT_IMPULSE = defaultImpulseSettings();
+
+const REVERB_KNOBS: ReverbKnob[] = [
+  { id: 'size', label: 'Size', range: [0, 1], format: formatSize },
+  { id: 'preDelay', label: 'Pre-delay', range: REVERB_PRE_DELAY_RANGE, format: (v) => `${Math.round(v * 1000)} ms` },
+  { id: 'damping', label: 'Damping', range: [0, 1], format: formatPercent },
+  { id: 'diffusion', label: 'Diffusion', range: [0, 1], format: formatPercent },
+  { id: 'early', label: 'Early', range: [0, 1], format: formatPercent },
+];
+
+const IMPULSE_KNOBS: ImpulseKnob[] = [
+  { id: 'start', midi: 'reverb.irStart', label: 'IR start', range: [0, 1], format: formatPercent },
+  { id: 'end', midi: 'reverb.irEnd', label: 'IR end', range: [0, 1], format: formatPercent },
+  { id: 'stretch', midi: 'reverb.irStretch', label: 'Stretch', range: IMPULSE_STRETCH_RANGE, format: (v) => `x${v.toFixed(2)}` },
+];
+
+const inputClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider min-w-0';
+
+export const ReverbPanel: React.FC<ReverbPanelProps> = ({ reverb, onChange, impulse, onImpulseChange }) => {
+  const { followRoom } = reverb;
+  const library = useSyncExternalStore(sampleLibrary.subscribe, sampleLibrary.getState, sampleLibrary.getState);
+  const [note, setNote] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // IndexedDB is only touched after mount, as in the Library panel.
+  useEffect(() => {
+    void sampleLibrary.load();
+  }, []);
+
+  const userImpulses = library.samples.filter((sample) => sample.tags.includes(IMPULSE_TAG));
+  const isUser = impulse.source === 'user';
+  const missing = isUser && !userImpulses.some((sample) => sample.id === impulse.sampleId);
+  const roomPlays = impulse.source === 'room' || missing;
+  const selected = isUser ? `user:${impulse.sampleId}` : impulse.source;
+  const bundledLabel = BUNDLED_IMPULSES.find((ir) => ir.id === impulse.source)?.label;
+  const status = missing
+    ? `${impulse.name || 'IR'} missing - room plays`
+    : isUser
+      ? impulse.name
+      : bundledLabel ?? `${followRoom ? 'Shaped by the room' : 'Fixed box'} ${formatSize(reverb.size)}`;
+
+  const pickSource = (value: string) => {
+    setNote('');
+    if (value.startsWith('user:')) {
+      const sample = userImpulses.find((s) => s.id === value.slice(5));
+      if (sample) onImpulseChange((prev) => ({ ...prev, source: 'user', sampleId: sample.id, name: sample.name }));
+      return;
+    }
+    if (isImpulseSource(value)) onImpulseChange((prev) => ({ ...prev, source: value, sampleId: null, name: '' }));
+  };
+
+  // A fresh IR plays unedited; refusals (not audio, too long, storage full) show in the header.
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const sample = await sampleLibrary.importImpulse(file);
+    if (!sample) {
+      setNote(sampleLibrary.getState().status || 'Import failed');
+      return;
+    }
+    setNote('');
+    onImpulseChange({ ...defaultImpulseSettings(), source: 'user', sampleId: sample.id, name: sample.name });
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Box size={12} /> REVERB
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">
+          {note || status}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => onChange((prev) => ({ ...prev, followRoom: !prev.followRoom }))}
+          aria-pressed={followRoom}
+          aria-label="Reverb follows the room"
+          title="Size and echoes follow the room box as Geometry and Wave warp it"
+          className={chipClass(followRoom)}
+        >
+          Room {followRoom ? 'on' : 'off'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(defaultReverbSettings())}
+          aria-label="Reset reverb"
+          className={chipClass(false)}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2">
+        {REVERB_KNOBS.map((knob) => {
+          // Functional update: MIDI can move several knobs before the next render.
+          const set = (v: number) => onChange((prev) => ({ ...prev, [knob.id]: v }));
+          return (
+            <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+              <MidiLearnable
+                id={`reverb.${knob.id}`}
+                label={`Reverb ${knob.label}`}
+                value={reverb[knob.id]}
+                onChange={set}
+                min={knob.range[0]}
+                max={knob.range[1]}
+              >
+                <BufferedKnob
+                  value={reverb[knob.id]}
+                  onCommit={set}
+                  min={knob.range[0]}
+                  max={knob.range[1]}
+                  defaultValue={DEFAULT_REVERB[knob.id]}
+                  size={34}
+                  color="#7A8476"
+                  format={knob.format}
+                />
+              </MidiLearnable>
+              <span className="text-[8px] uppercase text-[#7A8476]">{knob.label}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <span className="pl-1">IR</span>
+        <select
+          value={selected}
+          onChange={(e) => pickSource(e.target.value)}
+          aria-label="Impulse response"
+          className={inputClass}
+        >
+          <option value="room">Room</option>
+          {BUNDLED_IMPULSES.map((ir) => (
+            <option key={ir.id} value={ir.id}>
+              {ir.label}
+            </option>
+          ))}
+          {userImpulses.map((sample) => (
+            <option key={sample.id} value={`user:${sample.id}`}>
+              {sample.name}
+            </option>
+          ))}
+          {missing && <option value={selected}>{impulse.name || 'IR'} (missing)</option>}
+        </select>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={library.busy}
+          aria-label="Import impulse response"
+          title={`WAV up to 10 s; stored in the library with the "${IMPULSE_TAG}" tag`}
+          className={`${chipClass(false)} flex items-center gap-1`}
+        >
+          <Upload size={10} /> Import IR
+        </button>
+        <button
+          type="button"
+          onClick={() => onImpulseChange((prev) => ({ ...prev, reverse: !prev.reverse }))}
+          aria-pressed={impulse.reverse}
+          className={chipClass(impulse.reverse)}
+        >
+          Reverse
+        </button>
+        <button
+          type="button"
+          onClick={() => onImpulseChange((prev) => ({ ...prev, normalize: !prev.normalize }))}
+          aria-pressed={impulse.normalize}
+          title="Level the IR again after trimming; off keeps the level the trim leaves"
+          className={chipClass(impulse.normalize)}
+        >
+          Normalize
+        </button>
+        {!roomPlays && <span className="text-[8px] text-[#5F665F]">Room knobs rest while an IR plays</span>}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".wav,audio/wav,audio/x-wav,audio/*"
+          className="hidden"
+          onChange={(e) => void handleImport(e)}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2">
+        {IMPULSE_KNOBS.map((knob) => {
+          const set = (v: number) => onImpulseChange((prev) => ({ ...prev, [knob.id]: v }));
+          return (
+            <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+              <MidiLearnable
+                id={knob.midi}
+                label={`Reverb ${knob.label}`}
+                value={impulse[knob.id]}
+                onChange={set}
+                min={knob.range[0]}
+                max={knob.range[1]}
+              >
+                <BufferedKnob
+                  value={impulse[knob.id]}
+                  onCommit={set}
+                  min={knob.range[0]}
+                  max={knob.range[1]}
+                  defaultValue={DEFAULT_IMPULSE[knob.id]}
+                  size={34}
+                  color="#7A8476"
+                  format={knob.format}
+                />
+              </MidiLearnable>
+              <span className="text-[8px] uppercase text-[#7A8476]">{knob.label}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
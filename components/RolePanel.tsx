@@ -0,0 +1,157 @@
+import React from 'react';
+import { Grid3x3 } from 'lucide-react';
+import type { RoleSettings, RoleVoice, SoundRole } from '../types';
+import {
+  ROLE_ATTACK_RANGE,
+  ROLE_DECAY_RANGE,
+  ROLE_GAIN_RANGE,
+  ROLE_PITCH_RANGE,
+  ROLE_SAMPLE_SLOTS,
+  ROLE_SOURCES,
+  SOUND_ROLES,
+  defaultRoleVoices,
+} from '../src/audio/roles';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type RolePanelProps = {
+  roles: RoleSettings;
+  onChange: React.Dispatch<React.SetStateAction<RoleSettings>>;
+};
+
+type RoleKnob = {
+  id: 'gain' | 'pitch' | 'attack' | 'decay';
+  label: string;
+  range: [number, number];
+  format: (v: number) => string;
+  round?: boolean;
+};
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider disabled:text-[#C7C9C5]';
+
+// 0 on the envelope knobs hands the stage back to the voice itself.
+const formatSeconds = (v: number) => (v < 0.005 ? 'Nat' : v < 1 ? `${Math.round(v * 1000)} ms` : `${v.toFixed(2)} s`);
+
+const ROLE_KNOBS: RoleKnob[] = [
+  { id: 'gain', label: 'Gain', range: ROLE_GAIN_RANGE, format: (v) => (v <= 0 ? 'Mute' : `${Math.round(v * 100)}%`) },
+  { id: 'pitch', label: 'Pitch', range: ROLE_PITCH_RANGE, format: (v) => `${v > 0 ? '+' : ''}${Math.round(v)} st`, round: true },
+  { id: 'attack', label: 'Attack', range: ROLE_ATTACK_RANGE, format: formatSeconds },
+  { id: 'decay', label: 'Decay', range: ROLE_DECAY_RANGE, format: formatSeconds },
+];
+
+const DEFAULT_VOICES = defaultRoleVoices();
+
+// One select covers both the source and, for samples, the slot.
+const sourceValue = (voice: RoleVoice) => (voice.source === 'smp' ? `smp:${voice.slot}` : voice.source);
+
+const parseSourceValue = (value: string): Pick<RoleVoice, 'source'> & Partial<Pick<RoleVoice, 'slot'>> => {
+  if (value.startsWith('smp:')) return { source: 'smp', slot: Number(value.slice(4)) || 0 };
+  return { source: value === 'synth' ? 'synth' : 'auto' };
+};
+
+const sourceOptions = [
+  ...ROLE_SOURCES.filter((source) => source.id !== 'smp').map((source) => ({ value: source.id, label: source.label })),
+  ...Array.from({ length: ROLE_SAMPLE_SLOTS }, (_, slot) => ({ value: `smp:${slot}`, label: `S${String(slot + 1).padStart(2, '0')}` })),
+];
+
+export const RolePanel: React.FC<RolePanelProps> = ({ roles, onChange }) => {
+  const { enabled } = roles;
+  const muted = SOUND_ROLES.filter((role) => roles.roles[role.id].gain <= 0).length;
+
+  // Functional update: MIDI can move several knobs before the next render.
+  const updateRole = (role: SoundRole, patch: Partial<RoleVoice>) =>
+    onChange((prev) => ({ ...prev, roles: { ...prev.roles, [role]: { ...prev.roles[role], ...patch } } }));
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Grid3x3 size={12} /> ROLES
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">
+          {enabled ? `${SOUND_ROLES.length - muted} of ${SOUND_ROLES.length} sounding` : 'One voice'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => onChange((prev) => ({ ...prev, enabled: !prev.enabled }))}
+          aria-pressed={enabled}
+          aria-label="Sound role matrix"
+          title="Give walls, floor, bubble pairs, the void, pops, shatters and tesla jumps their own voice"
+          className={chipClass(enabled)}
+        >
+          Matrix {enabled ? 'on' : 'off'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange((prev) => ({ ...prev, roles: defaultRoleVoices() }))}
+          disabled={!enabled}
+          aria-label="Reset sound roles"
+          className={chipClass(false)}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2 px-2 overflow-x-auto">
+        {SOUND_ROLES.map((role) => {
+          const voice = roles.roles[role.id];
+          return (
+            <div key={role.id} className="flex items-end gap-4">
+              <div className="flex flex-col gap-1 w-28">
+                <span className="text-[8px] uppercase text-[#7A8476]">{role.label}</span>
+                <select
+                  value={sourceValue(voice)}
+                  onChange={(e) => updateRole(role.id, parseSourceValue(e.target.value))}
+                  disabled={!enabled}
+                  aria-label={`${role.label} source`}
+                  className={selectClass}
+                >
+                  {sourceOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {ROLE_KNOBS.map((knob) => {
+                const set = (v: number) => updateRole(role.id, { [knob.id]: knob.round ? Math.round(v) : v });
+                return (
+                  <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+                    <MidiLearnable
+                      id={`roles.${role.id}.${knob.id}`}
+                      label={`Role ${role.label} ${knob.label}`}
+                      value={voice[knob.id]}
+                      onChange={set}
+                      min={knob.range[0]}
+                      max={knob.range[1]}
+                    >
+                      <BufferedKnob
+                        value={voice[knob.id]}
+                        onCommit={set}
+                        min={knob.range[0]}
+                        max={knob.range[1]}
+                        steps={knob.round ? knob.range[1] - knob.range[0] + 1 : undefined}
+                        defaultValue={DEFAULT_VOICES[role.id][knob.id]}
+                        size={34}
+                        color="#7A8476"
+                        format={knob.format}
+                        disabled={!enabled}
+                      />
+                    </MidiLearnable>
+                    <span className="text-[8px] uppercase text-[#7A8476]">{knob.label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { AudioLines, Play, RotateCcw, Scissors } from 'lucide-react';
+import type { SampleBankId, SampleSlotSettings } from '../types';
+import { audioService } from '../services/audioEngine';
+import {
+  SAMPLE_ATTACK_RANGE,
+  SAMPLE_DECAY_RANGE,
+  SAMPLE_GAIN_RANGE,
+  SAMPLE_HOLD_RANGE,
+  SAMPLE_RELEASE_RANGE,
+  SAMPLE_ROOT_RANGE,
+  defaultSampleSlot,
+  detectTransients,
+  findSilenceBounds,
+  monoChannel,
+  waveformPeaks,
+} from '../src/audio/sampleSlot';
+import { pitchClassToNoteName } from '../src/music/notes';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type SlotRef = { bank: SampleBankId; index: number };
+type Marker = 'start' | 'end' | 'loopStart';
+
+type KnobDef = {
+  id: keyof Pick<SampleSlotSettings, 'start' | 'end' | 'loopStart' | 'gain' | 'rootMidi' | 'attack' | 'decay' | 'sustain' | 'release' | 'hold'>;
+  label: string;
+  range: [number, number];
+  format: (v: number) => string;
+  steps?: number;
+};
+
+const WAVE_BUCKETS = 320;
+const WAVE_HEIGHT = 72;
+
+const chipClass = (active: boolean) =>
+  `h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all disabled:opacity-50 ${
+    active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+  }`;
+
+const slotLabel = ({ bank, index }: SlotRef) => `${bank === 'mic' ? 'M' : 'S'}${String(index + 1).padStart(2, '0')}`;
+
+const formatSeconds = (v: number) => (v < 1 ? `${Math.round(v * 1000)} ms` : `${v.toFixed(2)} s`);
+// Detected roots carry cents; whole notes read as plain names.
+const formatNote = (midi: number) => {
+  const note = Math.round(midi);
+  const cents = Math.round((midi - note) * 100);
+  return `${pitchClassToNoteName(note)}${Math.floor(note / 12) - 1}${cents ? ` ${cents > 0 ? '+' : ''}${cents}c` : ''}`;
+};
+
+const envelopeKnobs: KnobDef[] = [
+  { id: 'gain', label: 'Trim', range: SAMPLE_GAIN_RANGE, format: (v) => `${v > 0 ? '+' : ''}${v.toFixed(1)} dB` },
+  {
+    id: 'rootMidi',
+    label: 'Root',
+    range: SAMPLE_ROOT_RANGE,
+    format: formatNote,
+    steps: SAMPLE_ROOT_RANGE[1] - SAMPLE_ROOT_RANGE[0] + 1,
+  },
+  { id: 'attack', label: 'Attack', range: SAMPLE_ATTACK_RANGE, format: formatSeconds },
+  { id: 'decay', label: 'Decay', range: SAMPLE_DECAY_RANGE, format: formatSeconds },
+  { id: 'sustain', label: 'Sustain', range: [0, 1], format: (v) => `${Math.round(v * 100)}%` },
+  { id: 'release', label: 'Release', range: SAMPLE_RELEASE_RANGE, format: formatSeconds },
+  { id: 'hold', label: 'Hold', range: SAMPLE_HOLD_RANGE, format: formatSeconds },
+];
+
+export const SamplePanel: React.FC = () => {
+  const revision = useSyncExternalStore(audioService.subscribeBank, audioService.getBankRevision, audioService.getBankRevision);
+  const [selected, setSelected] = useState<SlotRef>({ bank: 'smp', index: 0 });
+  const [sensitivity, setSensitivity] = useState(0.5);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<Marker | null>(null);
+
+  // Revision bumps on every load, clear or edit; the engine holds the state itself.
+  const bank = useMemo(() => audioService.getBankSnapshot(), [revision]);
+  const slot = useMemo(() => audioService.getSampleSlot(selected.bank, selected.index), [revision, selected]);
+  const buffer = slot?.buffer ?? null;
+  const settings = slot?.settings ?? null;
+  const duration = buffer?.duration ?? 0;
+  const mono = useMemo(() => (buffer ? monoChannel(buffer) : null), [buffer]);
+  const peaks = useMemo(() => (mono ? waveformPeaks(mono, WAVE_BUCKETS) : []), [mono]);
+
+  // Follow the banks: when the chosen slot empties, jump to the first loaded one.
+  useEffect(() => {
+    if (slot) return;
+    const bankId = (['smp', 'mic'] as const).find((id) => bank[id].some(Boolean));
+    if (bankId) setSelected({ bank: bankId, index: bank[bankId].findIndex(Boolean) });
+  }, [bank, slot]);
+
+  // Read the engine's copy on every change: MIDI can move several knobs before the next render.
+  const patch = (next: Partial<SampleSlotSettings>) => {
+    const current = audioService.getSampleSlot(selected.bank, selected.index);
+    if (current) audioService.setSampleSlotSettings(selected.bank, selected.index, { ...current.settings, ...next });
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    if (!settings || !duration) return;
+    const x = (t: number) => (t / duration) * width;
+    const mid = height / 2;
+    ctx.fillStyle = '#7A8476';
+    peaks.forEach(([min, max], i) => {
+      const px = (i / peaks.length) * width;
+      ctx.fillRect(px, mid - max * mid, Math.max(1, width / peaks.length), Math.max(1, (max - min) * mid));
+    });
+    // Everything outside the region is dimmed, the way it is cut at playback.
+    ctx.fillStyle = 'rgba(217, 219, 214, 0.75)';
+    ctx.fillRect(0, 0, x(settings.start), height);
+    ctx.fillRect(x(settings.end), 0, width - x(settings.end), height);
+    ctx.fillStyle = '#3F453F';
+    ctx.fillRect(x(settings.start) - 1, 0, 2, height);
+    ctx.fillRect(x(settings.end) - 1, 0, 2, height);
+    ctx.fillStyle = 'rgba(63, 69, 63, 0.5)';
+    settings.slices.forEach((t) => ctx.fillRect(x(t), 0, 1, height));
+    if (settings.loop) {
+      ctx.setLineDash([3, 3]);
+      ctx.strokeStyle = '#3F453F';
+      ctx.beginPath();
+      ctx.moveTo(x(settings.loopStart), 0);
+      ctx.lineTo(x(settings.loopStart), height);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  }, [peaks, settings, duration]);
+
+  const timeAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((e.clientX - rect.left) / Math.max(1, rect.width)) * duration));
+  };
+
+  // Pointer grabs whichever marker is nearest and drags it.
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!settings) return;
+    const t = timeAt(e);
+    const markers: Marker[] = settings.loop ? ['start', 'end', 'loopStart'] : ['start', 'end'];
+    dragRef.current = markers.reduce((a, b) => (Math.abs(settings[b] - t) < Math.abs(settings[a] - t) ? b : a));
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    patch({ [dragRef.current]: t });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current) patch({ [dragRef.current]: timeAt(e) });
+  };
+
+  const handleTrimSilence = () => {
+    if (!mono || !buffer) return;
+    const bounds = findSilenceBounds(mono, buffer.sampleRate);
+    patch({ start: bounds.start, end: bounds.end, loopStart: bounds.start });
+  };
+
+  const handleSlice = () => {
+    if (!mono || !buffer || !settings) return;
+    patch({ slices: detectTransients(mono, buffer.sampleRate, sensitivity, settings.start, settings.end) });
+  };
+
+  const span = Math.max(0.01, duration);
+  const regionKnobs: KnobDef[] = [
+    { id: 'start', label: 'Start', range: [0, span], format: formatSeconds },
+    { id: 'end', label: 'End', range: [0, span], format: formatSeconds },
+    { id: 'loopStart', label: 'Loop pt', range: [0, span], format: formatSeconds },
+  ];
+
+  const renderKnob = (knob: KnobDef, defaults: SampleSlotSettings) => {
+    const value = settings ? settings[knob.id] : defaults[knob.id];
+    const set = (v: number) => patch({ [knob.id]: knob.steps ? Math.round(v) : v });
+    const disabled = !settings || (knob.id === 'loopStart' && !settings.loop);
+    return (
+      <div key={knob.id} className="flex flex-col items-center gap-1 w-16">
+        <MidiLearnable
+          id={`sample.${knob.id}`}
+          label={`Sample ${knob.label}`}
+          value={value}
+          onChange={set}
+          min={knob.range[0]}
+          max={knob.range[1]}
+        >
+          <BufferedKnob
+            value={value}
+            onCommit={set}
+            min={knob.range[0]}
+            max={knob.range[1]}
+            steps={knob.steps}
+            defaultValue={defaults[knob.id]}
+            size={34}
+            color="#7A8476"
+            format={knob.format}
+            disabled={disabled}
+          />
+        </MidiLearnable>
+        <span className="text-[8px] uppercase text-[#7A8476]">{knob.label}</span>
+      </div>
+    );
+  };
+
+  const detected = settings?.detectedMidi ?? null;
+  const defaults = defaultSampleSlot(duration, detected);
+  const status = settings
+    ? `${slotLabel(selected)} ${formatSeconds(settings.end - settings.start)} of ${formatSeconds(duration)}${
+        settings.slices.length ? ` - ${settings.slices.length} slices` : ''
+      }`
+    : `${slotLabel(selected)} empty`;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <AudioLines size={12} /> SAMPLES
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-2">
+        {(['mic', 'smp'] as const).map((bankId) =>
+          bank[bankId].map((loaded, index) => {
+            const ref = { bank: bankId, index };
+            const active = selected.bank === bankId && selected.index === index;
+            return (
+              <button
+                key={slotLabel(ref)}
+                type="button"
+                onClick={() => setSelected(ref)}
+                disabled={!loaded}
+                aria-pressed={active}
+                aria-label={`Edit slot ${slotLabel(ref)}`}
+                className={chipClass(active)}
+              >
+                {slotLabel(ref)}
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={WAVE_BUCKETS * 2}
+        height={WAVE_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerCancel={() => { dragRef.current = null; }}
+        aria-label="Sample waveform"
+        title="Drag the nearest marker: start, end or loop point"
+        className="w-full rounded-md border border-[#B9BCB7] bg-[#E7E8E5] mb-2 touch-none"
+        style={{ height: WAVE_HEIGHT }}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => void audioService.auditionSampleSlot(selected.bank, selected.index)}
+          disabled={!settings}
+          aria-label="Audition slot"
+          className={`${chipClass(false)} flex items-center gap-1`}
+        >
+          <Play size={10} /> Play
+        </button>
+        <button
+          type="button"
+          onClick={() => patch({ loop: !settings?.loop })}
+          disabled={!settings}
+          aria-pressed={Boolean(settings?.loop)}
+          aria-label="Loop region"
+          className={chipClass(Boolean(settings?.loop))}
+        >
+          Loop {settings?.loop ? 'on' : 'off'}
+        </button>
+        <button
+          type="button"
+          onClick={() => patch({ granular: !settings?.granular })}
+          disabled={!settings}
+          aria-pressed={Boolean(settings?.granular)}
+          aria-label="Granular pitch shift"
+          title="Shift pitch with grains so far transpositions keep the sample's length (adds up to 0.2 s of latency)"
+          className={chipClass(Boolean(settings?.granular))}
+        >
+          Grains {settings?.granular ? 'on' : 'off'}
+        </button>
+        <button
+          type="button"
+          onClick={() => detected !== null && patch({ rootMidi: detected })}
+          disabled={detected === null}
+          aria-label="Root to detected pitch"
+          title={detected === null ? 'No steady pitch found in this sample' : 'Set Root back to the pitch found on load'}
+          className={chipClass(settings !== null && detected !== null && settings.rootMidi === detected)}
+        >
+          {detected === null ? 'No pitch' : `Heard ${formatNote(detected)}`}
+        </button>
+        <button
+          type="button"
+          onClick={handleTrimSilence}
+          disabled={!settings}
+          aria-label="Trim silence"
+          title="Move start and end to where the sound begins and fades out"
+          className={chipClass(false)}
+        >
+          Trim silence
+        </button>
+        <button
+          type="button"
+          onClick={handleSlice}
+          disabled={!settings}
+          aria-label="Slice on transients"
+          title="Cut the region at each hit; collisions then play one slice each"
+          className={`${chipClass(false)} flex items-center gap-1`}
+        >
+          <Scissors size={10} /> Slice
+        </button>
+        <button
+          type="button"
+          onClick={() => patch({ slices: [] })}
+          disabled={!settings?.slices.length}
+          aria-label="Clear slices"
+          className={chipClass(false)}
+        >
+          Unslice
+        </button>
+        <button
+          type="button"
+          onClick={() => patch(defaults)}
+          disabled={!settings}
+          aria-label="Reset slot edits"
+          className={`${chipClass(false)} flex items-center gap-1`}
+        >
+          <RotateCcw size={10} /> Reset
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2">
+        {regionKnobs.map((knob) => renderKnob(knob, defaults))}
+        <div className="flex flex-col items-center gap-1 w-16">
+          <MidiLearnable id="sample.sensitivity" label="Sample slice sensitivity" value={sensitivity} onChange={setSensitivity}>
+            <BufferedKnob
+              value={sensitivity}
+              onCommit={setSensitivity}
+              defaultValue={0.5}
+              size={34}
+              color="#7A8476"
+              format={(v) => `${Math.round(v * 100)}%`}
+              disabled={!settings}
+            />
+          </MidiLearnable>
+          <span className="text-[8px] uppercase text-[#7A8476]">Sens</span>
+        </div>
+        {envelopeKnobs.map((knob) => renderKnob(knob, defaults))}
+      </div>
+    </div>
+  );
+};
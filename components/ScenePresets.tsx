@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Layers, Save, Copy, Trash2, Download, Upload, PenLine, Dices } from 'lucide-react';
+import {
+  createScenePreset,
+  duplicateScenePreset,
+  mergeImportedPresets,
+  parseScenePresetFile,
+  serializeScenePreset,
+  type ScenePreset,
+  type SceneState,
+} from '../src/scene/presets';
+import { loadScenePresets, saveScenePresets } from '../src/scene/storage';
+import { normalizeSeed, rollSeed } from '../src/random/seeded';
+
+interface ScenePresetsProps {
+  getScene: () => SceneState;
+  onLoad: (scene: SceneState) => void;
+  seed: number | null;
+  onSeedChange: (seed: number | null) => void;
+}
+
+const fileNameFor = (name: string) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'scene'}.glassroom.json`;
+};
+
+const ActionButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}> = ({ label, onClick, disabled, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+    className={`h-6 px-2 rounded-full border flex items-center gap-1 text-[9px] uppercase tracking-widest transition-all ${
+      disabled ? 'border-[#D9DBD6] text-[#C7C9C5] bg-[#F2F2F0] cursor-not-allowed' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+export const ScenePresets: React.FC<ScenePresetsProps> = ({ getScene, onLoad, seed, onSeedChange }) => {
+  const [presets, setPresets] = useState<ScenePreset[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState('');
+  const [loaded, setLoaded] = useState(false);
+  const [seedText, setSeedText] = useState(seed === null ? '' : String(seed));
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const unreadableRef = useRef<unknown[]>([]);
+
+  useEffect(() => {
+    setSeedText(seed === null ? '' : String(seed));
+  }, [seed]);
+
+  const commitSeed = () => {
+    const next = normalizeSeed(seedText);
+    if (next === seed) {
+      setSeedText(seed === null ? '' : String(seed));
+      return;
+    }
+    onSeedChange(next);
+  };
+
+  // localStorage is only touched after mount so server and client markup match.
+  useEffect(() => {
+    const stored = loadScenePresets();
+    unreadableRef.current = stored.unreadable;
+    setPresets(stored.presets);
+    if (stored.unreadable.length) {
+      setStatus(`${stored.unreadable.length} unreadable scene${stored.unreadable.length > 1 ? 's' : ''} kept in storage`);
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    if (!saveScenePresets(presets, unreadableRef.current)) {
+      setStatus('Storage full or blocked - export to keep scenes');
+    }
+  }, [loaded, presets]);
+
+  const selected = presets.find((preset) => preset.id === selectedId) ?? null;
+
+  const handleSave = useCallback(() => {
+    const preset = createScenePreset(name || `Scene ${presets.length + 1}`, getScene());
+    setPresets((prev) => [...prev, preset]);
+    setSelectedId(preset.id);
+    setName(preset.name);
+    setStatus(`Saved ${preset.name}`);
+  }, [getScene, name, presets.length]);
+
+  const handleOverwrite = useCallback(() => {
+    if (!selected) return;
+    const scene = createScenePreset(selected.name, getScene());
+    setPresets((prev) =>
+      prev.map((preset) =>
+        preset.id === selected.id ? { ...scene, id: preset.id, createdAt: preset.createdAt } : preset
+      )
+    );
+    setStatus(`Updated ${selected.name}`);
+  }, [getScene, selected]);
+
+  const handleLoad = useCallback((preset: ScenePreset) => {
+    setSelectedId(preset.id);
+    setName(preset.name);
+    onLoad(preset);
+    setStatus(`Loaded ${preset.name}`);
+  }, [onLoad]);
+
+  const handleRename = useCallback(() => {
+    if (!selected) return;
+    const nextName = name.trim();
+    if (!nextName) return;
+    setPresets((prev) =>
+      prev.map((preset) => (preset.id === selected.id ? { ...preset, name: nextName, updatedAt: Date.now() } : preset))
+    );
+    setStatus(`Renamed to ${nextName}`);
+  }, [name, selected]);
+
+  const handleDuplicate = useCallback(() => {
+    if (!selected) return;
+    const copy = duplicateScenePreset(selected);
+    setPresets((prev) => [...prev, copy]);
+    setSelectedId(copy.id);
+    setName(copy.name);
+  }, [selected]);
+
+  const handleDelete = useCallback(() => {
+    if (!selected) return;
+    setPresets((prev) => prev.filter((preset) => preset.id !== selected.id));
+    setSelectedId(null);
+    setStatus(`Deleted ${selected.name}`);
+  }, [selected]);
+
+  const handleExport = useCallback(() => {
+    if (!selected) return;
+    const blob = new Blob([serializeScenePreset(selected)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileNameFor(selected.name);
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, [selected]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const imported: ScenePreset[] = [];
+    let failed = 0;
+    for (const file of files) {
+      try {
+        imported.push(...parseScenePresetFile(await file.text()));
+      } catch (err) {
+        failed += 1;
+        console.warn('Scene import failed:', file.name, err);
+      }
+    }
+    if (imported.length) {
+      setPresets((prev) => mergeImportedPresets(prev, imported));
+    }
+    setStatus(`Imported ${imported.length}${failed ? `, ${failed} failed` : ''}`);
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Layers size={12} /> SCENES
+        {status && <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-[1fr_1.4fr]">
+        <div className="bg-[#E7E8E5] rounded-2xl border border-[#C7C9C5] max-h-40 overflow-y-auto">
+          {presets.length === 0 && (
+            <div className="px-3 py-2 text-[9px] uppercase text-[#7A8476]">No saved scenes</div>
+          )}
+          {presets.map((preset) => {
+            const isActive = preset.id === selectedId;
+            return (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => handleLoad(preset)}
+                className={`w-full flex items-center justify-between px-3 py-1 text-left text-[10px] border-b border-[#D9DBD6] last:border-b-0 ${
+                  isActive ? 'bg-[#D9DBD6] text-[#2E2F2B]' : 'hover:bg-[#D9DBD6] text-[#5F665F]'
+                }`}
+              >
+                <span className="truncate">{preset.name}</span>
+                <span className="text-[8px] uppercase tracking-wider text-[#7A8476]">
+                  {new Date(preset.updatedAt).toLocaleDateString()}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Scene name"
+            aria-label="Scene name"
+            className="w-full bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+          />
+          <div className="flex flex-wrap gap-1">
+            <ActionButton label="Save scene" onClick={handleSave}>
+              <Save size={10} /> Save
+            </ActionButton>
+            <ActionButton label="Overwrite scene" onClick={handleOverwrite} disabled={!selected}>
+              <Save size={10} /> Update
+            </ActionButton>
+            <ActionButton label="Rename scene" onClick={handleRename} disabled={!selected || !name.trim()}>
+              <PenLine size={10} /> Rename
+            </ActionButton>
+            <ActionButton label="Duplicate scene" onClick={handleDuplicate} disabled={!selected}>
+              <Copy size={10} /> Duplicate
+            </ActionButton>
+            <ActionButton label="Delete scene" onClick={handleDelete} disabled={!selected}>
+              <Trash2 size={10} /> Delete
+            </ActionButton>
+            <ActionButton label="Export scene" onClick={handleExport} disabled={!selected}>
+              <Download size={10} /> Export
+            </ActionButton>
+            <ActionButton label="Import scenes" onClick={() => importInputRef.current?.click()}>
+              <Upload size={10} /> Import
+            </ActionButton>
+          </div>
+          <div className="flex items-center gap-1 text-[9px] uppercase text-[#7A8476]">
+            <span className="pl-1 pr-1">Seed</span>
+            <input
+              type="text"
+              value={seedText}
+              onChange={(e) => setSeedText(e.target.value)}
+              onBlur={commitSeed}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitSeed();
+              }}
+              placeholder="free"
+              aria-label="Random seed"
+              title="Same seed + same gestures = same run. Stop restarts the sequence. Empty = free-running."
+              className="w-32 bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+            />
+            <ActionButton label="Roll seed" onClick={() => onSeedChange(rollSeed())}>
+              <Dices size={10} /> Roll
+            </ActionButton>
+            <ActionButton label="Free-running" onClick={() => onSeedChange(null)} disabled={seed === null}>
+              Free
+            </ActionButton>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              void handleImport(e);
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
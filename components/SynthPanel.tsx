@@ -0,0 +1,85 @@
+import React from 'react';
+import { AudioWaveform } from 'lucide-react';
+import type { SynthSettings, VoiceEngineId } from '../types';
+import { VOICE_ENGINES, activeEngineParams, resolveEngineParams } from '../src/audio/engines/registry';
+import type { EngineParamDef } from '../src/audio/engines/types';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type SynthPanelProps = {
+  synth: SynthSettings;
+  onChange: React.Dispatch<React.SetStateAction<SynthSettings>>;
+};
+
+const formatParam = (def: EngineParamDef) => (v: number) => {
+  const digits = def.max - def.min >= 100 ? 0 : def.max - def.min >= 10 ? 1 : 2;
+  return `${v.toFixed(digits)}${def.unit ? ` ${def.unit}` : ''}`;
+};
+
+export const SynthPanel: React.FC<SynthPanelProps> = ({ synth, onChange }) => {
+  const { engine, params } = activeEngineParams(synth);
+
+  const selectEngine = (id: VoiceEngineId) => onChange((prev) => ({ ...prev, engine: id }));
+
+  // Functional update: MIDI can move several params before the next render.
+  const setParam = (paramId: string, value: number) =>
+    onChange((prev) => ({
+      ...prev,
+      params: { ...prev.params, [engine.id]: { ...resolveEngineParams(engine, prev.params[engine.id]), [paramId]: value } },
+    }));
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <AudioWaveform size={12} /> SYNTH
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{engine.label}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-2">
+        {VOICE_ENGINES.map((option) => {
+          const active = option.id === engine.id;
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => selectEngine(option.id)}
+              aria-pressed={active}
+              className={`h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all ${
+                active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 px-2">
+        {engine.params.map((def) => (
+          <div key={`${engine.id}.${def.id}`} className="flex flex-col items-center gap-1 w-16">
+            <MidiLearnable
+              id={`synth.${engine.id}.${def.id}`}
+              label={`${engine.label} ${def.label}`}
+              value={params[def.id]}
+              onChange={(v) => setParam(def.id, v)}
+              min={def.min}
+              max={def.max}
+            >
+              <BufferedKnob
+                value={params[def.id]}
+                onCommit={(v) => setParam(def.id, v)}
+                min={def.min}
+                max={def.max}
+                defaultValue={def.default}
+                size={34}
+                color="#7A8476"
+                format={formatParam(def)}
+              />
+            </MidiLearnable>
+            <span className="text-[8px] uppercase text-[#7A8476]">{def.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
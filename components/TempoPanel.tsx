@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import type { NoteDivision, TempoSettings } from '../types';
+import { BPM_RANGE, NOTE_DIVISIONS, clampBpm } from '../src/music/tempo';
+
+type TempoPanelProps = {
+  tempo: TempoSettings;
+  onChange: (patch: Partial<TempoSettings>) => void;
+  bpm: number; // resolved: MIDI clock when followed and running, else internal
+  clockBpm: number | null;
+};
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider disabled:text-[#C7C9C5]';
+
+const ToggleButton: React.FC<{ label: string; title: string; active: boolean; onClick: () => void; children: React.ReactNode }> = ({
+  label,
+  title,
+  active,
+  onClick,
+  children,
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={active}
+    aria-label={label}
+    title={title}
+    className={`h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all ${
+      active ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const DivisionSelect: React.FC<{ label: string; value: NoteDivision; disabled: boolean; onChange: (value: NoteDivision) => void }> = ({
+  label,
+  value,
+  disabled,
+  onChange,
+}) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as NoteDivision)}
+    disabled={disabled}
+    aria-label={label}
+    className={selectClass}
+  >
+    {NOTE_DIVISIONS.map((division) => (
+      <option key={division.id} value={division.id}>{division.label}</option>
+    ))}
+  </select>
+);
+
+export const TempoPanel: React.FC<TempoPanelProps> = ({ tempo, onChange, bpm, clockBpm }) => {
+  const [bpmText, setBpmText] = useState(String(tempo.bpm));
+  const following = tempo.source === 'midi';
+
+  useEffect(() => {
+    setBpmText(String(tempo.bpm));
+  }, [tempo.bpm]);
+
+  const commitBpm = () => {
+    const next = Number(bpmText);
+    if (Number.isFinite(next) && bpmText.trim()) onChange({ bpm: Math.round(clampBpm(next) * 10) / 10 });
+    else setBpmText(String(tempo.bpm));
+  };
+
+  let status = '';
+  if (following) status = clockBpm !== null ? `MIDI clock ${clockBpm.toFixed(1)} BPM` : 'No MIDI clock - internal';
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Timer size={12} /> CLOCK
+        <span className="text-[9px] text-[#2E2F2B] tabular-nums">{bpm.toFixed(1)} BPM</span>
+        {status && <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">{status}</span>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[9px] uppercase text-[#7A8476]">
+        <span className="pl-1">BPM</span>
+        <input
+          type="number"
+          min={BPM_RANGE[0]}
+          max={BPM_RANGE[1]}
+          step={0.1}
+          value={bpmText}
+          onChange={(e) => setBpmText(e.target.value)}
+          onBlur={commitBpm}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitBpm();
+          }}
+          aria-label="Internal BPM"
+          className="w-20 bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider"
+        />
+        <ToggleButton
+          label="Follow MIDI clock"
+          title="Use incoming MIDI clock while it runs, internal BPM otherwise"
+          active={following}
+          onClick={() => onChange({ source: following ? 'internal' : 'midi' })}
+        >
+          MIDI clock
+        </ToggleButton>
+        <span className="pl-2">Delay</span>
+        <ToggleButton
+          label="Sync delay"
+          title="Lock ping-pong times to note divisions instead of the tuning pitch"
+          active={tempo.delaySync}
+          onClick={() => onChange({ delaySync: !tempo.delaySync })}
+        >
+          Sync {tempo.delaySync ? 'on' : 'off'}
+        </ToggleButton>
+        <span>L</span>
+        <DivisionSelect
+          label="Left delay division"
+          value={tempo.delayLeft}
+          disabled={!tempo.delaySync}
+          onChange={(delayLeft) => onChange({ delayLeft })}
+        />
+        <span>R</span>
+        <DivisionSelect
+          label="Right delay division"
+          value={tempo.delayRight}
+          disabled={!tempo.delaySync}
+          onChange={(delayRight) => onChange({ delayRight })}
+        />
+        <span className="pl-2">Physics</span>
+        <ToggleButton
+          label="Physics follows BPM"
+          title="Drive the physics tempo from the BPM instead of the Tempo knob"
+          active={tempo.physicsSync}
+          onClick={() => onChange({ physicsSync: !tempo.physicsSync })}
+        >
+          BPM {tempo.physicsSync ? 'on' : 'off'}
+        </ToggleButton>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React from 'react';
+import { Plus, Shapes, Trash2 } from 'lucide-react';
+import type { TimbreRoute, TimbreSettings, TimbreSource, TimbreTarget } from '../types';
+import { MAX_TIMBRE_ROUTES, TIMBRE_SOURCES, TIMBRE_TARGETS, nextFreeTimbreRoute } from '../src/audio/timbre';
+import { BufferedKnob } from './BufferedKnob';
+import { MidiLearnable } from './MidiLearnable';
+
+type TimbrePanelProps = {
+  timbre: TimbreSettings;
+  onChange: React.Dispatch<React.SetStateAction<TimbreSettings>>;
+};
+
+const selectClass = 'bg-[#F2F2F0] border border-[#B9BCB7] rounded-full px-3 py-1 text-[10px] text-[#2E2F2B] tracking-wider disabled:text-[#C7C9C5]';
+
+const formatAmount = (v: number) => `${v > 0 ? '+' : ''}${Math.round(v * 100)}%`;
+
+const sourceLabel = (id: TimbreSource) => TIMBRE_SOURCES.find((source) => source.id === id)?.label ?? id;
+const targetLabel = (id: TimbreTarget) => TIMBRE_TARGETS.find((target) => target.id === id)?.label ?? id;
+
+export const TimbrePanel: React.FC<TimbrePanelProps> = ({ timbre, onChange }) => {
+  const { enabled, routes } = timbre;
+  const nextRoute = nextFreeTimbreRoute(routes);
+  const canAdd = routes.length < MAX_TIMBRE_ROUTES && nextRoute !== null;
+
+  // Functional updates: MIDI can move several amounts before the next render.
+  const updateRoute = (index: number, patch: Partial<TimbreRoute>) =>
+    onChange((prev) => ({
+      ...prev,
+      routes: prev.routes.map((route, i) => (i === index ? { ...route, ...patch } : route)),
+    }));
+
+  const removeRoute = (index: number) =>
+    onChange((prev) => ({ ...prev, routes: prev.routes.filter((_, i) => i !== index) }));
+
+  const addRoute = () =>
+    onChange((prev) => {
+      const free = nextFreeTimbreRoute(prev.routes);
+      if (!free || prev.routes.length >= MAX_TIMBRE_ROUTES) return prev;
+      return { ...prev, routes: [...prev.routes, { ...free, amount: 0.5 }] };
+    });
+
+  // A source/target pair may only be routed once; offer a pair only when it is free or already this row's.
+  const pairTaken = (index: number, source: TimbreSource, target: TimbreTarget) =>
+    routes.some((route, i) => i !== index && route.source === source && route.target === target);
+
+  return (
+    <div className="w-full max-w-6xl mx-auto bg-[#D9DBD6] border border-[#B9BCB7] rounded-3xl p-4 lg:p-3 shadow-lg mb-3 text-[#5F665F] font-mono tracking-widest">
+      <div className="flex items-center gap-2 text-[10px] text-[#7A8476] h-4 pl-2 mb-2">
+        <Shapes size={12} /> TIMBRE
+        <span className="ml-auto pr-2 text-[9px] uppercase text-[#5F665F] truncate">
+          {enabled ? `${routes.length} route${routes.length === 1 ? '' : 's'}` : 'Off'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-[9px] uppercase text-[#7A8476]">
+        <button
+          type="button"
+          onClick={() => onChange((prev) => ({ ...prev, enabled: !prev.enabled }))}
+          aria-pressed={enabled}
+          aria-label="Bubble timbre routes"
+          title="Let each bubble's charge, hue, size, speed and shape colour its synth voice"
+          className={`h-6 px-3 rounded-full border text-[9px] uppercase tracking-widest transition-all ${
+            enabled ? 'border-[#7A8476] bg-[#7A8476] text-[#F2F2F0]' : 'border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white'
+          }`}
+        >
+          Routes {enabled ? 'on' : 'off'}
+        </button>
+        <button
+          type="button"
+          onClick={addRoute}
+          disabled={!canAdd}
+          aria-label="Add timbre route"
+          className="h-6 px-3 rounded-full border border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white disabled:text-[#C7C9C5] disabled:hover:bg-[#F2F2F0] flex items-center gap-1 uppercase tracking-widest"
+        >
+          <Plus size={10} /> Route
+        </button>
+      </div>
+
+      {routes.length === 0 ? (
+        <div className="px-2 text-[9px] uppercase text-[#7A8476]">No routes - every bubble plays the synth knobs as set</div>
+      ) : (
+        <div className="flex flex-wrap items-end gap-4 px-2">
+          {routes.map((route, index) => (
+            <div key={`${route.source}.${route.target}`} className="flex items-center gap-2">
+              <div className="flex flex-col gap-1">
+                <select
+                  value={route.source}
+                  onChange={(e) => updateRoute(index, { source: e.target.value as TimbreSource })}
+                  disabled={!enabled}
+                  aria-label={`Route ${index + 1} source`}
+                  className={selectClass}
+                >
+                  {TIMBRE_SOURCES.map((source) => (
+                    <option key={source.id} value={source.id} disabled={pairTaken(index, source.id, route.target)}>
+                      {source.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={route.target}
+                  onChange={(e) => updateRoute(index, { target: e.target.value as TimbreTarget })}
+                  disabled={!enabled}
+                  aria-label={`Route ${index + 1} target`}
+                  className={selectClass}
+                >
+                  {TIMBRE_TARGETS.map((target) => (
+                    <option key={target.id} value={target.id} disabled={pairTaken(index, route.source, target.id)}>
+                      {target.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <MidiLearnable
+                id={`timbre.${route.source}.${route.target}`}
+                label={`Timbre ${sourceLabel(route.source)} > ${targetLabel(route.target)}`}
+                value={route.amount}
+                onChange={(v) => updateRoute(index, { amount: v })}
+                min={-1}
+                max={1}
+              >
+                <BufferedKnob
+                  value={route.amount}
+                  onCommit={(v) => updateRoute(index, { amount: v })}
+                  min={-1}
+                  max={1}
+                  defaultValue={0}
+                  size={34}
+                  color="#7A8476"
+                  format={formatAmount}
+                />
+              </MidiLearnable>
+              <button
+                type="button"
+                onClick={() => removeRoute(index)}
+                aria-label={`Remove route ${index + 1}`}
+                className="h-6 w-6 rounded-full border border-[#B9BCB7] bg-[#F2F2F0] text-[#5F665F] hover:bg-white flex items-center justify-center"
+              >
+                <Trash2 size={10} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
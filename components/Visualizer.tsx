@@ -1,25 +1,43 @@
 import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
-import { Bubble, PhysicsSettings, AudioSettings, Particle, MusicSettings } from '../types';
+import { Bubble, PhysicsSettings, AudioSettings, Particle, MusicSettings, GyroSettings } from '../types';
 import { audioService } from '../services/audioEngine';
-import { v4 as uuidv4 } from 'uuid';
-import { getScaleById } from '../src/music/scales';
+import { resolveScale } from '../src/music/scales';
 import { pitchClassToNoteName } from '../src/music/notes';
+import { physicsTempoToBpm } from '../src/music/tempo';
+import { applyProgressionStep } from '../src/music/progression';
+import { createRandomStream, type RandomSource } from '../src/random/seeded';
+import { roomShapeFromBox } from '../src/audio/reverb';
+import {
+  applyJellyImpact,
+  cloneBubble,
+  createRoomSimulation,
+  DEPTH,
+  DIGIT_OVERLAY_MIN_R2D,
+  FOCAL_LENGTH,
+  VERTEX_COUNT,
+  type RoomSimulation,
+  type RoomSnapshot,
+  type RoomSoundEvent,
+  type SimBubble,
+  type SourceChoice,
+} from '../src/sim/roomSimulation';
 
 interface VisualizerProps {
   isPlaying: boolean;
   physics: PhysicsSettings;
   audioSettings: AudioSettings;
   musicSettings: MusicSettings;
+  seed?: number | null; // null/undefined = free-running Math.random
 }
 
 export interface VisualizerHandle {
   reset: () => void;
+  getGyroState: () => GyroSettings;
+  setGyroState: (state: GyroSettings) => void;
+  getRoomSnapshot: () => RoomSnapshot;
 }
 
-// 3D Settings
-const DEPTH = 1000;
-const FOCAL_LENGTH = 700;
-const VERTEX_COUNT = 8;
+// Frame-rate guard
 const FPS_TARGET = 120;
 const FPS_OK = FPS_TARGET * 0.5;
 const FPS_RECOVER = FPS_TARGET * 0.25;
@@ -29,19 +47,6 @@ const FPS_GUARD_RECOVER = 25;
 const FPS_GUARD_GOOD = 55;
 const FPS_GUARD_RELEASE_MS = 800;
 
-// ---- STABILITY GUARDS (no design change) ----
-const EPS = 1e-6;
-
-// Magneto distances (keep your feel, but prevent singularities)
-const MAG_MIN_DIST_SQ = 140;     // was 100; a bit safer
-const MAG_MAX_DIST_SQ = 150000;  // keep your cutoff
-
-// Caps to prevent velocity runaway on dense clusters
-const MAX_SPEED = 22;            // px per tick-ish (tempo-scaled below)
-const MAX_ACCEL = 6;             // per frame contribution (tempo-scaled below)
-
-// Audio spam guard (optional but helps when magneto pins on walls)
-const AUDIO_COOLDOWN_MS = 50;
 const REFLECT_RANGE = 160;
 const REFLECT_BACK_RANGE = 220;
 const GYRO_MARGIN = 8;
@@ -50,20 +55,8 @@ const GYRO_RADIUS_MAX = 36;
 const GYRO_THICKNESS = 4;
 const GYRO_GAP = 5;
 const GYRO_HANDLE = 3.5;
-const MAGNETO_BOOST = 3.8;
-const SHRED_GRACE_MS = 1400;
 const SHRED_RECOVERY_DELAY_MS = 1200;
-const SHRED_MIN_BUBBLES = 6;
-const VOID_PLANE_Z = DEPTH * 0.95; // inner back wall plane for Void sink
 const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
-const BUBBLE_COLORS = [
-  'hsla(60, 5%, 95%, 1)',   // Snow White
-  'hsla(180, 10%, 85%, 1)', // Icy Grey
-  'hsla(100, 10%, 80%, 1)', // Pale Moss
-  'hsla(200, 15%, 90%, 1)', // Cold Blue
-];
-type DigitChar = '3' | '6' | '9';
-type DigitOverlay = { digit: DigitChar; since: number; until: number };
 type GyroRingId = 'pan' | 'depth' | 'width';
 const DOT_FONT: Record<string, string[]> = {
   '0': [
@@ -221,23 +214,12 @@ const DOT_FONT: Record<string, string[]> = {
   ],
 };
 const DIGIT_OVERLAY_FADE_MS = 700;
-const DIGIT_OVERLAY_MIN_R2D = 14;
-const DIGIT_IMPACT_COOLDOWN_MS = 140;
-const TESLA_JUMP_PROB = 0.35;
-const TESLA_MIN_DIST = 80;
 const TESLA_SPARKS = 9;
 const PUFF_PARTICLES = 12;
 const PUFF_VELOCITY = 6;
+// How often the drawn room is handed to the reverb; the engine skips shapes that sound the same.
+const ROOM_ACOUSTICS_SYNC_MS = 250;
 
-type JellyState = {
-  sx: number; sy: number; rot: number;
-  vsx: number; vsy: number; vrot: number;
-  vOff: number[];
-  vVel: number[];
-  nx2: number; ny2: number;
-};
-
-type SourceChoice = { type: 'mic' | 'smp' | 'synth'; index?: number };
 const pad2 = (value: number) => String(value).padStart(2, '0');
 const getSourceLabel = (source: SourceChoice | null): string => {
   if (!source) return '';
@@ -246,28 +228,6 @@ const getSourceLabel = (source: SourceChoice | null): string => {
   if (source.type === 'smp' && typeof source.index === 'number') return `SMP${pad2(source.index + 1)}`;
   return '';
 };
-const isSourceValid = (source: SourceChoice | null, bank: { mic: boolean[]; smp: boolean[]; synthEnabled: boolean }) => {
-  if (!source) return false;
-  if (source.type === 'synth') return bank.synthEnabled;
-  if (source.type === 'mic' && typeof source.index === 'number') return Boolean(bank.mic[source.index]);
-  if (source.type === 'smp' && typeof source.index === 'number') return Boolean(bank.smp[source.index]);
-  return false;
-};
-
-type BubbleExt = Bubble & {
-  lastAudioAt?: number;
-  jelly?: JellyState;
-  voidEnteredAt?: number;
-  voidGraceMs?: number;
-  audioSource?: SourceChoice | null;
-  digitOverlay?: DigitOverlay;
-  digitImpactsLeft?: number;
-  lastDigitImpactAt?: number;
-  labelAlpha?: number;
-  labelTargetAlpha?: number;
-  spawnedAt?: number;
-  overlapFrame?: number;
-};
 
 type Vec2 = { x: number; y: number };
 type Vec3 = { x: number; y: number; z: number };
@@ -290,14 +250,13 @@ type DotTextLayout = {
 };
 
 export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
-  ({ isPlaying, physics, audioSettings, musicSettings }, ref) => {
+  ({ isPlaying, physics, audioSettings, musicSettings, seed = null }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
     const physicsRef = useRef<PhysicsSettings>(physics);
     const audioSettingsRef = useRef<AudioSettings>(audioSettings);
     const musicSettingsRef = useRef<MusicSettings>(musicSettings);
-    const bubblesRef = useRef<BubbleExt[]>([]);
     const particlesRef = useRef<Particle[]>([]);
     const requestRef = useRef<number | null>(null);
     const isPlayingRef = useRef<boolean>(isPlaying);
@@ -313,7 +272,6 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       lastY: number;
       lastT: number;
     }>({ id: null, pointerId: null, offsetX: 0, offsetY: 0, lastX: 0, lastY: 0, lastT: performance.now() });
-    const digitRef = useRef<{ nextAt: number }>({ nextAt: performance.now() + 8000 });
     const gyroStateRef = useRef({ pan: 0, depth: 0, width: 0 });
     const manualGyroRef = useRef({ pan: 0, depth: 0, width: 0 });
     const gyroDragRef = useRef<{ active: boolean; pointerId: number | null; ring: GyroRingId | null }>({
@@ -324,12 +282,22 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
     const gyroHintRef = useRef({ until: 0 });
     const stereoRef = useRef({ left: 0, right: 0 });
     const gyroTapRef = useRef<{ time: number; ring: GyroRingId | null }>({ time: 0, ring: null });
+    // Separate streams: physics (anything that changes bubbles or sound), fx (particles only), gyro (AUTO drift).
+    const seedRef = useRef<number | null>(seed);
+    const randomRef = useRef<{ physics: RandomSource; fx: RandomSource; gyro: RandomSource }>({
+      physics: createRandomStream(seed, 'physics'),
+      fx: createRandomStream(seed, 'fx'),
+      gyro: createRandomStream(seed, 'gyro'),
+    });
+    const random = () => randomRef.current.physics();
+    const randomFx = () => randomRef.current.fx();
+    const randomGyro = () => randomRef.current.gyro();
     const makeGyroAutoChannel = () => {
-      const speed = (Math.random() * 0.6 + 0.2) * (Math.random() < 0.5 ? -1 : 1);
-      const amp = 0.35 + Math.random() * 0.35;
-      const bias = (Math.random() - 0.5) * 0.3;
+      const speed = (randomGyro() * 0.6 + 0.2) * (randomGyro() < 0.5 ? -1 : 1);
+      const amp = 0.35 + randomGyro() * 0.35;
+      const bias = (randomGyro() - 0.5) * 0.3;
       return {
-        phase: Math.random() * Math.PI * 2,
+        phase: randomGyro() * Math.PI * 2,
         speed,
         speedTarget: speed,
         amp,
@@ -348,10 +316,29 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       width: makeGyroAutoChannel(),
     });
 
+    // Physics lives in the headless room; hooks turn its events into sound, particles and log lines.
+    const simRef = useRef<RoomSimulation | null>(null);
+    if (!simRef.current) {
+      simRef.current = createRoomSimulation({
+        random,
+        now: () => performance.now(),
+        assignSource: (context) => audioService.assignSourceToBubble(context),
+        onSound: (event) => {
+          playSoundEvent(event);
+        },
+        onShatter: (b) => {
+          for (let k = 0; k < 32; k++) spawnParticle(b.x, b.y, b.z, b.color);
+        },
+        onPuff: (b) => spawnPuff(b),
+        onTeslaArc: (from, to) => spawnTeslaArc(from, to),
+        log: (msg) => pushLog(msg),
+      });
+    }
+    const sim = simRef.current;
+
     // Matrix Log Buffer
     const logRef = useRef<string[]>([]);
     const particlePoolRef = useRef<Particle[]>([]);
-    const bubblePoolRef = useRef<BubbleExt[]>([]);
     const frameIdRef = useRef(0);
     const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
     const backgroundRef = useRef<{ canvas: HTMLCanvasElement | null; w: number; h: number }>({
@@ -366,15 +353,11 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       strength: -1,
     });
     const roomCacheRef = useRef<RoomCache | null>(null);
+    const roomSyncAtRef = useRef(0);
     const dotTextCacheRef = useRef<Map<string, DotTextLayout>>(new Map());
     const amoebaPointsRef = useRef<Vec2[]>(
       Array.from({ length: VERTEX_COUNT }, () => ({ x: 0, y: 0 }))
     );
-    const topPairsRef = useRef<{ b1: BubbleExt | null; b2: BubbleExt | null; dist: number }[]>([
-      { b1: null, b2: null, dist: Infinity },
-      { b1: null, b2: null, dist: Infinity },
-      { b1: null, b2: null, dist: Infinity },
-    ]);
 
     // Drawing State
     const isDrawingRef = useRef(false);
@@ -384,17 +367,33 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
     useEffect(() => { audioSettingsRef.current = audioSettings; }, [audioSettings]);
     useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
     useEffect(() => { musicSettingsRef.current = musicSettings; }, [musicSettings]);
+    useEffect(() => {
+      if (seedRef.current === seed) return;
+      reseed(seed);
+    }, [seed]);
     useEffect(() => {
       const onVis = () => { visibilityRef.current = document.visibilityState === 'hidden'; };
       document.addEventListener('visibilitychange', onVis);
       return () => document.removeEventListener('visibilitychange', onVis);
     }, []);
 
+    const reseed = (next: number | null) => {
+      seedRef.current = next;
+      randomRef.current = {
+        physics: createRandomStream(next, 'physics'),
+        fx: createRandomStream(next, 'fx'),
+        gyro: createRandomStream(next, 'gyro'),
+      };
+      const auto = gyroAutoRef.current;
+      auto.pan = makeGyroAutoChannel();
+      auto.depth = makeGyroAutoChannel();
+      auto.width = makeGyroAutoChannel();
+    };
+
     useImperativeHandle(ref, () => ({
       reset: () => {
-        bubblesRef.current.forEach(releaseBubble);
+        sim.reset();
         particlesRef.current.forEach(releaseParticle);
-        bubblesRef.current = [];
         particlesRef.current = [];
         logRef.current = [];
         gyroStateRef.current = { pan: 0, depth: 0, width: 0 };
@@ -403,8 +402,29 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
         gyroAutoRef.current.blend = 0;
         gyroHintRef.current.until = 0;
         frameIdRef.current = 0;
+        reseed(seedRef.current);
         audioService.setSpatialControl(0, 0, 0);
       },
+      getGyroState: () => ({
+        // Manual rings are what the user set; AUTO drift is re-created on load.
+        ...(gyroAutoRef.current.enabled ? manualGyroRef.current : gyroStateRef.current),
+        auto: gyroAutoRef.current.enabled,
+      }),
+      setGyroState: (state) => {
+        const auto = gyroAutoRef.current;
+        if (auto.enabled !== state.auto) toggleGyroAuto();
+        const next = { pan: clampSigned(state.pan), depth: clampSigned(state.depth), width: clampSigned(state.width) };
+        manualGyroRef.current = next;
+        if (!state.auto) {
+          auto.blend = 0;
+          applyGyroOutput(next);
+        }
+      },
+      getRoomSnapshot: () => ({
+        bubbles: sim.bubbles.map(cloneBubble),
+        width: canvasRef.current?.width || 1000,
+        height: canvasRef.current?.height || 1000,
+      }),
     }));
 
     const pushLog = (msg: string) => {
@@ -631,61 +651,6 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       particlePoolRef.current.push(p);
     };
 
-    const resetJelly = (jelly: JellyState) => {
-      jelly.sx = 1; jelly.sy = 1; jelly.rot = 0;
-      jelly.vsx = 0; jelly.vsy = 0; jelly.vrot = 0;
-      jelly.nx2 = 1; jelly.ny2 = 0;
-      if (jelly.vOff.length !== VERTEX_COUNT) jelly.vOff = new Array(VERTEX_COUNT).fill(0);
-      if (jelly.vVel.length !== VERTEX_COUNT) jelly.vVel = new Array(VERTEX_COUNT).fill(0);
-      for (let i = 0; i < VERTEX_COUNT; i++) {
-        jelly.vOff[i] = 0;
-        jelly.vVel[i] = 0;
-      }
-    };
-
-    const acquireBubble = (): BubbleExt => {
-      const b = bubblePoolRef.current.pop();
-      if (b) return b;
-      return {
-        id: '',
-        x: 0, y: 0, z: 0,
-        vx: 0, vy: 0, vz: 0,
-        radius: 0,
-        color: '',
-        hue: 0,
-        charge: 1,
-        vertices: new Array(VERTEX_COUNT).fill(1),
-        vertexPhases: new Array(VERTEX_COUNT).fill(0),
-        deformation: { scaleX: 1, scaleY: 1, rotation: 0 },
-      };
-    };
-
-    const releaseBubble = (b: BubbleExt) => {
-      b.audioSource = null;
-      b.digitOverlay = undefined;
-      b.digitImpactsLeft = undefined;
-      b.lastDigitImpactAt = undefined;
-      b.voidEnteredAt = undefined;
-      b.voidGraceMs = undefined;
-      b.labelAlpha = undefined;
-      b.labelTargetAlpha = undefined;
-      b.spawnedAt = undefined;
-      b.overlapFrame = undefined;
-      bubblePoolRef.current.push(b);
-    };
-
-    const removeBubbleAt = (bubbles: BubbleExt[], index: number) => {
-      const removed = bubbles[index];
-      const last = bubbles.pop();
-      if (last && last !== removed) {
-        bubbles[index] = last;
-        releaseBubble(removed);
-        return true;
-      }
-      if (removed) releaseBubble(removed);
-      return false;
-    };
-
     const clampSigned = (v: number) => Math.max(-1, Math.min(1, v));
     const valueToAngle = (v: number) => clampSigned(v) * Math.PI;
     const angleToValue = (ang: number) => clampSigned(ang / Math.PI);
@@ -751,14 +716,14 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       const shouldShift = auto.enabled && nowMs >= auto.nextShiftAt;
       if (shouldShift) {
         const retarget = (ch: typeof auto.pan) => {
-          ch.speedTarget = (Math.random() * 0.9 + 0.15) * (Math.random() < 0.5 ? -1 : 1);
-          ch.ampTarget = 0.25 + Math.random() * 0.65;
-          ch.biasTarget = (Math.random() - 0.5) * 0.35;
+          ch.speedTarget = (randomGyro() * 0.9 + 0.15) * (randomGyro() < 0.5 ? -1 : 1);
+          ch.ampTarget = 0.25 + randomGyro() * 0.65;
+          ch.biasTarget = (randomGyro() - 0.5) * 0.35;
         };
         retarget(auto.pan);
         retarget(auto.depth);
         retarget(auto.width);
-        auto.nextShiftAt = nowMs + 4500 + Math.random() * 7000;
+        auto.nextShiftAt = nowMs + 4500 + randomGyro() * 7000;
       }
 
       const step = (ch: typeof auto.pan) => {
@@ -804,235 +769,54 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       const wasEnabled = auto.enabled;
       auto.enabled = !auto.enabled;
       auto.lastAt = performance.now();
-      auto.nextShiftAt = auto.lastAt + 2000 + Math.random() * 5000;
+      auto.nextShiftAt = auto.lastAt + 2000 + randomGyro() * 5000;
       if (wasEnabled) {
         manualGyroRef.current = { ...gyroStateRef.current };
       }
       gyroHintRef.current.until = performance.now() + 1400;
     };
 
-    const applyJellyImpact = (b: BubbleExt, nx: number, ny: number, impulse: number) => {
-      if (!b.jelly) return;
-      let nl = Math.sqrt(nx * nx + ny * ny);
-      if (nl < EPS) nl = 1;
-      nx /= nl; ny /= nl;
-
-      const k = Math.min(1, Math.max(0, impulse / 18)) * (50 / Math.max(18, b.radius));
-      const squash = 1 - 0.28 * k;
-      const stretch = 1 + 0.18 * k;
-      const targetRot = Math.atan2(ny, nx);
-
-      b.jelly.nx2 = nx; b.jelly.ny2 = ny;
-      b.jelly.vsx += (squash - b.jelly.sx) * 0.9;
-      b.jelly.vsy += (stretch - b.jelly.sy) * 0.9;
-      b.jelly.vrot += (targetRot - b.jelly.rot) * 0.25;
-
-      const step = (Math.PI * 2) / VERTEX_COUNT;
-      for (let i = 0; i < VERTEX_COUNT; i++) {
-        const a = i * step;
-        const vx = Math.cos(a);
-        const vy = Math.sin(a);
-        const d = vx * nx + vy * ny;
-        const push = (-0.22 * k) * Math.max(0, d) + (0.10 * k) * Math.max(0, -d);
-        b.jelly.vVel[i] += push * 3.2;
-      }
-    };
-
-    const updateJelly = (b: BubbleExt, tempo: number) => {
-      if (!b.jelly) return;
-      const SPR = 0.18 * tempo;
-      const DMP = 0.78;
-      const ROT_SPR = 0.10 * tempo;
-      const ROT_DMP = 0.80;
-
-      const ax = (1 - b.jelly.sx) * SPR;
-      const ay = (1 - b.jelly.sy) * SPR;
-      b.jelly.vsx = (b.jelly.vsx + ax) * DMP;
-      b.jelly.vsy = (b.jelly.vsy + ay) * DMP;
-      b.jelly.sx += b.jelly.vsx;
-      b.jelly.sy += b.jelly.vsy;
-
-      const arot = (0 - b.jelly.rot) * ROT_SPR;
-      b.jelly.vrot = (b.jelly.vrot + arot) * ROT_DMP;
-      b.jelly.rot += b.jelly.vrot;
-
-      b.jelly.sx = Math.max(0.7, Math.min(1.3, b.jelly.sx));
-      b.jelly.sy = Math.max(0.7, Math.min(1.3, b.jelly.sy));
-
-      const VSPR = 0.22 * tempo;
-      const VDMP = 0.70;
-      for (let i = 0; i < VERTEX_COUNT; i++) {
-        const a = (0 - b.jelly.vOff[i]) * VSPR;
-        b.jelly.vVel[i] = (b.jelly.vVel[i] + a) * VDMP;
-        b.jelly.vOff[i] += b.jelly.vVel[i];
-        b.jelly.vOff[i] = Math.max(-0.35, Math.min(0.35, b.jelly.vOff[i]));
-      }
-
-      b.deformation.scaleX = b.jelly.sx;
-      b.deformation.scaleY = b.jelly.sy;
-      b.deformation.rotation = b.jelly.rot;
-    };
-
     const spawnParticle = (x: number, y: number, z: number, color: string) => {
       const p = acquireParticle();
       p.x = x; p.y = y; p.z = z;
-      p.vx = (Math.random() - 0.5) * 15;
-      p.vy = (Math.random() - 0.5) * 15;
-      p.vz = (Math.random() - 0.5) * 15;
+      p.vx = (randomFx() - 0.5) * 15;
+      p.vy = (randomFx() - 0.5) * 15;
+      p.vz = (randomFx() - 0.5) * 15;
       p.life = 1.0;
       p.color = color;
-      p.size = Math.random() * 2 + 0.5;
+      p.size = randomFx() * 2 + 0.5;
       particlesRef.current.push(p);
     };
 
-    const spawnPuff = (b: BubbleExt) => {
+    const spawnPuff = (b: SimBubble) => {
       for (let i = 0; i < PUFF_PARTICLES; i++) {
         const p = acquireParticle();
         p.x = b.x;
         p.y = b.y;
         p.z = b.z;
-        p.vx = (Math.random() - 0.5) * PUFF_VELOCITY;
-        p.vy = (Math.random() - 0.5) * PUFF_VELOCITY;
-        p.vz = (Math.random() - 0.5) * (PUFF_VELOCITY * 0.6);
+        p.vx = (randomFx() - 0.5) * PUFF_VELOCITY;
+        p.vy = (randomFx() - 0.5) * PUFF_VELOCITY;
+        p.vz = (randomFx() - 0.5) * (PUFF_VELOCITY * 0.6);
         p.life = 0.6;
         p.color = b.color;
-        p.size = Math.random() * 1.6 + 0.4;
+        p.size = randomFx() * 1.6 + 0.4;
         particlesRef.current.push(p);
       }
     };
 
-    const spawnBubble = (x: number, y: number, z: number = 0, r?: number) => {
-      const color = BUBBLE_COLORS[Math.floor(Math.random() * BUBBLE_COLORS.length)];
-      const radius = r || Math.random() * 35 + 15;
-      const b = acquireBubble();
-      const vertices = b.vertices.length === VERTEX_COUNT ? b.vertices : new Array(VERTEX_COUNT).fill(1);
-      const vertexPhases = b.vertexPhases.length === VERTEX_COUNT ? b.vertexPhases : new Array(VERTEX_COUNT).fill(0);
-      for (let i = 0; i < VERTEX_COUNT; i++) {
-        vertices[i] = 1;
-        vertexPhases[i] = Math.random() * Math.PI * 2;
-      }
-      b.vertices = vertices;
-      b.vertexPhases = vertexPhases;
-      const jelly = b.jelly ?? {
-        sx: 1, sy: 1, rot: 0,
-        vsx: 0, vsy: 0, vrot: 0,
-        vOff: new Array(VERTEX_COUNT).fill(0),
-        vVel: new Array(VERTEX_COUNT).fill(0),
-        nx2: 1, ny2: 0,
-      };
-      resetJelly(jelly);
-      const charge = Math.random() > 0.5 ? 1 : -1;
-      const id = uuidv4().substring(0, 6).toUpperCase();
-
-      const audioSource = audioService.assignSourceToBubble();
-      const hasLabel = Boolean(audioSource);
-      const spawnedAt = performance.now();
-      b.id = id;
-      b.x = x;
-      b.y = y;
-      b.z = z || Math.random() * (DEPTH * 0.5);
-      b.vx = (Math.random() - 0.5) * 2;
-      b.vy = (Math.random() - 0.5) * 2;
-      b.vz = (Math.random() - 0.5) * 2;
-      b.radius = radius;
-      b.color = color;
-      b.hue = 0;
-      b.charge = charge;
-      if (!b.deformation) b.deformation = { scaleX: 1, scaleY: 1, rotation: 0 };
-      b.deformation.scaleX = 1;
-      b.deformation.scaleY = 1;
-      b.deformation.rotation = 0;
-      b.jelly = jelly;
-      b.lastAudioAt = 0;
-      b.audioSource = audioSource;
-      b.digitOverlay = undefined;
-      b.digitImpactsLeft = undefined;
-      b.lastDigitImpactAt = undefined;
-      b.voidEnteredAt = undefined;
-      b.voidGraceMs = undefined;
-      b.overlapFrame = undefined;
-      b.labelAlpha = hasLabel ? 0.6 : 0;
-      b.labelTargetAlpha = hasLabel ? 0.6 : 0;
-      b.spawnedAt = spawnedAt;
-      bubblesRef.current.push(b);
-
-      pushLog(`SPAWN: ${id} <R:${Math.round(radius)}>`);
-    };
-
-    const assignDigitOverlay = (digit: DigitChar, nowMs: number) => {
-      const bubbles = bubblesRef.current;
-      if (!bubbles.length) return;
-      if (bubbles.some((b) => b.digitOverlay)) return;
-
-      const candidates = bubbles.filter((b) => {
-        if (b.digitOverlay) return false;
-        const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
-        return b.radius * scale >= DIGIT_OVERLAY_MIN_R2D;
-      });
-      if (!candidates.length) return;
-
-      candidates.sort((a, b) => b.radius - a.radius);
-      const slice = Math.max(1, Math.floor(candidates.length * 0.35));
-      const pick = candidates[Math.floor(Math.random() * slice)];
-      const impacts = parseInt(digit, 10);
-      pick.digitOverlay = {
-        digit,
-        since: nowMs,
-        until: Number.POSITIVE_INFINITY,
-      };
-      pick.digitImpactsLeft = Number.isFinite(impacts) ? impacts : undefined;
-      pick.lastDigitImpactAt = undefined;
-    };
-
-    const registerDigitImpact = (b: BubbleExt, nowMs: number) => {
-      if (!b.digitOverlay || !b.digitImpactsLeft) return;
-      if (b.lastDigitImpactAt && (nowMs - b.lastDigitImpactAt) < DIGIT_IMPACT_COOLDOWN_MS) return;
-      b.lastDigitImpactAt = nowMs;
-      b.digitImpactsLeft -= 1;
-      if (b.digitImpactsLeft <= 0) return;
-      if (Math.random() < TESLA_JUMP_PROB) teslaJump(b, nowMs);
-    };
-
-    const spawnTeslaArc = (from: BubbleExt, to: BubbleExt) => {
+    const spawnTeslaArc = (from: SimBubble, to: SimBubble) => {
       const sparks = TESLA_SPARKS;
       for (let i = 0; i < sparks; i++) {
         const t = sparks <= 1 ? 0.5 : i / (sparks - 1);
         const jitter = 10;
-        const x = from.x + (to.x - from.x) * t + (Math.random() - 0.5) * jitter;
-        const y = from.y + (to.y - from.y) * t + (Math.random() - 0.5) * jitter;
-        const z = from.z + (to.z - from.z) * t + (Math.random() - 0.5) * jitter * 0.6;
+        const x = from.x + (to.x - from.x) * t + (randomFx() - 0.5) * jitter;
+        const y = from.y + (to.y - from.y) * t + (randomFx() - 0.5) * jitter;
+        const z = from.z + (to.z - from.z) * t + (randomFx() - 0.5) * jitter * 0.6;
         spawnParticle(x, y, z, 'rgba(190, 220, 255, 0.95)');
       }
     };
 
-    const teslaJump = (from: BubbleExt, nowMs: number) => {
-      const bubbles = bubblesRef.current;
-      const overlay = from.digitOverlay;
-      if (!overlay) return;
-      const candidates = bubbles.filter((b) => {
-        if (b === from) return false;
-        if (b.digitOverlay) return false;
-        const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
-        if (b.radius * scale < DIGIT_OVERLAY_MIN_R2D) return false;
-        const dx = b.x - from.x;
-        const dy = b.y - from.y;
-        const dz = b.z - from.z;
-        const distSq = dx * dx + dy * dy + dz * dz;
-        return distSq >= TESLA_MIN_DIST * TESLA_MIN_DIST;
-      });
-      if (!candidates.length) return;
-      const target = candidates[Math.floor(Math.random() * candidates.length)];
-      spawnTeslaArc(from, target);
-      const impactsLeft = from.digitImpactsLeft;
-      from.digitOverlay = undefined;
-      from.digitImpactsLeft = undefined;
-      from.lastDigitImpactAt = undefined;
-      target.digitOverlay = { ...overlay, since: nowMs, until: Number.POSITIVE_INFINITY };
-      target.digitImpactsLeft = impactsLeft;
-      target.lastDigitImpactAt = nowMs;
-    };
-
-    const project2D = (b: BubbleExt, w: number, h: number) => {
+    const project2D = (b: SimBubble, w: number, h: number) => {
       const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
       const cx = w / 2; const cy = h / 2;
       return {
@@ -1082,8 +866,8 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       }
 
       // hit test bubbles (topmost)
-      const bubbles = bubblesRef.current;
-      let hit: BubbleExt | null = null;
+      const bubbles = sim.bubbles;
+      let hit: SimBubble | null = null;
       for (let i = bubbles.length - 1; i >= 0; i--) {
         const p = project2D(bubbles[i], canvasRef.current.width, canvasRef.current.height);
         const dx = x - p.x; const dy = y - p.y;
@@ -1108,7 +892,7 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
 
       isDrawingRef.current = true;
       lastSpawnPos.current = { x, y };
-      spawnBubble(x, y, 50);
+      sim.spawnBubble(x, y, 50);
       // no pointer capture needed for spawn-only
     };
 
@@ -1130,7 +914,7 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
 
       // dragging existing bubble
       if (grabRef.current.id && grabRef.current.pointerId === e.pointerId) {
-        const b = bubblesRef.current.find(bb => bb.id === grabRef.current.id);
+        const b = sim.bubbles.find(bb => bb.id === grabRef.current.id);
         if (b) {
           const { offsetX, offsetY, lastX, lastY, lastT } = grabRef.current;
           const now = performance.now();
@@ -1171,7 +955,7 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
         const dy = y - lastSpawnPos.current.y;
         const dist = Math.sqrt(dx * dx + dy * dy);
         if (dist > 50) {
-          spawnBubble(x, y, 50 + Math.random() * 100);
+          sim.spawnBubble(x, y, 50 + random() * 100);
           lastSpawnPos.current = { x, y };
         }
       }
@@ -1192,38 +976,19 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       try { canvasRef.current.releasePointerCapture(e.pointerId); } catch { /* ignore */ }
     };
 
-    const triggerBubbleSound = (b: BubbleExt, triggerType: string) => {
-      const now = performance.now();
-      if (b.lastAudioAt && (now - b.lastAudioAt) < AUDIO_COOLDOWN_MS) return;
-      b.lastAudioAt = now;
-
-      const phys = physicsRef.current;
-      const audio = audioSettingsRef.current;
-      const isReverse = Math.random() < phys.reverseChance;
-
-      const sizeVol = Math.min(1, Math.max(0.2, b.radius / 70));
-      const distanceFactor = Math.max(0, 1 - (b.z / (DEPTH * 1.5)));
-      const finalVol = sizeVol * distanceFactor;
-
-      const width = (canvasRef.current && canvasRef.current.width > 0) ? canvasRef.current.width : 1000;
-      const pan = (b.x / width) * 2 - 1;
-      const depth = clamp01(Math.pow(b.z / DEPTH, 0.75));
-      const canvasH = (canvasRef.current && canvasRef.current.height > 0) ? canvasRef.current.height : 1000;
-      const height = clampSigned(1 - (b.y / canvasH) * 2);
-
+    const playSoundEvent = (event: RoomSoundEvent) => {
       audioService.triggerSound(
-        1 - (b.radius / 180),
-        audio.baseFrequency,
-        pan, depth, height, b.vz,
-        phys.doppler, isReverse, finalVol,
+        event.sizeFactor,
+        audioSettingsRef.current.baseFrequency,
+        event.pan, event.depth, event.height, event.velocityZ,
+        event.doppler, event.isReverse, event.volume,
         musicSettingsRef.current,
         undefined,
-        b.audioSource
+        event.source,
+        event.features,
+        event.kind,
+        event.role
       );
-
-      if (Math.random() > 0.85) {
-        pushLog(`AUDIO: ${triggerType} [${b.id}]`);
-      }
     };
 
     // --- DRAWING FUNCTIONS ---
@@ -1257,14 +1022,15 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       const phys = physicsRef.current;
       const audio = audioSettingsRef.current;
 
-      const music = musicSettingsRef.current;
-      const scale = getScaleById(music.scaleId);
+      const music = applyProgressionStep(musicSettingsRef.current, audioService.getProgressionPosition().step);
+      const scale = resolveScale(music);
       const rootName = pitchClassToNoteName(music.root);
       let scaleLabel = `${rootName} ${scale.label.toUpperCase()}`;
       if (music.noThirds || scale.tags?.includes('no3rd')) scaleLabel += ' NO-3RD';
       if (scale.tags?.includes('drone')) scaleLabel += ' DRONE';
 
       const poolInfo = audioService.getActivePoolInfo();
+      const voiceInfo = audioService.getVoiceMetrics();
       const poolLabel = poolInfo.labels.length ? poolInfo.labels.join('|') : '--';
       const eqLow = Number.isFinite(audio.low) ? audio.low : 0;
       const eqMid = Number.isFinite(audio.mid) ? audio.mid : 0;
@@ -1274,7 +1040,8 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
         `PLAY_CNT  : ${poolInfo.size}`,
         `PLAY_SET  : ${poolLabel}`,
         `// CORE_PHYSICS`,
-        `CLK_TEMPO : ${phys.tempo.toFixed(2)}`,
+        `RNG_SEED  : ${seedRef.current === null ? 'FREE' : seedRef.current}`,
+        `CLK_TEMPO : ${phys.tempo.toFixed(2)} ${Math.round(physicsTempoToBpm(phys.tempo))}BPM`,
         `G_FORCE   : ${phys.gravity.toFixed(2)}`,
         `WIND_VEC  : ${phys.wind.toFixed(2)}`,
         `VISCOSITY : ${phys.freeze.toFixed(2)}`,
@@ -1297,6 +1064,9 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
         `VERB_MIX  : ${audio.reverbWet.toFixed(2)}`,
         `ECHO_FDBK : ${phys.pingPong.toFixed(2)}`,
         `REV_PROB  : ${phys.reverseChance.toFixed(2)}`,
+        `// VOICES`,
+        `VOICE_CNT : ${voiceInfo.active}/${voiceInfo.max}`,
+        `VOICE_STL : ${voiceInfo.stolen}`,
         `// SYSTEM`,
         `ACTIVE_OBJ: ${metrics.objects}`,
         `HEAP_SIZE : ${(metrics.objects * 0.45).toFixed(2)}KB`,
@@ -1313,10 +1083,24 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
         y += 12;
       });
 
+      // One bar per sounding voice, newest on the right; height is the estimated envelope level.
+      const barW = 2;
+      const barGap = 1;
+      const barH = 10;
+      const voices = [...voiceInfo.voices].sort((a, b) => b.age - a.age);
+      voices.forEach((voice, i) => {
+        const level = Math.min(1, voice.level / 0.25);
+        const x = w - 15 - (voices.length - i) * (barW + barGap);
+        ctx.fillStyle = 'rgba(122,132,118,0.35)';
+        ctx.fillRect(x, y, barW, barH);
+        ctx.fillStyle = voice.kind === 'synth' ? 'rgba(214, 222, 216, 0.9)' : 'rgba(185, 188, 183, 0.9)';
+        ctx.fillRect(x, y + barH * (1 - level), barW, barH * level);
+      });
+
       ctx.restore();
     };
 
-    const drawAmoeba = (ctx: CanvasRenderingContext2D, b: BubbleExt, w: number, h: number, blurAmount: number, overlap: boolean, nowMs: number) => {
+    const drawAmoeba = (ctx: CanvasRenderingContext2D, b: SimBubble, w: number, h: number, blurAmount: number, overlap: boolean, nowMs: number) => {
       const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
       const cx = w / 2; const cy = h / 2;
       const x2d = (b.x - cx) * scale + cx;
@@ -1441,7 +1225,7 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
 
     const drawWallReflections = (
       ctx: CanvasRenderingContext2D,
-      bubbles: BubbleExt[],
+      bubbles: SimBubble[],
       w: number,
       h: number,
       warp: number,
@@ -1482,7 +1266,7 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
         return clamp01((range - Math.max(0, surfaceDist)) / range);
       };
 
-      const drawReflection = (ref: BubbleExt, alpha: number) => {
+      const drawReflection = (ref: SimBubble, alpha: number) => {
         if (alpha <= 0) return;
         const scale = FOCAL_LENGTH / (FOCAL_LENGTH + ref.z);
         const cx = w / 2; const cy = h / 2;
@@ -1536,52 +1320,52 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
 
         if (proxLeft > 0) {
           const refPos = reflectAcrossPlane(b, leftPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + proxLeft * 0.22) * dim);
         }
 
         if (proxRight > 0) {
           const refPos = reflectAcrossPlane(b, rightPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + proxRight * 0.22) * dim);
         }
 
         if (proxTop > 0) {
           const refPos = reflectAcrossPlane(b, topPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + proxTop * 0.18) * dim);
         }
 
         if (proxBottom > 0) {
           const refPos = reflectAcrossPlane(b, bottomPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + proxBottom * 0.18) * dim);
         }
 
         if (proxBack > 0) {
           const refPos = reflectAcrossPlane(b, backPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + proxBack * 0.16) * dim);
         }
 
         if (proxLeft > 0 && proxTop > 0) {
           const refPos = reflectAcrossPlane(reflectAcrossPlane(b, leftPlane), topPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + (proxLeft * proxTop) * 0.2) * dim);
         }
         if (proxLeft > 0 && proxBottom > 0) {
           const refPos = reflectAcrossPlane(reflectAcrossPlane(b, leftPlane), bottomPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + (proxLeft * proxBottom) * 0.2) * dim);
         }
         if (proxRight > 0 && proxTop > 0) {
           const refPos = reflectAcrossPlane(reflectAcrossPlane(b, rightPlane), topPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + (proxRight * proxTop) * 0.2) * dim);
         }
         if (proxRight > 0 && proxBottom > 0) {
           const refPos = reflectAcrossPlane(reflectAcrossPlane(b, rightPlane), bottomPlane);
-          const ref: BubbleExt = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
+          const ref: SimBubble = { ...b, x: refPos.x, y: refPos.y, z: refPos.z, digitOverlay: undefined, audioSource: null, labelAlpha: 0, labelTargetAlpha: 0 };
           drawReflection(ref, (baseAlpha + (proxRight * proxBottom) * 0.2) * dim);
         }
       }
@@ -1711,7 +1495,7 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       ctx.restore();
     };
 
-    const drawHUD = (ctx: CanvasRenderingContext2D, pairs: { b1: BubbleExt | null; b2: BubbleExt | null }[], w: number, h: number) => {
+    const drawHUD = (ctx: CanvasRenderingContext2D, pairs: { b1: SimBubble | null; b2: SimBubble | null }[], w: number, h: number) => {
       ctx.save();
       ctx.font = '10px "Courier New", monospace';
       ctx.textAlign = 'center';
@@ -1908,82 +1692,6 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
       ctx.restore();
     };
 
-    const clampBubble = (b: BubbleExt, tempo: number) => {
-      const maxV = MAX_SPEED * Math.max(0.2, tempo);
-      const vx = b.vx, vy = b.vy, vz = b.vz;
-      const sp = Math.sqrt(vx * vx + vy * vy + vz * vz);
-      if (sp > maxV && sp > EPS) {
-        const s = maxV / sp;
-        b.vx *= s; b.vy *= s; b.vz *= s;
-      }
-      if (!Number.isFinite(b.x) || !Number.isFinite(b.y) || !Number.isFinite(b.z) ||
-          !Number.isFinite(b.vx) || !Number.isFinite(b.vy) || !Number.isFinite(b.vz)) {
-        b.x = Math.max(0, Math.min((canvasRef.current?.width ?? 1000), Number.isFinite(b.x) ? b.x : 0));
-        b.y = Math.max(0, Math.min((canvasRef.current?.height ?? 500), Number.isFinite(b.y) ? b.y : 0));
-        b.z = Math.max(0, Math.min(DEPTH, Number.isFinite(b.z) ? b.z : 0));
-        b.vx = 0; b.vy = 0; b.vz = 0;
-      }
-    };
-
-    const applySchooling = (bubbles: BubbleExt[], wave: number, tempo: number, time: number) => {
-      const w = wave * 0.35; // 65% reduction
-      if (w < 0.01 || bubbles.length < 2) return;
-      const neighborR = 180 + w * 320;
-      const neighborSq = neighborR * neighborR;
-      const sepR = 80 + w * 120;
-      const sepSq = sepR * sepR;
-      const alignW = 0.04 * w * Math.max(0.4, tempo);
-      const cohW = 0.02 * w * Math.max(0.4, tempo);
-      const sepW = 0.08 * w * Math.max(0.4, tempo);
-      const sway = 6 * w;
-
-      for (let i = 0; i < bubbles.length; i++) {
-        const b = bubbles[i];
-        let count = 0;
-        let ax = 0, ay = 0, az = 0;
-        let cx = 0, cy = 0, cz = 0;
-        let sx = 0, sy = 0, sz = 0;
-
-        for (let j = 0; j < bubbles.length; j++) {
-          if (i === j) continue;
-          const o = bubbles[j];
-          const dx = o.x - b.x;
-          const dy = o.y - b.y;
-          const dz = o.z - b.z;
-          const dSq = dx * dx + dy * dy + dz * dz;
-          if (dSq > neighborSq) continue;
-          count++;
-          ax += o.vx; ay += o.vy; az += o.vz;
-          cx += o.x; cy += o.y; cz += o.z;
-          if (dSq < sepSq) {
-            const inv = 1 / Math.sqrt(Math.max(EPS, dSq));
-            sx -= dx * inv;
-            sy -= dy * inv;
-            sz -= dz * inv;
-          }
-        }
-
-        if (count > 0) {
-          const invC = 1 / count;
-          b.vx += (ax * invC - b.vx) * alignW;
-          b.vy += (ay * invC - b.vy) * alignW;
-          b.vz += (az * invC - b.vz) * alignW;
-
-          b.vx += (cx * invC - b.x) * cohW;
-          b.vy += (cy * invC - b.y) * cohW;
-          b.vz += (cz * invC - b.z) * cohW;
-        }
-
-        b.vx += sx * sepW;
-        b.vy += sy * sepW;
-        b.vz += sz * sepW;
-
-        const swayPhase = b.vertexPhases[0] ?? 0;
-        b.vx += Math.sin(time * 1.2 + b.x * 0.01 + swayPhase) * sway * 0.2;
-        b.vy += Math.cos(time * 1.1 + b.y * 0.01 + swayPhase * 0.3) * sway * 0.15;
-      }
-    };
-
     // MAIN LOOP
     useEffect(() => {
       if (containerRef.current && canvasRef.current) {
@@ -2079,52 +1787,42 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
         updateGyroAuto(nowMs);
         const peakDb = audioService.getPeakLevel();
         const poolSize = audioService.getActivePoolSize();
-        if (digitRef.current.nextAt < nowMs) {
-          const shouldSpawn = poolSize === 3 || poolSize === 6 || poolSize === 9;
-          if (shouldSpawn) assignDigitOverlay(String(poolSize) as DigitChar, nowMs);
-          digitRef.current.nextAt = nowMs + 8000 + Math.random() * 12000;
-        }
         const bankSnapshot = audioService.getBankSnapshot();
+        const bubbles = sim.bubbles;
         drawMatrixLog(ctx, canvas.width, canvas.height, {
           peakDb,
           baseFreq: audio.baseFrequency,
-          objects: bubblesRef.current.length,
+          objects: bubbles.length,
           fps: fpsRef.current.fps,
         });
         drawRoom(ctx, canvas.width, canvas.height, phys.geometryWarp, phys.roomWave, time);
+        const room = roomCacheRef.current;
+        if (room && nowMs - roomSyncAtRef.current >= ROOM_ACOUSTICS_SYNC_MS) {
+          roomSyncAtRef.current = nowMs;
+          audioService.setRoomShape(roomShapeFromBox(room.front, room.back, room.w, room.h));
+        }
         drawVoid(ctx, canvas.width, canvas.height, phys.blackHole, time);
 
-        const bubbles = bubblesRef.current;
-        const hasSources =
-          bankSnapshot.synthEnabled ||
-          bankSnapshot.mic.some(Boolean) ||
-          bankSnapshot.smp.some(Boolean);
-        if (hasSources) {
-          const unassigned = bubbles.filter((b) => !b.audioSource);
-          if (unassigned.length) {
-            unassigned.sort(() => Math.random() - 0.5);
-            unassigned.forEach((b) => {
-              const source = audioService.assignSourceToBubble();
-              if (!source) return;
-              b.audioSource = source;
-              b.labelAlpha = 0;
-              b.labelTargetAlpha = 0.6;
-            });
-          }
-        }
         const particles = particlesRef.current;
         const recovering = perfRef.current.recovering;
         const fpsNow = fpsRef.current.fps;
         const severity = recovering ? Math.max(0, FPS_GUARD_RECOVER - Math.max(0, fpsNow)) / FPS_GUARD_RECOVER : 0;
-        let shredQuota = 0;
         const shredReady = recovering && nowMs >= perfRef.current.shredDelayUntil;
-        const safeMin = Math.max(SHRED_MIN_BUBBLES, poolSize);
-        if (shredReady && bubbles.length > safeMin) {
-          // Gradual decay: remove a small fraction per frame based on severity, capped
-          shredQuota = Math.max(1, Math.floor(bubbles.length * (0.01 + severity * 0.03)));
-          shredQuota = Math.min(shredQuota, Math.max(1, Math.floor(bubbles.length * 0.06)));
-          shredQuota = Math.min(shredQuota, bubbles.length - safeMin);
-        }
+
+        sim.step({
+          physics: phys,
+          width: canvas.width,
+          height: canvas.height,
+          nowMs,
+          time,
+          frameId,
+          bank: bankSnapshot,
+          poolSize,
+          running: isPlayingRef.current,
+          recovering,
+          // Frame rate is not replayable, so seeded runs never auto shred.
+          shred: { ready: shredReady && seedRef.current === null, severity },
+        });
 
         if (!isPlayingRef.current) {
           bubbles.sort((a, b) => b.z - a.z);
@@ -2135,9 +1833,8 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
           return;
         }
 
-        const { tempo, gravity, buddingChance, cannibalism, wind, blackHole, weakness, magneto, fragmentation, freeze, roomWave } = phys;
+        const { tempo } = phys;
         const cx = canvas.width / 2; const cy = canvas.height / 2;
-        const voidZ = VOID_PLANE_Z;
 
         // --- PARTICLE LOOP ---
         for (let i = 0; i < particles.length; i++) {
@@ -2164,360 +1861,12 @@ export const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(
           ctx.fillRect(x2d, y2d, size, size);
         }
 
-        // Schooling / wave behaviour (fish-like swirls)
-        applySchooling(bubbles, roomWave, tempo, time);
-
-        // --- BUBBLE PHYSICS (local forces) ---
-        for (let i = 0; i < bubbles.length; i++) {
-          const b = bubbles[i];
-          if (b.audioSource && !isSourceValid(b.audioSource, bankSnapshot)) {
-            b.labelTargetAlpha = 0;
-          }
-          if (b.labelTargetAlpha === undefined) {
-            b.labelTargetAlpha = b.audioSource ? 0.6 : 0;
-          }
-          const labelTarget = b.labelTargetAlpha ?? 0;
-          const labelAlpha = b.labelAlpha ?? labelTarget;
-          b.labelAlpha = labelAlpha + (labelTarget - labelAlpha) * 0.08;
-          if (b.labelAlpha < 0.02 && labelTarget === 0) {
-            b.labelAlpha = 0;
-            b.audioSource = null;
-          }
-          if (b.digitImpactsLeft !== undefined && b.digitImpactsLeft <= 0) {
-            spawnPuff(b);
-            if (removeBubbleAt(bubbles, i)) i--;
-            continue;
-          }
-
-          // Freeze (Viscosity)
-          if (freeze > 0) {
-            const drag = 1 - (freeze * 0.1 * tempo);
-            b.vx *= drag;
-            b.vy *= drag;
-            b.vz *= drag;
-          }
-
-          // Auto shred if perf drops (gradual, not all at once)
-          if (
-            shredReady &&
-            shredQuota > 0 &&
-            bubbles.length > safeMin &&
-            (!b.spawnedAt || (nowMs - b.spawnedAt) > SHRED_GRACE_MS) &&
-            Math.random() < (0.25 + severity * 0.35)
-          ) {
-            for (let k = 0; k < 32; k++) spawnParticle(b.x, b.y, b.z, b.color);
-            pushLog(`FPS_SHRED: ${b.id}`);
-            shredQuota -= 1;
-            if (removeBubbleAt(bubbles, i)) i--;
-            continue;
-          }
-
-          if (fragmentation > 0 && Math.random() < fragmentation * 0.005) {
-            for (let k = 0; k < 32; k++) spawnParticle(b.x, b.y, b.z, b.color);
-            pushLog(`ERR_FRAG: ${b.id}`);
-            if (removeBubbleAt(bubbles, i)) i--;
-            continue;
-          }
-
-          if (weakness > 0) {
-            b.radius -= (weakness * 0.1) * tempo;
-            if (b.radius < 5) {
-              if (removeBubbleAt(bubbles, i)) i--;
-              continue;
-            }
-          }
-
-          const blackHoleEff = Math.max(0, blackHole - 0.08);
-          if (blackHoleEff > 0.001) {
-            // VOID: central gravity + frame-drag swirl + accretion (tangential drag)
-            // Use XY distance for the "on-screen" spiral; Z is treated as a funnel into depth.
-            const dx = cx - b.x;
-            const dy = cy - b.y;
-            const dzVoid = voidZ - b.z;
-            const rSq = dx * dx + dy * dy;
-            const distSq3d = rSq + dzVoid * dzVoid;
-            const r = Math.sqrt(Math.max(EPS, rSq));
-            const dist3d = Math.sqrt(Math.max(EPS, distSq3d));
-            const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
-            const r2d = r * scale;
-            const dist3d2d = dist3d * scale;
-
-            // event horizon in *screen space* (projection), so it matches what the player sees
-            const bhCurve = blackHoleEff * blackHoleEff;
-            const horizon = 14 + bhCurve * 90;
-            const horizonWithSize = horizon + (b.radius * scale) * 0.2;
-            const horizonHit = dist3d2d < horizonWithSize;
-            let shouldSwallow = false;
-            if (horizonHit) {
-              if (!b.voidEnteredAt) {
-                b.voidEnteredAt = nowMs;
-                b.voidGraceMs = 1000 + Math.random() * 1000; // 1-2s grace to show spiral
-              }
-              const elapsed = nowMs - (b.voidEnteredAt ?? nowMs);
-              if (elapsed >= (b.voidGraceMs ?? 0)) shouldSwallow = true;
-            } else {
-              b.voidEnteredAt = undefined;
-              b.voidGraceMs = undefined;
-            }
-            if (shouldSwallow) {
-              if (removeBubbleAt(bubbles, i)) i--;
-              continue;
-            }
-
-            const ux = dx / r;
-            const uy = dy / r;
-            const uz = dzVoid / dist3d;
-            const tx = -uy;
-            const ty = ux;
-
-            // Newtonian-like gravity with softening + accel clamp for stability
-            const gm = 32000 * bhCurve + 6000 * blackHoleEff;
-            const soft = 2500; // px^2
-            const reachFalloff = 1 / (1 + (dist3d / 900));
-            let a = (gm / (distSq3d + soft)) * reachFalloff;
-            const maxA = MAX_ACCEL * Math.max(0.2, tempo);
-            if (a > maxA) a = maxA;
-
-            // "Spin": swirl is proportional to gravity (stronger near the hole, weaker far away)
-            const swirlFloor = 0.02 + 0.18 * blackHoleEff;
-            const aTan = a * (0.06 + 0.22 * blackHoleEff) + swirlFloor * reachFalloff;
-
-            b.vx += ux * a + tx * aTan;
-            b.vy += uy * a + ty * aTan;
-            b.vz += uz * a;
-
-            // Depth funnel: pull towards mid-depth so bubbles don't "bounce" off the back wall.
-            const funnel = (1 / (1 + (dist3d / 900))) * bhCurve;
-            b.vz += uz * a * 0.25 * funnel;
-
-            // Accretion drag: remove angular momentum so orbits become spirals
-            const vTan = b.vx * tx + b.vy * ty;
-            const dragT = Math.min(0.08, (0.01 + 0.07 * blackHoleEff) * funnel * Math.max(0.2, tempo));
-            b.vx -= tx * vTan * dragT;
-            b.vy -= ty * vTan * dragT;
-
-            // Small damping to counter the injected swirl energy (keeps capture stable)
-            const damp = 1 - Math.min(0.06, dragT * 0.25);
-            b.vx *= damp; b.vy *= damp; b.vz *= damp;
-          } else {
-            b.vy += gravity * 0.15;
-          }
-
-          if (wind > 0) {
-            const windForce = wind * 0.15;
-            b.vx += (Math.random() - 0.5) * windForce;
-            b.vy += (Math.random() - 0.5) * windForce;
-            b.vz += (Math.random() - 0.5) * windForce;
-          }
-
-          // integrate
-          b.x += b.vx * tempo; b.y += b.vy * tempo; b.z += b.vz * tempo;
-
-          // Elasticity + jelly offsets
-          const elasticity = 0.25 + (0.25 * (1 - freeze));
-          for (let j = 0; j < VERTEX_COUNT; j++) {
-            const base = 1 + (
-              Math.sin(time * 1.5 + b.vertexPhases[j]) * elasticity * 0.6 +
-              Math.sin(time * 0.8 + j) * elasticity * 0.4
-            );
-            const local = b.jelly ? b.jelly.vOff[j] : 0;
-            b.vertices[j] = base + local;
-          }
-
-          // Wall Collisions
-          let wallHit = false;
-          if (b.x - b.radius < 0) { const imp = Math.abs(b.vx); b.x = b.radius; b.vx *= -0.9; wallHit = true; applyJellyImpact(b, +1, 0, imp); }
-          else if (b.x + b.radius > canvas.width) { const imp = Math.abs(b.vx); b.x = canvas.width - b.radius; b.vx *= -0.9; wallHit = true; applyJellyImpact(b, -1, 0, imp); }
-
-          if (b.y - b.radius < 0) { const imp = Math.abs(b.vy); b.y = b.radius; b.vy *= -0.9; wallHit = true; applyJellyImpact(b, 0, +1, imp); }
-          else if (b.y + b.radius > canvas.height) { const imp = Math.abs(b.vy); b.y = canvas.height - b.radius; b.vy *= gravity > 0.5 ? -0.6 : -0.9; wallHit = true; applyJellyImpact(b, 0, -1, imp); }
-
-          if (b.z < 0) { b.z = 0; b.vz *= -0.9; wallHit = true; }
-          else if (b.z > DEPTH) { b.z = DEPTH; b.vz *= -0.9; wallHit = true; }
-
-          if (wallHit) registerDigitImpact(b, nowMs);
-          if (wallHit && blackHole < 0.5) {
-            if ((Math.abs(b.vx) + Math.abs(b.vy) + Math.abs(b.vz)) > 0.5) triggerBubbleSound(b, 'WALL');
-          }
-
-          // Budding (unchanged behaviour, but safer spawn offset against dist=0)
-          const effectiveBudding = perfRef.current.recovering ? 0 : buddingChance;
-          if (Math.random() < effectiveBudding * 0.05 && b.radius > 15) {
-            b.radius *= 0.8;
-            spawnBubble(
-              b.x + (Math.random() - 0.5) * 6,
-              b.y + (Math.random() - 0.5) * 6,
-              b.z + (Math.random() - 0.5) * 12,
-              b.radius
-            );
-          }
-
-          updateJelly(b, tempo);
-
-          // Spaghettification (tidal stretching) near the event horizon: stretch radial, squeeze tangential.
-          if (blackHoleEff > 0.001) {
-            const dx = cx - b.x;
-            const dy = cy - b.y;
-            const rSq = dx * dx + dy * dy;
-            const r = Math.sqrt(Math.max(EPS, rSq));
-            const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
-            const r2d = r * scale;
-
-            const tidal = (blackHoleEff * blackHoleEff) / (1 + Math.pow(r2d / 140, 3));
-            if (tidal > 0.002) {
-              const targetRot = Math.atan2(dy, dx);
-              const blend = Math.min(1, tidal * 1.25);
-              const curRot = b.deformation.rotation;
-              const delta = Math.atan2(Math.sin(targetRot - curRot), Math.cos(targetRot - curRot));
-
-              b.deformation.rotation = curRot + delta * blend;
-              b.deformation.scaleX = Math.max(0.35, Math.min(3.0, b.deformation.scaleX * (1 + tidal * 1.6)));
-              b.deformation.scaleY = Math.max(0.35, Math.min(3.0, b.deformation.scaleY * (1 - tidal * 0.7)));
-            }
-          }
-          clampBubble(b, tempo);
-        }
-
-        // --- MAGNETO (pairwise, symmetric, clamped) ---
-        const safeMagneto = Number.isFinite(magneto) ? magneto : 0.5;
-        if (Math.abs(safeMagneto - 0.5) > 0.01) {
-          const magIntensity = (safeMagneto - 0.5) * 2; // [-1..1]
-          const magAbs = Math.abs(magIntensity);
-
-          for (let i = 0; i < bubbles.length; i++) {
-            for (let j = i + 1; j < bubbles.length; j++) {
-              const b1 = bubbles[i];
-              const b2 = bubbles[j];
-
-              const dx = b2.x - b1.x;
-              const dy = b2.y - b1.y;
-              const dz = b2.z - b1.z;
-              const distSq = dx * dx + dy * dy + dz * dz;
-
-              if (distSq < MAG_MIN_DIST_SQ || distSq > MAG_MAX_DIST_SQ) continue;
-
-              const dist = Math.sqrt(Math.max(EPS, distSq));
-              const nx = dx / dist; const ny = dy / dist; const nz = dz / dist;
-
-              // base force scaled by distance and knob intensity
-              let baseForce = (200 * MAGNETO_BOOST * magAbs) / distSq;
-
-              // charge interaction preference (keep your "feel")
-              const chargeFactor = b1.charge * b2.charge;
-
-              // magIntensity > 0: "attract opposites stronger"
-              // magIntensity < 0: "repel likes stronger"
-              let desire: number;
-              if (magIntensity > 0) {
-                desire = (chargeFactor < 0) ? +1.5 : -0.5;
-              } else {
-                desire = (chargeFactor > 0) ? +1.5 : -0.5;
-              }
-
-              let force = baseForce * desire;
-
-              // clamp accel per pair
-              const maxA = MAX_ACCEL * Math.max(0.2, tempo) * (0.9 + magAbs * 2.2);
-              if (force > maxA) force = maxA;
-              if (force < -maxA) force = -maxA;
-
-              // apply symmetrically (action-reaction)
-              b1.vx += nx * force; b1.vy += ny * force; b1.vz += nz * force;
-              b2.vx -= nx * force; b2.vy -= ny * force; b2.vz -= nz * force;
-            }
-          }
-
-          // clamp after magneto
-          for (let i = 0; i < bubbles.length; i++) clampBubble(bubbles[i], tempo);
-        }
-
-        // --- COLLISIONS ---
-        const topPairs = topPairsRef.current;
-        topPairs[0].b1 = null; topPairs[0].b2 = null; topPairs[0].dist = Infinity;
-        topPairs[1].b1 = null; topPairs[1].b2 = null; topPairs[1].dist = Infinity;
-        topPairs[2].b1 = null; topPairs[2].b2 = null; topPairs[2].dist = Infinity;
-        for (let i = 0; i < bubbles.length; i++) {
-          for (let j = i + 1; j < bubbles.length; j++) {
-            const b1 = bubbles[i]; const b2 = bubbles[j];
-            const dx = b2.x - b1.x; const dy = b2.y - b1.y; const dz = b2.z - b1.z;
-            const distSq = dx * dx + dy * dy + dz * dz;
-            const minDist = b1.radius + b2.radius;
-
-            const dist = Math.sqrt(Math.max(EPS, distSq));
-            if (dist < minDist * 3) {
-              b1.overlapFrame = frameId;
-              b2.overlapFrame = frameId;
-              const p0 = topPairs[0];
-              const p1 = topPairs[1];
-              const p2 = topPairs[2];
-              if (dist < p0.dist) {
-                p2.b1 = p1.b1; p2.b2 = p1.b2; p2.dist = p1.dist;
-                p1.b1 = p0.b1; p1.b2 = p0.b2; p1.dist = p0.dist;
-                p0.b1 = b1; p0.b2 = b2; p0.dist = dist;
-              } else if (dist < p1.dist) {
-                p2.b1 = p1.b1; p2.b2 = p1.b2; p2.dist = p1.dist;
-                p1.b1 = b1; p1.b2 = b2; p1.dist = dist;
-              } else if (dist < p2.dist) {
-                p2.b1 = b1; p2.b2 = b2; p2.dist = dist;
-              }
-            }
-
-            if (dist < minDist) {
-              if (Math.random() < cannibalism) {
-                if (b1.radius > 0 && b2.radius > 0) {
-                  if (b1.radius > b2.radius) {
-                    b1.radius = Math.pow(Math.pow(b1.radius, 3) + Math.pow(b2.radius, 3), 1 / 3);
-                    b2.radius = 0;
-                  } else {
-                    b2.radius = Math.pow(Math.pow(b1.radius, 3) + Math.pow(b2.radius, 3), 1 / 3);
-                    b1.radius = 0;
-                  }
-                  triggerBubbleSound(b1, 'ABSORB');
-                }
-              } else {
-                // normal (safe when dist ~ 0)
-                let nx = dx / dist; let ny = dy / dist; let nz = dz / dist;
-                if (!Number.isFinite(nx) || !Number.isFinite(ny) || !Number.isFinite(nz)) {
-                  // random fallback normal
-                  const ax = (Math.random() - 0.5);
-                  const ay = (Math.random() - 0.5);
-                  const az = (Math.random() - 0.5);
-                  const al = Math.sqrt(Math.max(EPS, ax * ax + ay * ay + az * az));
-                  nx = ax / al; ny = ay / al; nz = az / al;
-                }
-
-                const rvx = b2.vx - b1.vx; const rvy = b2.vy - b1.vy; const rvz = b2.vz - b1.vz;
-                const velAlongNormal = rvx * nx + rvy * ny + rvz * nz;
-
-                if (velAlongNormal < 0) {
-                  const jImp = -(1.95) * velAlongNormal / (1 / b1.radius + 1 / b2.radius);
-                  const im1 = 1 / b1.radius; const im2 = 1 / b2.radius;
-                  b1.vx -= (jImp * nx) * im1; b1.vy -= (jImp * ny) * im1; b1.vz -= (jImp * nz) * im1;
-                  b2.vx += (jImp * nx) * im2; b2.vy += (jImp * ny) * im2; b2.vz += (jImp * nz) * im2;
-
-                  const overlap = minDist - dist;
-                  b1.x -= nx * overlap * 0.5; b1.y -= ny * overlap * 0.5; b1.z -= nz * overlap * 0.5;
-                  b2.x += nx * overlap * 0.5; b2.y += ny * overlap * 0.5; b2.z += nz * overlap * 0.5;
-
-                  const impulse = Math.min(20, -velAlongNormal) + overlap * 0.25;
-                  applyJellyImpact(b1, -nx, -ny, impulse);
-                  applyJellyImpact(b2, nx, ny, impulse);
-
-                  triggerBubbleSound(b1, 'COLLIDE');
-                  registerDigitImpact(b1, nowMs);
-                  registerDigitImpact(b2, nowMs);
-                }
-              }
-            }
-          }
-        }
-
         // Draw
         bubbles.sort((a, b) => b.z - a.z);
         drawWallReflections(ctx, bubbles, canvas.width, canvas.height, phys.geometryWarp, phys.roomWave, time);
         bubbles.forEach(b => drawAmoeba(ctx, b, canvas.width, canvas.height, (b.z / DEPTH) * 6, b.overlapFrame === frameId, nowMs));
 
-        drawHUD(ctx, topPairs, canvas.width, canvas.height);
+        drawHUD(ctx, sim.topPairs, canvas.width, canvas.height);
         drawSpatialGyro(ctx, canvas.width, canvas.height, time);
 
         requestRef.current = requestAnimationFrame(animate);
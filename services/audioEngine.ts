@@ -1,8 +1,29 @@
-import { AudioSettings, MusicSettings, SoundType } from '../types';
-import { getScaleById } from '../src/music/scales';
+import { AudioSettings, AuxBusId, AuxFxBusId, AuxSettings, BankSettings, FxRackSettings, ImpulseSettings, MultibandBandId, MultibandSettings, MusicSettings, ReverbSettings, SoundType, CollisionKind, GrooveSettings, HarmonySettings, MelodySettings, ProgressionSettings, RoleSettings, RoleVoice, SampleBankId, SampleSlotSettings, SoundRole, SynthSettings, TempoSettings, TimbreFeatures, TimbreSettings } from '../types';
+import { getScaleById, resolveScale } from '../src/music/scales';
 import type { ScaleDef } from '../src/music/scales';
 import { freqToMidi, midiToFreq, snapMidiToPitchClass } from '../src/music/notes';
 import { quantizeMidiToScale } from '../src/music/quantize';
+import { buildHarmony, voicingFor } from '../src/music/harmony';
+import { emptyMarkovTable, pickMelodicNote } from '../src/music/melody';
+import { createRandomStream, type RandomSource } from '../src/random/seeded';
+import type { CollisionNote } from '../src/midi/messages';
+import { divisionSeconds, MAX_SYNC_DELAY_SECONDS, PHYSICS_REFERENCE_BPM } from '../src/music/tempo';
+import { nextGrooveTime } from '../src/music/groove';
+import { applyProgressionStep, createProgressionClock, type ProgressionPosition } from '../src/music/progression';
+import { createVoiceAllocator, DEFAULT_MAX_VOICES, type Voice, type VoiceMetrics } from '../src/audio/voices';
+import { activeEngineParams, DEFAULT_VOICE_ENGINE } from '../src/audio/engines/registry';
+import { defaultRoleVoices, resolveRoleVoice } from '../src/audio/roles';
+import { applyTimbre, resolveTimbre } from '../src/audio/timbre';
+import { ENVELOPE_FLOOR, stopAll, type VoicePlayback } from '../src/audio/engines/types';
+import { detectRootMidi } from '../src/audio/pitchDetect';
+import { createFxRack, defaultFxRackSettings, type FxRack } from '../src/audio/effects/rack';
+import { createMasterLimiter, DEFAULT_LIMITER_CEILING, LIMITER_CEILING_RANGE, type MasterLimiter } from '../src/audio/limiter';
+import { createMultiband, defaultMultibandSettings, type Multiband } from '../src/audio/multiband';
+import { AUX_BUSES, AUX_FX_BUSES, auxSendLevel, createAuxReturn, defaultAuxSettings, type AuxHit, type AuxReturnBus } from '../src/audio/auxSends';
+import { defaultImpulseSettings, impulseKey, normalizeImpulse, processImpulse, renderBundledImpulse, type StereoImpulse } from '../src/audio/impulses';
+import { acousticsKey, defaultReverbSettings, renderImpulseResponse, restingRoomShape, roomAcoustics, type RoomShape } from '../src/audio/reverb';
+import { defaultBankSettings, MAX_BANK_SLOTS, pickByZone, pickWeighted, ruleAllows, type SourceContext } from '../src/audio/bankSelect';
+import { defaultSampleSlot, monoChannel, pickSampleRegion, sampleEnvelope, sanitizeSampleSlot } from '../src/audio/sampleSlot';
 
 const clamp = (x: number, a: number, b: number) => Math.max(a, Math.min(b, x));
 const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
@@ -19,6 +40,14 @@ const makeSaturationCurve = (amount: number, samples = 1024) => {
   }
   return curve;
 };
+// Stolen voices ramp to silence over this long instead of clicking off.
+const STEAL_FADE_SECONDS = 0.02;
+// Granular sample voices: how far the grains may shift pitch and how long each grain is.
+const GRAIN_SHIFT_RANGE: [number, number] = [0.25, 4];
+const SAMPLE_GRAIN_SECONDS = 0.05;
+// A new reverb impulse fades in over this long; a warping room renders one at most this often.
+const REVERB_CROSSFADE_SECONDS = 0.4;
+const REVERB_REBUILD_MS = 500;
 const WET_BOOST = 5;
 const applyWetBoost = (raw: number) => {
   const v = clamp(raw, 0, 1);
@@ -34,13 +63,16 @@ const GRANULAR_WORKLET_CODE = `
 class GranularStretchProcessor extends AudioWorkletProcessor {
   static get parameterDescriptors() {
     return [
-      { name: 'stretch', defaultValue: 1.0, minValue: 0.5, maxValue: 2.5 },
+      { name: 'stretch', defaultValue: 1.0, minValue: 0.25, maxValue: 4.0 },
       { name: 'mix', defaultValue: 0.0, minValue: 0.0, maxValue: 1.0 },
       { name: 'grainSize', defaultValue: 0.08, minValue: 0.02, maxValue: 0.2 },
     ];
   }
-  constructor() {
+  constructor(options) {
     super();
+    // A one-shot node (a granular sample voice) lets itself go once its input has been gone a buffer long.
+    this.oneShot = Boolean(options && options.processorOptions && options.processorOptions.oneShot);
+    this.idle = 0;
     this.bufferSize = Math.floor(sampleRate * 1.2);
     this.buffer = new Float32Array(this.bufferSize);
     this.writeIndex = 0;
@@ -49,7 +81,9 @@ class GranularStretchProcessor extends AudioWorkletProcessor {
     this.lastGrainSize = Math.max(16, Math.floor(sampleRate * 0.08));
   }
   _spawnGrain(stretch, grainSamples) {
-    const delaySamples = Math.max(grainSamples + 32, Math.floor(sampleRate * 0.05));
+    const rate = 1 / Math.max(0.25, Math.min(4, stretch));
+    // Grains reading faster than real time start further back so they never pass the write head.
+    const delaySamples = Math.max(Math.ceil(grainSamples * Math.max(1, rate)) + 32, Math.floor(sampleRate * 0.05));
     let start = this.writeIndex - delaySamples;
     if (start < 0) start += this.bufferSize;
     if (this.grains.length >= 4) this.grains.shift();
@@ -57,7 +91,7 @@ class GranularStretchProcessor extends AudioWorkletProcessor {
       pos: start,
       age: 0,
       len: grainSamples,
-      rate: 1 / Math.max(0.5, Math.min(2.5, stretch)),
+      rate,
     });
   }
   _readSample(pos) {
@@ -119,12 +153,53 @@ class GranularStretchProcessor extends AudioWorkletProcessor {
       this.writeIndex++;
       if (this.writeIndex >= this.bufferSize) this.writeIndex = 0;
     }
-    return true;
+    if (!this.oneShot) return true;
+    this.idle = inCh ? 0 : this.idle + outCh.length;
+    return this.idle < this.bufferSize;
   }
 }
 registerProcessor('granular-stretch', GranularStretchProcessor);
 `;
 
+// Copies the post-limiter master into ~4096-frame stereo blocks for the take recorder.
+const MASTER_TAP_WORKLET_CODE = `
+class MasterTapProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.size = 4096;
+    this.fill = 0;
+    this.left = new Float32Array(this.size);
+    this.right = new Float32Array(this.size);
+    this.port.onmessage = (e) => {
+      if (e.data === 'flush') this.flush();
+    };
+  }
+
+  flush() {
+    if (!this.fill) return;
+    const left = this.left.slice(0, this.fill);
+    const right = this.right.slice(0, this.fill);
+    this.port.postMessage([left, right], [left.buffer, right.buffer]);
+    this.fill = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || !input.length) return true;
+    const l = input[0];
+    const r = input[1] || input[0];
+    for (let i = 0; i < l.length; i++) {
+      this.left[this.fill] = l[i];
+      this.right[this.fill] = r[i];
+      this.fill++;
+      if (this.fill >= this.size) this.flush();
+    }
+    return true;
+  }
+}
+registerProcessor('master-tap', MasterTapProcessor);
+`;
+
 type MasterLofi = {
   setEnabled: (enabled: boolean) => void;
   setParams: (params: LofiParams) => void;
@@ -132,7 +207,7 @@ type MasterLofi = {
 };
 
 const createMasterLofi = (
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   masterPreFXGain: GainNode,
   masterPostFXGain: GainNode
 ): MasterLofi | null => {
@@ -283,18 +358,26 @@ const createMasterLofi = (
 };
 
 class AudioEngine {
-  private ctx: AudioContext | null = null;
+  private ctx: BaseAudioContext | null = null;
+  // Same context as ctx when realtime; null while rendering into an OfflineAudioContext.
+  private liveCtx: AudioContext | null = null;
   private masterGain: GainNode | null = null;
   private masterPreFXGain: GainNode | null = null;
   private masterPostFXGain: GainNode | null = null;
   private masterLofi: MasterLofi | null = null;
+  private fxRack: FxRack | null = null;
+  private fxRackSettings: FxRackSettings = defaultFxRackSettings();
+  private auxReturns: Record<AuxFxBusId, AuxReturnBus> | null = null;
+  private auxSettings: AuxSettings = defaultAuxSettings();
   private lofiParams: LofiParams = { drive: 0, tape: 0, crush: 0 };
   private lofiEnabled: boolean = false;
   private lofiWorkletLoaded: boolean = false;
   private lofiWorkletLoading: Promise<void> | null = null;
   private compressorNode: DynamicsCompressorNode | null = null;
   private makeupGain: GainNode | null = null;
-  private limiterNode: DynamicsCompressorNode | null = null;
+  private multiband: Multiband | null = null;
+  private multibandSettings: MultibandSettings = defaultMultibandSettings();
+  private limiter: MasterLimiter | null = null;
   private mainAnalyser: AnalyserNode | null = null;
   private peakAnalyser: AnalyserNode | null = null;
   private stereoSplitter: ChannelSplitterNode | null = null;
@@ -308,6 +391,9 @@ class AudioEngine {
   private micLimiter: DynamicsCompressorNode | null = null;
   private micMeter: AnalyserNode | null = null;
   private micRecordDest: MediaStreamAudioDestinationNode | null = null;
+  private masterRecordDest: MediaStreamAudioDestinationNode | null = null;
+  private masterTapLoaded: boolean = false;
+  private noteListener: ((note: CollisionNote) => void) | null = null;
   private micStream: MediaStream | null = null;
   private micSource: MediaStreamAudioSourceNode | null = null;
   private micEnsureInFlight: Promise<void> | null = null;
@@ -315,8 +401,20 @@ class AudioEngine {
   private desiredMasterGain: number = 0.7;
   private lastAudioSettings: AudioSettings | null = null;
   
-  private reverbNode: ConvolverNode | null = null;
+  // Reverb send: feeds two convolvers so a new impulse can crossfade in while the old one rings out.
+  private reverbNode: GainNode | null = null;
   private reverbGain: GainNode | null = null;
+  private reverbSlots: { convolver: ConvolverNode; level: GainNode }[] = [];
+  private reverbActive = 0;
+  private reverbSettings: ReverbSettings = defaultReverbSettings();
+  private roomShape: RoomShape = restingRoomShape();
+  private impulseSettings: ImpulseSettings = defaultImpulseSettings();
+  // The decoded user IR and the library sample it came from; used only while the settings name that sample.
+  private userImpulse: { sampleId: string; buffer: AudioBuffer } | null = null;
+  private bundledImpulses = new Map<string, StereoImpulse>();
+  private reverbKey = '';
+  private reverbBuiltAt = -Infinity;
+  private reverbTimer: ReturnType<typeof setTimeout> | null = null;
   private dryGain: GainNode | null = null;
 
   // Ping Pong Delay Nodes
@@ -340,18 +438,29 @@ class AudioEngine {
   private soundType: SoundType = SoundType.SYNTH;
 
   // Sample banks
-  private micBank: (AudioBuffer | null)[] = new Array(6).fill(null);
-  private sampleBank: (AudioBuffer | null)[] = new Array(6).fill(null);
+  // Always MAX_BANK_SLOTS long; bankSettings decides how many of them are in play.
+  private micBank: (AudioBuffer | null)[] = new Array(MAX_BANK_SLOTS).fill(null);
+  private sampleBank: (AudioBuffer | null)[] = new Array(MAX_BANK_SLOTS).fill(null);
+  // Editor state per loaded slot (region, root, ADSR, slices); null = defaults for the buffer.
+  private slotSettings: Record<SampleBankId, (SampleSlotSettings | null)[]> = {
+    mic: new Array(MAX_BANK_SLOTS).fill(null),
+    smp: new Array(MAX_BANK_SLOTS).fill(null),
+  };
+  private bankSettings: BankSettings = defaultBankSettings();
+  private bankListeners = new Set<() => void>();
+  private bankRevision = 0;
   private micInsertIndex = 0;
   private synthEnabled = true;
   private playPool: SourceChoice[] = [];
   private playCursor = 0;
 
   // Polyphony Management
-  private activeVoices: number = 0;
-  private readonly MAX_VOICES: number = 40; 
+  private voices = createVoiceAllocator(DEFAULT_MAX_VOICES);
 
   private lastMidi: number | null = null;
+  // Note/source choices draw from here; the IR noise and LO-FI jitter stay on Math.random (texture, not events).
+  private random: RandomSource = Math.random;
+  private randomSeed: number | null = null;
   private dronePool: number[] | null = null;
   private droneScaleId: string | null = null;
   private droneTriggerCount: number = 0;
@@ -360,6 +469,34 @@ class AudioEngine {
   private lastUserGestureAt: number = 0;
   private shouldPlay: boolean = false;
   private lastMusicSettings: MusicSettings | null = null;
+  private tempoSettings: TempoSettings | null = null; // bpm already resolved (internal or MIDI clock)
+  private synthSettings: SynthSettings = { engine: DEFAULT_VOICE_ENGINE, params: {} };
+  private timbreSettings: TimbreSettings = { enabled: false, routes: [] };
+  private harmonySettings: HarmonySettings = {
+    enabled: false,
+    voicing: 'thirds',
+    voices: 3,
+    spread: 0.3,
+    byCollision: false,
+    rules: { wall: 'fifths', bubble: 'thirds', void: 'quartal' },
+  };
+  private melodySettings: MelodySettings = {
+    enabled: false,
+    stepWeight: 0.6,
+    contour: 'arch',
+    contourAmount: 0.5,
+    resolution: 0.6,
+    phraseLength: 8,
+    markov: false,
+    markovTable: emptyMarkovTable(),
+  };
+  private phraseStep = 0; // notes played in the current melodic phrase
+  private grooveSettings: GrooveSettings = { enabled: false, division: '1/16', swing: 0, humanize: 0.2, maxLatencyMs: 150 };
+  private roleSettings: RoleSettings = { enabled: false, roles: defaultRoleVoices() };
+  private progressionSettings: ProgressionSettings = { enabled: false, steps: [], advance: 'bars', every: 2 };
+  private progression = createProgressionClock();
+  private progressionListeners = new Set<() => void>();
+  private progressionTimer: ReturnType<typeof setTimeout> | null = null;
   private backgroundDrone: {
     oscillators: OscillatorNode[];
     gains: GainNode[];
@@ -372,10 +509,92 @@ class AudioEngine {
   public async init(): Promise<void> {
     if (this.ctx) return;
 
-    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)({
+    const ctx: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
       latencyHint: 'interactive',
     });
-    
+    this.ctx = ctx;
+    this.liveCtx = ctx;
+    await this.buildGraph();
+
+    this.installLifecycle();
+    this.installGestureUnlock();
+
+    if (this.lastAudioSettings) this.updateSettings(this.lastAudioSettings);
+    this.scheduleProgressionTick();
+    try { await ctx.resume(); } catch { /* ignore */ }
+  }
+
+  /**
+   * Build the same master graph inside an OfflineAudioContext for bounces.
+   * No lifecycle, gesture unlock or mic capture: the caller drives rendering.
+   */
+  public async initOffline(ctx: OfflineAudioContext): Promise<void> {
+    if (this.ctx) return;
+    this.ctx = ctx;
+    await this.buildGraph();
+    if (this.lastAudioSettings) this.updateSettings(this.lastAudioSettings);
+  }
+
+  /** Fresh engine carrying this one's banks and settings (not its graph), for an offline bounce. */
+  public forkForOffline(): AudioEngine {
+    const fork = new AudioEngine();
+    fork.micBank = [...this.micBank];
+    fork.sampleBank = [...this.sampleBank];
+    fork.slotSettings = { mic: [...this.slotSettings.mic], smp: [...this.slotSettings.smp] };
+    fork.bankSettings = this.bankSettings;
+    fork.reverbSettings = this.reverbSettings;
+    fork.roomShape = this.roomShape;
+    fork.impulseSettings = this.impulseSettings;
+    fork.userImpulse = this.userImpulse;
+    fork.customBuffer = this.customBuffer;
+    fork.soundType = this.soundType;
+    fork.synthEnabled = this.synthEnabled;
+    fork.desiredMasterGain = this.desiredMasterGain;
+    fork.lastAudioSettings = this.lastAudioSettings ? { ...this.lastAudioSettings } : null;
+    fork.lastMusicSettings = this.lastMusicSettings ? { ...this.lastMusicSettings } : null;
+    fork.tempoSettings = this.tempoSettings ? { ...this.tempoSettings } : null;
+    fork.synthSettings = this.synthSettings;
+    fork.timbreSettings = this.timbreSettings;
+    fork.harmonySettings = this.harmonySettings;
+    fork.melodySettings = this.melodySettings;
+    fork.grooveSettings = this.grooveSettings;
+    fork.roleSettings = this.roleSettings;
+    // A bounce starts on the step the room is playing, with a fresh bar count.
+    fork.progressionSettings = this.progressionSettings;
+    fork.progression.configure(this.progressionSettings);
+    fork.progression.jumpTo(this.progression.position().index);
+    fork.lofiParams = { ...this.lofiParams };
+    fork.lofiEnabled = this.lofiEnabled;
+    fork.fxRackSettings = this.fxRackSettings;
+    fork.auxSettings = this.auxSettings;
+    fork.multibandSettings = this.multibandSettings;
+    fork.spatialControl = { ...this.spatialControl };
+    fork.setRandomSeed(this.randomSeed);
+    return fork;
+  }
+
+  /** Release an offline engine once its render is done (stops the LO-FI jitter timer). */
+  public dispose() {
+    if (this.progressionTimer !== null) clearTimeout(this.progressionTimer);
+    this.progressionTimer = null;
+    this.masterLofi?.dispose();
+    this.masterLofi = null;
+    this.fxRack?.dispose();
+    this.fxRack = null;
+    if (this.auxReturns) AUX_FX_BUSES.forEach((bus) => this.auxReturns?.[bus].dispose());
+    this.auxReturns = null;
+    this.multiband?.dispose();
+    this.multiband = null;
+    this.limiter?.dispose();
+    this.limiter = null;
+    this.ctx = null;
+    this.liveCtx = null;
+  }
+
+  private async buildGraph(): Promise<void> {
+    if (!this.ctx) return;
+    this.voices.clear();
+
     // Analysers
     this.mainAnalyser = this.ctx.createAnalyser();
     this.mainAnalyser.fftSize = 256;
@@ -405,14 +624,6 @@ class AudioEngine {
     this.makeupGain = this.ctx.createGain();
     this.makeupGain.gain.value = 1;
 
-    // LIMITER (True peak safety)
-    this.limiterNode = this.ctx.createDynamicsCompressor();
-    this.limiterNode.threshold.value = -1.0;
-    this.limiterNode.knee.value = 10;
-    this.limiterNode.ratio.value = 20;
-    this.limiterNode.attack.value = 0.002;
-    this.limiterNode.release.value = 0.2;
-
     // Master Gain - Boosted significantly
     this.masterGain = this.ctx.createGain();
     this.masterGain.gain.value = this.desiredMasterGain; 
@@ -434,7 +645,7 @@ class AudioEngine {
     this.micLimiter.attack.value = 0.002;
     this.micLimiter.release.value = 0.2;
 
-    this.micRecordDest = this.ctx.createMediaStreamDestination();
+    this.micRecordDest = this.liveCtx ? this.liveCtx.createMediaStreamDestination() : null;
     const micSilent = this.ctx.createGain();
     micSilent.gain.value = 0;
     if (this.micMeter) {
@@ -461,16 +672,28 @@ class AudioEngine {
     this.highEQ.frequency.value = 4000;
 
     // Reverb
-    this.reverbNode = this.ctx.createConvolver();
-    this.createImpulseResponse();
+    this.reverbNode = this.ctx.createGain();
     this.reverbGain = this.ctx.createGain();
+    this.reverbSlots = [0, 1].map((slot) => {
+      const convolver = this.ctx!.createConvolver();
+      const level = this.ctx!.createGain();
+      // Impulses arrive levelled (normalizeImpulse), so trims and reverses can change the level on purpose.
+      convolver.normalize = false;
+      level.gain.value = slot === 0 ? 1 : 0;
+      this.reverbNode!.connect(convolver);
+      convolver.connect(level).connect(this.reverbGain!);
+      return { convolver, level };
+    });
+    this.reverbActive = 0;
+    this.reverbKey = '';
+    this.createImpulseResponse();
     this.dryGain = this.ctx.createGain();
 
     // --- PING PONG DELAY SETUP ---
     this.pingPongInput = this.ctx.createGain();
     this.pingPongInput.gain.value = 1;
-    this.delayL = this.ctx.createDelay();
-    this.delayR = this.ctx.createDelay();
+    this.delayL = this.ctx.createDelay(MAX_SYNC_DELAY_SECONDS);
+    this.delayR = this.ctx.createDelay(MAX_SYNC_DELAY_SECONDS);
     this.feedbackL = this.ctx.createGain();
     this.feedbackR = this.ctx.createGain();
     this.pingPongMerger = this.ctx.createChannelMerger(2);
@@ -484,6 +707,8 @@ class AudioEngine {
 
     await this.ensureGranularNode();
     await this.ensureLofiWorklet();
+    // LIMITER (True peak safety)
+    this.limiter = await createMasterLimiter(this.ctx);
     this.pingPongInput.connect(this.delayL);
     if (this.granularNode) {
       this.granularGain = this.ctx.createGain();
@@ -503,16 +728,18 @@ class AudioEngine {
     this.masterPostFXGain.gain.value = 1;
 
     // --- MAIN ROUTING ---
-    this.reverbNode.connect(this.reverbGain);
-
     this.pingPongMerger.connect(this.pingPongReturn);
 
     // masterPreFXGain is the master sum before LOFI
     this.reverbGain.connect(this.masterPreFXGain);
     this.dryGain.connect(this.masterPreFXGain);
     this.pingPongReturn.connect(this.masterPreFXGain);
+    const fxA = createAuxReturn(this.ctx, this.masterPreFXGain);
+    const fxB = createAuxReturn(this.ctx, this.masterPreFXGain);
+    this.auxReturns = { fxA, fxB };
+    AUX_FX_BUSES.forEach((bus) => this.auxReturns?.[bus].setReturn(this.auxSettings.returns[bus]));
 
-    // masterPreFX -> LOFI -> masterPostFX -> EQ -> compressor -> limiter -> analysers -> destination
+    // masterPreFX -> LOFI -> masterPostFX -> inserts -> EQ -> multiband -> compressor -> limiter -> analysers -> destination
     if (this.masterPreFXGain && this.masterPostFXGain) {
       this.masterLofi = createMasterLofi(this.ctx, this.masterPreFXGain, this.masterPostFXGain);
       if (!this.masterLofi) {
@@ -520,37 +747,38 @@ class AudioEngine {
       }
     }
     if (this.masterPostFXGain) {
-      this.masterPostFXGain.connect(this.lowEQ);
+      this.fxRack = createFxRack(this.ctx, this.masterPostFXGain, this.lowEQ);
+      this.fxRack.setSlots(this.fxRackSettings.slots);
     }
 
     this.lowEQ.connect(this.midEQ);
     this.midEQ.connect(this.highEQ);
-    this.highEQ.connect(this.compressorNode);
+    this.multiband = createMultiband(this.ctx, this.highEQ, this.compressorNode);
+    this.multiband.setSettings(this.multibandSettings);
 
     this.compressorNode.connect(this.makeupGain);
-    this.makeupGain.connect(this.limiterNode);
+    this.makeupGain.connect(this.limiter.input);
     // tap peak before limiter
     if (this.peakAnalyser) this.makeupGain.connect(this.peakAnalyser);
-    this.limiterNode.connect(this.mainAnalyser);
+    this.limiter.output.connect(this.mainAnalyser);
     if (this.stereoSplitter && this.stereoAnalyserL && this.stereoAnalyserR) {
-      this.limiterNode.connect(this.stereoSplitter);
+      this.limiter.output.connect(this.stereoSplitter);
       this.stereoSplitter.connect(this.stereoAnalyserL, 0);
       this.stereoSplitter.connect(this.stereoAnalyserR, 1);
     }
 
     this.mainAnalyser.connect(this.masterGain);
     this.masterGain.connect(this.ctx.destination);
+    // Take recorder taps where mainAnalyser does: post-limiter, before the output fader.
+    if (this.liveCtx) {
+      this.masterRecordDest = this.liveCtx.createMediaStreamDestination();
+      this.limiter.output.connect(this.masterRecordDest);
+    }
 
     if (this.masterLofi) {
       this.masterLofi.setParams(this.lofiParams);
       this.masterLofi.setEnabled(this.lofiEnabled);
     }
-
-    this.installLifecycle();
-    this.installGestureUnlock();
-
-    if (this.lastAudioSettings) this.updateSettings(this.lastAudioSettings);
-    try { await this.ctx.resume(); } catch { /* ignore */ }
   }
 
   private static extractPeakDb(analyser: AnalyserNode | null): number {
@@ -599,6 +827,12 @@ class AudioEngine {
     return { left: left.level, right: right.level };
   }
 
+  /** dB of gain reduction in each multiband band and in the limiter, for the Mixer's GR meters. */
+  public getDynamicsReduction(): Record<MultibandBandId | 'limiter', number> {
+    const bands = this.multiband?.getReduction() ?? { low: 0, mid: 0, high: 0 };
+    return { ...bands, limiter: this.limiter?.getReduction() ?? 0 };
+  }
+
   public getStereoWaveform(): { left: Float32Array; right: Float32Array } | null {
     if (!this.stereoAnalyserL || !this.stereoAnalyserR) return null;
     const size = this.stereoAnalyserL.fftSize;
@@ -615,22 +849,23 @@ class AudioEngine {
 
   public async resume(): Promise<void> {
     if (!this.ctx) await this.init();
-    if (!this.ctx) return;
+    const ctx = this.liveCtx;
+    if (!ctx) return;
 
     this.shouldPlay = true;
-    if (this.ctx.state !== 'running') {
-      try { await this.ctx.resume(); } catch { /* ignore */ }
+    if (ctx.state !== 'running') {
+      try { await ctx.resume(); } catch { /* ignore */ }
     }
 
     await this.iosSilentTick();
 
-    if (document.hidden && this.ctx.state === 'running') {
+    if (document.hidden && ctx.state === 'running') {
       this.startBackgroundDrone();
     }
   }
 
   public async suspend(): Promise<void> {
-    if (!this.ctx) return;
+    if (!this.liveCtx) return;
     this.shouldPlay = false;
     this.stopBackgroundDrone();
     // Keep the context alive for mic metering if a mic stream is attached.
@@ -640,7 +875,7 @@ class AudioEngine {
       console.error('Mic access API unavailable in this browser.');
       return;
     }
-    try { await this.ctx.suspend(); } catch { /* ignore */ }
+    try { await this.liveCtx.suspend(); } catch { /* ignore */ }
   }
 
   public async primeFromGesture(): Promise<void> {
@@ -754,10 +989,9 @@ class AudioEngine {
     } catch { /* ignore */ }
   }
 
-  private startBackgroundDrone() {
-    if (!this.ctx || !this.dryGain || !this.reverbNode || this.backgroundDrone) return;
-
-    const music = this.lastMusicSettings ?? {
+  /** Frequencies the keep-alive drone holds for the played root and scale, lowest first. */
+  private backgroundDroneFrequencies(): number[] {
+    const music = this.playedMusicSettings() ?? {
       root: 0,
       scaleId: getScaleById().id,
       scaleIndex: 0,
@@ -767,19 +1001,30 @@ class AudioEngine {
       noThirds: false,
     };
 
-    const scale = getScaleById(music.scaleId);
-    let intervals = scale.intervals.slice();
+    const scale = resolveScale(music);
+    // Semitones above the root; fractional for tuned scales.
+    const degrees = scale.tuning ? scale.tuning.cents.map((cents) => cents / 100) : scale.intervals.slice();
+    const pitchClass = (i: number) => ((Math.round(i) % 12) + 12) % 12;
+    let intervals = degrees;
     if (music.noThirds || scale.tags?.includes('no3rd')) {
-      intervals = intervals.filter((i) => i !== 3 && i !== 4);
+      intervals = intervals.filter((i) => pitchClass(i) !== 3 && pitchClass(i) !== 4);
     }
     if (music.avoidLeadingTone || scale.avoid?.leadingTone) {
-      intervals = intervals.filter((i) => i !== 11);
+      intervals = intervals.filter((i) => pitchClass(i) !== 11);
     }
-    if (intervals.length === 0) intervals = scale.intervals.length ? scale.intervals : [0];
+    if (intervals.length === 0) intervals = degrees.length ? degrees : [0];
 
     const droneIntervals = this.buildDronePool(intervals).slice(0, 3);
     const rootPc = ((music.root % 12) + 12) % 12;
     const baseRootMidi = 48 + rootPc;
+    return droneIntervals.map((interval) =>
+      midiToFreq(interval === 0 ? baseRootMidi - 12 : baseRootMidi + interval, scale.tuning?.reference)
+    );
+  }
+
+  private startBackgroundDrone() {
+    if (!this.ctx || !this.dryGain || !this.reverbNode || this.backgroundDrone) return;
+    const frequencies = this.backgroundDroneFrequencies();
 
     // When running in background, keep the AudioContext alive but stay effectively silent.
     const masterGain = this.ctx.createGain();
@@ -797,12 +1042,11 @@ class AudioEngine {
     const oscillators: OscillatorNode[] = [];
     const gains: GainNode[] = [];
 
-    droneIntervals.forEach((interval, index) => {
+    frequencies.forEach((frequency, index) => {
       const osc = this.ctx!.createOscillator();
       osc.type = 'sine';
-      const midi = interval === 0 ? baseRootMidi - 12 : baseRootMidi + interval;
-      osc.frequency.value = midiToFreq(midi);
-      osc.detune.value = (Math.random() - 0.5) * 6;
+      osc.frequency.value = frequency;
+      osc.detune.value = (this.random() - 0.5) * 6;
 
       const gain = this.ctx!.createGain();
       gain.gain.value = index === 0 ? 0.35 : 0.2;
@@ -821,6 +1065,16 @@ class AudioEngine {
     };
   }
 
+  /** Glide the running drone to the played root and scale; a smaller pool doubles its notes. */
+  private retuneBackgroundDrone() {
+    if (!this.backgroundDrone || !this.ctx) return;
+    const frequencies = this.backgroundDroneFrequencies();
+    const now = this.ctx.currentTime;
+    this.backgroundDrone.oscillators.forEach((osc, index) => {
+      osc.frequency.setTargetAtTime(frequencies[index % frequencies.length], now, 0.3);
+    });
+  }
+
   private stopBackgroundDrone() {
     if (!this.backgroundDrone || !this.ctx) return;
     const now = this.ctx.currentTime;
@@ -848,21 +1102,135 @@ class AudioEngine {
     this.backgroundDrone = null;
   }
 
+  /**
+   * The unedited IR the settings pick, with a key that changes whenever it would; render
+   * levels it only when called. A user IR that is not loaded (yet, or any more) falls back to the room.
+   */
+  private rawImpulse(rate: number): { key: string; sampleRate: number; render: () => StereoImpulse } {
+    const { source, sampleId } = this.impulseSettings;
+    const user = this.userImpulse;
+    if (source === 'user' && user && user.sampleId === sampleId) {
+      const { buffer } = user;
+      const left = buffer.getChannelData(0);
+      const right = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : left;
+      return {
+        key: `user:${sampleId}:${buffer.length}`,
+        sampleRate: buffer.sampleRate,
+        render: () => normalizeImpulse({ left, right }, buffer.sampleRate),
+      };
+    }
+    if (source !== 'room' && source !== 'user') {
+      const cacheKey = `${source}@${rate}`;
+      return {
+        key: `bundled:${source}`,
+        sampleRate: rate,
+        render: () => {
+          let ir = this.bundledImpulses.get(cacheKey);
+          if (!ir) {
+            ir = normalizeImpulse(renderBundledImpulse(source, rate), rate);
+            this.bundledImpulses.set(cacheKey, ir);
+          }
+          return ir;
+        },
+      };
+    }
+    const shape = this.reverbSettings.followRoom ? this.roomShape : restingRoomShape();
+    const acoustics = roomAcoustics(shape, this.reverbSettings.size);
+    // The tail's noise has its own stream, started over for every render: the same acoustics
+    // and seed always give the same IR, and an unseeded engine still renders one fixed tail.
+    const seed = this.randomSeed ?? 0;
+    return {
+      key: `room:${seed}:${acousticsKey(acoustics, this.reverbSettings)}`,
+      sampleRate: rate,
+      render: () => normalizeImpulse(renderImpulseResponse(acoustics, this.reverbSettings, rate, createRandomStream(seed, 'reverb')), rate),
+    };
+  }
+
+  /**
+   * Render the impulse for the current source and edits into the idle convolver and
+   * crossfade to it. Skipped when nothing audible changed; the first build sets the buffer directly.
+   */
   private createImpulseResponse() {
-    if (!this.ctx || !this.reverbNode) return;
+    if (!this.ctx || this.reverbSlots.length < 2) return;
     const rate = this.ctx.sampleRate;
-    const length = rate * 4.0; 
-    const decay = 4.0;
-    const impulse = this.ctx.createBuffer(2, length, rate);
-    const left = impulse.getChannelData(0);
-    const right = impulse.getChannelData(1);
+    const raw = this.rawImpulse(rate);
+    const key = `${raw.key}#${impulseKey(this.impulseSettings)}`;
+    if (key === this.reverbKey) return;
+    const { left, right } = processImpulse(raw.render(), this.impulseSettings, raw.sampleRate, rate);
+    const impulse = this.ctx.createBuffer(2, left.length, rate);
+    impulse.getChannelData(0).set(left);
+    impulse.getChannelData(1).set(right);
+
+    const first = this.reverbKey === '';
+    this.reverbKey = key;
+    this.reverbBuiltAt = Date.now();
+    if (first) {
+      this.reverbSlots[this.reverbActive].convolver.buffer = impulse;
+      return;
+    }
+    const from = this.reverbSlots[this.reverbActive];
+    this.reverbActive = 1 - this.reverbActive;
+    const to = this.reverbSlots[this.reverbActive];
+    to.convolver.buffer = impulse;
+    const now = this.ctx.currentTime;
+    from.level.gain.setTargetAtTime(0, now, REVERB_CROSSFADE_SECONDS / 3);
+    to.level.gain.setTargetAtTime(1, now, REVERB_CROSSFADE_SECONDS / 3);
+  }
 
-    for (let i = 0; i < length; i++) {
-        const n = i / length;
-        left[i] = (Math.random() * 2 - 1) * Math.pow(1 - n, decay);
-        right[i] = (Math.random() * 2 - 1) * Math.pow(1 - n, decay);
+  /** Rebuild the impulse soon, at most once per REVERB_REBUILD_MS, so a warping room does not render every frame. */
+  private scheduleReverbRebuild() {
+    if (!this.ctx || this.reverbTimer !== null) return;
+    const wait = this.reverbBuiltAt + REVERB_REBUILD_MS - Date.now();
+    if (wait <= 0) {
+      this.createImpulseResponse();
+      return;
     }
-    this.reverbNode.buffer = impulse;
+    this.reverbTimer = setTimeout(() => {
+      this.reverbTimer = null;
+      this.createImpulseResponse();
+    }, wait);
+  }
+
+  /** Size, pre-delay, damping, diffusion, early reflections, and whether the drawn room shapes them. */
+  public setReverbSettings(settings: ReverbSettings) {
+    this.reverbSettings = settings;
+    this.scheduleReverbRebuild();
+  }
+
+  /** The Visualizer's room box in metres (see roomShapeFromBox); the reverb follows it while followRoom is on. */
+  public setRoomShape(shape: RoomShape) {
+    this.roomShape = shape;
+    if (this.reverbSettings.followRoom) this.scheduleReverbRebuild();
+  }
+
+  /** Master insert slots in signal order; slots keep their nodes by id, so reorders and tweaks do not rebuild them. */
+  public setFxRackSettings(settings: FxRackSettings) {
+    this.fxRackSettings = settings;
+    this.fxRack?.setSlots(settings.slots);
+  }
+
+  /** Three-band compression ahead of the master compressor; off passes the EQ straight through. */
+  public setMultibandSettings(settings: MultibandSettings) {
+    this.multibandSettings = settings;
+    this.multiband?.setSettings(settings);
+  }
+
+  /** Per-voice send curves for the aux buses and the effects on the two FX returns. */
+  public setAuxSettings(settings: AuxSettings) {
+    this.auxSettings = settings;
+    if (this.auxReturns) AUX_FX_BUSES.forEach((bus) => this.auxReturns?.[bus].setReturn(settings.returns[bus]));
+  }
+
+  /** Which IR the convolver plays and how it is trimmed, reversed, stretched and levelled. */
+  public setImpulseSettings(settings: ImpulseSettings) {
+    this.impulseSettings = settings;
+    this.scheduleReverbRebuild();
+  }
+
+  /** A decoded user IR from the library; it plays while the impulse settings name the same sample. */
+  public setUserImpulse(sampleId: string, buffer: AudioBuffer) {
+    this.userImpulse = { sampleId, buffer };
+    this.scheduleReverbRebuild();
   }
 
   private buildDronePool(intervals: number[]): number[] {
@@ -873,13 +1241,13 @@ class AudioEngine {
     if (unique.includes(0)) pool.push(0);
     else pool.push(unique[0]);
 
-    const maxNotes = 1 + Math.floor(Math.random() * 3);
+    const maxNotes = 1 + Math.floor(this.random() * 3);
     const remaining = unique.filter((i) => i !== pool[0]);
-    const preferred = remaining.filter((i) => i === 5 || i === 7 || i === 2 || i === 9 || i === 10);
+    const preferred = remaining.filter((i) => [2, 5, 7, 9, 10].includes(Math.round(i)));
 
     while (pool.length < maxNotes && (preferred.length || remaining.length)) {
       const source = preferred.length ? preferred : remaining;
-      const index = Math.floor(Math.random() * source.length);
+      const index = Math.floor(this.random() * source.length);
       const picked = source.splice(index, 1)[0];
       pool.push(picked);
       const remainingIndex = remaining.indexOf(picked);
@@ -930,9 +1298,9 @@ class AudioEngine {
         this.makeupGain.gain.setTargetAtTime(clamp(lin, 0.1, 8), this.ctx.currentTime, 0.05);
     }
 
-    if (this.limiterNode) {
-        const limThr = Number.isFinite(settings.limiterThreshold ?? NaN) ? settings.limiterThreshold! : -1;
-        this.limiterNode.threshold.setTargetAtTime(limThr, this.ctx.currentTime, 0.02);
+    if (this.limiter) {
+        const limThr = Number.isFinite(settings.limiterThreshold ?? NaN) ? settings.limiterThreshold! : DEFAULT_LIMITER_CEILING;
+        this.limiter.setCeiling(clamp(limThr, LIMITER_CEILING_RANGE[0], LIMITER_CEILING_RANGE[1]));
     }
 
     if (this.lowEQ) this.lowEQ.gain.setTargetAtTime(settings.low || 0, this.ctx.currentTime, 0.1);
@@ -976,14 +1344,20 @@ class AudioEngine {
 
   private updatePingPongDelayTimes(baseFrequency?: number) {
     if (!this.ctx || !this.delayL || !this.delayR) return;
+    const tempo = this.tempoSettings;
+    if (tempo?.delaySync) {
+      this.applyDelayTimes(divisionSeconds(tempo.delayLeft, tempo.bpm), divisionSeconds(tempo.delayRight, tempo.bpm));
+      return;
+    }
     const baseFreq = (Number.isFinite(baseFrequency) && (baseFrequency ?? 0) > 0)
       ? baseFrequency!
       : (Number.isFinite(this.lastAudioSettings?.baseFrequency) ? this.lastAudioSettings!.baseFrequency : 220);
-    const music = this.lastMusicSettings;
+    const music = this.playedMusicSettings();
     const rootPc = Number.isFinite(music?.root) ? music!.root : 0;
-    const rootMidi = snapMidiToPitchClass(freqToMidi(baseFreq), rootPc);
-    const rootFreq = midiToFreq(rootMidi);
-    const scale = getScaleById(music?.scaleId);
+    const scale = resolveScale(music);
+    const reference = scale.tuning?.reference;
+    const rootMidi = snapMidiToPitchClass(freqToMidi(baseFreq, reference), rootPc);
+    const rootFreq = midiToFreq(rootMidi, reference);
     const intervals = scale.intervals.length ? scale.intervals : [0];
     let secondary = intervals.includes(7) ? 7 : intervals[Math.min(3, intervals.length - 1)] ?? 0;
     if (secondary === 0 && intervals.length > 1) secondary = intervals[1];
@@ -1011,7 +1385,11 @@ class AudioEngine {
     }
     left = clamp(left, 0.22, 0.85);
     right = clamp(right, 0.22, 0.85);
+    this.applyDelayTimes(left, right);
+  }
 
+  private applyDelayTimes(left: number, right: number) {
+    if (!this.ctx || !this.delayL || !this.delayR) return;
     const last = this.lastDelayTimes;
     const eps = 0.002;
     const timeConst = 0.25;
@@ -1028,16 +1406,16 @@ class AudioEngine {
 
   private getLoadedLabels(): string[] {
     const labels: string[] = [];
-    this.micBank.forEach((buf, idx) => { if (buf) labels.push(`M0${idx + 1}`); });
-    this.sampleBank.forEach((buf, idx) => { if (buf) labels.push(`S0${idx + 1}`); });
+    this.activeSlots('mic').forEach((buf, idx) => { if (buf) labels.push(`M${String(idx + 1).padStart(2, '0')}`); });
+    this.activeSlots('smp').forEach((buf, idx) => { if (buf) labels.push(`S${String(idx + 1).padStart(2, '0')}`); });
     if (this.synthEnabled) labels.push('SNT');
     return labels;
   }
 
   public getBankSnapshot() {
     return {
-      mic: this.micBank.map((b) => Boolean(b)),
-      smp: this.sampleBank.map((b) => Boolean(b)),
+      mic: this.activeSlots('mic').map((b) => Boolean(b)),
+      smp: this.activeSlots('smp').map((b) => Boolean(b)),
       loadedLabels: this.getLoadedLabels(),
       synthEnabled: this.synthEnabled,
       activePoolSize: this.playPool.length,
@@ -1045,7 +1423,13 @@ class AudioEngine {
   }
 
   public isMicBankFull(): boolean {
-    return this.micBank.every(Boolean);
+    return this.activeSlots('mic').every(Boolean);
+  }
+
+  /** The slots of a bank that are in play; buffers past the bank size are kept but silent. */
+  private activeSlots(bank: SampleBankId): (AudioBuffer | null)[] {
+    const slots = bank === 'mic' ? this.micBank : this.sampleBank;
+    return slots.slice(0, bank === 'mic' ? this.bankSettings.micSlots : this.bankSettings.smpSlots);
   }
 
   public getActivePoolSize(): number {
@@ -1064,22 +1448,58 @@ class AudioEngine {
     };
   }
 
+  /**
+   * Reseed the engine stream (null = Math.random) and forget melodic memory,
+   * so the same seed replays the same note and source sequence from here.
+   */
+  public setRandomSeed(seed: number | null) {
+    this.randomSeed = seed;
+    this.random = createRandomStream(seed, 'engine');
+    this.lastMidi = null;
+    this.phraseStep = 0;
+    this.dronePool = null;
+    this.droneScaleId = null;
+    this.droneTriggerCount = 0;
+    this.updatePlayPool();
+    this.createImpulseResponse();
+  }
+
+  /** Tempo from the UI with bpm resolved; only the ping-pong delay listens today. */
+  public setTempo(tempo: TempoSettings) {
+    this.tempoSettings = { ...tempo };
+    this.updatePingPongDelayTimes(this.lastAudioSettings?.baseFrequency);
+  }
+
+  public getRandomSeed(): number | null {
+    return this.randomSeed;
+  }
+
   private updatePlayPool() {
+    const { mode, rules, synthWeight } = this.bankSettings;
     const options: SourceChoice[] = [];
-    this.sampleBank.forEach((buf, idx) => { if (buf) options.push({ type: 'smp', index: idx }); });
-    this.micBank.forEach((buf, idx) => { if (buf) options.push({ type: 'mic', index: idx }); });
-    if (this.synthEnabled) options.push({ type: 'synth' });
+    this.activeSlots('smp').forEach((buf, idx) => { if (buf && rules.smp[idx].weight > 0) options.push({ type: 'smp', index: idx }); });
+    this.activeSlots('mic').forEach((buf, idx) => { if (buf && rules.mic[idx].weight > 0) options.push({ type: 'mic', index: idx }); });
+    if (this.synthEnabled && synthWeight > 0) options.push({ type: 'synth' });
 
     if (options.length === 0) {
       this.playPool = [];
       this.playCursor = 0;
+      this.notifyBank();
+      return;
+    }
+
+    // The other modes pick from every playable source in slot order.
+    if (mode !== 'cycle') {
+      this.playPool = options;
+      this.playCursor = 0;
+      this.notifyBank();
       return;
     }
 
     const target = options.length >= 9 ? 9 : options.length >= 6 ? 6 : options.length > 0 ? 3 : 0;
     const shuffled = [...options];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
 
@@ -1093,19 +1513,56 @@ class AudioEngine {
 
     this.playPool = pool;
     this.playCursor = 0;
+    this.notifyBank();
+  }
+
+  /** Whether a source may sound for this bubble: synth always, a slot only inside its bank and rule. */
+  private sourceAllows(choice: SourceChoice, context?: SourceContext): boolean {
+    if (choice.type === 'synth') return true;
+    const index = choice.index ?? 0;
+    const size = choice.type === 'mic' ? this.bankSettings.micSlots : this.bankSettings.smpSlots;
+    return index < size && ruleAllows(this.bankSettings.rules[choice.type][index], context);
+  }
+
+  /**
+   * Next source for a bubble. Cycle and round robin step through the pool, skipping
+   * slots whose rule rejects the bubble; random, weighted and zone draw from the ones
+   * that fit. When nothing fits the synth fills in, if it is on.
+   */
+  private pickSource(context?: SourceContext): SourceChoice | null {
+    const fallback: SourceChoice | null = this.synthEnabled ? { type: 'synth' } : null;
+    if (!this.playPool.length) return fallback;
+    const { mode } = this.bankSettings;
+    if (mode === 'cycle' || mode === 'roundRobin') {
+      for (let step = 0; step < this.playPool.length; step++) {
+        const choice = this.playPool[(this.playCursor + step) % this.playPool.length];
+        if (!this.sourceAllows(choice, context)) continue;
+        this.playCursor = (this.playCursor + step + 1) % this.playPool.length;
+        return choice;
+      }
+      return fallback;
+    }
+    const candidates = this.playPool.filter((choice) => this.sourceAllows(choice, context));
+    if (mode === 'zone' && context) return pickByZone(candidates, context) ?? fallback;
+    if (mode === 'weighted') {
+      const weighted = candidates.map((choice) => ({
+        choice,
+        weight: choice.type === 'synth' ? this.bankSettings.synthWeight : this.bankSettings.rules[choice.type][choice.index ?? 0].weight,
+      }));
+      return pickWeighted(weighted, this.random) ?? fallback;
+    }
+    return candidates.length ? candidates[Math.floor(this.random() * candidates.length)] : fallback;
   }
 
-  private pickSource(): SourceChoice | null {
-    if (!this.playPool.length) {
-      return this.synthEnabled ? { type: 'synth' } : null;
-    }
-    const choice = this.playPool[this.playCursor % this.playPool.length];
-    this.playCursor = (this.playCursor + 1) % this.playPool.length;
-    return choice;
+  public assignSourceToBubble(context?: SourceContext): SourceChoice | null {
+    return this.pickSource(context);
   }
 
-  public assignSourceToBubble(): SourceChoice | null {
-    return this.pickSource();
+  /** Bank sizes, per-slot rules and how the next source is chosen. */
+  public setBankSettings(settings: BankSettings) {
+    this.bankSettings = settings;
+    this.micInsertIndex = Math.min(this.micInsertIndex, settings.micSlots - 1);
+    this.updatePlayPool();
   }
 
   public setSynthEnabled(enabled: boolean) {
@@ -1116,18 +1573,21 @@ class AudioEngine {
   public clearMicSlot(index: number) {
     if (index < 0 || index >= this.micBank.length) return;
     this.micBank[index] = null;
+    this.slotSettings.mic[index] = null;
     this.updatePlayPool();
   }
 
   public clearSampleSlot(index: number) {
     if (index < 0 || index >= this.sampleBank.length) return;
     this.sampleBank[index] = null;
+    this.slotSettings.smp[index] = null;
     this.updatePlayPool();
   }
 
   public clearAllSamples() {
-    this.micBank = new Array(6).fill(null);
-    this.sampleBank = new Array(6).fill(null);
+    this.micBank = new Array(MAX_BANK_SLOTS).fill(null);
+    this.sampleBank = new Array(MAX_BANK_SLOTS).fill(null);
+    this.slotSettings = { mic: new Array(MAX_BANK_SLOTS).fill(null), smp: new Array(MAX_BANK_SLOTS).fill(null) };
     this.customBuffer = null;
     this.soundType = SoundType.SYNTH;
     this.updatePlayPool();
@@ -1148,10 +1608,11 @@ class AudioEngine {
     startIndex: number = 0,
     opts?: { overwrite?: boolean }
   ): Promise<{ loaded: number; skipped: number; }> {
-    const arr = Array.from(files).slice(0, 6);
+    const size = this.bankSettings.smpSlots;
+    const arr = Array.from(files).slice(0, size);
     await this.init();
     if (!this.ctx) return { loaded: 0, skipped: arr.length };
-    let slot = Math.max(0, Math.min(5, startIndex));
+    let slot = Math.max(0, Math.min(size - 1, startIndex));
     const overwrite = Boolean(opts?.overwrite);
     let loaded = 0;
     let skipped = 0;
@@ -1165,15 +1626,16 @@ class AudioEngine {
           console.warn(`Sample too long (>10s): ${file.name}`);
           continue;
         }
-        const targetSlot = overwrite ? slot : this.findSlot(this.sampleBank, slot);
+        const targetSlot = overwrite ? slot : this.findSlot(this.activeSlots('smp'), slot);
         if (targetSlot === -1) {
           skipped += 1;
           continue;
         }
         this.sampleBank[targetSlot] = buf;
+        this.slotSettings.smp[targetSlot] = this.loadedSlotSettings(buf);
         loaded += 1;
-        if (overwrite && targetSlot >= 5) break;
-        slot = Math.min(5, targetSlot + 1);
+        if (overwrite && targetSlot >= size - 1) break;
+        slot = Math.min(size - 1, targetSlot + 1);
       } catch (e) {
         skipped += 1;
         console.error('Failed to load sample', e);
@@ -1195,14 +1657,15 @@ class AudioEngine {
         return false;
       }
       let slot = typeof targetSlot === 'number'
-        ? Math.max(0, Math.min(5, targetSlot))
-        : this.findSlot(this.micBank, this.micInsertIndex);
+        ? Math.max(0, Math.min(this.bankSettings.micSlots - 1, targetSlot))
+        : this.findSlot(this.activeSlots('mic'), this.micInsertIndex);
       if (slot === -1) {
         console.warn('Mic bank full, recording rejected.');
         return false;
       }
       this.micBank[slot] = buf;
-      this.micInsertIndex = (slot + 1) % this.micBank.length;
+      this.slotSettings.mic[slot] = this.loadedSlotSettings(buf);
+      this.micInsertIndex = (slot + 1) % this.bankSettings.micSlots;
       this.updatePlayPool();
       return true;
     } catch (e) {
@@ -1225,9 +1688,10 @@ class AudioEngine {
         console.warn('Recorded sample too long (>10s), rejecting.');
         return;
       }
-      const target = this.findSlot(this.sampleBank, 0);
+      const target = this.findSlot(this.activeSlots('smp'), 0);
       if (target !== -1) {
         this.sampleBank[target] = buf;
+        this.slotSettings.smp[target] = this.loadedSlotSettings(buf);
         this.updatePlayPool();
       }
     } catch (e) {
@@ -1235,6 +1699,77 @@ class AudioEngine {
     }
   }
 
+  /** Decode a stored or imported file on the engine's context; null when it is not audio. */
+  public async decodeSampleBlob(blob: Blob): Promise<AudioBuffer | null> {
+    await this.init();
+    if (!this.ctx) return null;
+    try {
+      return await this.ctx.decodeAudioData(await blob.arrayBuffer());
+    } catch (e) {
+      console.warn('Failed to decode sample', e);
+      return null;
+    }
+  }
+
+  /**
+   * Put a decoded buffer straight into a bank slot (library and kits). Saved editor
+   * state is applied as is; without it the slot starts fresh with a detected root.
+   */
+  public setBankBuffer(bank: SampleBankId, index: number, buffer: AudioBuffer, settings?: SampleSlotSettings | null) {
+    if (index < 0 || index >= this.activeSlots(bank).length) return;
+    (bank === 'mic' ? this.micBank : this.sampleBank)[index] = buffer;
+    this.slotSettings[bank][index] = settings ? sanitizeSampleSlot(settings, buffer.duration) : this.loadedSlotSettings(buffer);
+    this.updatePlayPool();
+  }
+
+  /** The buffer in a bank slot and its editor state, or null when the slot is empty. */
+  public getSampleSlot(bank: SampleBankId, index: number): { buffer: AudioBuffer; settings: SampleSlotSettings } | null {
+    const buffer = (bank === 'mic' ? this.micBank : this.sampleBank)[index];
+    if (!buffer) return null;
+    return { buffer, settings: this.slotSettingsFor(bank, index, buffer) };
+  }
+
+  /** Region, root, trim, ADSR and slices for a loaded slot; points are kept inside the buffer. */
+  public setSampleSlotSettings(bank: SampleBankId, index: number, settings: SampleSlotSettings) {
+    const buffer = (bank === 'mic' ? this.micBank : this.sampleBank)[index];
+    if (!buffer) return;
+    this.slotSettings[bank][index] = sanitizeSampleSlot(settings, buffer.duration);
+    this.notifyBank();
+  }
+
+  /** Play a slot once at its root note, dry and centred, so edits can be heard without a collision. */
+  public async auditionSampleSlot(bank: SampleBankId, index: number) {
+    await this.init();
+    const slot = this.getSampleSlot(bank, index);
+    if (!this.ctx || !this.dryGain || !slot) return;
+    void this.resume();
+    const gain = this.ctx.createGain();
+    gain.connect(this.dryGain);
+    const played = this.scheduleSample(slot.buffer, slot.settings, [midiToFreq(slot.settings.rootMidi)], {
+      when: this.ctx.currentTime,
+      gain: gain.gain,
+      peak: 0.25,
+      destination: gain,
+      reverseFrac: null,
+    });
+    played.longest.onended = () => gain.disconnect();
+  }
+
+  public subscribeBank = (listener: () => void) => {
+    this.bankListeners.add(listener);
+    return () => {
+      this.bankListeners.delete(listener);
+    };
+  };
+
+  /** Bumps on every load, clear or slot edit; a cheap snapshot for useSyncExternalStore. */
+  public getBankRevision = (): number => this.bankRevision;
+
+  private notifyBank() {
+    this.bankRevision += 1;
+    this.bankListeners.forEach((listener) => listener());
+  }
+
   public setMicGain(value: number) {
     const safe = Math.max(0, Math.min(4, value));
     this.desiredMicGain = safe;
@@ -1311,14 +1846,69 @@ class AudioEngine {
     return this.micRecordDest?.stream ?? this.micStream;
   }
 
+  /** Post-limiter master as a MediaStream (for MediaRecorder takes). */
+  public getMasterRecordStream(): MediaStream | null {
+    return this.masterRecordDest?.stream ?? null;
+  }
+
+  /** Observe every collision note (MIDI out); fires even when no internal source is loaded. */
+  public setNoteListener(listener: ((note: CollisionNote) => void) | null) {
+    this.noteListener = listener;
+  }
+
+  public getSampleRate(): number {
+    return this.ctx?.sampleRate ?? 48000;
+  }
+
+  /**
+   * Stream post-limiter PCM blocks ([left, right]) to onBlock until the returned
+   * close function is called. Null when AudioWorklet is unavailable.
+   */
+  public async openMasterTap(onBlock: (channels: Float32Array[]) => void): Promise<(() => void) | null> {
+    if (!this.liveCtx || !this.limiter || !this.liveCtx.audioWorklet) return null;
+    const ctx = this.liveCtx;
+    const limiter = this.limiter.output;
+    try {
+      if (!this.masterTapLoaded) {
+        const blob = new Blob([MASTER_TAP_WORKLET_CODE], { type: 'application/javascript' });
+        const url = URL.createObjectURL(blob);
+        try {
+          await ctx.audioWorklet.addModule(url);
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+        this.masterTapLoaded = true;
+      }
+      const node = new AudioWorkletNode(ctx, 'master-tap', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 2,
+        channelCountMode: 'explicit',
+      });
+      node.port.onmessage = (e: MessageEvent<Float32Array[]>) => onBlock(e.data);
+      limiter.connect(node);
+      return () => {
+        node.port.postMessage('flush');
+        // Give the flushed tail one round trip before detaching the port.
+        window.setTimeout(() => {
+          try { limiter.disconnect(node); } catch { /* ignore */ }
+          node.port.onmessage = null;
+        }, 100);
+      };
+    } catch (e) {
+      console.warn('Master tap worklet unavailable.', e);
+      return null;
+    }
+  }
+
   public attachMicStream(stream: MediaStream) {
-    if (!this.ctx) return;
+    if (!this.ctx || !this.liveCtx) return;
 
     try { this.micSource?.disconnect(); } catch { /* ignore */ }
     this.micSource = null;
 
     this.micStream = stream;
-    const src = this.ctx.createMediaStreamSource(stream);
+    const src = this.liveCtx.createMediaStreamSource(stream);
     this.micSource = src;
 
     if (!this.micGain) {
@@ -1376,8 +1966,8 @@ class AudioEngine {
         }
         stream.getAudioTracks().forEach((t) => { t.enabled = true; });
         this.attachMicStream(stream);
-        if (this.ctx && this.ctx.state !== 'running') {
-          try { await this.ctx.resume(); } catch { /* ignore */ }
+        if (this.liveCtx && this.liveCtx.state !== 'running') {
+          try { await this.liveCtx.resume(); } catch { /* ignore */ }
         }
       })();
       await this.micEnsureInFlight;
@@ -1415,6 +2005,26 @@ class AudioEngine {
     this.updatePlayPool();
   }
 
+  /** One send gain per aux bus the hit reaches; buses it sends nothing to get no node. */
+  private connectAuxSends(source: AudioNode, hit: AuxHit): GainNode[] {
+    if (!this.ctx) return [];
+    const inputs: Record<AuxBusId, AudioNode | null> = {
+      reverb: this.reverbNode,
+      delay: this.pingPongInput,
+      fxA: this.auxReturns?.fxA.input ?? null,
+      fxB: this.auxReturns?.fxB.input ?? null,
+    };
+    return AUX_BUSES.flatMap(({ id }) => {
+      const input = inputs[id];
+      const level = auxSendLevel(this.auxSettings.sends[id], hit);
+      if (!input || level <= 0) return [];
+      const send = this.ctx!.createGain();
+      send.gain.value = level;
+      source.connect(send).connect(input);
+      return [send];
+    });
+  }
+
   public triggerSound(
     sizeFactor: number, 
     baseFreq: number, 
@@ -1427,21 +2037,30 @@ class AudioEngine {
     volume: number = 0.5,
     music?: MusicSettings,
     sampleGain: number = 1,
-    sourceOverride?: SourceChoice | null
+    sourceOverride?: SourceChoice | null,
+    features?: TimbreFeatures,
+    collision?: CollisionKind,
+    role?: SoundRole
   ) {
     if (!this.ctx) return;
     let ctxState = this.ctx.state;
-    if (ctxState !== 'running') {
+    // Offline bounces schedule while suspended at a frame boundary, so only realtime waits for 'running'.
+    if (this.liveCtx && ctxState !== 'running') {
       if (!this.shouldPlay) return;
       void this.resume();
       ctxState = this.ctx.state;
       if (ctxState !== 'running') return;
     }
 
-    if (this.activeVoices >= this.MAX_VOICES) {
-        return; 
-    }
-    this.activeVoices++;
+    // A muted role drops the hit before the groove draws anything for it.
+    const roleVoice = resolveRoleVoice(this.roleSettings, role);
+    if (roleVoice === null) return;
+
+    // Groove defers the hit to the next grid slot; one that would wait past the cutoff is skipped.
+    const now = this.grooveSettings.enabled
+      ? nextGrooveTime(this.ctx.currentTime, this.tempoSettings?.bpm ?? PHYSICS_REFERENCE_BPM, this.grooveSettings, this.random)
+      : this.ctx.currentTime;
+    if (now === null) return;
 
     const safeBaseFreq = (Number.isFinite(baseFreq) && baseFreq > 0) ? baseFreq : 440;
     const safePan = Number.isFinite(pan) ? clamp(pan, -1, 1) : 0;
@@ -1449,7 +2068,7 @@ class AudioEngine {
     const safeHeight = Number.isFinite(height) ? clamp(height, -1, 1) : 0;
     const safeVolume = (Number.isFinite(volume) && volume >= 0) ? volume : 0.5;
     const safeSampleGain = (Number.isFinite(sampleGain) && sampleGain >= 0) ? clamp(sampleGain, 0, 2) : 1;
-    const safeMusic: MusicSettings = {
+    const baseMusic: MusicSettings = {
       root: Number.isFinite(music?.root) ? (music?.root ?? 0) : 0,
       scaleId: music?.scaleId ?? getScaleById().id,
       scaleIndex: Number.isFinite(music?.scaleIndex) ? (music?.scaleIndex ?? 0) : 0,
@@ -1457,10 +2076,11 @@ class AudioEngine {
       noImmediateRepeat: music?.noImmediateRepeat ?? false,
       avoidLeadingTone: music?.avoidLeadingTone ?? false,
       noThirds: music?.noThirds ?? false,
+      customScale: music?.customScale ?? null,
     };
-    this.lastMusicSettings = safeMusic;
-
-    const now = this.ctx.currentTime;
+    this.lastMusicSettings = baseMusic;
+    // The progression swaps root and scale on its own clock; the panel's settings stay the base.
+    const safeMusic = applyProgressionStep(baseMusic, this.moveProgression(true).step);
     
     // --- SPATIAL CHAIN ---
     const spatial = this.spatialControl;
@@ -1529,49 +2149,64 @@ class AudioEngine {
     spatialOutput.connect(sourceGain);
     
     sourceGain.connect(this.dryGain!);
-    sourceGain.connect(this.reverbNode!);
-    if (this.pingPongInput) sourceGain.connect(this.pingPongInput);
+    // Far hits lean into the reverb, small ones into the delay, as the send curves say.
+    const sends = this.connectAuxSends(sourceGain, { depth: depthMag, size: clamp(1 - sizeFactor, 0, 1), role });
 
     // --- PITCH SELECTION ---
-    const baseMidi = freqToMidi(safeBaseFreq);
+    const scale = resolveScale(safeMusic);
+    const reference = scale.tuning?.reference;
+    const baseMidi = freqToMidi(safeBaseFreq, reference);
     const rootMidi = snapMidiToPitchClass(baseMidi, safeMusic.root);
-    const scale = getScaleById(safeMusic.scaleId);
     const scaleForQuantize = this.getScaleForQuantize(scale);
 
     const octaveShift = sizeFactor > 0.8 ? -12 : sizeFactor < 0.3 ? 12 : 0;
     const depthOffset = (safeDepth - 0.5) * 6;
-    const randomOffset = (Math.random() - 0.5) * 12;
-    const inputMidi = rootMidi + octaveShift + depthOffset + randomOffset;
+    const randomOffset = (this.random() - 0.5) * 12;
+    const inputMidi = rootMidi + octaveShift + depthOffset + randomOffset + (roleVoice?.pitch ?? 0);
 
     let finalMidi = inputMidi;
     if (safeMusic.quantizeEnabled) {
-        finalMidi = quantizeMidiToScale(inputMidi, {
+        const quantizeConfig = {
           rootMidi,
           scale: scaleForQuantize,
-          mode: 'nearest',
+          mode: 'nearest' as const,
           octaveWrap: true,
           noImmediateRepeat: safeMusic.noImmediateRepeat,
           lastMidi: this.lastMidi,
           avoidLeadingTone: safeMusic.avoidLeadingTone,
           noThirds: safeMusic.noThirds,
-        });
+        };
+        // The melodic model draws from the scale around the physics' pitch; nearest tone otherwise.
+        const melodic = this.melodySettings.enabled
+          ? pickMelodicNote(inputMidi, quantizeConfig, this.melodySettings, this.phraseStep, this.random)
+          : null;
+        finalMidi = melodic ?? quantizeMidiToScale(inputMidi, quantizeConfig);
+        if (this.melodySettings.enabled) this.phraseStep = (this.phraseStep + 1) % Math.max(2, this.melodySettings.phraseLength);
     }
 
-    this.lastMidi = Math.round(finalMidi);
-    let finalFreq = midiToFreq(finalMidi);
+    // Tuned scales land between keys; keep the exact degree so no-repeat can recognise it.
+    this.lastMidi = scale.tuning ? finalMidi : Math.round(finalMidi);
+
+    // Harmony stacks scale tones above the quantized note; 'single' leaves it alone.
+    const harmony = this.harmonySettings;
+    const chordMidi = buildHarmony(
+      finalMidi, rootMidi, scaleForQuantize, safeMusic,
+      voicingFor(harmony, collision), harmony.voices, harmony.spread
+    );
 
     // Safety checks for Physics anomalies
+    let dopplerCents = 0;
+    let dopplerMultiplier = 1;
     if (dopplerIntensity > 0 && Number.isFinite(velocityZ)) {
-       const dopplerCents = velocityZ * -100 * dopplerIntensity; 
-       const multiplier = Math.pow(2, dopplerCents / 1200);
-       finalFreq *= multiplier;
+       dopplerCents = velocityZ * -100 * dopplerIntensity; 
+       dopplerMultiplier = Math.pow(2, dopplerCents / 1200);
     }
 
     // Ensure Frequency is Finite and within audible range
-    if (!Number.isFinite(finalFreq) || Number.isNaN(finalFreq)) {
-        finalFreq = 440;
-    }
-    finalFreq = Math.max(40, Math.min(12000, finalFreq));
+    const chordFreqs = chordMidi.map((midi) => {
+      const freq = midiToFreq(midi, reference) * dopplerMultiplier;
+      return Number.isFinite(freq) ? Math.max(40, Math.min(12000, freq)) : 440;
+    });
 
     // --- GAIN STAGING ---
     const baseVol = 0.25 * safeVolume;
@@ -1579,13 +2214,18 @@ class AudioEngine {
     
     // Use an Epsilon to prevent exponentialRampToValueAtTime errors when starting from 0
     const EPSILON = 0.001; 
-    const peakVol = Math.max(EPSILON, baseVol * depthAtten);
+    // A chord shares the collision's level (equal power), so harmony does not just mean louder.
+    const peakVol = Math.max(EPSILON, (baseVol * depthAtten * (roleVoice?.gain ?? 1)) / Math.sqrt(chordFreqs.length));
 
+    let voiceId: number | null = null;
+    let playbacks: VoicePlayback[] = [];
     const cleanup = () => {
-        this.activeVoices = Math.max(0, this.activeVoices - 1);
+        if (voiceId !== null) this.voices.remove(voiceId);
         setTimeout(() => {
+            playbacks.forEach((playback) => playback.dispose());
             try {
                 sourceGain.disconnect();
+                sends.forEach((send) => send.disconnect());
                 panner.disconnect();
                 depthFilter.disconnect();
                 haasDelayL?.disconnect();
@@ -1596,10 +2236,22 @@ class AudioEngine {
         }, 1000);
     };
 
-    let sourceChoice = sourceOverride ?? this.pickSource();
+    const roleSource: SourceChoice | null =
+      roleVoice && roleVoice.source !== 'auto'
+        ? { type: roleVoice.source, index: roleVoice.source === 'smp' ? roleVoice.slot : undefined }
+        : null;
+    // A bubble keeps its source while the slot's rule still fits this hit; by zone always picks by where it is.
+    const sourceContext: SourceContext = { size: clamp(1 - sizeFactor, 0, 1), pan, depth };
+    const keptSource =
+      sourceOverride && this.bankSettings.mode !== 'zone' && this.sourceAllows(sourceOverride, sourceContext) ? sourceOverride : null;
+    let sourceChoice = roleSource ?? keptSource ?? this.pickSource(sourceContext);
     if (sourceChoice?.type === 'synth' && !this.synthEnabled) {
       sourceChoice = null;
     }
+    // Slots past the bank size stay silent, also when a role names one.
+    if (sourceChoice && sourceChoice.type !== 'synth' && (sourceChoice.index ?? 0) >= (sourceChoice.type === 'mic' ? this.bankSettings.micSlots : this.bankSettings.smpSlots)) {
+      sourceChoice = null;
+    }
     const sampleBuffer =
       sourceChoice?.type === 'mic' && typeof sourceChoice.index === 'number'
         ? this.micBank[sourceChoice.index] ?? null
@@ -1612,74 +2264,291 @@ class AudioEngine {
         return;
     }
 
+    if (this.noteListener) {
+      const emitNotes = () => {
+        try {
+          chordMidi.forEach((midi) => {
+            this.noteListener?.({
+              midi: Math.round(midi),
+              level: clamp(safeVolume * depthAtten, 0, 1),
+              pan: panWith,
+              depth: depthWith,
+              doppler: clamp(dopplerCents / 100, -1, 1),
+            });
+          });
+        } catch { /* ignore */ }
+      };
+      // MIDI out only hears hits that will sound, and has no timestamps; hold grooved notes back until their slot.
+      const lead = now - this.ctx.currentTime;
+      if (this.liveCtx && lead > 0.002) setTimeout(emitNotes, lead * 1000);
+      else emitNotes();
+    }
+
+    // A full pool steals a voice (short fade) rather than dropping this collision.
+    this.voices.makeRoom(now);
+    const trackVoice = (voice: Pick<Voice, 'kind' | 'peak' | 'shape' | 'endsAt'>, stop: (at: number) => void) => {
+      voiceId = this.voices.add({
+        ...voice,
+        midi: Math.round(finalMidi),
+        startedAt: now,
+        release: (at) => this.fadeOutVoice(sourceGain.gain, stop, at),
+      });
+    };
+
     if (sampleBuffer) {
-        const source = this.ctx.createBufferSource();
-        let bufferToUse = sampleBuffer;
+        const bank: SampleBankId = sourceChoice?.type === 'mic' ? 'mic' : 'smp';
+        const slot = this.slotSettingsFor(bank, sourceChoice?.index ?? 0, sampleBuffer);
+        let reverseFrac: number | null = null;
         if (isReverse) {
           const minFreq = 110;
           const maxFreq = 880;
           const tuningNorm = clamp((safeBaseFreq - minFreq) / (maxFreq - minFreq), 0, 1);
-          const sliceFrac = 0.2 + tuningNorm * 0.8;
-          const sliceSeconds = Math.max(0.15, Math.min(sampleBuffer.duration, sampleBuffer.duration * sliceFrac));
-          bufferToUse = this.createReverseSlice(sampleBuffer, sliceSeconds);
+          reverseFrac = 0.2 + tuningNorm * 0.8;
         }
-        source.buffer = bufferToUse;
-        let rate = finalFreq / 440; 
-        if (!Number.isFinite(rate)) rate = 1.0;
-        
-        source.playbackRate.setValueAtTime(Math.max(0.1, Math.min(rate, 4.0)), now);
-
-        const duration = bufferToUse.duration / rate;
-        const targetGain = peakVol * safeSampleGain;
-        const attack = Math.min(0.01, duration * 0.2);
-        const fadeOut = Math.min(0.08, duration * 0.3);
-        const fadeStart = now + Math.max(attack, duration - fadeOut);
-
-        sourceGain.gain.setValueAtTime(EPSILON, now);
-        sourceGain.gain.linearRampToValueAtTime(targetGain, now + attack);
-        sourceGain.gain.setValueAtTime(targetGain, fadeStart);
-        sourceGain.gain.exponentialRampToValueAtTime(EPSILON, now + duration);
-        
-        source.connect(depthFilter);
-        source.onended = cleanup;
-        source.start();
+        const played = this.scheduleSample(sampleBuffer, slot, chordFreqs, {
+          when: now,
+          gain: sourceGain.gain,
+          peak: peakVol * safeSampleGain,
+          destination: depthFilter,
+          reverseFrac,
+          role: roleVoice,
+        });
+        played.longest.onended = cleanup;
+        trackVoice(
+          { kind: bank, peak: played.peak, shape: 'sustain', endsAt: played.endsAt },
+          (at) => stopAll(played.sources, at)
+        );
     } else {
         // --- SYNTHESIS ---
-        const osc = this.ctx.createOscillator();
-        osc.type = 'sine'; 
-        osc.frequency.setValueAtTime(finalFreq, now);
-
-        if (sizeFactor < 0.4) {
-             const fmOsc = this.ctx.createOscillator();
-             const fmGain = this.ctx.createGain();
-             fmOsc.type = 'sine';
-             fmOsc.frequency.value = finalFreq * 2.5;
-             fmGain.gain.value = finalFreq * 0.3; 
-             fmOsc.connect(fmGain);
-             fmGain.connect(osc.frequency);
-             fmOsc.start(now);
-             fmOsc.stop(now + 0.3);
-        }
+        // The engine shapes a 0..1 envelope; sourceGain carries the collision's level.
+        const { engine, params } = activeEngineParams(this.synthSettings);
+        const voiceParams = features ? applyTimbre(engine, params, resolveTimbre(this.timbreSettings, features)) : params;
+        // A role's envelope rides on top of the engine's; its decay also cuts the voices.
+        const attack = roleVoice?.attack ?? 0;
+        const cutAt = roleVoice?.decay ? now + attack + roleVoice.decay : null;
+        sourceGain.gain.setValueAtTime(attack > 0 ? EPSILON : peakVol, now);
+        if (attack > 0) sourceGain.gain.linearRampToValueAtTime(peakVol, now + attack);
+        if (cutAt !== null) sourceGain.gain.exponentialRampToValueAtTime(EPSILON, cutAt);
+        playbacks = chordFreqs.map((freq) =>
+          engine.play(
+            { ctx: this.ctx!, destination: depthFilter, when: now, freq, sizeFactor, random: this.random },
+            voiceParams
+          )
+        );
+        if (cutAt !== null) playbacks.forEach((playback) => { if (playback.endsAt > cutAt) playback.stop(cutAt + 0.005); });
+        const last = playbacks.reduce((a, b) => (b.endsAt > a.endsAt ? b : a));
+        last.source.onended = cleanup;
+        trackVoice(
+          { kind: 'synth', peak: peakVol, shape: last.shape, endsAt: cutAt === null ? last.endsAt : Math.min(last.endsAt, cutAt) },
+          (at) => playbacks.forEach((playback) => playback.stop(at))
+        );
+    }
+  }
 
-        osc.connect(depthFilter);
+  /**
+   * One buffer source per frequency over the slot's region (or a random slice),
+   * pitched against the slot's root; the slowest source sets the ADSR on `gain`.
+   * A granular slot moves the pitch in a one-shot granular node instead, so the
+   * region keeps its length; only a shift past the grains' range speeds the buffer.
+   */
+  private scheduleSample(
+    buffer: AudioBuffer,
+    slot: SampleSlotSettings,
+    freqs: number[],
+    opts: { when: number; gain: AudioParam; peak: number; destination: AudioNode; reverseFrac: number | null; role?: RoleVoice }
+  ) {
+    const { when, gain } = opts;
+    let region = pickSampleRegion(slot, this.random);
+    let playBuffer = buffer;
+    if (opts.reverseFrac !== null) {
+      const length = region.to - region.from;
+      playBuffer = this.createReverseSlice(buffer, region.to, Math.max(0.15, Math.min(length, length * opts.reverseFrac)));
+      region = { from: 0, to: playBuffer.duration };
+    }
+    const loop = slot.loop && opts.reverseFrac === null;
+    // The grain worklet only registers on contexts where the shared stretch node came up.
+    const granular = slot.granular && this.granularNode !== null;
+    const rootFreq = midiToFreq(slot.rootMidi);
+    const sources = freqs.map((freq) => {
+      const source = this.ctx!.createBufferSource();
+      source.buffer = playBuffer;
+      let ratio = freq / rootFreq;
+      if (!Number.isFinite(ratio)) ratio = 1.0;
+      ratio = Math.max(0.1, Math.min(ratio, 4.0));
+      let rate = ratio;
+      let grains: AudioWorkletNode | null = null;
+      let latency = 0;
+      if (granular) {
+        const shift = clamp(ratio, GRAIN_SHIFT_RANGE[0], GRAIN_SHIFT_RANGE[1]);
+        rate = ratio / shift;
+        grains = new AudioWorkletNode(this.ctx!, 'granular-stretch', {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          outputChannelCount: [1],
+          processorOptions: { oneShot: true },
+        });
+        grains.parameters.get('stretch')?.setValueAtTime(1 / shift, when);
+        grains.parameters.get('mix')?.setValueAtTime(1, when);
+        grains.parameters.get('grainSize')?.setValueAtTime(SAMPLE_GRAIN_SECONDS, when);
+        // Grains trail the input by their read delay (see _spawnGrain).
+        latency = Math.max(SAMPLE_GRAIN_SECONDS * Math.max(1, shift), 0.05);
+      }
+      source.playbackRate.setValueAtTime(rate, when);
+      if (loop) {
+        source.loop = true;
+        source.loopStart = clamp(slot.loopStart, region.from, region.to);
+        source.loopEnd = region.to;
+      }
+      return { source, rate, grains, latency };
+    });
+    const slowest = sources.reduce((a, b) => (b.rate < a.rate ? b : a));
+    const latency = sources.reduce((a, b) => Math.max(a, b.latency), 0);
+
+    const env = sampleEnvelope(slot, (region.to - region.from) / slowest.rate + latency, opts.role);
+    const peak = Math.max(ENVELOPE_FLOOR, opts.peak * Math.pow(10, slot.gain / 20));
+    const level = Math.max(ENVELOPE_FLOOR, peak * env.sustain);
+    gain.setValueAtTime(ENVELOPE_FLOOR, when);
+    gain.linearRampToValueAtTime(peak, when + env.attack);
+    if (env.decayEnd > env.attack) gain.linearRampToValueAtTime(level, when + env.decayEnd);
+    else gain.setValueAtTime(level, when + env.attack);
+    gain.setValueAtTime(level, when + env.releaseAt);
+    gain.exponentialRampToValueAtTime(ENVELOPE_FLOOR, when + env.end);
+
+    sources.forEach(({ source, grains }) => {
+      if (grains) source.connect(grains).connect(opts.destination);
+      else source.connect(opts.destination);
+      if (loop) source.start(when, region.from);
+      else source.start(when, region.from, region.to - region.from);
+      source.stop(when + env.end + 0.005);
+    });
+    const voiceSources: AudioScheduledSourceNode[] = sources.map(({ source }) => source);
+    let longest: AudioScheduledSourceNode = slowest.source;
+    if (granular) {
+      // A silent source that outlives the grain tail: it keeps the nodes fed and marks the voice's end.
+      const tail = this.ctx!.createConstantSource();
+      tail.offset.value = 0;
+      sources.forEach(({ grains }) => grains && tail.connect(grains));
+      tail.start(when);
+      tail.stop(when + env.end + 0.005);
+      voiceSources.push(tail);
+      longest = tail;
+    }
+    return { sources: voiceSources, longest, peak, endsAt: when + env.end };
+  }
 
-        // --- ENVELOPE ---
-        const attack = 0.005;
-        const decay = 1.5;
-        const release = 0.06;
+  /** Editor state for a freshly loaded buffer, rooted on the note pitch detection hears in it. */
+  private loadedSlotSettings(buffer: AudioBuffer): SampleSlotSettings {
+    return defaultSampleSlot(buffer.duration, detectRootMidi(monoChannel(buffer), buffer.sampleRate));
+  }
 
-        // Start at silence (EPSILON)
-        sourceGain.gain.setValueAtTime(EPSILON, now);
-        // Linear ramp to peak
-        sourceGain.gain.linearRampToValueAtTime(peakVol, now + attack);
-        // Exponential ramp back to silence (safe because start value is peakVol >= EPSILON)
-        sourceGain.gain.exponentialRampToValueAtTime(EPSILON, now + decay);
-        sourceGain.gain.setValueAtTime(EPSILON, now + decay + release);
+  private slotSettingsFor(bank: SampleBankId, index: number, buffer: AudioBuffer): SampleSlotSettings {
+    return this.slotSettings[bank][index] ?? defaultSampleSlot(buffer.duration);
+  }
 
-        osc.start(now);
-        osc.stop(now + decay + release);
-        osc.onended = cleanup;
+  private fadeOutVoice(gain: AudioParam, stop: (at: number) => void, at: number) {
+    if (typeof gain.cancelAndHoldAtTime === 'function') {
+      gain.cancelAndHoldAtTime(at);
+    } else {
+      gain.cancelScheduledValues(at);
+      gain.setValueAtTime(gain.value, at);
     }
+    gain.linearRampToValueAtTime(0, at + STEAL_FADE_SECONDS);
+    stop(at + STEAL_FADE_SECONDS + 0.005);
+  }
+
+  /** Engine and per-engine params for SYNTH voices (scene state). */
+  public setSynthSettings(settings: SynthSettings) {
+    this.synthSettings = settings;
+  }
+
+  /** Root/scale timeline (scene state). Switching it on starts from the first step. */
+  public setProgressionSettings(settings: ProgressionSettings) {
+    this.progressionSettings = settings;
+    const before = this.progression.position();
+    if (this.progression.configure(settings) !== before) this.onProgressionMoved();
+    this.scheduleProgressionTick();
+  }
+
+  /** Continue the progression from the given step. */
+  public jumpProgression(index: number) {
+    const before = this.progression.position();
+    if (this.progression.jumpTo(index) !== before) this.onProgressionMoved();
+    this.scheduleProgressionTick();
+  }
+
+  // Arrow properties so React's useSyncExternalStore can take them unbound.
+  public subscribeProgression = (listener: () => void) => {
+    this.progressionListeners.add(listener);
+    return () => {
+      this.progressionListeners.delete(listener);
+    };
+  };
+
+  public getProgressionPosition = (): ProgressionPosition => this.progression.position();
+
+  /** Panel music settings with the current progression step applied. */
+  private playedMusicSettings(): MusicSettings | null {
+    return this.lastMusicSettings ? applyProgressionStep(this.lastMusicSettings, this.progression.position().step) : null;
+  }
+
+  private moveProgression(countHit = false): ProgressionPosition {
+    const before = this.progression.position();
+    if (this.ctx) this.progression.advanceTo(this.ctx.currentTime, this.tempoSettings?.bpm ?? PHYSICS_REFERENCE_BPM);
+    const playing = countHit ? this.progression.countHit() : this.progression.position();
+    if (this.progression.position() !== before) this.onProgressionMoved();
+    return playing;
+  }
+
+  private onProgressionMoved() {
+    // Retune the keep-alive drone and the unsynced delay times to the new root.
+    this.retuneBackgroundDrone();
+    this.updatePingPongDelayTimes(this.lastAudioSettings?.baseFrequency);
+    this.progressionListeners.forEach((listener) => listener());
+  }
+
+  // Bar mode advances without collisions too, so the drone and UI move on time in a quiet room.
+  private scheduleProgressionTick() {
+    if (this.progressionTimer !== null) clearTimeout(this.progressionTimer);
+    this.progressionTimer = null;
+    const settings = this.progressionSettings;
+    if (!this.liveCtx || !settings.enabled || settings.steps.length === 0 || settings.advance !== 'bars') return;
+    this.moveProgression();
+    const remaining = this.progression.secondsToNextChange(this.liveCtx.currentTime) ?? 0.25;
+    this.progressionTimer = setTimeout(() => this.scheduleProgressionTick(), Math.max(50, remaining * 1000 + 10));
+  }
+
+  /** Per-event voices for collision sounds (scene state). */
+  public setRoleSettings(settings: RoleSettings) {
+    this.roleSettings = settings;
+  }
+
+  /** Rhythmic grid for collision sounds (scene state). */
+  public setGrooveSettings(settings: GrooveSettings) {
+    this.grooveSettings = settings;
+  }
+
+  /** Melodic model for note choice (scene state); a new shape or length starts a fresh phrase. */
+  public setMelodySettings(settings: MelodySettings) {
+    const previous = this.melodySettings;
+    this.melodySettings = settings;
+    if (previous.enabled !== settings.enabled || previous.phraseLength !== settings.phraseLength || previous.contour !== settings.contour) {
+      this.phraseStep = 0;
+    }
+  }
+
+  /** Chord voicing for collisions (scene state). */
+  public setHarmonySettings(settings: HarmonySettings) {
+    this.harmonySettings = settings;
+  }
+
+  /** Routes from bubble properties (charge, hue, size...) to synth params (scene state). */
+  public setTimbreSettings(settings: TimbreSettings) {
+    this.timbreSettings = settings;
+  }
+
+  /** Sounding voices for the HUD (levels are envelope estimates, not measured). */
+  public getVoiceMetrics(): VoiceMetrics {
+    return this.voices.metrics(this.ctx?.currentTime ?? 0);
   }
 
   private createReverseBuffer(buffer: AudioBuffer): AudioBuffer {
@@ -1695,10 +2564,12 @@ class AudioEngine {
       return revBuffer;
   }
 
-  private createReverseSlice(buffer: AudioBuffer, sliceSeconds: number): AudioBuffer {
+  /** The `sliceSeconds` leading up to `endSeconds`, reversed. */
+  private createReverseSlice(buffer: AudioBuffer, endSeconds: number, sliceSeconds: number): AudioBuffer {
       if (!this.ctx) return buffer;
-      const sliceSamples = Math.max(1, Math.min(buffer.length, Math.floor(sliceSeconds * buffer.sampleRate)));
-      const start = Math.max(0, buffer.length - sliceSamples);
+      const endSample = Math.max(1, Math.min(buffer.length, Math.round(endSeconds * buffer.sampleRate)));
+      const sliceSamples = Math.max(1, Math.min(endSample, Math.floor(sliceSeconds * buffer.sampleRate)));
+      const start = endSample - sliceSamples;
       const revBuffer = this.ctx.createBuffer(buffer.numberOfChannels, sliceSamples, buffer.sampleRate);
       for (let i = 0; i < buffer.numberOfChannels; i++) {
           const dest = revBuffer.getChannelData(i);
@@ -0,0 +1,337 @@
+import { v4 as uuidv4 } from 'uuid';
+import { joinFloat32Chunks } from '../src/audio/wav';
+import { hasIndexedDb } from '../src/storage/idb';
+import { appendTakeChunk, deleteTake, listTakes, loadTakeChunks, saveTake } from '../src/recorder/takeStore';
+import { assembleTake, peakDbOf, SILENCE_DB, type TakeChunk, type TakeFormat, type TakeMeta } from '../src/recorder/takes';
+import { audioService } from './audioEngine';
+
+const TICK_MS = 250;
+const WEBM_TIMESLICE_MS = 1000;
+const WEBM_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+
+export interface ActiveTake {
+  id: string;
+  format: TakeFormat;
+  startedAt: number; // performance.now()
+  elapsedMs: number;
+  peakDb: number;
+}
+
+export interface MasterRecorderState {
+  takes: TakeMeta[];
+  format: TakeFormat;
+  active: ActiveTake | null;
+  persistent: boolean; // false = IndexedDB unavailable, takes live until reload
+  status: string;
+}
+
+const pickWebmMimeType = () => {
+  if (typeof MediaRecorder === 'undefined') return '';
+  return WEBM_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+};
+
+type Session = {
+  take: TakeMeta;
+  startedAt: number;
+  chunkIndex: number;
+  writes: Promise<void>;
+  // WAV: PCM blocks waiting for a full second before they are written.
+  pending: Float32Array[][];
+  pendingFrames: number;
+  frames: number;
+  capturing: boolean;
+  closeTap: (() => void) | null;
+  recorder: MediaRecorder | null;
+  timer: number | null;
+};
+
+/**
+ * Records the live master (post-limiter) into takes that are written to
+ * IndexedDB about once a second, so a crash or reload keeps all but the last second.
+ */
+export const createMasterRecorder = () => {
+  let state: MasterRecorderState = { takes: [], format: 'wav', active: null, persistent: hasIndexedDb(), status: '' };
+  let session: Session | null = null;
+  let loaded: Promise<void> | null = null;
+  let starting = false;
+  const memoryChunks = new Map<string, TakeChunk[]>();
+  const listeners = new Set<() => void>();
+
+  const setState = (patch: Partial<MasterRecorderState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const upsertTake = (take: TakeMeta) => {
+    const others = state.takes.filter((t) => t.id !== take.id);
+    setState({ takes: [take, ...others].sort((a, b) => b.createdAt - a.createdAt) });
+  };
+
+  const persistChunk = async (take: TakeMeta, index: number, chunk: TakeChunk) => {
+    if (state.persistent) {
+      try {
+        await appendTakeChunk(take, index, chunk);
+        return;
+      } catch (e) {
+        console.warn('Take storage failed, keeping takes in memory.', e);
+        setState({ persistent: false, status: 'Storage full or blocked - download takes before reload' });
+      }
+    }
+    const chunks = memoryChunks.get(take.id) ?? [];
+    chunks[index] = chunk;
+    memoryChunks.set(take.id, chunks);
+  };
+
+  const persistMeta = async (take: TakeMeta) => {
+    if (!state.persistent) return;
+    try {
+      await saveTake(take);
+    } catch (e) {
+      console.warn('Failed to persist take.', e);
+    }
+  };
+
+  // A take that fell back to memory part way: pull its stored chunks in and drop the stored entry,
+  // so a reload does not bring the first part back as a recovered take.
+  const settleFallbackTake = async (id: string, chunks: TakeChunk[]) => {
+    if (!hasIndexedDb()) return;
+    try {
+      const stored = await loadTakeChunks(id);
+      stored.forEach((chunk, index) => {
+        if (chunks[index] === undefined) chunks[index] = chunk;
+      });
+      await deleteTake(id);
+    } catch (e) {
+      console.warn('Failed to settle stored take chunks.', e);
+    }
+  };
+
+  const queueChunk = (s: Session, chunk: TakeChunk) => {
+    const index = s.chunkIndex++;
+    s.take = { ...s.take, chunkCount: s.chunkIndex };
+    const take = s.take;
+    s.writes = s.writes.then(() => persistChunk(take, index, chunk));
+  };
+
+  const flushPcm = (s: Session) => {
+    if (!s.pendingFrames) return;
+    const channelCount = s.pending[0]?.length ?? 2;
+    const block = Array.from({ length: channelCount }, (_, c) => joinFloat32Chunks(s.pending.map((b) => b[c])));
+    s.pending = [];
+    s.pendingFrames = 0;
+    s.take = { ...s.take, durationMs: (s.frames / s.take.sampleRate) * 1000 };
+    queueChunk(s, block);
+  };
+
+  const load = () => {
+    if (loaded) return loaded;
+    loaded = (async () => {
+      if (!state.persistent) return;
+      try {
+        const stored = await listTakes();
+        // Anything still marked 'recording' belongs to a session that never reached stop().
+        const recovered = stored.map((take) => (take.status === 'recording' ? { ...take, status: 'recovered' as const } : take));
+        await Promise.all(recovered.filter((take, i) => take !== stored[i]).map(saveTake));
+        const count = recovered.filter((take, i) => take !== stored[i]).length;
+        setState({ takes: recovered, status: count ? `Recovered ${count} interrupted take${count > 1 ? 's' : ''}` : state.status });
+      } catch (e) {
+        console.warn('Takes unavailable.', e);
+        setState({ persistent: false });
+      }
+    })();
+    return loaded;
+  };
+
+  const start = async () => {
+    if (session || starting) return;
+    starting = true;
+    try {
+      await begin();
+    } finally {
+      starting = false;
+    }
+  };
+
+  const begin = async () => {
+    await load();
+    await audioService.init();
+    const sampleRate = audioService.getSampleRate();
+    const now = Date.now();
+    const format = state.format;
+    const mimeType = pickWebmMimeType();
+    if (format === 'webm' && !mimeType) {
+      setState({ status: 'WebM not supported here' });
+      return;
+    }
+
+    const take: TakeMeta = {
+      id: uuidv4(),
+      name: `Take ${new Date(now).toLocaleString()}`,
+      format,
+      mimeType: format === 'webm' ? mimeType : 'audio/wav',
+      sampleRate,
+      createdAt: now,
+      durationMs: 0,
+      peakDb: SILENCE_DB,
+      chunkCount: 0,
+      status: 'recording',
+    };
+    const s: Session = {
+      take,
+      startedAt: performance.now(),
+      chunkIndex: 0,
+      writes: Promise.resolve(),
+      pending: [],
+      pendingFrames: 0,
+      frames: 0,
+      capturing: true,
+      closeTap: null,
+      recorder: null,
+      timer: null,
+    };
+
+    if (format === 'wav') {
+      s.closeTap = await audioService.openMasterTap((block) => {
+        if (!s.capturing) return;
+        s.pending.push(block);
+        s.pendingFrames += block[0]?.length ?? 0;
+        s.frames += block[0]?.length ?? 0;
+        const peak = peakDbOf(block);
+        if (peak > s.take.peakDb) s.take = { ...s.take, peakDb: peak };
+        if (s.pendingFrames >= s.take.sampleRate) flushPcm(s);
+      });
+      if (!s.closeTap) {
+        setState({ status: 'WAV capture unavailable - use WebM' });
+        return;
+      }
+    } else {
+      const stream = audioService.getMasterRecordStream();
+      if (!stream) {
+        setState({ status: 'Start audio first' });
+        return;
+      }
+      const rec = new MediaRecorder(stream, { mimeType });
+      rec.ondataavailable = (ev) => {
+        if (ev.data && ev.data.size > 0) {
+          s.take = { ...s.take, durationMs: performance.now() - s.startedAt };
+          queueChunk(s, ev.data);
+        }
+      };
+      rec.start(WEBM_TIMESLICE_MS);
+      s.recorder = rec;
+    }
+
+    session = s;
+    await persistMeta(take);
+    upsertTake(take);
+    s.timer = window.setInterval(() => {
+      if (session !== s) return;
+      if (s.take.format === 'webm') {
+        const level = audioService.getMainLevel();
+        if (level > s.take.peakDb) s.take = { ...s.take, peakDb: level };
+      }
+      setState({
+        active: { id: s.take.id, format: s.take.format, startedAt: s.startedAt, elapsedMs: performance.now() - s.startedAt, peakDb: s.take.peakDb },
+      });
+    }, TICK_MS);
+    setState({
+      active: { id: take.id, format, startedAt: s.startedAt, elapsedMs: 0, peakDb: SILENCE_DB },
+      status: 'Recording',
+    });
+  };
+
+  const stop = async () => {
+    const s = session;
+    if (!s) return;
+    session = null;
+    if (s.timer) window.clearInterval(s.timer);
+
+    if (s.recorder) {
+      const rec = s.recorder;
+      await new Promise<void>((resolve) => {
+        rec.onstop = () => resolve();
+        try {
+          rec.stop();
+        } catch {
+          resolve();
+        }
+      });
+      s.take = { ...s.take, durationMs: performance.now() - s.startedAt };
+    }
+    if (s.closeTap) {
+      s.closeTap();
+      // The tap flushes its partial block asynchronously.
+      await new Promise((resolve) => window.setTimeout(resolve, 150));
+      s.capturing = false;
+      flushPcm(s);
+    }
+
+    await s.writes;
+    const take: TakeMeta = { ...s.take, status: 'done' };
+    const memory = memoryChunks.get(take.id);
+    if (memory) await settleFallbackTake(take.id, memory);
+    else await persistMeta(take);
+    upsertTake(take);
+    setState({ active: null, status: 'Take saved' });
+  };
+
+  const toggle = () => (session ? stop() : start());
+
+  const exportTake = async (id: string): Promise<Blob | null> => {
+    const take = state.takes.find((t) => t.id === id);
+    if (!take) return null;
+    const memory = memoryChunks.get(id);
+    if (!memory) return assembleTake(take, state.persistent ? await loadTakeChunks(id) : []);
+    // A take whose storage failed mid-way and could not be settled on stop still has its earlier chunks stored.
+    const chunks = [...memory];
+    if (chunks.some((chunk) => chunk === undefined) && hasIndexedDb()) {
+      try {
+        const stored = await loadTakeChunks(id);
+        stored.forEach((chunk, index) => {
+          if (chunks[index] === undefined) chunks[index] = chunk;
+        });
+      } catch (e) {
+        console.warn('Failed to read stored take chunks.', e);
+      }
+    }
+    return assembleTake(take, chunks);
+  };
+
+  const remove = async (id: string) => {
+    if (session?.take.id === id) return;
+    memoryChunks.delete(id);
+    // Also after storage failed: the chunks written before that would otherwise bring the take back on reload.
+    if (hasIndexedDb()) {
+      try {
+        await deleteTake(id);
+      } catch (e) {
+        console.warn('Failed to delete take.', e);
+      }
+    }
+    setState({ takes: state.takes.filter((t) => t.id !== id) });
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load,
+    start,
+    stop,
+    toggle,
+    setFormat: (format: TakeFormat) => {
+      if (!session) setState({ format });
+    },
+    canRecordWebm: () => Boolean(pickWebmMimeType()),
+    exportTake,
+    remove,
+  };
+};
+
+export type MasterRecorder = ReturnType<typeof createMasterRecorder>;
+
+export const masterRecorder = createMasterRecorder();
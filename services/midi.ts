@@ -0,0 +1,320 @@
+import { CLOCK_TIMEOUT_MS, createClockFollower } from '../src/midi/clock';
+import { allNotesOff, collisionMessages, parseMidiMessage, type CollisionNote } from '../src/midi/messages';
+import {
+  applyTakeover,
+  ccToControlValue,
+  createMapping,
+  loadMappingBook,
+  saveMappingBook,
+  upsertMapping,
+  type MidiMapping,
+  type MidiMappingBook,
+  type TakeoverState,
+} from '../src/midi/learn';
+import { DEFAULT_MIDI_OUT, loadMidiOutSettings, sanitizeMidiOut, saveMidiOutSettings, type MidiOutSettings } from '../src/midi/settings';
+import { audioService } from './audioEngine';
+
+export interface MidiPort {
+  id: string;
+  name: string;
+}
+
+export type MidiAccessState = 'idle' | 'pending' | 'granted' | 'denied' | 'unsupported';
+
+/** Anything MIDI-learn can drive. get/set work in normalised 0..1. */
+export interface MidiControl {
+  id: string;
+  label: string;
+  get: () => number;
+  set: (value: number) => void;
+}
+
+export interface MidiState {
+  access: MidiAccessState;
+  outputs: MidiPort[];
+  inputs: MidiPort[];
+  out: MidiOutSettings;
+  controls: { id: string; label: string }[];
+  mappings: MidiMappingBook;
+  learning: boolean;
+  armedId: string | null; // control waiting for the next CC
+  lastLearned: string | null;
+  clockBpm: number | null; // incoming MIDI clock, null while none is running
+  clockDevice: string | null;
+}
+
+const listPorts = (ports: MIDIOutputMap | MIDIInputMap): MidiPort[] =>
+  Array.from<MIDIPort>(ports.values())
+    .filter((port) => port.state !== 'disconnected')
+    .map((port) => ({ id: port.id, name: port.name || port.id }));
+
+/**
+ * Web MIDI access, the collision output and MIDI-learn input. Every engine collision
+ * becomes CC (pan/depth/doppler) + note-on on the chosen port, with a note-off after
+ * gateMs. Incoming CCs drive registered controls through per-device mappings, and
+ * incoming clock is turned into clockBpm for tempo sync.
+ */
+export const createMidiService = () => {
+  let state: MidiState = {
+    access: 'idle',
+    outputs: [],
+    inputs: [],
+    out: { ...DEFAULT_MIDI_OUT },
+    controls: [],
+    mappings: {},
+    learning: false,
+    armedId: null,
+    lastLearned: null,
+    clockBpm: null,
+    clockDevice: null,
+  };
+  let loaded = false;
+  let access: MIDIAccess | null = null;
+  let accessRequest: Promise<MIDIAccess | null> | null = null;
+  const listeners = new Set<() => void>();
+  // note -> pending note-off timer, so a retrigger restarts the gate instead of being cut short.
+  const sounding = new Map<number, number>();
+  const lastCc = new Map<number, number>();
+  const controls = new Map<string, MidiControl>();
+  // `${device}|${controlId}` -> soft takeover progress
+  const takeover = new Map<string, TakeoverState>();
+  const clock = createClockFollower();
+  let clockTimer: number | null = null;
+
+  const setState = (patch: Partial<MidiState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const getOutput = (): MIDIOutput | null => {
+    if (!access) return null;
+    const { portId } = state.out;
+    if (portId) return access.outputs.get(portId) ?? null;
+    const first = access.outputs.values().next();
+    return first.done ? null : first.value;
+  };
+
+  const releaseAll = (output: MIDIOutput | null, channel: number) => {
+    sounding.forEach((timer) => window.clearTimeout(timer));
+    sounding.clear();
+    lastCc.clear();
+    try {
+      output?.send(allNotesOff(channel));
+    } catch { /* ignore */ }
+  };
+
+  const sendCollision = (note: CollisionNote) => {
+    const output = getOutput();
+    if (!output) return;
+    const { channel, gateMs } = state.out;
+    const msg = collisionMessages(note, channel);
+    try {
+      msg.cc.forEach((cc) => {
+        if (lastCc.get(cc[1]) === cc[2]) return;
+        lastCc.set(cc[1], cc[2]);
+        output.send(cc);
+      });
+      const pending = sounding.get(msg.on[1]);
+      if (pending !== undefined) {
+        window.clearTimeout(pending);
+        output.send(msg.off);
+      }
+      output.send(msg.on);
+      sounding.set(
+        msg.on[1],
+        window.setTimeout(() => {
+          sounding.delete(msg.on[1]);
+          try {
+            output.send(msg.off);
+          } catch { /* ignore */ }
+        }, gateMs)
+      );
+    } catch (e) {
+      console.warn('MIDI send failed.', e);
+    }
+  };
+
+  const syncEngineListener = () => {
+    audioService.setNoteListener(state.out.enabled && access ? sendCollision : null);
+  };
+
+  const setMappings = (mappings: MidiMappingBook) => {
+    setState({ mappings });
+    saveMappingBook(mappings);
+  };
+
+  const handleCc = (device: string, channel: number, cc: number, value: number) => {
+    if (state.armedId) {
+      const controlId = state.armedId;
+      const list = upsertMapping(state.mappings[device] ?? [], createMapping(controlId, channel, cc));
+      takeover.delete(`${device}|${controlId}`);
+      setMappings({ ...state.mappings, [device]: list });
+      setState({ armedId: null, lastLearned: controlId });
+      return;
+    }
+    const list = state.mappings[device];
+    if (!list) return;
+    list.forEach((mapping) => {
+      if (mapping.channel !== channel || mapping.cc !== cc) return;
+      const control = controls.get(mapping.controlId);
+      if (!control) return;
+      const key = `${device}|${mapping.controlId}`;
+      const prev = takeover.get(key) ?? { engaged: false, lastSent: null, lastIncoming: null };
+      const result = applyTakeover(prev, ccToControlValue(mapping, value), control.get(), mapping.soft);
+      takeover.set(key, result.state);
+      if (result.value !== null) control.set(result.value);
+    });
+  };
+
+  const dropClock = () => {
+    clockTimer = null;
+    clock.reset();
+    setState({ clockBpm: null, clockDevice: null });
+  };
+
+  // The first device that sends clock owns it until its pulses stop.
+  const handleClock = (device: string, type: 'clock' | 'start' | 'continue' | 'stop', timeMs: number) => {
+    if (state.clockDevice && state.clockDevice !== device) return;
+    if (type === 'start') clock.reset();
+    if (type !== 'clock') return;
+    if (clockTimer !== null) window.clearTimeout(clockTimer);
+    clockTimer = window.setTimeout(dropClock, CLOCK_TIMEOUT_MS);
+    const bpm = clock.pulse(timeMs);
+    if (state.clockDevice !== device || (bpm !== null && bpm !== state.clockBpm)) {
+      setState({ clockDevice: device, clockBpm: bpm ?? state.clockBpm });
+    }
+  };
+
+  const attachInputs = () => {
+    if (!access) return;
+    access.inputs.forEach((input) => {
+      const device = input.name || input.id;
+      input.onmidimessage = (event) => {
+        if (!event.data) return;
+        const msg = parseMidiMessage(event.data);
+        if (msg.type === 'cc') handleCc(device, msg.channel, msg.controller, msg.value);
+        else if (msg.type !== 'other') handleClock(device, msg.type, event.timeStamp);
+      };
+    });
+  };
+
+  const refreshPorts = () => {
+    if (!access) return;
+    attachInputs();
+    setState({ outputs: listPorts(access.outputs), inputs: listPorts(access.inputs) });
+  };
+
+  const requestAccess = (): Promise<MIDIAccess | null> => {
+    if (accessRequest) return accessRequest;
+    if (typeof navigator === 'undefined' || typeof navigator.requestMIDIAccess !== 'function') {
+      setState({ access: 'unsupported' });
+      return Promise.resolve(null);
+    }
+    setState({ access: 'pending' });
+    accessRequest = navigator
+      .requestMIDIAccess({ sysex: false })
+      .then((granted) => {
+        access = granted;
+        granted.onstatechange = () => refreshPorts();
+        setState({ access: 'granted' });
+        refreshPorts();
+        syncEngineListener();
+        return granted;
+      })
+      .catch((e) => {
+        console.warn('MIDI access denied.', e);
+        accessRequest = null;
+        setState({ access: 'denied' });
+        return null;
+      });
+    return accessRequest;
+  };
+
+  const setOut = (patch: Partial<MidiOutSettings>) => {
+    const prev = state.out;
+    const next = sanitizeMidiOut({ ...prev, ...patch });
+    // Changing where notes go must not leave hanging notes on the old port or channel.
+    if (prev.portId !== next.portId || prev.channel !== next.channel || (prev.enabled && !next.enabled)) {
+      releaseAll(getOutput(), prev.channel);
+    }
+    setState({ out: next });
+    saveMidiOutSettings(next);
+    if (next.enabled) void requestAccess();
+    syncEngineListener();
+  };
+
+  // Settings are read after mount (server markup uses defaults); access is only
+  // re-requested when the user had MIDI out switched on.
+  const load = () => {
+    if (loaded) return;
+    loaded = true;
+    setState({ out: loadMidiOutSettings(), mappings: loadMappingBook() });
+    // Saved mappings mean a controller was in use: reconnect so it works without a click.
+    if (state.out.enabled || Object.keys(state.mappings).length) void requestAccess();
+  };
+
+  const listControls = () => Array.from(controls.values()).map(({ id, label }) => ({ id, label }));
+
+  const registerControl = (control: MidiControl) => {
+    controls.set(control.id, control);
+    setState({ controls: listControls() });
+    return () => {
+      if (controls.get(control.id) === control) {
+        controls.delete(control.id);
+        setState({ controls: listControls() });
+      }
+    };
+  };
+
+  const setLearning = (learning: boolean) => {
+    if (learning) void requestAccess();
+    setState({ learning, armedId: null, lastLearned: null });
+  };
+
+  const armControl = (controlId: string | null) => {
+    setState({ armedId: controlId, lastLearned: null });
+  };
+
+  const updateMapping = (device: string, controlId: string, patch: Partial<Omit<MidiMapping, 'controlId'>>) => {
+    const list = state.mappings[device];
+    if (!list) return;
+    takeover.delete(`${device}|${controlId}`);
+    setMappings({
+      ...state.mappings,
+      [device]: list.map((m) => (m.controlId === controlId ? { ...m, ...patch } : m)),
+    });
+  };
+
+  const removeMapping = (device: string, controlId: string) => {
+    const list = (state.mappings[device] ?? []).filter((m) => m.controlId !== controlId);
+    const next = { ...state.mappings };
+    if (list.length) next[device] = list;
+    else delete next[device];
+    takeover.delete(`${device}|${controlId}`);
+    setMappings(next);
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load,
+    requestAccess,
+    setOut,
+    registerControl,
+    setLearning,
+    armControl,
+    updateMapping,
+    removeMapping,
+    panic: () => releaseAll(getOutput(), state.out.channel),
+    sendCollision,
+  };
+};
+
+export type MidiService = ReturnType<typeof createMidiService>;
+
+export const midiService = createMidiService();
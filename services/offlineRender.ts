@@ -0,0 +1,120 @@
+import type { AudioSettings, MusicSettings, PhysicsSettings } from '../types';
+import { encodeAudioBufferWav, type WavFormat } from '../src/audio/wav';
+import { createRandomStream } from '../src/random/seeded';
+import { createRoomSimulation, DEPTH, type RoomSnapshot } from '../src/sim/roomSimulation';
+import { audioService } from './audioEngine';
+
+export const BOUNCE_SAMPLE_RATE = 48000;
+export const MAX_BOUNCE_SECONDS = 10 * 60;
+// Physics runs on render-quantum boundaries (128 frames) so every suspend lands exactly where it was asked.
+const RENDER_QUANTUM = 128;
+const TARGET_STEP_HZ = 60;
+// An empty room would bounce silence; seed a few bubbles like a handful of taps.
+const EMPTY_ROOM_BUBBLES = 8;
+
+export interface BounceRequest {
+  seconds: number;
+  format: WavFormat;
+  audio: AudioSettings;
+  physics: PhysicsSettings;
+  music: MusicSettings;
+  seed: number | null;
+  room?: RoomSnapshot | null;
+  sampleRate?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Render the session headlessly into an OfflineAudioContext and return a WAV.
+ * The physics steps at a fixed ~60 Hz on a virtual clock and feeds the same
+ * triggerSound graph as the live room (reverb, ping-pong, granular, LO-FI, EQ, dynamics).
+ * Gyro is frozen at its current manual position; AUTO drift is not simulated.
+ */
+export const renderBounce = async (request: BounceRequest): Promise<Blob> => {
+  const sampleRate = request.sampleRate ?? BOUNCE_SAMPLE_RATE;
+  const seconds = Math.max(1, Math.min(MAX_BOUNCE_SECONDS, request.seconds));
+  const totalFrames = Math.ceil(seconds * sampleRate);
+  const ctx = new OfflineAudioContext(2, totalFrames, sampleRate);
+
+  const engine = audioService.forkForOffline();
+  await engine.initOffline(ctx);
+  engine.updateSettings(request.audio);
+
+  const framesPerStep = Math.max(1, Math.round(sampleRate / TARGET_STEP_HZ / RENDER_QUANTUM)) * RENDER_QUANTUM;
+  const stepSec = framesPerStep / sampleRate;
+  const stepMs = stepSec * 1000;
+  const tempo = Math.max(0.1, request.physics.tempo || 0);
+  const width = request.room?.width || 1000;
+  const height = request.room?.height || 1000;
+
+  let nowMs = 0;
+  const random = createRandomStream(request.seed, 'physics');
+  const sim = createRoomSimulation({
+    random,
+    now: () => nowMs,
+    assignSource: (context) => engine.assignSourceToBubble(context),
+    onSound: (event) => {
+      engine.triggerSound(
+        event.sizeFactor,
+        request.audio.baseFrequency,
+        event.pan, event.depth, event.height, event.velocityZ,
+        event.doppler, event.isReverse, event.volume,
+        request.music,
+        undefined,
+        event.source,
+        event.features,
+        event.kind,
+        event.role
+      );
+    },
+  });
+
+  if (request.room?.bubbles.length) {
+    sim.restore(request.room.bubbles);
+  } else {
+    for (let i = 0; i < EMPTY_ROOM_BUBBLES; i++) {
+      sim.spawnBubble(width * (0.2 + random() * 0.6), height * (0.2 + random() * 0.6), random() * DEPTH * 0.5);
+    }
+  }
+
+  let frameId = 0;
+  const runStep = () => {
+    frameId += 1;
+    sim.step({
+      physics: request.physics,
+      width,
+      height,
+      nowMs,
+      time: nowMs * 0.002 * tempo,
+      frameId,
+      bank: engine.getBankSnapshot(),
+      poolSize: engine.getActivePoolSize(),
+      running: true,
+    });
+  };
+
+  // Chain one suspend per step: each handler advances physics, queues the next stop, then resumes.
+  const scheduleFrom = (stepIndex: number) => {
+    const at = stepIndex * stepSec;
+    if (at * sampleRate >= totalFrames) return;
+    ctx.suspend(at).then(() => {
+      nowMs = stepIndex * stepMs;
+      runStep();
+      request.onProgress?.(Math.min(1, at / seconds));
+      scheduleFrom(stepIndex + 1);
+      void ctx.resume();
+    }).catch((err) => {
+      console.warn('Bounce step failed:', err);
+      void ctx.resume();
+    });
+  };
+  scheduleFrom(0);
+
+  try {
+    const rendered = await ctx.startRendering();
+    request.onProgress?.(1);
+    return encodeAudioBufferWav(rendered, request.format);
+  } finally {
+    engine.dispose();
+  }
+};
@@ -0,0 +1,394 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SampleBankId } from '../types';
+import { encodeAudioBufferWav } from '../src/audio/wav';
+import { hasIndexedDb } from '../src/storage/idb';
+import { createZip, readZip } from '../src/storage/zip';
+import {
+  deleteKit,
+  deleteLibrarySample,
+  listLibrary,
+  loadLibraryFile,
+  saveKit as storeKit,
+  saveLibrarySample,
+  updateLibrarySample,
+} from '../src/library/libraryStore';
+import {
+  buildLibraryArchive,
+  IMPULSE_TAG,
+  isQuotaError,
+  KIT_SLOTS,
+  kitSlotBank,
+  kitSlotIndex,
+  kitSlotLabel,
+  kitSlotsInLayout,
+  MAX_LIBRARY_SAMPLE_SECONDS,
+  parseLibraryArchive,
+  sampleNameFromFile,
+  type KitSlot,
+  type LibrarySample,
+  type SampleKit,
+} from '../src/library/sampleLibrary';
+import { audioService } from './audioEngine';
+
+export interface SampleLibraryState {
+  samples: LibrarySample[];
+  kits: SampleKit[];
+  persistent: boolean; // false = IndexedDB unavailable, the library lasts until reload
+  busy: boolean;
+  status: string;
+  usage: { used: number; quota: number } | null;
+}
+
+const STORAGE_FULL = 'Storage full - delete samples or export a zip';
+
+/**
+ * Named samples and kits of both full banks kept in IndexedDB, so recorded and imported
+ * sounds survive a reload. Files are stored as loaded; bank slots are saved as WAV.
+ */
+export const createSampleLibrary = () => {
+  let state: SampleLibraryState = { samples: [], kits: [], persistent: hasIndexedDb(), busy: false, status: '', usage: null };
+  let loaded: Promise<void> | null = null;
+  const memoryFiles = new Map<string, Blob>();
+  // Which library sample a bank slot was filled from; a kit save reuses it while the buffer is unchanged.
+  const origins = new Map<string, { buffer: AudioBuffer; sampleId: string }>();
+  const listeners = new Set<() => void>();
+
+  const setState = (patch: Partial<SampleLibraryState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const refreshUsage = async () => {
+    if (!state.persistent || typeof navigator === 'undefined' || !navigator.storage?.estimate) return;
+    try {
+      const estimate = await navigator.storage.estimate();
+      setState({ usage: { used: estimate.usage ?? 0, quota: estimate.quota ?? 0 } });
+    } catch {
+      /* estimates are best effort */
+    }
+  };
+
+  const load = () => {
+    if (loaded) return loaded;
+    loaded = (async () => {
+      if (!state.persistent) return;
+      try {
+        const stored = await listLibrary();
+        // Kits saved before the banks grew keep their six-slot layout in storage.
+        const kits = stored.kits.map((kit) => ({ ...kit, slots: kitSlotsInLayout(kit.slots) }));
+        setState({ samples: stored.samples, kits });
+        await refreshUsage();
+      } catch (e) {
+        console.warn('Sample library unavailable.', e);
+        setState({ persistent: false });
+      }
+    })();
+    return loaded;
+  };
+
+  /** False when the browser is out of space; any other failure drops the library to memory. */
+  const persistSample = async (sample: LibrarySample, file: Blob): Promise<boolean> => {
+    if (state.persistent) {
+      try {
+        await saveLibrarySample(sample, file);
+        // Ask once the library holds something worth keeping; browsers may still say no.
+        if (!state.samples.length) void navigator.storage?.persist?.();
+        return true;
+      } catch (e) {
+        if (isQuotaError(e)) return false;
+        console.warn('Library storage failed, keeping samples in memory.', e);
+        setState({ persistent: false });
+      }
+    }
+    memoryFiles.set(sample.id, file);
+    return true;
+  };
+
+  const persistKit = async (kit: SampleKit): Promise<boolean> => {
+    if (!state.persistent) return true;
+    try {
+      await storeKit(kit);
+      return true;
+    } catch (e) {
+      if (isQuotaError(e)) return false;
+      console.warn('Failed to save kit.', e);
+      setState({ persistent: false });
+      return true;
+    }
+  };
+
+  const readFile = async (sampleId: string): Promise<Blob | null> => {
+    if (memoryFiles.has(sampleId)) return memoryFiles.get(sampleId)!;
+    if (!state.persistent) return null;
+    try {
+      return await loadLibraryFile(sampleId);
+    } catch (e) {
+      console.warn('Failed to read library sample.', e);
+      return null;
+    }
+  };
+
+  const addSample = async (sample: LibrarySample, file: Blob): Promise<boolean> => {
+    if (!(await persistSample(sample, file))) return false;
+    setState({ samples: [sample, ...state.samples.filter((s) => s.id !== sample.id)] });
+    return true;
+  };
+
+  const run = async (task: () => Promise<string>) => {
+    if (state.busy) return;
+    setState({ busy: true });
+    try {
+      setState({ status: await task() });
+    } catch (e) {
+      console.warn('Sample library action failed.', e);
+      setState({ status: isQuotaError(e) ? STORAGE_FULL : e instanceof Error ? e.message : 'Library action failed' });
+    } finally {
+      setState({ busy: false });
+      void refreshUsage();
+    }
+  };
+
+  const importFiles = (files: File[], tags: string[] = []) =>
+    run(async () => {
+      const notes: string[] = [];
+      let added = 0;
+      for (const file of files) {
+        const buffer = await audioService.decodeSampleBlob(file);
+        if (!buffer) {
+          notes.push(`${file.name}: not audio`);
+          continue;
+        }
+        if (buffer.duration > MAX_LIBRARY_SAMPLE_SECONDS) {
+          notes.push(`${file.name}: longer than ${MAX_LIBRARY_SAMPLE_SECONDS}s`);
+          continue;
+        }
+        const sample: LibrarySample = {
+          id: uuidv4(),
+          name: sampleNameFromFile(file.name),
+          tags,
+          duration: buffer.duration,
+          sampleRate: buffer.sampleRate,
+          mimeType: file.type || 'application/octet-stream',
+          size: file.size,
+          createdAt: Date.now(),
+        };
+        if (!(await addSample(sample, file))) {
+          notes.push(STORAGE_FULL);
+          break;
+        }
+        added += 1;
+      }
+      return [`Added ${added} sample${added === 1 ? '' : 's'}`, ...notes].join('; ');
+    });
+
+  /** Store one impulse response, tagged as an IR; resolves to the stored sample, or null when it was refused. */
+  const importImpulse = async (file: File): Promise<LibrarySample | null> => {
+    let imported: LibrarySample | null = null;
+    await run(async () => {
+      const buffer = await audioService.decodeSampleBlob(file);
+      if (!buffer) return `${file.name}: not audio`;
+      if (buffer.duration > MAX_LIBRARY_SAMPLE_SECONDS) return `${file.name}: longer than ${MAX_LIBRARY_SAMPLE_SECONDS}s`;
+      const sample: LibrarySample = {
+        id: uuidv4(),
+        name: sampleNameFromFile(file.name),
+        tags: [IMPULSE_TAG],
+        duration: buffer.duration,
+        sampleRate: buffer.sampleRate,
+        mimeType: file.type || 'application/octet-stream',
+        size: file.size,
+        createdAt: Date.now(),
+      };
+      if (!(await addSample(sample, file))) return STORAGE_FULL;
+      audioService.setUserImpulse(sample.id, buffer);
+      imported = sample;
+      return `Added IR ${sample.name}`;
+    });
+    return imported;
+  };
+
+  /** Decode a stored IR into the reverb; false when the library no longer has it. */
+  const loadImpulse = async (sampleId: string): Promise<boolean> => {
+    await load();
+    const file = await readFile(sampleId);
+    const buffer = file ? await audioService.decodeSampleBlob(file) : null;
+    if (!buffer) return false;
+    audioService.setUserImpulse(sampleId, buffer);
+    return true;
+  };
+
+  /** Library id for what a bank slot holds now, storing it as WAV unless it came from the library unchanged. */
+  const captureSlot = async (bank: SampleBankId, index: number, name: string): Promise<string | null> => {
+    const slot = audioService.getSampleSlot(bank, index);
+    if (!slot) return null;
+    const key = `${bank}:${index}`;
+    const origin = origins.get(key);
+    if (origin && origin.buffer === slot.buffer && state.samples.some((s) => s.id === origin.sampleId)) return origin.sampleId;
+    const file = encodeAudioBufferWav(slot.buffer);
+    const sample: LibrarySample = {
+      id: uuidv4(),
+      name,
+      tags: [bank],
+      duration: slot.buffer.duration,
+      sampleRate: slot.buffer.sampleRate,
+      mimeType: 'audio/wav',
+      size: file.size,
+      createdAt: Date.now(),
+    };
+    if (!(await addSample(sample, file))) throw new DOMException(STORAGE_FULL, 'QuotaExceededError');
+    origins.set(key, { buffer: slot.buffer, sampleId: sample.id });
+    return sample.id;
+  };
+
+  const saveSlot = (bank: SampleBankId, index: number) =>
+    run(async () => {
+      const label = kitSlotLabel(kitSlotIndex(bank, index));
+      const id = await captureSlot(bank, index, `${label} ${new Date().toLocaleString()}`);
+      if (!id) return `${label} is empty`;
+      return `Saved ${label} as ${state.samples.find((s) => s.id === id)?.name ?? 'sample'}`;
+    });
+
+  const placeSample = async (sampleId: string, bank: SampleBankId, index: number, settings: KitSlot['settings']) => {
+    const file = await readFile(sampleId);
+    const buffer = file ? await audioService.decodeSampleBlob(file) : null;
+    if (!buffer) return false;
+    audioService.setBankBuffer(bank, index, buffer, settings);
+    origins.set(`${bank}:${index}`, { buffer, sampleId });
+    return true;
+  };
+
+  const loadIntoSlot = (sampleId: string, bank: SampleBankId, index: number) =>
+    run(async () => {
+      const label = kitSlotLabel(kitSlotIndex(bank, index));
+      const name = state.samples.find((s) => s.id === sampleId)?.name ?? 'sample';
+      return (await placeSample(sampleId, bank, index, null)) ? `Loaded ${name} into ${label}` : `Could not load ${name}`;
+    });
+
+  const updateSample = async (sampleId: string, patch: Partial<Pick<LibrarySample, 'name' | 'tags'>>) => {
+    const current = state.samples.find((s) => s.id === sampleId);
+    if (!current) return;
+    const next = { ...current, ...patch };
+    setState({ samples: state.samples.map((s) => (s.id === sampleId ? next : s)) });
+    if (!state.persistent) return;
+    try {
+      await updateLibrarySample(next);
+    } catch (e) {
+      console.warn('Failed to update library sample.', e);
+    }
+  };
+
+  const removeSample = async (sampleId: string) => {
+    memoryFiles.delete(sampleId);
+    if (state.persistent) {
+      try {
+        await deleteLibrarySample(sampleId);
+      } catch (e) {
+        console.warn('Failed to delete library sample.', e);
+      }
+    }
+    setState({ samples: state.samples.filter((s) => s.id !== sampleId) });
+    void refreshUsage();
+  };
+
+  const saveKit = (name: string) =>
+    run(async () => {
+      const kitName = name.trim() || `Kit ${state.kits.length + 1}`;
+      const slots: (KitSlot | null)[] = [];
+      for (let slot = 0; slot < KIT_SLOTS; slot++) {
+        const { bank, index } = kitSlotBank(slot);
+        const current = audioService.getSampleSlot(bank, index);
+        const sampleId = current ? await captureSlot(bank, index, `${kitName} ${kitSlotLabel(slot)}`) : null;
+        slots.push(sampleId && current ? { sampleId, settings: current.settings } : null);
+      }
+      if (slots.every((slot) => slot === null)) return 'Banks are empty - nothing to save';
+      const kit: SampleKit = { id: uuidv4(), name: kitName, createdAt: Date.now(), slots };
+      if (!(await persistKit(kit))) return STORAGE_FULL;
+      setState({ kits: [kit, ...state.kits] });
+      return `Saved kit ${kit.name}`;
+    });
+
+  /** Fill every slot of both banks from a kit in one go; slots the kit leaves empty are cleared. */
+  const loadKit = (kitId: string) =>
+    run(async () => {
+      const kit = state.kits.find((k) => k.id === kitId);
+      if (!kit) return 'Kit not found';
+      let missing = 0;
+      for (let slot = 0; slot < KIT_SLOTS; slot++) {
+        const { bank, index } = kitSlotBank(slot);
+        const entry = kit.slots[slot];
+        if (entry && (await placeSample(entry.sampleId, bank, index, entry.settings))) continue;
+        if (entry) missing += 1;
+        if (bank === 'mic') audioService.clearMicSlot(index);
+        else audioService.clearSampleSlot(index);
+        origins.delete(`${bank}:${index}`);
+      }
+      return `Loaded kit ${kit.name}${missing ? ` (${missing} sample${missing > 1 ? 's' : ''} missing)` : ''}`;
+    });
+
+  const removeKit = async (kitId: string) => {
+    if (state.persistent) {
+      try {
+        await deleteKit(kitId);
+      } catch (e) {
+        console.warn('Failed to delete kit.', e);
+      }
+    }
+    setState({ kits: state.kits.filter((k) => k.id !== kitId) });
+  };
+
+  const exportZip = async (): Promise<Blob> => {
+    const files = new Map<string, Uint8Array>();
+    for (const sample of state.samples) {
+      const file = await readFile(sample.id);
+      if (file) files.set(sample.id, new Uint8Array(await file.arrayBuffer()));
+    }
+    return createZip(buildLibraryArchive(state.samples, files, state.kits));
+  };
+
+  const importZip = (file: File) =>
+    run(async () => {
+      const archive = parseLibraryArchive(await readZip(await file.arrayBuffer()));
+      let added = 0;
+      for (const { sample, data } of archive.samples) {
+        if (state.samples.some((s) => s.id === sample.id)) continue;
+        if (!(await addSample(sample, new Blob([data as BlobPart], { type: sample.mimeType })))) {
+          return `${STORAGE_FULL} (${added} imported)`;
+        }
+        added += 1;
+      }
+      let kits = 0;
+      for (const kit of archive.kits) {
+        if (!(await persistKit(kit))) return `${STORAGE_FULL} (${added} samples imported)`;
+        setState({ kits: [kit, ...state.kits.filter((k) => k.id !== kit.id)] });
+        kits += 1;
+      }
+      return `Imported ${added} sample${added === 1 ? '' : 's'} and ${kits} kit${kits === 1 ? '' : 's'}`;
+    });
+
+  return {
+    getState: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load,
+    importFiles,
+    saveSlot,
+    loadIntoSlot,
+    importImpulse,
+    loadImpulse,
+    renameSample: (sampleId: string, name: string) => updateSample(sampleId, { name: name.trim() || 'Sample' }),
+    setSampleTags: (sampleId: string, tags: string[]) => updateSample(sampleId, { tags }),
+    removeSample,
+    saveKit,
+    loadKit,
+    removeKit,
+    exportZip,
+    importZip,
+  };
+};
+
+export type SampleLibrary = ReturnType<typeof createSampleLibrary>;
+
+export const sampleLibrary = createSampleLibrary();
@@ -0,0 +1,153 @@
+import type {
+  AuxBusId,
+  AuxFxBusId,
+  AuxReturnSettings,
+  AuxSend,
+  AuxSendSource,
+  AuxSettings,
+  InsertEffectId,
+  SoundRole,
+} from '../../types';
+import { disconnectAll } from './engines/types';
+import { getInsertEffect, INSERT_EFFECTS, resolveEffectParams } from './effects/registry';
+import { glide, type InsertUnit } from './effects/types';
+import { SOUND_ROLES } from './roles';
+
+export const AUX_BUSES: { id: AuxBusId; label: string }[] = [
+  { id: 'reverb', label: 'Reverb' },
+  { id: 'delay', label: 'Delay' },
+  { id: 'fxA', label: 'FX A' },
+  { id: 'fxB', label: 'FX B' },
+];
+
+export const AUX_FX_BUSES: AuxFxBusId[] = ['fxA', 'fxB'];
+
+export const AUX_SEND_SOURCES: { id: AuxSendSource; label: string }[] = [
+  { id: 'fixed', label: 'Fixed' },
+  { id: 'depth', label: 'Depth' },
+  { id: 'size', label: 'Size' },
+];
+
+// A return runs its effect fully wet, so only effects that have a wet side of their own qualify.
+export const AUX_EFFECTS = INSERT_EFFECTS.filter((effect) => effect.params.some((param) => param.id === 'mix'));
+
+// A replaced return glides out with the params and is dropped once it is silent.
+const SWAP_DISPOSE_MS = 300;
+
+export const isAuxSendSource = (value: unknown): value is AuxSendSource =>
+  AUX_SEND_SOURCES.some((source) => source.id === value);
+
+export const isAuxEffect = (value: unknown): value is InsertEffectId => AUX_EFFECTS.some((effect) => effect.id === value);
+
+const fullRoles = (): Record<SoundRole, number> =>
+  Object.fromEntries(SOUND_ROLES.map((role) => [role.id, 1])) as Record<SoundRole, number>;
+
+const send = (source: AuxSendSource, low: number, high: number, curve = 0): AuxSend => ({
+  source,
+  low,
+  high,
+  curve,
+  roles: fullRoles(),
+});
+
+/**
+ * Far hits sink into the reverb and small ones (fragments, shatters) trail into the
+ * delay; the two effect returns start silent.
+ */
+export const defaultAuxSettings = (): AuxSettings => ({
+  sends: {
+    reverb: send('depth', 0.45, 1, -0.3),
+    delay: send('size', 1, 0.3),
+    fxA: send('fixed', 0, 0),
+    fxB: send('fixed', 0, 0),
+  },
+  returns: {
+    fxA: { effect: 'chorus', level: 0.8 },
+    fxB: { effect: 'shimmer', level: 0.8 },
+  },
+});
+
+/** Every hit at full level into the reverb and the delay: the fixed sends scenes had before the buses. */
+export const legacyAuxSettings = (): AuxSettings => {
+  const settings = defaultAuxSettings();
+  return { ...settings, sends: { ...settings.sends, reverb: send('fixed', 1, 1), delay: send('fixed', 1, 1) } };
+};
+
+export type AuxHit = {
+  depth: number; // 0 (at the listener) to 1 (the far end of the room)
+  size: number; // radius / 180, 0-1
+  role?: SoundRole;
+};
+
+/** How much of one hit goes to a bus: the curve between low and high at the source's reading, times the role trim. */
+export const auxSendLevel = (settings: AuxSend, hit: AuxHit): number => {
+  const reading = settings.source === 'depth' ? hit.depth : settings.source === 'size' ? hit.size : 1;
+  const x = Math.max(0, Math.min(1, Number.isFinite(reading) ? reading : 0));
+  const shaped = Math.pow(x, Math.pow(3, settings.curve));
+  const trim = hit.role ? settings.roles[hit.role] : 1;
+  return Math.max(0, Math.min(1, (settings.low + (settings.high - settings.low) * shaped) * trim));
+};
+
+export type AuxReturnBus = {
+  input: GainNode;
+  setReturn: (settings: AuxReturnSettings) => void;
+  dispose: () => void;
+};
+
+type LiveReturn = { effect: InsertEffectId; unit: InsertUnit; level: GainNode };
+
+/** One effect return: `input` through the effect, fully wet, into `output` at the return level. */
+export const createAuxReturn = (ctx: BaseAudioContext, output: AudioNode): AuxReturnBus => {
+  const input = ctx.createGain();
+  let current: LiveReturn | null = null;
+  const fading = new Map<LiveReturn, ReturnType<typeof setTimeout>>();
+
+  const disposeReturn = (live: LiveReturn) => {
+    try {
+      input.disconnect(live.unit.input);
+    } catch { /* ignore */ }
+    live.unit.dispose();
+    disconnectAll([live.level]);
+  };
+
+  const start = (effect: InsertEffectId): LiveReturn => {
+    const definition = getInsertEffect(effect);
+    const unit = definition.create(ctx);
+    unit.setParams(resolveEffectParams(definition, { mix: 1 }));
+    const level = ctx.createGain();
+    level.gain.value = 0;
+    input.connect(unit.input);
+    unit.output.connect(level).connect(output);
+    return { effect, unit, level };
+  };
+
+  const setReturn = (settings: AuxReturnSettings) => {
+    if (current && current.effect !== settings.effect) {
+      const old = current;
+      glide(old.level.gain, 0, ctx);
+      fading.set(
+        old,
+        setTimeout(() => {
+          fading.delete(old);
+          disposeReturn(old);
+        }, SWAP_DISPOSE_MS)
+      );
+      current = null;
+    }
+    if (!current) current = start(settings.effect);
+    glide(current.level.gain, settings.level, ctx);
+  };
+
+  const dispose = () => {
+    fading.forEach((timer, live) => {
+      clearTimeout(timer);
+      disposeReturn(live);
+    });
+    fading.clear();
+    if (current) disposeReturn(current);
+    current = null;
+    disconnectAll([input]);
+  };
+
+  return { input, setReturn, dispose };
+};
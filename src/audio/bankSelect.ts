@@ -0,0 +1,93 @@
+import type { BankSelectMode, BankSettings, SampleBankId, SlotRule, SlotZone } from '../../types';
+
+export const MAX_BANK_SLOTS = 12;
+export const DEFAULT_BANK_SLOTS = 6;
+export const BANK_SLOT_RANGE: [number, number] = [1, MAX_BANK_SLOTS];
+export const SLOT_WEIGHT_RANGE: [number, number] = [0, 4];
+
+export const BANK_SELECT_MODES: { id: BankSelectMode; label: string }[] = [
+  { id: 'cycle', label: 'Cycle' },
+  { id: 'roundRobin', label: 'Round robin' },
+  { id: 'random', label: 'Random' },
+  { id: 'weighted', label: 'Weighted' },
+  { id: 'zone', label: 'By zone' },
+];
+
+export const SLOT_ZONES: { id: SlotZone; label: string }[] = [
+  { id: 'any', label: 'Any' },
+  { id: 'front', label: 'Front' },
+  { id: 'back', label: 'Back' },
+  { id: 'left', label: 'Left' },
+  { id: 'right', label: 'Right' },
+];
+
+/** Where and how big a bubble is when it gets or plays a source. */
+export interface SourceContext {
+  size: number; // radius / 180, 0-1
+  pan: number; // -1 left to 1 right
+  depth: number; // 0 front to 1 back
+}
+
+export const defaultSlotRule = (): SlotRule => ({ weight: 1, minSize: 0, maxSize: 1, zone: 'any' });
+
+/** Six slots a bank, every slot equal, the shuffled cycle: the banks as they always were. */
+export const defaultBankSettings = (): BankSettings => ({
+  micSlots: DEFAULT_BANK_SLOTS,
+  smpSlots: DEFAULT_BANK_SLOTS,
+  mode: 'cycle',
+  synthWeight: 1,
+  rules: {
+    mic: Array.from({ length: MAX_BANK_SLOTS }, defaultSlotRule),
+    smp: Array.from({ length: MAX_BANK_SLOTS }, defaultSlotRule),
+  },
+});
+
+export const isBankSelectMode = (value: unknown): value is BankSelectMode =>
+  BANK_SELECT_MODES.some((mode) => mode.id === value);
+
+export const isSlotZone = (value: unknown): value is SlotZone =>
+  SLOT_ZONES.some((zone) => zone.id === value);
+
+export const bankSlotCount = (settings: BankSettings, bank: SampleBankId) =>
+  bank === 'mic' ? settings.micSlots : settings.smpSlots;
+
+export const zoneAllows = (zone: SlotZone, context: SourceContext) => {
+  switch (zone) {
+    case 'front':
+      return context.depth < 0.5;
+    case 'back':
+      return context.depth >= 0.5;
+    case 'left':
+      return context.pan < 0;
+    case 'right':
+      return context.pan >= 0;
+    default:
+      return true;
+  }
+};
+
+/** A slot with weight may play; with a context it also has to fit the bubble's size and place. */
+export const ruleAllows = (rule: SlotRule, context?: SourceContext) => {
+  if (rule.weight <= 0) return false;
+  if (!context) return true;
+  return context.size >= rule.minSize && context.size <= rule.maxSize && zoneAllows(rule.zone, context);
+};
+
+/** One of the candidates with odds in proportion to its weight. */
+export const pickWeighted = <T>(candidates: { choice: T; weight: number }[], random: () => number): T | null => {
+  const total = candidates.reduce((sum, candidate) => sum + Math.max(0, candidate.weight), 0);
+  if (total <= 0) return null;
+  let roll = random() * total;
+  for (const candidate of candidates) {
+    roll -= Math.max(0, candidate.weight);
+    if (roll < 0) return candidate.choice;
+  }
+  return candidates[candidates.length - 1].choice;
+};
+
+/** The room's width split into one strip per candidate, left to right in slot order. */
+export const pickByZone = <T>(candidates: T[], context: SourceContext): T | null => {
+  if (!candidates.length) return null;
+  const position = Math.max(0, Math.min(1, (context.pan + 1) / 2));
+  return candidates[Math.min(candidates.length - 1, Math.floor(position * candidates.length))];
+};
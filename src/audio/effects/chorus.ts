@@ -0,0 +1,49 @@
+import { disconnectAll, stopAll } from '../engines/types';
+import { createLfo, createMix, glide, type InsertEffect } from './types';
+
+/** Two short delays swept in opposite directions, one per side, so the copy spreads as it detunes. */
+export const chorusEffect: InsertEffect = {
+  id: 'chorus',
+  label: 'Chorus',
+  params: [
+    { id: 'rate', label: 'Rate', min: 0.1, max: 5, default: 0.8, unit: 'Hz' },
+    { id: 'depth', label: 'Depth', min: 0, max: 1, default: 0.5 },
+    { id: 'mix', label: 'Mix', min: 0, max: 1, default: 0.5 },
+  ],
+  create: (ctx) => {
+    const input = ctx.createGain();
+    const { dry, wet, output, setMix } = createMix(ctx, input);
+    const splitter = ctx.createChannelSplitter(2);
+    const merger = ctx.createChannelMerger(2);
+    const left = ctx.createDelay(0.05);
+    const right = ctx.createDelay(0.05);
+    left.delayTime.value = 0.015;
+    right.delayTime.value = 0.018;
+    const lfo = createLfo(ctx);
+    const invert = ctx.createGain();
+    invert.gain.value = -1;
+    lfo.depth.connect(left.delayTime);
+    lfo.depth.connect(invert).connect(right.delayTime);
+
+    input.connect(splitter);
+    splitter.connect(left, 0);
+    splitter.connect(right, 1);
+    left.connect(merger, 0, 0);
+    right.connect(merger, 0, 1);
+    merger.connect(wet);
+
+    return {
+      input,
+      output,
+      setParams: (params) => {
+        glide(lfo.osc.frequency, params.rate, ctx);
+        glide(lfo.depth.gain, params.depth * 0.006, ctx);
+        setMix(params.mix);
+      },
+      dispose: () => {
+        stopAll([lfo.osc], 0);
+        disconnectAll([input, dry, wet, output, splitter, merger, left, right, lfo.osc, lfo.depth, invert]);
+      },
+    };
+  },
+};
@@ -0,0 +1,30 @@
+import { disconnectAll } from '../engines/types';
+import { glide, type InsertEffect } from './types';
+
+const FILTER_TYPES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass'];
+
+/** Cutoff knob position (0-1) to Hz along the ear's log scale, 20 Hz to 20 kHz. */
+export const filterCutoffHz = (cutoff: number) => 20 * Math.pow(1000, Math.max(0, Math.min(1, cutoff)));
+
+export const filterEffect: InsertEffect = {
+  id: 'filter',
+  label: 'Filter',
+  params: [
+    { id: 'mode', label: 'Mode', min: 0, max: 2, default: 0, options: ['LP', 'HP', 'BP'] },
+    { id: 'cutoff', label: 'Cutoff', min: 0, max: 1, default: 0.75, format: (v) => `${Math.round(filterCutoffHz(v))} Hz` },
+    { id: 'resonance', label: 'Reso', min: 0.5, max: 15, default: 0.7 },
+  ],
+  create: (ctx) => {
+    const filter = ctx.createBiquadFilter();
+    return {
+      input: filter,
+      output: filter,
+      setParams: (params) => {
+        filter.type = FILTER_TYPES[Math.round(params.mode)] ?? 'lowpass';
+        glide(filter.frequency, filterCutoffHz(params.cutoff), ctx);
+        glide(filter.Q, params.resonance, ctx);
+      },
+      dispose: () => disconnectAll([filter]),
+    };
+  },
+};
@@ -0,0 +1,43 @@
+import { disconnectAll, stopAll } from '../engines/types';
+import { createLfo, createMix, glide, type InsertEffect } from './types';
+
+/** A very short swept delay fed back into itself: the jet sweep of comb notches. */
+export const flangerEffect: InsertEffect = {
+  id: 'flanger',
+  label: 'Flanger',
+  params: [
+    { id: 'rate', label: 'Rate', min: 0.05, max: 2, default: 0.25, unit: 'Hz' },
+    { id: 'depth', label: 'Depth', min: 0, max: 1, default: 0.7 },
+    { id: 'feedback', label: 'Feedback', min: 0, max: 0.9, default: 0.5 },
+    { id: 'mix', label: 'Mix', min: 0, max: 1, default: 0.5 },
+  ],
+  create: (ctx) => {
+    const input = ctx.createGain();
+    const { dry, wet, output, setMix } = createMix(ctx, input);
+    const delay = ctx.createDelay(0.02);
+    delay.delayTime.value = 0.003;
+    const feedback = ctx.createGain();
+    feedback.gain.value = 0;
+    const lfo = createLfo(ctx);
+    lfo.depth.connect(delay.delayTime);
+
+    input.connect(delay);
+    delay.connect(feedback).connect(delay);
+    delay.connect(wet);
+
+    return {
+      input,
+      output,
+      setParams: (params) => {
+        glide(lfo.osc.frequency, params.rate, ctx);
+        glide(lfo.depth.gain, params.depth * 0.0025, ctx);
+        glide(feedback.gain, params.feedback, ctx);
+        setMix(params.mix);
+      },
+      dispose: () => {
+        stopAll([lfo.osc], 0);
+        disconnectAll([input, dry, wet, output, delay, feedback, lfo.osc, lfo.depth]);
+      },
+    };
+  },
+};
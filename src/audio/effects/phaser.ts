@@ -0,0 +1,53 @@
+import { disconnectAll, stopAll } from '../engines/types';
+import { createLfo, createMix, glide, type InsertEffect } from './types';
+
+const STAGES = 4;
+const CENTRE_HZ = 800;
+
+/** Four all-pass stages swept together; mixed with the dry signal they cut moving notches. */
+export const phaserEffect: InsertEffect = {
+  id: 'phaser',
+  label: 'Phaser',
+  params: [
+    { id: 'rate', label: 'Rate', min: 0.05, max: 4, default: 0.5, unit: 'Hz' },
+    { id: 'depth', label: 'Depth', min: 0, max: 1, default: 0.7 },
+    { id: 'feedback', label: 'Feedback', min: 0, max: 0.9, default: 0.4 },
+    { id: 'mix', label: 'Mix', min: 0, max: 1, default: 0.5 },
+  ],
+  create: (ctx) => {
+    const input = ctx.createGain();
+    const { dry, wet, output, setMix } = createMix(ctx, input);
+    const lfo = createLfo(ctx);
+    const stages = Array.from({ length: STAGES }, () => {
+      const stage = ctx.createBiquadFilter();
+      stage.type = 'allpass';
+      stage.frequency.value = CENTRE_HZ;
+      stage.Q.value = 0.5;
+      lfo.depth.connect(stage.frequency);
+      return stage;
+    });
+    const feedback = ctx.createGain();
+    feedback.gain.value = 0;
+
+    input.connect(stages[0]);
+    for (let i = 1; i < STAGES; i++) stages[i - 1].connect(stages[i]);
+    const last = stages[STAGES - 1];
+    last.connect(feedback).connect(stages[0]);
+    last.connect(wet);
+
+    return {
+      input,
+      output,
+      setParams: (params) => {
+        glide(lfo.osc.frequency, params.rate, ctx);
+        glide(lfo.depth.gain, params.depth * (CENTRE_HZ - 100), ctx);
+        glide(feedback.gain, params.feedback, ctx);
+        setMix(params.mix);
+      },
+      dispose: () => {
+        stopAll([lfo.osc], 0);
+        disconnectAll([input, dry, wet, output, feedback, lfo.osc, lfo.depth, ...stages]);
+      },
+    };
+  },
+};
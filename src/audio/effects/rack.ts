@@ -0,0 +1,180 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { FxRackSettings, InsertEffectId, InsertSlot } from '../../../types';
+import { disconnectAll } from '../engines/types';
+import { getInsertEffect, resolveEffectParams } from './registry';
+import type { InsertUnit } from './types';
+
+export const MAX_INSERT_SLOTS = 8;
+// Bypass crossfade, and the dip that hides the switch when the chain is rewired.
+const BYPASS_FADE_SECONDS = 0.02;
+const REWIRE_DIP_MS = 25;
+
+export const defaultFxRackSettings = (): FxRackSettings => ({ slots: [] });
+
+export const createInsertSlot = (effect: InsertEffectId): InsertSlot => ({
+  id: uuidv4(),
+  effect,
+  bypass: false,
+  params: resolveEffectParams(getInsertEffect(effect), undefined),
+});
+
+/** The slots with one moved from `from` to `to` (both indices in the original list). */
+export const moveInsertSlot = (slots: InsertSlot[], from: number, to: number): InsertSlot[] => {
+  if (from === to || from < 0 || from >= slots.length) return slots;
+  const next = [...slots];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(next.length, to)), 0, moved);
+  return next;
+};
+
+type LiveSlot = {
+  effect: InsertEffectId;
+  unit: InsertUnit;
+  input: GainNode;
+  dry: GainNode;
+  wet: GainNode;
+  output: GainNode;
+  bypass: boolean | null;
+};
+
+export type FxRack = {
+  setSlots: (slots: InsertSlot[]) => void;
+  dispose: () => void;
+};
+
+/**
+ * Master inserts between `input` and `output`. Each slot wraps its effect in a
+ * dry/wet pair for click-free bypass; slots are matched by id, so reordering or
+ * retuning keeps their nodes (and a chorus keeps its LFO phase). The rack owns every
+ * outgoing connection of `input`.
+ */
+export const createFxRack = (ctx: BaseAudioContext, input: AudioNode, output: AudioNode): FxRack => {
+  const live = new Map<string, LiveSlot>();
+  const fader = ctx.createGain();
+  fader.connect(output);
+  let wired = false;
+  let dirty = false;
+  let order: string[] = [];
+  // Slots taken out of the rack; they keep sounding until the rewire drops them at the bottom of the dip.
+  let retired: LiveSlot[] = [];
+  let rewireTimer: ReturnType<typeof setTimeout> | null = null;
+  // Offline renders are wired before they start; only a running context needs the dip.
+  const realtime = typeof AudioContext !== 'undefined' && ctx instanceof AudioContext;
+
+  const createSlot = (effect: InsertEffectId): LiveSlot => {
+    const unit = getInsertEffect(effect).create(ctx);
+    const slotInput = ctx.createGain();
+    const dry = ctx.createGain();
+    const wet = ctx.createGain();
+    const slotOutput = ctx.createGain();
+    dry.gain.value = 0;
+    slotInput.connect(dry).connect(slotOutput);
+    slotInput.connect(unit.input);
+    unit.output.connect(wet).connect(slotOutput);
+    return { effect, unit, input: slotInput, dry, wet, output: slotOutput, bypass: null };
+  };
+
+  const disposeSlot = (slot: LiveSlot) => {
+    slot.unit.dispose();
+    disconnectAll([slot.input, slot.dry, slot.wet, slot.output]);
+  };
+
+  const setBypass = (slot: LiveSlot, bypass: boolean) => {
+    if (slot.bypass === bypass) return;
+    const now = ctx.currentTime;
+    [
+      { param: slot.dry.gain, to: bypass ? 1 : 0 },
+      { param: slot.wet.gain, to: bypass ? 0 : 1 },
+    ].forEach(({ param, to }) => {
+      param.cancelScheduledValues(now);
+      if (slot.bypass === null) {
+        param.value = to;
+        return;
+      }
+      param.setValueAtTime(param.value, now);
+      param.linearRampToValueAtTime(to, now + BYPASS_FADE_SECONDS);
+    });
+    slot.bypass = bypass;
+  };
+
+  const wire = () => {
+    try {
+      input.disconnect();
+    } catch { /* nothing connected yet */ }
+    live.forEach((slot) => {
+      try {
+        slot.output.disconnect();
+      } catch { /* ignore */ }
+    });
+    const chain = order.map((id) => live.get(id)!);
+    chain.reduce<AudioNode>((from, slot) => {
+      from.connect(slot.input);
+      return slot.output;
+    }, input).connect(fader);
+    retired.forEach(disposeSlot);
+    retired = [];
+    wired = true;
+    dirty = false;
+  };
+
+  const rewire = () => {
+    if (wired && !dirty) return;
+    if (!wired || !realtime) {
+      wire();
+      return;
+    }
+    if (rewireTimer !== null) return;
+    const now = ctx.currentTime;
+    fader.gain.cancelScheduledValues(now);
+    fader.gain.setValueAtTime(fader.gain.value, now);
+    fader.gain.linearRampToValueAtTime(0, now + (REWIRE_DIP_MS / 1000) * 0.8);
+    rewireTimer = setTimeout(() => {
+      rewireTimer = null;
+      wire();
+      const at = ctx.currentTime;
+      fader.gain.cancelScheduledValues(at);
+      fader.gain.setValueAtTime(0, at);
+      fader.gain.linearRampToValueAtTime(1, at + REWIRE_DIP_MS / 1000);
+    }, REWIRE_DIP_MS);
+  };
+
+  const setSlots = (slots: InsertSlot[]) => {
+    const wanted = slots.slice(0, MAX_INSERT_SLOTS);
+    const keep = new Set(wanted.map((slot) => slot.id));
+    live.forEach((slot, id) => {
+      if (keep.has(id)) return;
+      retired.push(slot);
+      live.delete(id);
+    });
+    wanted.forEach((settings) => {
+      let slot = live.get(settings.id);
+      if (slot && slot.effect !== settings.effect) {
+        retired.push(slot);
+        slot = undefined;
+      }
+      if (!slot) {
+        slot = createSlot(settings.effect);
+        live.set(settings.id, slot);
+        dirty = true;
+      }
+      slot.unit.setParams(resolveEffectParams(getInsertEffect(settings.effect), settings.params));
+      setBypass(slot, settings.bypass);
+    });
+    const next = wanted.map((slot) => slot.id);
+    if (retired.length || next.join() !== order.join()) dirty = true;
+    order = next;
+    rewire();
+  };
+
+  const dispose = () => {
+    if (rewireTimer !== null) clearTimeout(rewireTimer);
+    rewireTimer = null;
+    live.forEach(disposeSlot);
+    live.clear();
+    retired.forEach(disposeSlot);
+    retired = [];
+    disconnectAll([fader]);
+  };
+
+  return { setSlots, dispose };
+};
@@ -0,0 +1,36 @@
+import type { InsertEffectId } from '../../../types';
+import { chorusEffect } from './chorus';
+import { filterEffect } from './filter';
+import { flangerEffect } from './flanger';
+import { phaserEffect } from './phaser';
+import { shimmerEffect } from './shimmer';
+import { tiltEqEffect } from './tiltEq';
+import type { EffectParams, InsertEffect } from './types';
+import { widenerEffect } from './widener';
+
+export const INSERT_EFFECTS: InsertEffect[] = [
+  chorusEffect,
+  phaserEffect,
+  flangerEffect,
+  tiltEqEffect,
+  widenerEffect,
+  shimmerEffect,
+  filterEffect,
+];
+
+export const isInsertEffectId = (value: unknown): value is InsertEffectId =>
+  INSERT_EFFECTS.some((effect) => effect.id === value);
+
+export const getInsertEffect = (id: InsertEffectId): InsertEffect =>
+  INSERT_EFFECTS.find((effect) => effect.id === id) ?? chorusEffect;
+
+/** Every parameter of the effect, clamped (stepped ones rounded), with defaults for anything missing. */
+export const resolveEffectParams = (effect: InsertEffect, raw: Record<string, unknown> | undefined): EffectParams => {
+  const out: EffectParams = {};
+  effect.params.forEach((def) => {
+    const value = raw?.[def.id];
+    const clamped = typeof value === 'number' && Number.isFinite(value) ? Math.max(def.min, Math.min(def.max, value)) : def.default;
+    out[def.id] = def.options ? Math.round(clamped) : clamped;
+  });
+  return out;
+};
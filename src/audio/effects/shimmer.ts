@@ -0,0 +1,72 @@
+import { disconnectAll } from '../engines/types';
+import { createMix, glide, type InsertEffect } from './types';
+
+// Octave-up grains from the engine's granular worklet; without it the loop runs unshifted.
+const createOctaveUp = (ctx: BaseAudioContext): AudioNode => {
+  try {
+    const node = new AudioWorkletNode(ctx, 'granular-stretch', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+    });
+    node.parameters.get('stretch')?.setValueAtTime(0.5, 0);
+    node.parameters.get('mix')?.setValueAtTime(1, 0);
+    return node;
+  } catch {
+    return ctx.createGain();
+  }
+};
+
+/**
+ * Feedback delays with an octave shifter inside the loop, so each repeat climbs
+ * another octave and the tail blooms upward. Tone closes the loop from the top.
+ */
+export const shimmerEffect: InsertEffect = {
+  id: 'shimmer',
+  label: 'Shimmer',
+  params: [
+    { id: 'mix', label: 'Mix', min: 0, max: 1, default: 0.35 },
+    { id: 'decay', label: 'Decay', min: 0, max: 0.85, default: 0.6 },
+    { id: 'tone', label: 'Tone', min: 1000, max: 12000, default: 6000, unit: 'Hz' },
+  ],
+  create: (ctx) => {
+    const input = ctx.createGain();
+    const { dry, wet, output, setMix } = createMix(ctx, input);
+    const loop = ctx.createGain();
+    loop.channelCount = 1;
+    loop.channelCountMode = 'explicit';
+    const octave = createOctaveUp(ctx);
+    const lowCut = ctx.createBiquadFilter();
+    lowCut.type = 'highpass';
+    lowCut.frequency.value = 300;
+    const tone = ctx.createBiquadFilter();
+    tone.type = 'lowpass';
+    const left = ctx.createDelay(1);
+    left.delayTime.value = 0.31;
+    const right = ctx.createDelay(1);
+    right.delayTime.value = 0.47;
+    const merger = ctx.createChannelMerger(2);
+    const feedback = ctx.createGain();
+    feedback.gain.value = 0;
+
+    input.connect(loop).connect(octave).connect(lowCut).connect(tone);
+    tone.connect(left).connect(merger, 0, 0);
+    tone.connect(right).connect(merger, 0, 1);
+    merger.connect(wet);
+    left.connect(feedback);
+    right.connect(feedback);
+    feedback.connect(loop);
+
+    return {
+      input,
+      output,
+      setParams: (params) => {
+        // Two delays feed back at once, so each carries half the decay.
+        glide(feedback.gain, params.decay / 2, ctx);
+        glide(tone.frequency, params.tone, ctx);
+        setMix(params.mix);
+      },
+      dispose: () => disconnectAll([input, dry, wet, output, loop, octave, lowCut, tone, left, right, merger, feedback]),
+    };
+  },
+};
@@ -0,0 +1,31 @@
+import { disconnectAll } from '../engines/types';
+import { glide, type InsertEffect } from './types';
+
+/** Shelves on both sides of one pivot moving in opposite directions: darker or brighter in one turn. */
+export const tiltEqEffect: InsertEffect = {
+  id: 'tiltEq',
+  label: 'Tilt EQ',
+  params: [
+    { id: 'tilt', label: 'Tilt', min: -12, max: 12, default: 0, unit: 'dB' },
+    { id: 'pivot', label: 'Pivot', min: 200, max: 4000, default: 900, unit: 'Hz' },
+  ],
+  create: (ctx) => {
+    const low = ctx.createBiquadFilter();
+    low.type = 'lowshelf';
+    const high = ctx.createBiquadFilter();
+    high.type = 'highshelf';
+    low.connect(high);
+
+    return {
+      input: low,
+      output: high,
+      setParams: (params) => {
+        glide(low.frequency, params.pivot, ctx);
+        glide(high.frequency, params.pivot, ctx);
+        glide(low.gain, -params.tilt / 2, ctx);
+        glide(high.gain, params.tilt / 2, ctx);
+      },
+      dispose: () => disconnectAll([low, high]),
+    };
+  },
+};
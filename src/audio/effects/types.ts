@@ -0,0 +1,61 @@
+import type { InsertEffectId } from '../../../types';
+
+export interface EffectParamDef {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+  unit?: string;
+  options?: string[]; // stepped param: the value is an index into these labels
+  format?: (value: number) => string; // knob readout when the raw value is not what the ear hears
+}
+
+export type EffectParams = Record<string, number>;
+
+/** One live effect: a stereo input and output around whatever nodes it needs. */
+export interface InsertUnit {
+  input: AudioNode;
+  output: AudioNode;
+  setParams: (params: EffectParams) => void;
+  dispose: () => void;
+}
+
+export interface InsertEffect {
+  id: InsertEffectId;
+  label: string;
+  params: EffectParamDef[];
+  create: (ctx: BaseAudioContext) => InsertUnit;
+}
+
+// Param moves glide over this time constant so knob turns and MIDI do not zipper.
+export const PARAM_GLIDE = 0.05;
+
+export const glide = (param: AudioParam, value: number, ctx: BaseAudioContext) =>
+  param.setTargetAtTime(value, ctx.currentTime, PARAM_GLIDE);
+
+/** Sine LFO into a gain whose level is the modulation depth; connect depth to the params it moves. */
+export const createLfo = (ctx: BaseAudioContext) => {
+  const osc = ctx.createOscillator();
+  osc.type = 'sine';
+  const depth = ctx.createGain();
+  depth.gain.value = 0;
+  osc.connect(depth);
+  osc.start();
+  return { osc, depth };
+};
+
+/** Equal-power dry/wet pair summed into one output gain. */
+export const createMix = (ctx: BaseAudioContext, input: AudioNode) => {
+  const dry = ctx.createGain();
+  const wet = ctx.createGain();
+  const output = ctx.createGain();
+  input.connect(dry).connect(output);
+  wet.connect(output);
+  const setMix = (mix: number) => {
+    const m = Math.max(0, Math.min(1, mix));
+    glide(dry.gain, Math.cos((m * Math.PI) / 2), ctx);
+    glide(wet.gain, Math.sin((m * Math.PI) / 2), ctx);
+  };
+  return { dry, wet, output, setMix };
+};
@@ -0,0 +1,41 @@
+import { disconnectAll } from '../engines/types';
+import { glide, type InsertEffect } from './types';
+
+/** Mid/side: the side signal is scaled, so 0 folds to mono, 1 leaves the image and 2 doubles its width. */
+export const widenerEffect: InsertEffect = {
+  id: 'widener',
+  label: 'Widener',
+  params: [{ id: 'width', label: 'Width', min: 0, max: 2, default: 1.5 }],
+  create: (ctx) => {
+    const input = ctx.createGain();
+    const splitter = ctx.createChannelSplitter(2);
+    const merger = ctx.createChannelMerger(2);
+    const mid = ctx.createGain();
+    mid.gain.value = 0.5;
+    const sideFromLeft = ctx.createGain();
+    sideFromLeft.gain.value = 0.5;
+    const sideFromRight = ctx.createGain();
+    sideFromRight.gain.value = -0.5;
+    const side = ctx.createGain();
+    const sideInverted = ctx.createGain();
+    sideInverted.gain.value = -1;
+
+    input.connect(splitter);
+    splitter.connect(mid, 0);
+    splitter.connect(mid, 1);
+    splitter.connect(sideFromLeft, 0).connect(side);
+    splitter.connect(sideFromRight, 1).connect(side);
+    // L = M + S, R = M - S
+    mid.connect(merger, 0, 0);
+    mid.connect(merger, 0, 1);
+    side.connect(merger, 0, 0);
+    side.connect(sideInverted).connect(merger, 0, 1);
+
+    return {
+      input,
+      output: merger,
+      setParams: (params) => glide(side.gain, params.width, ctx),
+      dispose: () => disconnectAll([input, splitter, merger, mid, sideFromLeft, sideFromRight, side, sideInverted]),
+    };
+  },
+};
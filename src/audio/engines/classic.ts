@@ -0,0 +1,52 @@
+import { ENVELOPE_FLOOR, disconnectAll, stopAll, type VoiceEngine } from './types';
+
+/** The original Glass Room ping: sine with a short FM chirp on small bubbles. */
+export const classicEngine: VoiceEngine = {
+  id: 'classic',
+  label: 'Classic',
+  params: [
+    { id: 'decay', label: 'Decay', min: 0.2, max: 4, default: 1.5, unit: 's', timbre: 'decay' },
+    { id: 'fm', label: 'FM', min: 0, max: 1, default: 0.3, timbre: 'fmIndex' },
+  ],
+  play: ({ ctx, destination, when, freq, sizeFactor }, params) => {
+    const decay = params.decay;
+    const release = 0.06;
+    const end = when + decay + release;
+
+    const osc = ctx.createOscillator();
+    const amp = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(freq, when);
+    osc.connect(amp).connect(destination);
+
+    const sources: AudioScheduledSourceNode[] = [osc];
+    const nodes: AudioNode[] = [osc, amp];
+    if (sizeFactor < 0.4 && params.fm > 0) {
+      const fmOsc = ctx.createOscillator();
+      const fmGain = ctx.createGain();
+      fmOsc.type = 'sine';
+      fmOsc.frequency.value = freq * 2.5;
+      fmGain.gain.value = freq * params.fm;
+      fmOsc.connect(fmGain).connect(osc.frequency);
+      fmOsc.start(when);
+      fmOsc.stop(when + 0.3);
+      sources.push(fmOsc);
+      nodes.push(fmOsc, fmGain);
+    }
+
+    amp.gain.setValueAtTime(ENVELOPE_FLOOR, when);
+    amp.gain.linearRampToValueAtTime(1, when + 0.005);
+    amp.gain.exponentialRampToValueAtTime(ENVELOPE_FLOOR, when + decay);
+    amp.gain.setValueAtTime(ENVELOPE_FLOOR, end);
+
+    osc.start(when);
+    osc.stop(end);
+    return {
+      source: osc,
+      endsAt: when + decay,
+      shape: 'decay',
+      stop: (at) => stopAll(sources, at),
+      dispose: () => disconnectAll(nodes),
+    };
+  },
+};
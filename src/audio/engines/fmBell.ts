@@ -0,0 +1,49 @@
+import { ENVELOPE_FLOOR, disconnectAll, stopAll, type VoiceEngine } from './types';
+
+/** Two-operator FM with an inharmonic ratio; the index falls faster than the level, so the strike is bright and the tail pure. */
+export const fmBellEngine: VoiceEngine = {
+  id: 'fmBell',
+  label: 'FM Bell',
+  params: [
+    { id: 'ratio', label: 'Ratio', min: 0.5, max: 8, default: 3.5 },
+    { id: 'index', label: 'Index', min: 0, max: 10, default: 4, timbre: 'fmIndex' },
+    { id: 'decay', label: 'Decay', min: 0.3, max: 6, default: 2.5, unit: 's', timbre: 'decay' },
+  ],
+  play: ({ ctx, destination, when, freq, sizeFactor }, params) => {
+    // Bigger bubbles ring longer.
+    const decay = params.decay * (0.6 + sizeFactor * 0.8);
+    const end = when + decay + 0.05;
+
+    const carrier = ctx.createOscillator();
+    const modulator = ctx.createOscillator();
+    const modGain = ctx.createGain();
+    const amp = ctx.createGain();
+    carrier.type = 'sine';
+    modulator.type = 'sine';
+    carrier.frequency.setValueAtTime(freq, when);
+    modulator.frequency.setValueAtTime(freq * params.ratio, when);
+    modulator.connect(modGain).connect(carrier.frequency);
+    carrier.connect(amp).connect(destination);
+
+    const peakIndex = Math.max(ENVELOPE_FLOOR, freq * params.index);
+    modGain.gain.setValueAtTime(peakIndex, when);
+    modGain.gain.exponentialRampToValueAtTime(Math.max(ENVELOPE_FLOOR, peakIndex * 0.02), when + decay * 0.4);
+
+    amp.gain.setValueAtTime(ENVELOPE_FLOOR, when);
+    amp.gain.linearRampToValueAtTime(1, when + 0.002);
+    amp.gain.exponentialRampToValueAtTime(ENVELOPE_FLOOR, when + decay);
+
+    const sources = [carrier, modulator];
+    sources.forEach((node) => {
+      node.start(when);
+      node.stop(end);
+    });
+    return {
+      source: carrier,
+      endsAt: when + decay,
+      shape: 'decay',
+      stop: (at) => stopAll(sources, at),
+      dispose: () => disconnectAll([carrier, modulator, modGain, amp]),
+    };
+  },
+};
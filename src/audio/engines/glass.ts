@@ -0,0 +1,58 @@
+import { ENVELOPE_FLOOR, disconnectAll, stopAll, type VoiceEngine } from './types';
+
+// Modes of a free-free bar, close to what a struck glass rod gives.
+export const GLASS_RATIOS = [1, 2.756, 5.404, 8.933, 13.344];
+
+/** Partial frequency ratios between a harmonic series (0) and the glass modes (1). */
+export const modalRatios = (inharmonic: number) => {
+  const t = Math.max(0, Math.min(1, inharmonic));
+  return GLASS_RATIOS.map((ratio, k) => (k + 1) + (ratio - (k + 1)) * t);
+};
+
+/** Bank of decaying sine modes; upper modes die first, like a real resonator. */
+export const glassEngine: VoiceEngine = {
+  id: 'glass',
+  label: 'Glass',
+  params: [
+    { id: 'decay', label: 'Decay', min: 0.5, max: 8, default: 3, unit: 's', timbre: 'decay' },
+    { id: 'inharmonic', label: 'Inharm', min: 0, max: 1, default: 0.7 },
+    { id: 'brightness', label: 'Bright', min: 0, max: 1, default: 0.5, timbre: 'brightness' },
+  ],
+  play: ({ ctx, destination, when, freq }, params) => {
+    const nyquistGuard = ctx.sampleRate * 0.45;
+    const tilt = 0.25 + params.brightness * 0.6;
+    const ratios = modalRatios(params.inharmonic).filter((ratio, k) => k === 0 || freq * ratio < nyquistGuard);
+    const weights = ratios.map((_, k) => Math.pow(tilt, k));
+    const norm = weights.reduce((sum, w) => sum + w, 0) || 1;
+
+    const sources: OscillatorNode[] = [];
+    const nodes: AudioNode[] = [];
+    let end = when;
+    ratios.forEach((ratio, k) => {
+      const osc = ctx.createOscillator();
+      const amp = ctx.createGain();
+      const decay = params.decay / (1 + k * 0.9);
+      const peak = Math.max(ENVELOPE_FLOOR * 2, weights[k] / norm);
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(freq * ratio, when);
+      amp.gain.setValueAtTime(ENVELOPE_FLOOR, when);
+      amp.gain.linearRampToValueAtTime(peak, when + 0.001);
+      amp.gain.exponentialRampToValueAtTime(ENVELOPE_FLOOR, when + decay);
+      osc.connect(amp).connect(destination);
+      osc.start(when);
+      osc.stop(when + decay + 0.02);
+      end = Math.max(end, when + decay + 0.02);
+      sources.push(osc);
+      nodes.push(osc, amp);
+    });
+
+    // The fundamental rings longest, so its end is the voice's end.
+    return {
+      source: sources[0],
+      endsAt: end,
+      shape: 'decay',
+      stop: (at) => stopAll(sources, at),
+      dispose: () => disconnectAll(nodes),
+    };
+  },
+};
@@ -0,0 +1,59 @@
+import { mulberry32, hashSeed } from '../../random/seeded';
+import { ENVELOPE_FLOOR, disconnectAll, type VoiceEngine } from './types';
+
+const NOISE_SECONDS = 2;
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+// Fixed table per context; voices start at a random offset, drawn from the engine stream.
+const getNoiseBuffer = (ctx: BaseAudioContext) => {
+  let buffer = noiseBuffers.get(ctx);
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, Math.round(ctx.sampleRate * NOISE_SECONDS), ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    const random = mulberry32(hashSeed('noise-burst'));
+    for (let i = 0; i < data.length; i++) data[i] = random() * 2 - 1;
+    noiseBuffers.set(ctx, buffer);
+  }
+  return buffer;
+};
+
+/** White noise through a resonant bandpass at the note: a tuned breath or hiss. */
+export const noiseEngine: VoiceEngine = {
+  id: 'noise',
+  label: 'Noise',
+  params: [
+    { id: 'decay', label: 'Decay', min: 0.02, max: 1.5, default: 0.2, unit: 's', timbre: 'decay' },
+    { id: 'resonance', label: 'Reso', min: 0.5, max: 30, default: 8, timbre: 'resonance' },
+  ],
+  play: ({ ctx, destination, when, freq, random }, params) => {
+    const decay = params.decay;
+    const buffer = getNoiseBuffer(ctx);
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const amp = ctx.createGain();
+    source.buffer = buffer;
+    source.loop = true;
+    filter.type = 'bandpass';
+    filter.frequency.setValueAtTime(Math.min(freq, ctx.sampleRate * 0.45), when);
+    filter.Q.value = params.resonance;
+    // A narrow band passes little energy; make up some of it so resonance does not just mean quieter.
+    const makeup = Math.min(4, Math.sqrt(params.resonance));
+    amp.gain.setValueAtTime(ENVELOPE_FLOOR, when);
+    amp.gain.linearRampToValueAtTime(makeup, when + 0.002);
+    amp.gain.exponentialRampToValueAtTime(ENVELOPE_FLOOR, when + decay);
+    source.connect(filter).connect(amp).connect(destination);
+    source.start(when, random() * (buffer.duration - 0.01));
+    source.stop(when + decay + 0.02);
+    return {
+      source,
+      endsAt: when + decay,
+      shape: 'decay',
+      stop: (at) => {
+        try {
+          source.stop(at);
+        } catch { /* already stopped */ }
+      },
+      dispose: () => disconnectAll([source, filter, amp]),
+    };
+  },
+};
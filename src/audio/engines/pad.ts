@@ -0,0 +1,54 @@
+import { ENVELOPE_FLOOR, disconnectAll, stopAll, type VoiceEngine } from './types';
+
+/** Three detuned saws into a resonant lowpass that opens with the attack. */
+export const padEngine: VoiceEngine = {
+  id: 'pad',
+  label: 'Pad',
+  params: [
+    { id: 'attack', label: 'Attack', min: 0.01, max: 2, default: 0.4, unit: 's' },
+    { id: 'length', label: 'Length', min: 0.5, max: 8, default: 3, unit: 's', timbre: 'decay' },
+    { id: 'cutoff', label: 'Cutoff', min: 200, max: 8000, default: 1800, unit: 'Hz', timbre: 'brightness' },
+    { id: 'resonance', label: 'Reso', min: 0.5, max: 12, default: 2, timbre: 'resonance' },
+    { id: 'detune', label: 'Detune', min: 0, max: 30, default: 12, unit: 'ct' },
+  ],
+  play: ({ ctx, destination, when, freq }, params) => {
+    const length = params.length;
+    const attack = Math.min(params.attack, length * 0.5);
+    const end = when + length;
+
+    const filter = ctx.createBiquadFilter();
+    const amp = ctx.createGain();
+    filter.type = 'lowpass';
+    filter.Q.value = params.resonance;
+    const cutoff = Math.min(params.cutoff, ctx.sampleRate * 0.45);
+    filter.frequency.setValueAtTime(cutoff * 0.3, when);
+    filter.frequency.linearRampToValueAtTime(cutoff, when + attack);
+    filter.frequency.exponentialRampToValueAtTime(Math.max(80, cutoff * 0.4), end);
+    filter.connect(amp).connect(destination);
+
+    // Three saws sum to roughly 3x; keep the pad level in line with the other engines.
+    amp.gain.setValueAtTime(ENVELOPE_FLOOR, when);
+    amp.gain.linearRampToValueAtTime(0.4, when + attack);
+    amp.gain.linearRampToValueAtTime(0.3, when + attack + (length - attack) * 0.5);
+    amp.gain.exponentialRampToValueAtTime(ENVELOPE_FLOOR, end);
+
+    const oscillators = [-1, 0, 1].map((spread) => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(freq, when);
+      osc.detune.setValueAtTime(spread * params.detune, when);
+      osc.connect(filter);
+      osc.start(when);
+      osc.stop(end + 0.02);
+      return osc;
+    });
+
+    return {
+      source: oscillators[1],
+      endsAt: end,
+      shape: 'sustain',
+      stop: (at) => stopAll(oscillators, at),
+      dispose: () => disconnectAll([...oscillators, filter, amp]),
+    };
+  },
+};
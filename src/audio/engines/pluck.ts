@@ -0,0 +1,68 @@
+import type { RandomSource } from '../../random/seeded';
+import { ENVELOPE_FLOOR, disconnectAll, type VoiceEngine } from './types';
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+/**
+ * Karplus-Strong string rendered straight into a buffer. A feedback DelayNode
+ * cannot go below one render quantum (128 frames), which would cap the pitch
+ * around 350 Hz, so the loop runs here instead.
+ * brightness 0 = classic two-point average, 1 = almost no loop filtering.
+ */
+export const renderPluck = (freq: number, sampleRate: number, seconds: number, brightness: number, random: RandomSource) => {
+  const length = Math.max(1, Math.round(seconds * sampleRate));
+  const out = new Float32Array(length);
+  const safeFreq = Math.max(20, Math.min(sampleRate / 4, freq));
+  const period = sampleRate / safeFreq;
+  const a = 0.5 + 0.49 * clamp01(brightness);
+  // The loop filter adds (1 - a) samples of delay; take it off so the pitch stays put.
+  const delay = Math.max(2, period - (1 - a));
+  // Loss per trip so the string is 60 dB down after `seconds`.
+  const loss = Math.pow(ENVELOPE_FLOOR, 1 / Math.max(1, seconds * safeFreq));
+  const burst = Math.min(length, Math.ceil(period));
+
+  const read = (pos: number) => {
+    if (pos < 0) return 0;
+    const i = Math.floor(pos);
+    const frac = pos - i;
+    return out[i] * (1 - frac) + (i + 1 < length ? out[i + 1] : 0) * frac;
+  };
+
+  for (let n = 0; n < length; n++) {
+    const excite = n < burst ? (random() * 2 - 1) * 0.8 : 0;
+    const pos = n - delay;
+    out[n] = excite + (pos >= 0 ? loss * (a * read(pos) + (1 - a) * read(pos - 1)) : 0);
+  }
+  return out;
+};
+
+export const pluckEngine: VoiceEngine = {
+  id: 'pluck',
+  label: 'Pluck',
+  params: [
+    { id: 'decay', label: 'Decay', min: 0.3, max: 4, default: 1.6, unit: 's', timbre: 'decay' },
+    { id: 'brightness', label: 'Bright', min: 0, max: 1, default: 0.6, timbre: 'brightness' },
+  ],
+  play: ({ ctx, destination, when, freq, sizeFactor, random }, params) => {
+    const seconds = params.decay * (0.7 + sizeFactor * 0.6);
+    const data = renderPluck(freq, ctx.sampleRate, seconds, params.brightness, random);
+    const buffer = ctx.createBuffer(1, data.length, ctx.sampleRate);
+    buffer.getChannelData(0).set(data);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+    source.start(when);
+    return {
+      source,
+      endsAt: when + seconds,
+      shape: 'decay',
+      stop: (at) => {
+        try {
+          source.stop(at);
+        } catch { /* already stopped */ }
+      },
+      dispose: () => disconnectAll([source]),
+    };
+  },
+};
@@ -0,0 +1,34 @@
+import type { SynthSettings, VoiceEngineId } from '../../../types';
+import { classicEngine } from './classic';
+import { fmBellEngine } from './fmBell';
+import { glassEngine } from './glass';
+import { noiseEngine } from './noise';
+import { padEngine } from './pad';
+import { pluckEngine } from './pluck';
+import type { EngineParams, VoiceEngine } from './types';
+
+export const VOICE_ENGINES: VoiceEngine[] = [classicEngine, fmBellEngine, pluckEngine, glassEngine, padEngine, noiseEngine];
+
+export const DEFAULT_VOICE_ENGINE: VoiceEngineId = 'classic';
+
+export const isVoiceEngineId = (value: unknown): value is VoiceEngineId =>
+  VOICE_ENGINES.some((engine) => engine.id === value);
+
+export const getVoiceEngine = (id: VoiceEngineId | undefined): VoiceEngine =>
+  VOICE_ENGINES.find((engine) => engine.id === id) ?? classicEngine;
+
+/** Every parameter of the engine, clamped, with defaults for anything missing or not a number. */
+export const resolveEngineParams = (engine: VoiceEngine, raw: Record<string, unknown> | undefined): EngineParams => {
+  const out: EngineParams = {};
+  engine.params.forEach((def) => {
+    const value = raw?.[def.id];
+    out[def.id] = typeof value === 'number' && Number.isFinite(value) ? Math.max(def.min, Math.min(def.max, value)) : def.default;
+  });
+  return out;
+};
+
+/** Params for the active engine of a scene's synth settings. */
+export const activeEngineParams = (settings: SynthSettings) => {
+  const engine = getVoiceEngine(settings.engine);
+  return { engine, params: resolveEngineParams(engine, settings.params[engine.id]) };
+};
@@ -0,0 +1,60 @@
+import type { TimbreTarget, VoiceEngineId } from '../../../types';
+import type { RandomSource } from '../../random/seeded';
+import type { VoiceShape } from '../voices';
+
+export interface EngineParamDef {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+  unit?: string;
+  timbre?: TimbreTarget; // bubble timbre routes to this target move this param
+}
+
+export type EngineParams = Record<string, number>;
+
+/** One synth note. Engines write a 0..1 envelope; the caller scales it to the collision's volume. */
+export interface VoiceRequest {
+  ctx: BaseAudioContext;
+  destination: AudioNode; // head of the voice's spatial chain
+  when: number;
+  freq: number; // final pitch, doppler included
+  sizeFactor: number; // 0..1, bubble size (large = low and long)
+  random: RandomSource; // engine stream, so seeded runs stay replayable
+}
+
+export interface VoicePlayback {
+  source: AudioScheduledSourceNode; // its onended marks the end of the voice
+  endsAt: number;
+  shape: VoiceShape;
+  stop: (at: number) => void;
+  dispose: () => void;
+}
+
+export interface VoiceEngine {
+  id: VoiceEngineId;
+  label: string;
+  params: EngineParamDef[];
+  play: (request: VoiceRequest, params: EngineParams) => VoicePlayback;
+}
+
+// Exponential ramps cannot reach zero.
+export const ENVELOPE_FLOOR = 0.001;
+
+/** Stop every scheduled source at `at` (ignores nodes that already ended). */
+export const stopAll = (nodes: AudioScheduledSourceNode[], at: number) => {
+  nodes.forEach((node) => {
+    try {
+      node.stop(at);
+    } catch { /* already stopped */ }
+  });
+};
+
+export const disconnectAll = (nodes: AudioNode[]) => {
+  nodes.forEach((node) => {
+    try {
+      node.disconnect();
+    } catch { /* ignore */ }
+  });
+};
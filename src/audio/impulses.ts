@@ -0,0 +1,238 @@
+import type { ImpulseSettings, ImpulseSource, ReverbSettings } from '../../types';
+import { hashSeed, mulberry32, type RandomSource } from '../random/seeded';
+import { renderImpulseResponse, type Reflection, type RoomAcoustics } from './reverb';
+
+export const IMPULSE_STRETCH_RANGE: [number, number] = [0.5, 2];
+// Smallest part of the IR a trim may keep, as a fraction of its length.
+export const MIN_IMPULSE_SPAN = 0.01;
+// Longest IR handed to the convolver after stretching; a 10 s library file at x2 just fits.
+export const MAX_PROCESSED_IMPULSE_SECONDS = 20;
+// The ConvolverNode's own normalization (Web Audio spec): RMS 0.00125 at 44.1 kHz.
+const GAIN_CALIBRATION = 0.00125;
+const GAIN_CALIBRATION_SAMPLE_RATE = 44100;
+const MIN_POWER = 0.000125;
+const TRIM_FADE_IN_SECONDS = 0.002;
+const TRIM_FADE_OUT_SECONDS = 0.01;
+
+export type BundledImpulseId = Exclude<ImpulseSource, 'room' | 'user'>;
+
+export type StereoImpulse = { left: Float32Array; right: Float32Array };
+
+export const BUNDLED_IMPULSES: { id: BundledImpulseId; label: string }[] = [
+  { id: 'hall', label: 'Hall' },
+  { id: 'plate', label: 'Plate' },
+  { id: 'spring', label: 'Spring' },
+  { id: 'glass', label: 'Glass chamber' },
+  { id: 'ice', label: 'Ice cave' },
+];
+
+export const IMPULSE_SOURCES: ImpulseSource[] = ['room', ...BUNDLED_IMPULSES.map((ir) => ir.id), 'user'];
+
+export const isImpulseSource = (value: unknown): value is ImpulseSource =>
+  typeof value === 'string' && (IMPULSE_SOURCES as string[]).includes(value);
+
+export const defaultImpulseSettings = (): ImpulseSettings => ({
+  source: 'room',
+  sampleId: null,
+  name: '',
+  start: 0,
+  end: 1,
+  reverse: false,
+  stretch: 1,
+  normalize: true,
+});
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const rms = (ir: StereoImpulse) => {
+  let sum = 0;
+  for (let i = 0; i < ir.left.length; i++) sum += ir.left[i] * ir.left[i] + ir.right[i] * ir.right[i];
+  return Math.sqrt(sum / Math.max(1, ir.left.length * 2));
+};
+
+const scaled = (ir: StereoImpulse, gain: number): StereoImpulse => ({
+  left: ir.left.map((v) => v * gain),
+  right: ir.right.map((v) => v * gain),
+});
+
+/**
+ * Level an IR the way the ConvolverNode would, so switching between IRs (and the
+ * room reverb from before) keeps the wet level. The convolvers run with normalize off.
+ */
+export const normalizeImpulse = (ir: StereoImpulse, sampleRate: number): StereoImpulse => {
+  const power = Math.max(MIN_POWER, rms(ir));
+  return scaled(ir, (GAIN_CALIBRATION / power) * (GAIN_CALIBRATION_SAMPLE_RATE / sampleRate));
+};
+
+// Linear interpolation; shrinking an IR aliases a little, which a reverb tail hides.
+const resample = (channel: Float32Array, ratio: number, frames: number) => {
+  const out = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    const pos = i / ratio;
+    const at = Math.floor(pos);
+    const frac = pos - at;
+    out[i] = (channel[at] ?? 0) * (1 - frac) + (channel[at + 1] ?? 0) * frac;
+  }
+  return out;
+};
+
+/**
+ * Trim, reverse, stretch and (optionally) level an IR, in that order, resampling it
+ * to the context's rate on the way. Trims are fractions of the original, so they
+ * mean the same part of the sound whatever the stretch. Never touches the input.
+ */
+export const processImpulse = (
+  ir: StereoImpulse,
+  settings: ImpulseSettings,
+  sourceRate: number,
+  targetRate: number
+): StereoImpulse => {
+  const total = ir.left.length;
+  const start = clamp(settings.start, 0, 1 - MIN_IMPULSE_SPAN);
+  const end = clamp(settings.end, start + MIN_IMPULSE_SPAN, 1);
+  const from = Math.floor(start * total);
+  const to = Math.max(from + 1, Math.round(end * total));
+  const fadeIn = from > 0 ? Math.min(Math.round(TRIM_FADE_IN_SECONDS * sourceRate), (to - from) >> 1) : 0;
+  const fadeOut = to < total ? Math.min(Math.round(TRIM_FADE_OUT_SECONDS * sourceRate), (to - from) >> 1) : 0;
+
+  const edit = (channel: Float32Array) => {
+    const out = channel.slice(from, to);
+    for (let i = 0; i < fadeIn; i++) out[i] *= i / fadeIn;
+    for (let i = 0; i < fadeOut; i++) out[out.length - 1 - i] *= i / fadeOut;
+    if (settings.reverse) out.reverse();
+    return out;
+  };
+  let result: StereoImpulse = { left: edit(ir.left), right: edit(ir.right) };
+
+  const ratio = (clamp(settings.stretch, IMPULSE_STRETCH_RANGE[0], IMPULSE_STRETCH_RANGE[1]) * targetRate) / sourceRate;
+  if (Math.abs(ratio - 1) > 1e-6) {
+    const frames = Math.max(1, Math.min(Math.round(MAX_PROCESSED_IMPULSE_SECONDS * targetRate), Math.round(result.left.length * ratio)));
+    result = { left: resample(result.left, ratio, frames), right: resample(result.right, ratio, frames) };
+  }
+  return settings.normalize ? normalizeImpulse(result, targetRate) : result;
+};
+
+/** What the processed IR depends on besides the raw one, to skip rebuilding it for no change. */
+export const impulseKey = (settings: ImpulseSettings) =>
+  [
+    settings.start.toFixed(3),
+    settings.end.toFixed(3),
+    settings.reverse ? 'rev' : 'fwd',
+    settings.stretch.toFixed(3),
+    settings.normalize ? 'norm' : 'raw',
+  ].join('|');
+
+// Echoes spread between two delays with falling gains and random sides, for spaces the image sources do not model.
+const scatteredEchoes = (count: number, first: number, last: number, random: RandomSource): Reflection[] =>
+  Array.from({ length: count }, (_, i) => {
+    const t = count > 1 ? i / (count - 1) : 0;
+    return {
+      delay: first + (last - first) * (t + (random() - 0.5) / count),
+      gain: Math.exp(-2 * t) * (0.6 + random() * 0.4),
+      pan: random() * 2 - 1,
+    };
+  }).sort((a, b) => a.delay - b.delay);
+
+type Mode = { freq: number; rt60: number; gain: number };
+
+// Ringing resonances as decaying sines, each channel with its own phase.
+const addModes = (ir: StereoImpulse, modes: Mode[], sampleRate: number, random: RandomSource) => {
+  modes.forEach((mode) => {
+    const step = (2 * Math.PI * mode.freq) / sampleRate;
+    const decay = Math.exp(-6.91 / (mode.rt60 * sampleRate));
+    [ir.left, ir.right].forEach((channel) => {
+      const phase = random() * 2 * Math.PI;
+      let level = mode.gain;
+      for (let i = 0; i < channel.length && level > 1e-4; i++) {
+        channel[i] += level * Math.sin(phase + step * i);
+        level *= decay;
+      }
+    });
+  });
+};
+
+// A spring's round trips: each bounce is a chirp falling from the treble, the highs arriving first.
+const addSpringBounces = (ir: StereoImpulse, sampleRate: number) => {
+  const chirpFrames = Math.round(0.02 * sampleRate);
+  [
+    { channel: ir.left, period: 0.028 },
+    { channel: ir.right, period: 0.0293 },
+  ].forEach(({ channel, period }) => {
+    for (let bounce = 0; ; bounce++) {
+      const at = Math.round(bounce * period * sampleRate);
+      const level = 1.6 * Math.pow(0.82, bounce);
+      if (at >= channel.length || level < 1e-3) break;
+      let phase = 0;
+      for (let i = 0; i < chirpFrames && at + i < channel.length; i++) {
+        const t = i / sampleRate;
+        phase += (2 * Math.PI * (3000 * Math.exp(-t / 0.006) + 150)) / sampleRate;
+        channel[at + i] += level * Math.pow(1 - i / chirpFrames, 2) * Math.sin(phase);
+      }
+    }
+  });
+};
+
+type BundledRecipe = {
+  acoustics: (random: RandomSource) => RoomAcoustics;
+  settings: ReverbSettings;
+  extras?: (ir: StereoImpulse, sampleRate: number, random: RandomSource) => void;
+};
+
+const tail = (preDelay: number, damping: number, diffusion: number, early: number): ReverbSettings => ({
+  followRoom: false,
+  size: 0.5,
+  preDelay,
+  damping,
+  diffusion,
+  early,
+});
+
+const BUNDLED_RECIPES: Record<BundledImpulseId, BundledRecipe> = {
+  hall: {
+    acoustics: (random) => ({ rt60: 2.4, reflections: scatteredEchoes(18, 0.008, 0.09, random) }),
+    settings: tail(0.02, 0.5, 0.85, 0.45),
+  },
+  plate: {
+    acoustics: () => ({ rt60: 1.8, reflections: [] }),
+    settings: tail(0, 0.15, 1, 0),
+    extras: (ir, rate, random) =>
+      addModes(ir, [{ freq: 2170, rt60: 1.2, gain: 0.15 }, { freq: 3390, rt60: 0.9, gain: 0.1 }], rate, random),
+  },
+  spring: {
+    acoustics: () => ({ rt60: 2, reflections: [] }),
+    settings: tail(0, 0.7, 0.4, 0),
+    extras: (ir, rate) => addSpringBounces(ir, rate),
+  },
+  glass: {
+    acoustics: (random) => ({ rt60: 2.8, reflections: scatteredEchoes(12, 0.003, 0.03, random) }),
+    settings: tail(0.004, 0.1, 0.6, 0.6),
+    extras: (ir, rate, random) =>
+      addModes(
+        ir,
+        [1, 2.32, 4.25, 6.63, 9.38].map((ratio, i) => ({ freq: 1130 * ratio, rt60: 2.6 - i * 0.45, gain: 1.2 - i * 0.2 })),
+        rate,
+        random
+      ),
+  },
+  ice: {
+    acoustics: (random) => ({ rt60: 4.8, reflections: scatteredEchoes(10, 0.04, 0.32, random) }),
+    settings: tail(0.03, 0.3, 0.35, 0.8),
+    extras: (ir, rate, random) =>
+      addModes(ir, [{ freq: 5270, rt60: 3.5, gain: 0.3 }, { freq: 7460, rt60: 2.8, gain: 0.2 }], rate, random),
+  },
+};
+
+/**
+ * The bundled IRs are drawn, not shipped: each is the room renderer fed a made-up
+ * space plus its own character (plate and ice shimmer, spring bounces, glass modes).
+ * Seeded by name, so a bundled IR sounds the same on every load and in every bounce.
+ */
+export const renderBundledImpulse = (id: BundledImpulseId, sampleRate: number): StereoImpulse => {
+  const recipe = BUNDLED_RECIPES[id];
+  const random = mulberry32(hashSeed(`impulse:${id}`));
+  const raw = renderImpulseResponse(recipe.acoustics(random), recipe.settings, sampleRate, random);
+  // Extras are mixed against a tail of unit level, so their gains read as "times the tail".
+  const ir = scaled(raw, 1 / Math.max(MIN_POWER, rms(raw)));
+  recipe.extras?.(ir, sampleRate, random);
+  return ir;
+};
@@ -0,0 +1,223 @@
+export const LIMITER_CEILING_RANGE: [number, number] = [-12, 0];
+export const DEFAULT_LIMITER_CEILING = -1;
+// How far ahead the limiter reads; the master runs this much (plus the interpolator's 6 samples) late.
+export const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.12;
+// Gain reduction is reported this many times a second for the meters.
+const REDUCTION_REPORTS_PER_SECOND = 30;
+
+/**
+ * Lookahead limiter that listens between the samples. A 4x windowed-sinc interpolator
+ * estimates the true peak around every sample; the gain each needs is held as a
+ * minimum over the lookahead and smoothed by a moving average of the same length,
+ * so the gain has fully come down by the time a peak leaves the delay line.
+ * Stereo linked; a hard clip at the ceiling catches whatever the estimate misses.
+ */
+export const TRUE_PEAK_LIMITER_WORKLET_CODE = `
+const PHASES = 4;
+const TAPS = 12;
+const HALF = TAPS / 2;
+
+const sinc = (x) => (Math.abs(x) < 1e-9 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+// Taps that read the signal 1/4, 2/4 and 3/4 of the way from sample n - HALF to the next one.
+const buildPhases = () => {
+  const phases = [];
+  for (let p = 1; p < PHASES; p++) {
+    const frac = p / PHASES;
+    const taps = new Float32Array(TAPS);
+    let sum = 0;
+    for (let k = 0; k < TAPS; k++) {
+      const d = HALF - frac - k;
+      taps[k] = sinc(d) * (0.5 + 0.5 * Math.cos((Math.PI * d) / HALF));
+      sum += taps[k];
+    }
+    for (let k = 0; k < TAPS; k++) taps[k] /= sum;
+    phases.push(taps);
+  }
+  return phases;
+};
+
+class TruePeakLimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'ceiling', defaultValue: ${DEFAULT_LIMITER_CEILING}, minValue: ${LIMITER_CEILING_RANGE[0]}, maxValue: ${LIMITER_CEILING_RANGE[1]}, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.phases = buildPhases();
+    this.lookahead = Math.max(1, Math.round(${LIMITER_LOOKAHEAD_SECONDS} * sampleRate));
+    this.releaseCoef = 1 - Math.exp(-1 / (${LIMITER_RELEASE_SECONDS} * sampleRate));
+    this.history = [new Float32Array(TAPS), new Float32Array(TAPS)];
+    this.historyPos = 0;
+    this.delaySize = HALF + this.lookahead;
+    this.delay = [new Float32Array(this.delaySize), new Float32Array(this.delaySize)];
+    this.delayPos = 0;
+    this.prevInterval = 0;
+    // Sliding minimum of the needed gain: a monotonic queue of (gain, frame).
+    this.minCap = this.lookahead + 1;
+    this.minGain = new Float32Array(this.minCap);
+    this.minFrame = new Float64Array(this.minCap);
+    this.minHead = 0;
+    this.minCount = 0;
+    this.frame = 0;
+    this.release = 1;
+    this.box = new Float32Array(this.lookahead).fill(1);
+    this.boxPos = 0;
+    this.boxSum = this.lookahead;
+    this.reportEvery = Math.round(sampleRate / ${REDUCTION_REPORTS_PER_SECOND});
+    this.reportCount = 0;
+    this.reportGain = 1;
+  }
+
+  pushMin(gain) {
+    const cap = this.minCap;
+    while (this.minCount && this.minGain[(this.minHead + this.minCount - 1) % cap] >= gain) this.minCount--;
+    const at = (this.minHead + this.minCount) % cap;
+    this.minGain[at] = gain;
+    this.minFrame[at] = this.frame;
+    this.minCount++;
+    while (this.minFrame[this.minHead] <= this.frame - this.lookahead) {
+      this.minHead = (this.minHead + 1) % cap;
+      this.minCount--;
+    }
+    return this.minGain[this.minHead];
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    if (!output || !output.length) return true;
+    const frames = output[0].length;
+    const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+    const inL = input[0];
+    const inR = input[1] || input[0];
+
+    for (let i = 0; i < frames; i++) {
+      const xl = inL ? inL[i] : 0;
+      const xr = inR ? inR[i] : 0;
+      let interval = 0;
+      let sample = 0;
+      for (let c = 0; c < 2; c++) {
+        const hist = this.history[c];
+        hist[this.historyPos] = c === 0 ? xl : xr;
+        // The sample the interpolated points start from, and the one they end at.
+        sample = Math.max(
+          sample,
+          Math.abs(hist[(this.historyPos - HALF + TAPS) % TAPS]),
+          Math.abs(hist[(this.historyPos - HALF + 1 + TAPS) % TAPS])
+        );
+        for (let p = 0; p < this.phases.length; p++) {
+          const taps = this.phases[p];
+          let acc = 0;
+          for (let k = 0; k < TAPS; k++) acc += taps[k] * hist[(this.historyPos - k + TAPS) % TAPS];
+          interval = Math.max(interval, Math.abs(acc));
+        }
+      }
+      this.historyPos = (this.historyPos + 1) % TAPS;
+
+      // Both samples around a peak between them have to come down.
+      const peak = Math.max(sample, interval, this.prevInterval);
+      this.prevInterval = interval;
+      const needed = peak > ceiling ? ceiling / peak : 1;
+      const held = this.pushMin(needed);
+      this.release = held < this.release ? held : this.release + (held - this.release) * this.releaseCoef;
+      this.boxSum += this.release - this.box[this.boxPos];
+      this.box[this.boxPos] = this.release;
+      this.boxPos = (this.boxPos + 1) % this.lookahead;
+      const gain = Math.min(1, this.boxSum / this.lookahead);
+      this.frame++;
+
+      const readPos = (this.delayPos + 1) % this.delaySize;
+      for (let c = 0; c < output.length; c++) {
+        const line = this.delay[Math.min(c, 1)];
+        if (c < 2) line[this.delayPos] = c === 0 ? xl : xr;
+        const y = line[readPos] * gain;
+        output[c][i] = y > ceiling ? ceiling : y < -ceiling ? -ceiling : y;
+      }
+      this.delayPos = readPos;
+
+      this.reportGain = Math.min(this.reportGain, gain);
+      if (++this.reportCount >= this.reportEvery) {
+        this.port.postMessage(-20 * Math.log10(Math.max(1e-6, this.reportGain)));
+        this.reportCount = 0;
+        this.reportGain = 1;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('true-peak-limiter', TruePeakLimiterProcessor);
+`;
+
+export type MasterLimiter = {
+  input: AudioNode;
+  output: AudioNode;
+  setCeiling: (db: number) => void;
+  /** dB of gain reduction, 0 when the limiter is not touching the signal. */
+  getReduction: () => number;
+  dispose: () => void;
+};
+
+// Without AudioWorklet the master keeps the compressor-as-limiter it always had.
+const createFallbackLimiter = (ctx: BaseAudioContext): MasterLimiter => {
+  const node = ctx.createDynamicsCompressor();
+  node.threshold.value = DEFAULT_LIMITER_CEILING;
+  node.knee.value = 10;
+  node.ratio.value = 20;
+  node.attack.value = 0.002;
+  node.release.value = 0.2;
+  return {
+    input: node,
+    output: node,
+    setCeiling: (db) => node.threshold.setTargetAtTime(db, ctx.currentTime, 0.02),
+    getReduction: () => Math.max(0, -node.reduction),
+    dispose: () => {
+      try {
+        node.disconnect();
+      } catch { /* ignore */ }
+    },
+  };
+};
+
+/** The master's last stage: the true-peak worklet when it loads, the old compressor otherwise. */
+export const createMasterLimiter = async (ctx: BaseAudioContext): Promise<MasterLimiter> => {
+  if (!ctx.audioWorklet) return createFallbackLimiter(ctx);
+  let node: AudioWorkletNode;
+  try {
+    const blob = new Blob([TRUE_PEAK_LIMITER_WORKLET_CODE], { type: 'application/javascript' });
+    const url = URL.createObjectURL(blob);
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    node = new AudioWorkletNode(ctx, 'true-peak-limiter', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      channelCount: 2,
+      channelCountMode: 'explicit',
+    });
+  } catch (e) {
+    console.warn('True-peak limiter worklet unavailable, using the compressor.', e);
+    return createFallbackLimiter(ctx);
+  }
+  let reduction = 0;
+  node.port.onmessage = (e: MessageEvent<number>) => {
+    reduction = e.data;
+  };
+  const ceiling = node.parameters.get('ceiling');
+  return {
+    input: node,
+    output: node,
+    setCeiling: (db) => ceiling?.setTargetAtTime(db, ctx.currentTime, 0.02),
+    getReduction: () => reduction,
+    dispose: () => {
+      node.port.onmessage = null;
+      try {
+        node.disconnect();
+      } catch { /* ignore */ }
+    },
+  };
+};
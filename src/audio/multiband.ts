@@ -0,0 +1,126 @@
+import type { MultibandBand, MultibandBandId, MultibandSettings } from '../../types';
+import { disconnectAll } from './engines/types';
+import { glide } from './effects/types';
+
+export const MULTIBAND_BANDS: { id: MultibandBandId; label: string }[] = [
+  { id: 'low', label: 'Low' },
+  { id: 'mid', label: 'Mid' },
+  { id: 'high', label: 'High' },
+];
+
+export const LOW_CROSSOVER_RANGE: [number, number] = [40, 1000];
+export const HIGH_CROSSOVER_RANGE: [number, number] = [1000, 12000];
+export const BAND_THRESHOLD_RANGE: [number, number] = [-60, 0];
+export const BAND_RATIO_RANGE: [number, number] = [1, 20];
+export const BAND_GAIN_RANGE: [number, number] = [-12, 12];
+
+// Lows get slower detectors so a compressor does not ride the waveform of a bass note.
+const BAND_TIMING: Record<MultibandBandId, { attack: number; release: number }> = {
+  low: { attack: 0.02, release: 0.25 },
+  mid: { attack: 0.01, release: 0.15 },
+  high: { attack: 0.005, release: 0.1 },
+};
+
+const band = (threshold: number, ratio: number): MultibandBand => ({ threshold, ratio, gain: 0 });
+
+/** Off, with gentle settings waiting: each band only catches what pokes out of it. */
+export const defaultMultibandSettings = (): MultibandSettings => ({
+  enabled: false,
+  lowCrossover: 200,
+  highCrossover: 3000,
+  bands: {
+    low: band(-18, 3),
+    mid: band(-20, 2),
+    high: band(-22, 2.5),
+  },
+});
+
+export type Multiband = {
+  setSettings: (settings: MultibandSettings) => void;
+  /** dB of gain reduction per band, 0 when a band is not compressing (or the unit is off). */
+  getReduction: () => Record<MultibandBandId, number>;
+  dispose: () => void;
+};
+
+/**
+ * Three compressors on Linkwitz-Riley (4th order) bands between `input` and
+ * `output`. The low band runs through an all-pass at the upper crossover, so the
+ * bands sum back flat; switching on or off crossfades with the straight path.
+ */
+export const createMultiband = (ctx: BaseAudioContext, input: AudioNode, output: AudioNode): Multiband => {
+  const filter = (type: BiquadFilterType) => {
+    const node = ctx.createBiquadFilter();
+    node.type = type;
+    node.Q.value = Math.SQRT1_2;
+    return node;
+  };
+  const chain = (nodes: AudioNode[]) => {
+    for (let i = 1; i < nodes.length; i++) nodes[i - 1].connect(nodes[i]);
+  };
+
+  const dry = ctx.createGain();
+  const wet = ctx.createGain();
+  wet.gain.value = 0;
+  input.connect(dry).connect(output);
+  wet.connect(output);
+
+  const lowSplit = [filter('lowpass'), filter('lowpass'), filter('allpass')];
+  const upperSplit = [filter('highpass'), filter('highpass')];
+  const midSplit = [filter('lowpass'), filter('lowpass')];
+  const highSplit = [filter('highpass'), filter('highpass')];
+  chain([input, ...lowSplit]);
+  chain([input, ...upperSplit]);
+  chain([upperSplit[1], ...midSplit]);
+  chain([upperSplit[1], ...highSplit]);
+  const atLowCrossover = [lowSplit[0], lowSplit[1], ...upperSplit];
+  const atHighCrossover = [lowSplit[2], ...midSplit, ...highSplit];
+  const bandOutputs: Record<MultibandBandId, AudioNode> = {
+    low: lowSplit[2],
+    mid: midSplit[1],
+    high: highSplit[1],
+  };
+
+  const stages = {} as Record<MultibandBandId, { compressor: DynamicsCompressorNode; makeup: GainNode }>;
+  MULTIBAND_BANDS.forEach(({ id }) => {
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.knee.value = 6;
+    compressor.attack.value = BAND_TIMING[id].attack;
+    compressor.release.value = BAND_TIMING[id].release;
+    const makeup = ctx.createGain();
+    bandOutputs[id].connect(compressor).connect(makeup).connect(wet);
+    stages[id] = { compressor, makeup };
+  });
+
+  let enabled = false;
+  const setSettings = (settings: MultibandSettings) => {
+    enabled = settings.enabled;
+    atLowCrossover.forEach((node) => glide(node.frequency, settings.lowCrossover, ctx));
+    atHighCrossover.forEach((node) => glide(node.frequency, settings.highCrossover, ctx));
+    MULTIBAND_BANDS.forEach(({ id }) => {
+      const { compressor, makeup } = stages[id];
+      const bandSettings = settings.bands[id];
+      glide(compressor.threshold, bandSettings.threshold, ctx);
+      glide(compressor.ratio, bandSettings.ratio, ctx);
+      glide(makeup.gain, Math.pow(10, bandSettings.gain / 20), ctx);
+    });
+    glide(dry.gain, enabled ? 0 : 1, ctx);
+    glide(wet.gain, enabled ? 1 : 0, ctx);
+  };
+
+  const getReduction = () =>
+    Object.fromEntries(
+      MULTIBAND_BANDS.map(({ id }) => [id, enabled ? Math.max(0, -stages[id].compressor.reduction) : 0])
+    ) as Record<MultibandBandId, number>;
+
+  const dispose = () => {
+    [dry, lowSplit[0], upperSplit[0]].forEach((node) => {
+      try {
+        input.disconnect(node);
+      } catch { /* ignore */ }
+    });
+    disconnectAll([dry, wet, ...lowSplit, ...upperSplit, ...midSplit, ...highSplit]);
+    MULTIBAND_BANDS.forEach(({ id }) => disconnectAll([stages[id].compressor, stages[id].makeup]));
+  };
+
+  return { setSettings, getReduction, dispose };
+};
@@ -0,0 +1,83 @@
+import { freqToMidi } from '../music/notes';
+
+// YIN works on ~46 ms windows at 44.1 kHz, which reaches down to about 43 Hz.
+const WINDOW = 2048;
+const MAX_FREQ = 2000;
+const THRESHOLD = 0.15;
+const ANALYSIS_WINDOWS = 8;
+// Windows quieter than this share of the loudest one are skipped (tails, silence).
+const LOUD_SHARE = 0.25;
+
+export interface PitchEstimate {
+  freq: number;
+  clarity: number; // 1 - the normalised difference at the chosen lag; near 1 is a clean tone
+}
+
+const windowRms = (data: Float32Array, from: number) => {
+  let sum = 0;
+  for (let i = from; i < from + WINDOW; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / WINDOW);
+};
+
+/**
+ * YIN on one window starting at `from`: the cumulative mean normalised difference,
+ * the first dip under the threshold, refined by a parabola. Null when nothing dips.
+ */
+export const yinPitch = (data: Float32Array, sampleRate: number, from = 0): PitchEstimate | null => {
+  if (from + WINDOW > data.length) return null;
+  const maxTau = WINDOW / 2;
+  const minTau = Math.max(2, Math.floor(sampleRate / MAX_FREQ));
+  const diff = new Float32Array(maxTau);
+  for (let tau = 1; tau < maxTau; tau++) {
+    let sum = 0;
+    for (let j = 0; j < maxTau; j++) {
+      const d = data[from + j] - data[from + j + tau];
+      sum += d * d;
+    }
+    diff[tau] = sum;
+  }
+  const cmnd = new Float32Array(maxTau);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau < maxTau; tau++) {
+    running += diff[tau];
+    cmnd[tau] = running > 0 ? (diff[tau] * tau) / running : 1;
+  }
+  let tau = minTau;
+  while (tau < maxTau && cmnd[tau] >= THRESHOLD) tau++;
+  if (tau >= maxTau - 1) return null;
+  while (tau + 1 < maxTau && cmnd[tau + 1] < cmnd[tau]) tau++;
+  const a = cmnd[tau - 1];
+  const b = cmnd[tau];
+  const c = cmnd[tau + 1] ?? b;
+  const bend = a - 2 * b + c;
+  const refined = bend !== 0 ? tau + (a - c) / (2 * bend) : tau;
+  return { freq: sampleRate / refined, clarity: 1 - b };
+};
+
+/**
+ * Root note of a recording as a fractional midi number, or null when it is unpitched:
+ * YIN over up to eight windows spread across its loud part, the median of the
+ * pitched ones, kept only when at least half of the windows agree on a pitch.
+ */
+export const detectRootMidi = (data: Float32Array, sampleRate: number): number | null => {
+  const starts: number[] = [];
+  for (let i = 0; i + WINDOW <= data.length; i += WINDOW / 2) starts.push(i);
+  if (!starts.length) return null;
+  const levels = starts.map((from) => windowRms(data, from));
+  const loudest = levels.reduce((a, b) => Math.max(a, b), 0);
+  if (loudest <= 0) return null;
+  const loud = starts.filter((_, k) => levels[k] >= loudest * LOUD_SHARE);
+  const step = Math.max(1, loud.length / ANALYSIS_WINDOWS);
+  const picked: number[] = [];
+  for (let k = 0; k < loud.length && picked.length < ANALYSIS_WINDOWS; k += step) picked.push(loud[Math.floor(k)]);
+  const midis = picked
+    .map((from) => yinPitch(data, sampleRate, from))
+    .filter((estimate): estimate is PitchEstimate => estimate !== null)
+    .map((estimate) => freqToMidi(estimate.freq))
+    .sort((a, b) => a - b);
+  if (midis.length * 2 < picked.length) return null;
+  const median = midis[Math.floor(midis.length / 2)];
+  // Cents are enough; finer than that is noise in the estimate.
+  return Math.round(median * 100) / 100;
+};
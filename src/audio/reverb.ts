@@ -0,0 +1,240 @@
+import type { ReverbSettings } from '../../types';
+
+export const REVERB_PRE_DELAY_RANGE: [number, number] = [0, 0.2];
+export const MAX_IMPULSE_SECONDS = 6;
+const SPEED_OF_SOUND = 343;
+// Broadband wall absorption; damping only decides how much faster the highs go.
+const WALL_ABSORPTION = 0.3;
+// The drawn room mapped to metres: the front face is 12 x 8 m and DEPTH is 16 m, whatever the screen.
+const ROOM_METRES = { width: 12, height: 8, depth: 16 };
+const ROOM_DEPTH_UNITS = 1000;
+// Tail energy per second and the early reflections' lift over it, balanced by ear at the default size.
+const TAIL_ENERGY = 120;
+const EARLY_LEVEL = 3;
+
+export type Point3 = { x: number; y: number; z: number };
+
+/** The room box in metres: four front corners then four back corners (TL, TR, BR, BL). */
+export interface RoomShape {
+  front: Point3[];
+  back: Point3[];
+}
+
+export interface Reflection {
+  delay: number; // seconds after the direct sound
+  gain: number;
+  pan: number; // -1 left to 1 right
+}
+
+export interface RoomAcoustics {
+  rt60: number; // seconds for the tail to fall 60 dB
+  reflections: Reflection[]; // first and second order, sorted by delay
+}
+
+export const defaultReverbSettings = (): ReverbSettings => ({
+  followRoom: true,
+  size: 0.5,
+  preDelay: 0.012,
+  damping: 0.45,
+  diffusion: 0.7,
+  early: 0.5,
+});
+
+/** The undistorted box the Visualizer draws before any warp, in metres. */
+export const restingRoomShape = (): RoomShape =>
+  roomShapeFromBox(
+    [
+      { x: 0, y: 0, z: 0 },
+      { x: 1, y: 0, z: 0 },
+      { x: 1, y: 1, z: 0 },
+      { x: 0, y: 1, z: 0 },
+    ],
+    [
+      { x: -0.1, y: -0.1, z: ROOM_DEPTH_UNITS },
+      { x: 1.2, y: -0.05, z: ROOM_DEPTH_UNITS * 0.9 },
+      { x: 0.9, y: 1.1, z: ROOM_DEPTH_UNITS },
+      { x: -0.05, y: 1.05, z: ROOM_DEPTH_UNITS * 1.1 },
+    ],
+    1,
+    1
+  );
+
+/** Visualizer corners (pixels across, depth units back) to metres, so screen size does not change the sound. */
+export const roomShapeFromBox = (front: Point3[], back: Point3[], width: number, height: number): RoomShape => {
+  const toMetres = (p: Point3): Point3 => ({
+    x: (p.x / Math.max(1, width)) * ROOM_METRES.width,
+    y: (p.y / Math.max(1, height)) * ROOM_METRES.height,
+    z: (p.z / ROOM_DEPTH_UNITS) * ROOM_METRES.depth,
+  });
+  return { front: front.map(toMetres), back: back.map(toMetres) };
+};
+
+// Each face as corner indices into [...front, ...back], wound around the face.
+const FACES: number[][] = [
+  [0, 1, 2, 3], // front
+  [4, 5, 6, 7], // back
+  [0, 3, 7, 4], // left
+  [1, 2, 6, 5], // right
+  [0, 1, 5, 4], // ceiling
+  [3, 2, 6, 7], // floor
+];
+
+type Plane = { n: Point3; d: number };
+
+const sub = (a: Point3, b: Point3): Point3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Point3, b: Point3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Point3, b: Point3): Point3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const length = (a: Point3) => Math.sqrt(dot(a, a));
+
+const scaleShape = (shape: RoomShape, factor: number): RoomShape => {
+  const scale = (p: Point3) => ({ x: p.x * factor, y: p.y * factor, z: p.z * factor });
+  return { front: shape.front.map(scale), back: shape.back.map(scale) };
+};
+
+/** Size 0.5 keeps the room; each quarter of the knob doubles or halves every dimension. */
+export const reverbSizeFactor = (size: number) => Math.pow(2, (Math.max(0, Math.min(1, size)) - 0.5) * 4);
+
+/**
+ * Echo pattern and decay of the box by the image-source method: the source sits in the
+ * middle, the listener just inside the front face. Faces are planes through their corners,
+ * so a warped room tilts its walls and the reflections move with them.
+ */
+export const roomAcoustics = (shape: RoomShape, size: number): RoomAcoustics => {
+  const room = scaleShape(shape, reverbSizeFactor(size));
+  const corners = [...room.front, ...room.back];
+  const centre = corners.reduce((sum, p) => ({ x: sum.x + p.x / 8, y: sum.y + p.y / 8, z: sum.z + p.z / 8 }), { x: 0, y: 0, z: 0 });
+
+  let surface = 0;
+  let volume = 0;
+  const planes: Plane[] = FACES.map(([a, b, c, d]) => {
+    const [pa, pb, pc, pd] = [corners[a], corners[b], corners[c], corners[d]];
+    const normal = cross(sub(pc, pa), sub(pd, pb));
+    const area = length(normal) / 2;
+    let n = { x: normal.x / (area * 2 || 1), y: normal.y / (area * 2 || 1), z: normal.z / (area * 2 || 1) };
+    const mid = { x: (pa.x + pb.x + pc.x + pd.x) / 4, y: (pa.y + pb.y + pc.y + pd.y) / 4, z: (pa.z + pb.z + pc.z + pd.z) / 4 };
+    if (dot(n, sub(centre, mid)) < 0) n = { x: -n.x, y: -n.y, z: -n.z };
+    const plane = { n, d: -dot(n, mid) };
+    surface += area;
+    volume += (area * Math.max(0, dot(n, centre) + plane.d)) / 3;
+    return plane;
+  });
+
+  const frontMid = room.front.reduce((sum, p) => ({ x: sum.x + p.x / 4, y: sum.y + p.y / 4, z: sum.z + p.z / 4 }), { x: 0, y: 0, z: 0 });
+  const listener = { x: frontMid.x, y: frontMid.y, z: frontMid.z + (centre.z - frontMid.z) * 0.2 };
+  const direct = Math.max(0.5, length(sub(centre, listener)));
+  const reflectivity = Math.sqrt(1 - WALL_ABSORPTION);
+  const reflect = (p: Point3, plane: Plane): Point3 => {
+    const dist = dot(plane.n, p) + plane.d;
+    return { x: p.x - 2 * dist * plane.n.x, y: p.y - 2 * dist * plane.n.y, z: p.z - 2 * dist * plane.n.z };
+  };
+
+  const reflections: Reflection[] = [];
+  const addImage = (image: Point3, order: number) => {
+    const offset = sub(image, listener);
+    const dist = Math.max(direct, length(offset));
+    reflections.push({
+      delay: (dist - direct) / SPEED_OF_SOUND,
+      gain: (direct / dist) * Math.pow(reflectivity, order),
+      pan: Math.max(-1, Math.min(1, offset.x / dist)),
+    });
+  };
+  planes.forEach((plane, i) => {
+    const first = reflect(centre, plane);
+    addImage(first, 1);
+    planes.forEach((other, j) => {
+      if (j !== i) addImage(reflect(first, other), 2);
+    });
+  });
+  reflections.sort((a, b) => a.delay - b.delay);
+
+  // Sabine: decay grows with volume and shrinks with the surface soaking it up.
+  const rt60 = Math.max(0.15, Math.min(MAX_IMPULSE_SECONDS * 0.8, (0.161 * volume) / (surface * WALL_ABSORPTION || 1)));
+  return { rt60, reflections };
+};
+
+/**
+ * Stereo impulse response for the acoustics: early reflections as short bursts (longer
+ * with diffusion), a velvet-noise tail (denser with diffusion) that swells in after them,
+ * and a low-pass that closes over the tail (faster with damping). The convolver
+ * normalizes the level, so only the balance between its parts matters here.
+ */
+export const renderImpulseResponse = (
+  acoustics: RoomAcoustics,
+  settings: ReverbSettings,
+  sampleRate: number,
+  random: () => number
+): { left: Float32Array; right: Float32Array } => {
+  const preDelay = Math.max(REVERB_PRE_DELAY_RANGE[0], Math.min(REVERB_PRE_DELAY_RANGE[1], settings.preDelay));
+  const lastEcho = acoustics.reflections.length ? acoustics.reflections[acoustics.reflections.length - 1].delay : 0;
+  const seconds = Math.min(MAX_IMPULSE_SECONDS, preDelay + Math.max(acoustics.rt60 * 1.1, lastEcho + 0.05));
+  const frames = Math.max(1, Math.round(seconds * sampleRate));
+  const left = new Float32Array(frames);
+  const right = new Float32Array(frames);
+  const offset = Math.round(preDelay * sampleRate);
+  const diffusion = Math.max(0, Math.min(1, settings.diffusion));
+
+  const burstTaps = 1 + Math.round(diffusion * 7);
+  const burstSpread = diffusion * 0.004 * sampleRate;
+  acoustics.reflections.forEach((echo) => {
+    const level = echo.gain * settings.early * EARLY_LEVEL;
+    const gainL = level * Math.cos(((echo.pan + 1) * Math.PI) / 4);
+    const gainR = level * Math.sin(((echo.pan + 1) * Math.PI) / 4);
+    for (let tap = 0; tap < burstTaps; tap++) {
+      const at = offset + Math.round(echo.delay * sampleRate + random() * burstSpread);
+      if (at >= frames) continue;
+      const sign = tap === 0 ? 1 : random() < 0.5 ? -1 : 1;
+      const weight = tap === 0 ? 1 : 0.5 / Math.sqrt(burstTaps);
+      left[at] += gainL * sign * weight;
+      right[at] += gainR * sign * weight;
+    }
+  });
+
+  // Velvet noise: one signed pulse per slot, 300 to 6000 slots a second.
+  const slot = Math.max(1, Math.round(sampleRate / (300 + diffusion * diffusion * 5700)));
+  const pulseGain = Math.sqrt((TAIL_ENERGY * slot) / sampleRate);
+  const firstEcho = acoustics.reflections.length ? acoustics.reflections[0].delay : 0;
+  const swell = Math.max(0.005, (firstEcho + lastEcho) * 0.5);
+  const decayRate = 6.91 / acoustics.rt60;
+  for (let start = 0; start < frames - offset; start += slot) {
+    const t = start / sampleRate;
+    const envelope = Math.exp(-decayRate * t) * Math.min(1, t / swell);
+    const atL = offset + start + Math.floor(random() * slot);
+    const atR = offset + start + Math.floor(random() * slot);
+    if (atL < frames) left[atL] += (random() < 0.5 ? -1 : 1) * envelope * pulseGain;
+    if (atR < frames) right[atR] += (random() < 0.5 ? -1 : 1) * envelope * pulseGain;
+  }
+
+  // One-pole low-pass from 16 kHz down toward 500 Hz as the tail ages.
+  const damping = Math.max(0, Math.min(1, settings.damping));
+  const nyquist = sampleRate / 2;
+  [left, right].forEach((channel) => {
+    let state = 0;
+    let coeff = 1;
+    for (let i = 0; i < frames; i++) {
+      if ((i & 63) === 0) {
+        const age = Math.max(0, i - offset) / sampleRate / acoustics.rt60;
+        const cutoff = Math.max(500, Math.min(nyquist * 0.95, 16000 * Math.exp(-damping * 5 * age)));
+        coeff = 1 - Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+      }
+      state += coeff * (channel[i] - state);
+      channel[i] = state;
+    }
+  });
+
+  return { left, right };
+};
+
+/** Rounded fingerprint of what the impulse would sound like, to skip rebuilding it for tiny wobbles. */
+export const acousticsKey = (acoustics: RoomAcoustics, settings: ReverbSettings) =>
+  [
+    acoustics.rt60.toFixed(2),
+    ...acoustics.reflections.slice(0, 6).map((echo) => `${Math.round(echo.delay * 2000)}:${echo.pan.toFixed(1)}`),
+    settings.preDelay.toFixed(3),
+    settings.damping.toFixed(2),
+    settings.diffusion.toFixed(2),
+    settings.early.toFixed(2),
+  ].join('|');
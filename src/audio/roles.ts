@@ -0,0 +1,64 @@
+import type { CollisionKind, RoleSettings, RoleSource, RoleVoice, SoundRole } from '../../types';
+import { MAX_BANK_SLOTS } from './bankSelect';
+
+export const SOUND_ROLES: { id: SoundRole; label: string }[] = [
+  { id: 'wall', label: 'Wall' },
+  { id: 'floor', label: 'Floor' },
+  { id: 'bubble', label: 'Pair' },
+  { id: 'void', label: 'Void' },
+  { id: 'pop', label: 'Pop' },
+  { id: 'shatter', label: 'Shatter' },
+  { id: 'tesla', label: 'Tesla' },
+];
+
+export const ROLE_SOURCES: { id: RoleSource; label: string }[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: 'synth', label: 'Synth' },
+  { id: 'smp', label: 'Sample' },
+];
+
+export const ROLE_SAMPLE_SLOTS = MAX_BANK_SLOTS;
+export const ROLE_GAIN_RANGE: [number, number] = [0, 2];
+export const ROLE_PITCH_RANGE: [number, number] = [-24, 24];
+export const ROLE_ATTACK_RANGE: [number, number] = [0, 0.5];
+export const ROLE_DECAY_RANGE: [number, number] = [0, 4];
+
+// Events that only ever sound through the matrix; with it off they stay as silent as they used to be.
+const MATRIX_ONLY: SoundRole[] = ['void', 'pop', 'shatter', 'tesla'];
+
+const neutral: RoleVoice = { source: 'auto', slot: 0, gain: 1, pitch: 0, attack: 0, decay: 0 };
+
+/**
+ * Starting matrix: walls and pairs play as they always have, the floor and the void
+ * sit an octave down (the void swelling in), and the once-per-bubble events get short synth ticks.
+ */
+export const defaultRoleVoices = (): Record<SoundRole, RoleVoice> => ({
+  wall: { ...neutral },
+  floor: { ...neutral, pitch: -12 },
+  bubble: { ...neutral },
+  void: { ...neutral, pitch: -12, attack: 0.08, decay: 1.5 },
+  pop: { ...neutral, source: 'synth', gain: 0.6, pitch: 12, decay: 0.12 },
+  shatter: { ...neutral, source: 'synth', gain: 0.5, pitch: 24, decay: 0.4 },
+  tesla: { ...neutral, source: 'synth', gain: 0.7, pitch: 7, decay: 0.25 },
+});
+
+export const isSoundRole = (value: unknown): value is SoundRole =>
+  SOUND_ROLES.some((role) => role.id === value);
+
+export const isRoleSource = (value: unknown): value is RoleSource =>
+  ROLE_SOURCES.some((source) => source.id === value);
+
+/** Harmony rules know three kinds of hit; the finer roles fold into them. */
+export const collisionKindForRole = (role: SoundRole): CollisionKind =>
+  role === 'wall' || role === 'floor' ? 'wall' : role === 'void' ? 'void' : 'bubble';
+
+/**
+ * Voice settings a hit of this role plays with: null when it should stay silent,
+ * undefined when the matrix is off and the hit plays as it always has.
+ */
+export const resolveRoleVoice = (settings: RoleSettings, role: SoundRole | undefined): RoleVoice | null | undefined => {
+  if (!role) return undefined;
+  if (!settings.enabled) return MATRIX_ONLY.includes(role) ? null : undefined;
+  const voice = settings.roles[role];
+  return voice.gain > 0 ? voice : null;
+};
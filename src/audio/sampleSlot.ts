@@ -0,0 +1,193 @@
+import type { SampleSlotSettings } from '../../types';
+
+export const SAMPLE_GAIN_RANGE: [number, number] = [-24, 12];
+export const SAMPLE_ROOT_RANGE: [number, number] = [24, 108];
+export const SAMPLE_ATTACK_RANGE: [number, number] = [0, 2];
+export const SAMPLE_DECAY_RANGE: [number, number] = [0, 4];
+export const SAMPLE_RELEASE_RANGE: [number, number] = [0, 4];
+export const SAMPLE_HOLD_RANGE: [number, number] = [0, 8];
+export const MAX_SAMPLE_SLICES = 32;
+
+// Shortest region a slot may play; also the gap kept between start, loop start and end.
+const MIN_REGION_SECONDS = 0.01;
+// Transient detection works on short RMS frames.
+const FRAME = 512;
+const HOP = 256;
+const ONSET_HISTORY = 8;
+const MIN_ONSET_GAP_SECONDS = 0.06;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+type ChannelSource = Pick<AudioBuffer, 'numberOfChannels' | 'length' | 'getChannelData'>;
+
+/** Whole buffer, unity gain, the detected root (A4 without one) and the old fixed 10 ms in / 80 ms out. */
+export const defaultSampleSlot = (duration: number, detectedMidi: number | null = null): SampleSlotSettings => ({
+  start: 0,
+  end: duration,
+  loop: false,
+  loopStart: 0,
+  gain: 0,
+  rootMidi: detectedMidi === null ? 69 : clamp(detectedMidi, SAMPLE_ROOT_RANGE[0], SAMPLE_ROOT_RANGE[1]),
+  detectedMidi,
+  granular: false,
+  attack: 0.01,
+  decay: 0,
+  sustain: 1,
+  release: 0.08,
+  hold: 1,
+  slices: [],
+});
+
+/** Points kept in order inside the buffer, knobs in range, slices inside the region. */
+export const sanitizeSampleSlot = (slot: SampleSlotSettings, duration: number): SampleSlotSettings => {
+  const total = Math.max(MIN_REGION_SECONDS, duration);
+  const start = clamp(slot.start, 0, total - MIN_REGION_SECONDS);
+  const end = clamp(slot.end, start + MIN_REGION_SECONDS, total);
+  const slices = [...new Set(slot.slices.filter((t) => Number.isFinite(t) && t >= start && t < end - MIN_REGION_SECONDS))]
+    .sort((a, b) => a - b)
+    .slice(0, MAX_SAMPLE_SLICES);
+  return {
+    start,
+    end,
+    loop: slot.loop,
+    loopStart: clamp(slot.loopStart, start, end - MIN_REGION_SECONDS),
+    gain: clamp(slot.gain, SAMPLE_GAIN_RANGE[0], SAMPLE_GAIN_RANGE[1]),
+    rootMidi: clamp(slot.rootMidi, SAMPLE_ROOT_RANGE[0], SAMPLE_ROOT_RANGE[1]),
+    detectedMidi: Number.isFinite(slot.detectedMidi) ? slot.detectedMidi : null,
+    granular: slot.granular,
+    attack: clamp(slot.attack, SAMPLE_ATTACK_RANGE[0], SAMPLE_ATTACK_RANGE[1]),
+    decay: clamp(slot.decay, SAMPLE_DECAY_RANGE[0], SAMPLE_DECAY_RANGE[1]),
+    sustain: clamp(slot.sustain, 0, 1),
+    release: clamp(slot.release, SAMPLE_RELEASE_RANGE[0], SAMPLE_RELEASE_RANGE[1]),
+    hold: clamp(slot.hold, SAMPLE_HOLD_RANGE[0], SAMPLE_HOLD_RANGE[1]),
+    slices,
+  };
+};
+
+/** Channels averaged to one, for display and analysis. */
+export const monoChannel = (buffer: ChannelSource): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const out = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < out.length; i++) out[i] += data[i] / buffer.numberOfChannels;
+  }
+  return out;
+};
+
+/** Min and max per bucket, the usual waveform outline. */
+export const waveformPeaks = (data: Float32Array, buckets: number): [number, number][] => {
+  const count = Math.max(1, Math.floor(buckets));
+  const size = data.length / count;
+  const out: [number, number][] = [];
+  for (let b = 0; b < count; b++) {
+    let min = 0;
+    let max = 0;
+    const from = Math.floor(b * size);
+    const to = Math.max(from + 1, Math.floor((b + 1) * size));
+    for (let i = from; i < to && i < data.length; i++) {
+      if (data[i] < min) min = data[i];
+      if (data[i] > max) max = data[i];
+    }
+    out.push([min, max]);
+  }
+  return out;
+};
+
+const frameRms = (data: Float32Array, from: number) => {
+  let sum = 0;
+  const to = Math.min(data.length, from + FRAME);
+  for (let i = from; i < to; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / Math.max(1, to - from));
+};
+
+/**
+ * Where the sound starts and stops, in seconds: the first and last frame louder
+ * than `thresholdDb` below the loudest one, with a little padding kept around them.
+ */
+export const findSilenceBounds = (data: Float32Array, sampleRate: number, thresholdDb = -40, padSeconds = 0.01) => {
+  const duration = data.length / sampleRate;
+  const levels: number[] = [];
+  for (let i = 0; i < data.length; i += HOP) levels.push(frameRms(data, i));
+  const loudest = levels.reduce((a, b) => Math.max(a, b), 0);
+  if (loudest <= 0) return { start: 0, end: duration };
+  const floor = loudest * Math.pow(10, thresholdDb / 20);
+  const first = levels.findIndex((level) => level >= floor);
+  let last = levels.length - 1;
+  while (last > first && levels[last] < floor) last--;
+  return {
+    start: clamp((first * HOP) / sampleRate - padSeconds, 0, duration),
+    end: clamp((last * HOP + FRAME) / sampleRate + padSeconds, 0, duration),
+  };
+};
+
+/**
+ * Onsets between `from` and `to` seconds: frames whose level jumps above the recent
+ * average. Sensitivity 0 keeps only hard hits, 1 also catches soft ones.
+ */
+export const detectTransients = (data: Float32Array, sampleRate: number, sensitivity: number, from = 0, to = data.length / sampleRate) => {
+  const ratio = 3 - clamp(sensitivity, 0, 1) * 1.7;
+  const first = Math.max(0, Math.floor(from * sampleRate));
+  const last = Math.min(data.length, Math.floor(to * sampleRate));
+  const levels: number[] = [];
+  for (let i = first; i < last; i += HOP) levels.push(frameRms(data, i));
+  const loudest = levels.reduce((a, b) => Math.max(a, b), 0);
+  const floor = loudest * 0.05;
+  const onsets: number[] = [];
+  let lastOnset = -Infinity;
+  let rising = false;
+  for (let k = 0; k < levels.length; k++) {
+    const history = levels.slice(Math.max(0, k - ONSET_HISTORY), k);
+    const average = history.length ? history.reduce((a, b) => a + b, 0) / history.length : 0;
+    const jump = levels[k] > floor && levels[k] > average * ratio;
+    // Only the first frame of a jump counts; the frames after it are the same hit still swelling.
+    if (jump && !rising) {
+      const frameStart = first + k * HOP;
+      let i = frameStart;
+      while (i < frameStart + FRAME - 1 && i < last - 1 && Math.abs(data[i]) < floor) i++;
+      const at = i / sampleRate;
+      if (at - lastOnset >= MIN_ONSET_GAP_SECONDS) {
+        onsets.push(at);
+        lastOnset = at;
+        if (onsets.length >= MAX_SAMPLE_SLICES) break;
+      }
+    }
+    rising = jump;
+  }
+  return onsets;
+};
+
+/** The part of the buffer one hit plays: a random slice when the slot is sliced, the region otherwise. */
+export const pickSampleRegion = (slot: SampleSlotSettings, random: () => number) => {
+  if (!slot.slices.length) return { from: slot.start, to: slot.end };
+  const index = Math.min(slot.slices.length - 1, Math.floor(random() * slot.slices.length));
+  return { from: slot.slices[index], to: slot.slices[index + 1] ?? slot.end };
+};
+
+export interface SampleEnvelope {
+  attack: number; // seconds from the note start to the peak
+  decayEnd: number; // reaches the sustain level here
+  sustain: number;
+  releaseAt: number;
+  end: number;
+}
+
+/**
+ * ADSR times for a note whose region plays `length` seconds; a looped note holds
+ * instead. An override (a sound role) replaces the attack, and its decay cuts the
+ * note into a straight fall from the peak.
+ */
+export const sampleEnvelope = (
+  slot: SampleSlotSettings,
+  length: number,
+  override?: { attack: number; decay: number }
+): SampleEnvelope => {
+  let end = slot.loop ? slot.attack + slot.decay + slot.hold + slot.release : length;
+  const attack = Math.min(override?.attack || slot.attack, end * 0.5);
+  if (override?.decay) {
+    end = Math.min(end, attack + override.decay);
+    return { attack, decayEnd: attack, sustain: 1, releaseAt: attack, end };
+  }
+  const releaseAt = end - Math.min(slot.release, end - attack);
+  return { attack, decayEnd: Math.min(attack + slot.decay, releaseAt), sustain: slot.sustain, releaseAt, end };
+};
@@ -0,0 +1,75 @@
+import type { TimbreFeatures, TimbreRoute, TimbreSettings, TimbreSource, TimbreTarget } from '../../types';
+import type { EngineParams, VoiceEngine } from './engines/types';
+
+export const TIMBRE_SOURCES: { id: TimbreSource; label: string }[] = [
+  { id: 'charge', label: 'Charge' },
+  { id: 'hue', label: 'Hue' },
+  { id: 'radius', label: 'Radius' },
+  { id: 'speed', label: 'Speed' },
+  { id: 'jelly', label: 'Jelly' },
+  { id: 'irregularity', label: 'Shape' },
+];
+
+export const TIMBRE_TARGETS: { id: TimbreTarget; label: string }[] = [
+  { id: 'brightness', label: 'Bright' },
+  { id: 'fmIndex', label: 'FM' },
+  { id: 'decay', label: 'Decay' },
+  { id: 'resonance', label: 'Reso' },
+];
+
+export const MAX_TIMBRE_ROUTES = 8;
+
+// A full-scale modulation moves a param across this share of its range (or of its ratio range, see applyTimbre).
+const TIMBRE_DEPTH = 0.5;
+
+const clampSigned = (v: number) => Math.max(-1, Math.min(1, v));
+
+export const isTimbreSource = (value: unknown): value is TimbreSource =>
+  TIMBRE_SOURCES.some((source) => source.id === value);
+
+export const isTimbreTarget = (value: unknown): value is TimbreTarget =>
+  TIMBRE_TARGETS.some((target) => target.id === value);
+
+/** First source/target pair not routed yet, or null when every pair is taken. */
+export const nextFreeTimbreRoute = (routes: TimbreRoute[]): Omit<TimbreRoute, 'amount'> | null => {
+  for (const source of TIMBRE_SOURCES) {
+    for (const target of TIMBRE_TARGETS) {
+      if (!routes.some((route) => route.source === source.id && route.target === target.id)) {
+        return { source: source.id, target: target.id };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Sum the routes into a -1..1 push per target. Features are centred first, so
+ * an average bubble leaves the knobs where they are and routes only spread the sound.
+ */
+export const resolveTimbre = (settings: TimbreSettings, features: TimbreFeatures) => {
+  const out: Partial<Record<TimbreTarget, number>> = {};
+  if (!settings.enabled) return out;
+  settings.routes.forEach((route) => {
+    const feature = features[route.source];
+    if (!Number.isFinite(feature) || !Number.isFinite(route.amount)) return;
+    out[route.target] = clampSigned((out[route.target] ?? 0) + route.amount * (feature * 2 - 1));
+  });
+  return out;
+};
+
+/**
+ * Apply a timbre push to the params the engine tagged for each target.
+ * Strictly positive ranges (times, cutoffs, Q) move by ratio, 0-based ones linearly.
+ */
+export const applyTimbre = (engine: VoiceEngine, params: EngineParams, modulation: Partial<Record<TimbreTarget, number>>) => {
+  const out: EngineParams = { ...params };
+  engine.params.forEach((def) => {
+    const push = def.timbre ? modulation[def.timbre] : undefined;
+    if (!push) return;
+    const value = def.min > 0
+      ? params[def.id] * Math.pow(def.max / def.min, push * TIMBRE_DEPTH)
+      : params[def.id] + push * TIMBRE_DEPTH * (def.max - def.min);
+    out[def.id] = Math.max(def.min, Math.min(def.max, value));
+  });
+  return out;
+};
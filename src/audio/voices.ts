@@ -0,0 +1,109 @@
+export type VoiceShape = 'decay' | 'sustain'; // synth pings decay from the start, samples hold until their fade
+
+export interface Voice {
+  id: number;
+  kind: 'synth' | 'mic' | 'smp';
+  midi: number;
+  peak: number; // gain the envelope reaches
+  shape: VoiceShape;
+  startedAt: number; // context seconds
+  endsAt: number;
+  release: (at: number) => void; // fade out quickly and stop; called when the voice is stolen
+}
+
+export interface VoiceSnapshot {
+  id: number;
+  kind: Voice['kind'];
+  midi: number;
+  age: number; // seconds
+  level: number; // estimated current gain
+}
+
+export interface VoiceMetrics {
+  active: number;
+  max: number;
+  stolen: number; // total since the engine started
+  voices: VoiceSnapshot[];
+}
+
+export const DEFAULT_MAX_VOICES = 40;
+
+// Estimates closer than this count as equally loud, and the older voice goes first.
+const LEVEL_TIE = 1e-3;
+
+/** Rough envelope position without reading the AudioParam back. */
+export const estimateVoiceLevel = (voice: Pick<Voice, 'peak' | 'shape' | 'startedAt' | 'endsAt'>, now: number) => {
+  const span = Math.max(1e-6, voice.endsAt - voice.startedAt);
+  const progress = Math.max(0, Math.min(1, (now - voice.startedAt) / span));
+  return voice.shape === 'decay' ? voice.peak * Math.pow(1 - progress, 3) : voice.peak * (progress >= 1 ? 0 : 1);
+};
+
+/** Quietest voice wins; among equally quiet ones the oldest. */
+export const pickVoiceToSteal = (voices: Iterable<Voice>, now: number): Voice | null => {
+  let victim: Voice | null = null;
+  let victimLevel = Infinity;
+  for (const voice of voices) {
+    const level = estimateVoiceLevel(voice, now);
+    const quieter = level < victimLevel - LEVEL_TIE;
+    const tiedButOlder = Math.abs(level - victimLevel) <= LEVEL_TIE && victim !== null && voice.startedAt < victim.startedAt;
+    if (quieter || tiedButOlder) {
+      victim = voice;
+      victimLevel = level;
+    }
+  }
+  return victim;
+};
+
+/**
+ * Tracks every sounding voice. When the pool is full, makeRoom() steals one
+ * (its release fades it out) instead of dropping the new note.
+ */
+export const createVoiceAllocator = (maxVoices = DEFAULT_MAX_VOICES) => {
+  const voices = new Map<number, Voice>();
+  let nextId = 1;
+  let stolen = 0;
+
+  const makeRoom = (now: number): Voice | null => {
+    if (voices.size < maxVoices) return null;
+    const victim = pickVoiceToSteal(voices.values(), now);
+    if (!victim) return null;
+    voices.delete(victim.id);
+    stolen += 1;
+    try {
+      victim.release(now);
+    } catch { /* node already gone */ }
+    return victim;
+  };
+
+  const add = (voice: Omit<Voice, 'id'>): number => {
+    const id = nextId++;
+    voices.set(id, { ...voice, id });
+    return id;
+  };
+
+  const metrics = (now: number): VoiceMetrics => ({
+    active: voices.size,
+    max: maxVoices,
+    stolen,
+    voices: Array.from(voices.values(), (voice) => ({
+      id: voice.id,
+      kind: voice.kind,
+      midi: voice.midi,
+      age: Math.max(0, now - voice.startedAt),
+      level: estimateVoiceLevel(voice, now),
+    })),
+  });
+
+  return {
+    makeRoom,
+    add,
+    remove: (id: number) => {
+      voices.delete(id);
+    },
+    clear: () => voices.clear(),
+    size: () => voices.size,
+    metrics,
+  };
+};
+
+export type VoiceAllocator = ReturnType<typeof createVoiceAllocator>;
@@ -0,0 +1,96 @@
+export type WavFormat = 'pcm16' | 'pcm24' | 'float32';
+
+const BYTES_PER_SAMPLE: Record<WavFormat, number> = { pcm16: 2, pcm24: 3, float32: 4 };
+
+/** Glue ScriptProcessor-style chunks into one contiguous channel. */
+export const joinFloat32Chunks = (chunks: Float32Array[]): Float32Array => {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Float32Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+};
+
+/**
+ * Interleave planar channels into a RIFF/WAVE file.
+ * 16/24-bit are integer PCM (clipped to [-1, 1]); float32 is IEEE float and keeps overs intact.
+ */
+export const encodeWavBytes = (channels: Float32Array[], sampleRate: number, format: WavFormat = 'pcm16'): ArrayBuffer => {
+  const numChannels = Math.max(1, channels.length);
+  const frames = channels.reduce((max, ch) => Math.max(max, ch.length), 0);
+  const bytesPerSample = BYTES_PER_SAMPLE[format];
+  const isFloat = format === 'float32';
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = frames * blockAlign;
+  // Non-PCM data needs the extended fmt chunk (cbSize) and a fact chunk.
+  const fmtSize = isFloat ? 18 : 16;
+  const factSize = isFloat ? 12 : 0;
+  const headerSize = 12 + (8 + fmtSize) + factSize + 8;
+
+  const buffer = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, headerSize - 8 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, isFloat ? 3 : 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  let offset = 36;
+  if (isFloat) {
+    view.setUint16(offset, 0, true);
+    offset += 2;
+    writeString(offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frames, true);
+    offset += 12;
+  }
+  writeString(offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const raw = channels[c]?.[i] ?? 0;
+      const value = Number.isFinite(raw) ? raw : 0;
+      if (isFloat) {
+        view.setFloat32(offset, value, true);
+      } else {
+        const sample = Math.max(-1, Math.min(1, value));
+        if (format === 'pcm24') {
+          const int = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+          view.setUint8(offset, int & 0xff);
+          view.setUint8(offset + 1, (int >> 8) & 0xff);
+          view.setUint8(offset + 2, (int >> 16) & 0xff);
+        } else {
+          view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+};
+
+export const encodeWav = (channels: Float32Array[], sampleRate: number, format: WavFormat = 'pcm16') =>
+  new Blob([encodeWavBytes(channels, sampleRate, format)], { type: 'audio/wav' });
+
+export const encodeAudioBufferWav = (buffer: AudioBuffer, format: WavFormat = 'pcm24') => {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+  return encodeWav(channels, buffer.sampleRate, format);
+};
@@ -0,0 +1,72 @@
+import { createDatabase, requestToPromise, transactionDone } from '../storage/idb';
+import type { LibrarySample, SampleKit } from './sampleLibrary';
+
+const SAMPLES = 'samples';
+const FILES = 'files';
+const KITS = 'kits';
+
+const openLibraryDb = createDatabase('glassroom-library', 1, (db, oldVersion) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(SAMPLES, { keyPath: 'id' });
+    // Files are keyed by sample id and kept apart from the metadata, so listing never reads audio.
+    db.createObjectStore(FILES);
+    db.createObjectStore(KITS, { keyPath: 'id' });
+  }
+});
+
+export const listLibrary = async (): Promise<{ samples: LibrarySample[]; kits: SampleKit[] }> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction([SAMPLES, KITS]);
+  const [samples, kits] = await Promise.all([
+    requestToPromise(tx.objectStore(SAMPLES).getAll() as IDBRequest<LibrarySample[]>),
+    requestToPromise(tx.objectStore(KITS).getAll() as IDBRequest<SampleKit[]>),
+  ]);
+  return {
+    samples: samples.sort((a, b) => b.createdAt - a.createdAt),
+    kits: kits.sort((a, b) => b.createdAt - a.createdAt),
+  };
+};
+
+/** Writes the file and its metadata together. */
+export const saveLibrarySample = async (sample: LibrarySample, file: Blob): Promise<void> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction([SAMPLES, FILES], 'readwrite');
+  tx.objectStore(FILES).put(file, sample.id);
+  tx.objectStore(SAMPLES).put(sample);
+  await transactionDone(tx);
+};
+
+export const updateLibrarySample = async (sample: LibrarySample): Promise<void> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction(SAMPLES, 'readwrite');
+  tx.objectStore(SAMPLES).put(sample);
+  await transactionDone(tx);
+};
+
+export const loadLibraryFile = async (sampleId: string): Promise<Blob | null> => {
+  const db = await openLibraryDb();
+  const file = await requestToPromise(db.transaction(FILES).objectStore(FILES).get(sampleId) as IDBRequest<Blob | undefined>);
+  return file ?? null;
+};
+
+export const deleteLibrarySample = async (sampleId: string): Promise<void> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction([SAMPLES, FILES], 'readwrite');
+  tx.objectStore(SAMPLES).delete(sampleId);
+  tx.objectStore(FILES).delete(sampleId);
+  await transactionDone(tx);
+};
+
+export const saveKit = async (kit: SampleKit): Promise<void> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction(KITS, 'readwrite');
+  tx.objectStore(KITS).put(kit);
+  await transactionDone(tx);
+};
+
+export const deleteKit = async (kitId: string): Promise<void> => {
+  const db = await openLibraryDb();
+  const tx = db.transaction(KITS, 'readwrite');
+  tx.objectStore(KITS).delete(kitId);
+  await transactionDone(tx);
+};
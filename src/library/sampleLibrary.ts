@@ -0,0 +1,187 @@
+import type { SampleBankId, SampleSlotSettings } from '../../types';
+import { MAX_BANK_SLOTS } from '../audio/bankSelect';
+import { defaultSampleSlot, sanitizeSampleSlot } from '../audio/sampleSlot';
+import type { ZipEntry } from '../storage/zip';
+
+export interface LibrarySample {
+  id: string;
+  name: string;
+  tags: string[];
+  duration: number; // seconds
+  sampleRate: number;
+  mimeType: string;
+  size: number; // bytes of the stored file
+  createdAt: number; // epoch ms
+}
+
+/** A kit slot names a library sample and, optionally, the editor state it was saved with. */
+export interface KitSlot {
+  sampleId: string;
+  settings: SampleSlotSettings | null;
+}
+
+export interface SampleKit {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  slots: (KitSlot | null)[]; // KIT_SLOTS long: M01-M12, then S01-S12
+}
+
+export const BANK_SLOTS = MAX_BANK_SLOTS;
+export const KIT_SLOTS = BANK_SLOTS * 2;
+// Kits saved while each bank had six slots: M01-M06, then S01-S06.
+const LEGACY_BANK_SLOTS = 6;
+// Same limit the banks apply to anything they load.
+export const MAX_LIBRARY_SAMPLE_SECONDS = 10;
+export const LIBRARY_ARCHIVE_VERSION = 1;
+// Impulse responses live in the library like any sample; this tag is what the reverb lists.
+export const IMPULSE_TAG = 'ir';
+
+export const kitSlotBank = (slot: number): { bank: SampleBankId; index: number } =>
+  slot < BANK_SLOTS ? { bank: 'mic', index: slot } : { bank: 'smp', index: slot - BANK_SLOTS };
+
+export const kitSlotIndex = (bank: SampleBankId, index: number) => (bank === 'mic' ? index : BANK_SLOTS + index);
+
+export const kitSlotLabel = (slot: number) => {
+  const { bank, index } = kitSlotBank(slot);
+  return `${bank === 'mic' ? 'M' : 'S'}${String(index + 1).padStart(2, '0')}`;
+};
+
+/** Slots of a kit in either layout, laid out KIT_SLOTS long; a list no longer than the old layout is read as six-slot banks. */
+export const kitSlotsInLayout = <T>(slots: T[]): (T | null)[] => {
+  if (slots.length > LEGACY_BANK_SLOTS * 2) return Array.from({ length: KIT_SLOTS }, (_, i) => slots[i] ?? null);
+  return Array.from({ length: KIT_SLOTS }, (_, i) => {
+    const { bank, index } = kitSlotBank(i);
+    if (index >= LEGACY_BANK_SLOTS) return null;
+    return slots[bank === 'mic' ? index : LEGACY_BANK_SLOTS + index] ?? null;
+  });
+};
+
+/** Comma or space separated, lower case, no repeats. */
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(/[\s,]+/).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const sampleNameFromFile = (fileName: string) => fileName.replace(/\.[a-z0-9]+$/i, '').trim() || 'Sample';
+
+export const matchesSampleQuery = (sample: LibrarySample, query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${sample.name.toLowerCase()} ${sample.tags.join(' ')}`;
+  return words.every((word) => haystack.includes(word));
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/** True for the browser's "storage full" rejection, whichever way it is spelled. */
+export const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+};
+
+const sampleFilePath = (sample: LibrarySample) => `samples/${sample.id}.${EXTENSIONS[sample.mimeType.split(';')[0]] ?? 'bin'}`;
+
+type ArchiveManifest = {
+  version: number;
+  samples: (LibrarySample & { file: string })[];
+  kits: SampleKit[];
+};
+
+/** Manifest plus one file per sample, ready for `createZip`. */
+export const buildLibraryArchive = (
+  samples: LibrarySample[],
+  files: Map<string, Uint8Array>,
+  kits: SampleKit[]
+): ZipEntry[] => {
+  const stored = samples.filter((sample) => files.has(sample.id));
+  const manifest: ArchiveManifest = {
+    version: LIBRARY_ARCHIVE_VERSION,
+    samples: stored.map((sample) => ({ ...sample, file: sampleFilePath(sample) })),
+    kits,
+  };
+  return [
+    { name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ...stored.map((sample) => ({ name: sampleFilePath(sample), data: files.get(sample.id)! })),
+  ];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const sanitizeSample = (raw: unknown): { sample: LibrarySample; file: string } | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id || typeof raw.file !== 'string') return null;
+  const number = (value: unknown, fallback = 0) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+  const sample: LibrarySample = {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Sample',
+    tags: Array.isArray(raw.tags) ? parseTags(raw.tags.filter((tag): tag is string => typeof tag === 'string').join(' ')) : [],
+    duration: number(raw.duration),
+    sampleRate: number(raw.sampleRate),
+    mimeType: typeof raw.mimeType === 'string' ? raw.mimeType : 'application/octet-stream',
+    size: number(raw.size),
+    createdAt: number(raw.createdAt, Date.now()),
+  };
+  return { sample, file: raw.file };
+};
+
+/** Kits from any source: exactly KIT_SLOTS slots, each naming a sample or empty. */
+export const sanitizeKit = (raw: unknown, durationOf: (sampleId: string) => number | undefined): SampleKit | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+  const slots = kitSlotsInLayout<unknown>(Array.isArray(raw.slots) ? raw.slots : []);
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Kit',
+    createdAt: typeof raw.createdAt === 'number' && Number.isFinite(raw.createdAt) ? raw.createdAt : Date.now(),
+    slots: Array.from({ length: KIT_SLOTS }, (_, i) => {
+      const slot = slots[i];
+      if (!isRecord(slot) || typeof slot.sampleId !== 'string') return null;
+      const duration = durationOf(slot.sampleId);
+      // Fields a newer or hand-edited archive leaves out fall back to a fresh slot.
+      const settings = isRecord(slot.settings) && duration !== undefined
+        ? sanitizeSampleSlot(
+            {
+              ...defaultSampleSlot(duration),
+              ...(slot.settings as Partial<SampleSlotSettings>),
+              slices: Array.isArray(slot.settings.slices) ? slot.settings.slices.filter((t): t is number => typeof t === 'number') : [],
+            },
+            duration
+          )
+        : null;
+      return { sampleId: slot.sampleId, settings };
+    }),
+  };
+};
+
+/** Samples (with their files) and kits out of an archive's entries; entries without a file are dropped. */
+export const parseLibraryArchive = (entries: ZipEntry[]) => {
+  const manifestEntry = entries.find((entry) => entry.name === 'manifest.json');
+  if (!manifestEntry) throw new Error('No manifest.json in the archive.');
+  const manifest: unknown = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+  if (!isRecord(manifest) || typeof manifest.version !== 'number') throw new Error('Not a sample library archive.');
+  if (manifest.version > LIBRARY_ARCHIVE_VERSION) throw new Error(`Archive version ${manifest.version} is newer than this app.`);
+  const byName = new Map(entries.map((entry) => [entry.name, entry.data]));
+  const samples: { sample: LibrarySample; data: Uint8Array }[] = [];
+  (Array.isArray(manifest.samples) ? manifest.samples : []).forEach((raw) => {
+    const parsed = sanitizeSample(raw);
+    const data = parsed && byName.get(parsed.file);
+    if (!parsed || !data) return;
+    samples.push({ sample: { ...parsed.sample, size: data.length }, data });
+  });
+  const durations = new Map(samples.map(({ sample }) => [sample.id, sample.duration]));
+  const kits = (Array.isArray(manifest.kits) ? manifest.kits : [])
+    .map((raw) => sanitizeKit(raw, (id) => durations.get(id)))
+    .filter((kit): kit is SampleKit => kit !== null);
+  return { samples, kits };
+};
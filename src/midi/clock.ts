@@ -0,0 +1,45 @@
+export const CLOCK_PPQN = 24;
+
+// No pulse for this long means the clock stopped (40 BPM pulses every 62.5 ms).
+export const CLOCK_TIMEOUT_MS = 400;
+
+// Pulses averaged for the BPM estimate: two beats smooths USB jitter without lagging tempo changes much.
+const WINDOW = CLOCK_PPQN * 2;
+const MIN_INTERVALS = 6;
+
+/**
+ * Turns MIDI clock pulse timestamps (ms) into a BPM estimate.
+ * pulse() returns the current estimate rounded to 0.1, or null until enough pulses arrived.
+ */
+export const createClockFollower = () => {
+  const intervals: number[] = [];
+  let last: number | null = null;
+  let sum = 0;
+
+  const reset = () => {
+    intervals.length = 0;
+    last = null;
+    sum = 0;
+  };
+
+  const pulse = (timeMs: number): number | null => {
+    if (last !== null) {
+      const dt = timeMs - last;
+      if (dt <= 0 || dt > CLOCK_TIMEOUT_MS) {
+        reset();
+      } else {
+        intervals.push(dt);
+        sum += dt;
+        if (intervals.length > WINDOW) sum -= intervals.shift() ?? 0;
+      }
+    }
+    last = timeMs;
+    if (intervals.length < MIN_INTERVALS) return null;
+    const bpm = 60000 / ((sum / intervals.length) * CLOCK_PPQN);
+    return Math.round(bpm * 10) / 10;
+  };
+
+  return { pulse, reset };
+};
+
+export type ClockFollower = ReturnType<typeof createClockFollower>;
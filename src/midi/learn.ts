@@ -0,0 +1,140 @@
+/** A hardware CC bound to one learnable control. min/max are in the control's normalised 0..1 space. */
+export interface MidiMapping {
+  controlId: string;
+  channel: number; // 1..16
+  cc: number; // 0..127
+  min: number;
+  max: number;
+  invert: boolean;
+  soft: boolean; // soft takeover: ignore the CC until it reaches the current value
+}
+
+/** Mappings are stored per input device name, so each controller keeps its own layout. */
+export type MidiMappingBook = Record<string, MidiMapping[]>;
+
+export interface TakeoverState {
+  engaged: boolean;
+  lastSent: number | null; // last value this mapping wrote
+  lastIncoming: number | null;
+}
+
+// How close (normalised) the hardware has to come before soft takeover engages.
+export const PICKUP_WINDOW = 0.03;
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+export const createMapping = (controlId: string, channel: number, cc: number): MidiMapping => ({
+  controlId,
+  channel,
+  cc,
+  min: 0,
+  max: 1,
+  invert: false,
+  soft: true,
+});
+
+export const ccToControlValue = (mapping: MidiMapping, value: number) => {
+  const t = clamp01(value / 127);
+  const shaped = mapping.invert ? 1 - t : t;
+  return clamp01(mapping.min + (mapping.max - mapping.min) * shaped);
+};
+
+/**
+ * Decide whether an incoming (already mapped) value may move the control.
+ * Without soft takeover every value passes; with it the CC must first meet
+ * or cross the control's current value, and any outside change (mouse, scene load)
+ * releases the pickup again.
+ */
+export const applyTakeover = (
+  state: TakeoverState,
+  incoming: number,
+  current: number,
+  soft: boolean
+): { value: number | null; state: TakeoverState } => {
+  if (!soft) return { value: incoming, state: { engaged: true, lastSent: incoming, lastIncoming: incoming } };
+
+  const movedElsewhere = state.lastSent !== null && Math.abs(current - state.lastSent) > 1e-3;
+  let engaged = state.engaged && !movedElsewhere;
+  if (!engaged) {
+    const near = Math.abs(incoming - current) <= PICKUP_WINDOW;
+    const prev = state.lastIncoming;
+    const crossed = prev !== null && !movedElsewhere && (prev - current) * (incoming - current) <= 0;
+    engaged = near || crossed;
+  }
+  if (!engaged) {
+    return { value: null, state: { engaged: false, lastSent: movedElsewhere ? null : state.lastSent, lastIncoming: incoming } };
+  }
+  return { value: incoming, state: { engaged: true, lastSent: incoming, lastIncoming: incoming } };
+};
+
+/** One CC drives one control per device: learning replaces both the control's old CC and the CC's old control. */
+export const upsertMapping = (list: MidiMapping[], mapping: MidiMapping) => [
+  ...list.filter(
+    (m) => m.controlId !== mapping.controlId && !(m.channel === mapping.channel && m.cc === mapping.cc)
+  ),
+  mapping,
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+const sanitizeMapping = (raw: unknown): MidiMapping | null => {
+  if (!isRecord(raw) || typeof raw.controlId !== 'string' || !raw.controlId) return null;
+  if (typeof raw.cc !== 'number' || typeof raw.channel !== 'number') return null;
+  return {
+    controlId: raw.controlId,
+    channel: Math.round(readNumber(raw.channel, 1, 1, 16)),
+    cc: Math.round(readNumber(raw.cc, 0, 0, 127)),
+    min: readNumber(raw.min, 0, 0, 1),
+    max: readNumber(raw.max, 1, 0, 1),
+    invert: raw.invert === true,
+    soft: raw.soft !== false,
+  };
+};
+
+export const sanitizeMappingBook = (raw: unknown): MidiMappingBook => {
+  if (!isRecord(raw)) return {};
+  const book: MidiMappingBook = {};
+  Object.entries(raw).forEach(([device, list]) => {
+    if (!Array.isArray(list)) return;
+    const mappings = list.map(sanitizeMapping).filter((m): m is MidiMapping => m !== null);
+    if (mappings.length) book[device] = mappings;
+  });
+  return book;
+};
+
+const STORAGE_KEY = 'glassroom.midi.mappings';
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const loadMappingBook = (): MidiMappingBook => {
+  const storage = getStorage();
+  if (!storage) return {};
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return sanitizeMappingBook(raw ? JSON.parse(raw) : null);
+  } catch (e) {
+    console.warn('MIDI mappings unavailable.', e);
+    return {};
+  }
+};
+
+export const saveMappingBook = (book: MidiMappingBook) => {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(book));
+  } catch (e) {
+    console.warn('Failed to persist MIDI mappings.', e);
+  }
+};
@@ -0,0 +1,70 @@
+/** What the engine knows about a collision once pitch and spatial position are settled. */
+export interface CollisionNote {
+  midi: number; // quantized, before doppler
+  level: number; // 0..1, volume after depth attenuation
+  pan: number; // -1..1, including gyro
+  depth: number; // -1..1, including gyro (positive = far)
+  doppler: number; // -1..1, signed pitch drift from Z velocity
+}
+
+// Fixed CC layout for collision output: pan on the GM pan CC, depth on reverb send, doppler on the mod wheel.
+export const COLLISION_CC = { pan: 10, depth: 91, doppler: 1 } as const;
+
+const clampInt = (x: number, a: number, b: number) => Math.max(a, Math.min(b, Math.round(x)));
+const channelNibble = (channel: number) => clampInt(channel, 1, 16) - 1;
+
+export const noteOn = (channel: number, note: number, velocity: number) =>
+  [0x90 | channelNibble(channel), clampInt(note, 0, 127), clampInt(velocity, 1, 127)];
+
+export const noteOff = (channel: number, note: number) => [0x80 | channelNibble(channel), clampInt(note, 0, 127), 0];
+
+export const controlChange = (channel: number, controller: number, value: number) =>
+  [0xb0 | channelNibble(channel), clampInt(controller, 0, 127), clampInt(value, 0, 127)];
+
+export const allNotesOff = (channel: number) => controlChange(channel, 123, 0);
+
+/** Square-root curve so quiet hits still land in a playable velocity range. */
+export const levelToVelocity = (level: number) =>
+  clampInt(1 + 126 * Math.sqrt(Math.max(0, Math.min(1, Number.isFinite(level) ? level : 0))), 1, 127);
+
+/** -1..1 onto 0..127 with 64 as centre. */
+export const bipolarToCc = (value: number) => {
+  const v = Number.isFinite(value) ? Math.max(-1, Math.min(1, value)) : 0;
+  return v >= 0 ? clampInt(64 + v * 63, 64, 127) : clampInt(64 + v * 64, 0, 64);
+};
+
+export const unipolarToCc = (value: number) => clampInt((Number.isFinite(value) ? value : 0) * 127, 0, 127);
+
+export const collisionMessages = (note: CollisionNote, channel: number) => ({
+  cc: [
+    controlChange(channel, COLLISION_CC.pan, bipolarToCc(note.pan)),
+    // Far = more send, so only the positive half of depth is used.
+    controlChange(channel, COLLISION_CC.depth, unipolarToCc(note.depth)),
+    controlChange(channel, COLLISION_CC.doppler, unipolarToCc(Math.abs(note.doppler))),
+  ],
+  on: noteOn(channel, note.midi, levelToVelocity(note.level)),
+  off: noteOff(channel, note.midi),
+});
+
+export type MidiInputMessage =
+  | { type: 'cc'; channel: number; controller: number; value: number }
+  | { type: 'clock' | 'start' | 'continue' | 'stop' }
+  | { type: 'other'; status: number };
+
+// System real-time bytes; they can arrive between the bytes of any other message.
+const REALTIME: Record<number, 'clock' | 'start' | 'continue' | 'stop'> = {
+  0xf8: 'clock',
+  0xfa: 'start',
+  0xfb: 'continue',
+  0xfc: 'stop',
+};
+
+export const parseMidiMessage = (data: ArrayLike<number>): MidiInputMessage => {
+  const status = data[0] ?? 0;
+  const realtime = REALTIME[status];
+  if (realtime) return { type: realtime };
+  if ((status & 0xf0) === 0xb0 && data.length >= 3) {
+    return { type: 'cc', channel: (status & 0x0f) + 1, controller: data[1] & 0x7f, value: data[2] & 0x7f };
+  }
+  return { type: 'other', status };
+};
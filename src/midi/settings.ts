@@ -0,0 +1,63 @@
+export interface MidiOutSettings {
+  enabled: boolean;
+  portId: string | null; // null = first available output
+  channel: number; // 1..16
+  gateMs: number; // note length sent to the port
+}
+
+export const DEFAULT_MIDI_OUT: MidiOutSettings = {
+  enabled: false,
+  portId: null,
+  channel: 1,
+  gateMs: 250,
+};
+
+export const MIDI_GATE_RANGE: [number, number] = [20, 4000];
+
+const STORAGE_KEY = 'glassroom.midi.out';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const sanitizeMidiOut = (raw: unknown): MidiOutSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const channel = typeof src.channel === 'number' && Number.isFinite(src.channel) ? Math.round(src.channel) : DEFAULT_MIDI_OUT.channel;
+  const gateMs = typeof src.gateMs === 'number' && Number.isFinite(src.gateMs) ? src.gateMs : DEFAULT_MIDI_OUT.gateMs;
+  return {
+    enabled: typeof src.enabled === 'boolean' ? src.enabled : DEFAULT_MIDI_OUT.enabled,
+    portId: typeof src.portId === 'string' && src.portId ? src.portId : null,
+    channel: Math.max(1, Math.min(16, channel)),
+    gateMs: Math.max(MIDI_GATE_RANGE[0], Math.min(MIDI_GATE_RANGE[1], gateMs)),
+  };
+};
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const loadMidiOutSettings = (): MidiOutSettings => {
+  const storage = getStorage();
+  if (!storage) return { ...DEFAULT_MIDI_OUT };
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return sanitizeMidiOut(raw ? JSON.parse(raw) : null);
+  } catch (e) {
+    console.warn('MIDI settings unavailable.', e);
+    return { ...DEFAULT_MIDI_OUT };
+  }
+};
+
+export const saveMidiOutSettings = (settings: MidiOutSettings) => {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Failed to persist MIDI settings.', e);
+  }
+};
@@ -0,0 +1,37 @@
+import type { GrooveDivision, GrooveSettings } from '../../types';
+import { clampBpm, NOTE_DIVISIONS } from './tempo';
+
+export const GROOVE_DIVISIONS: GrooveDivision[] = ['1/8', '1/8t', '1/16', '1/16t'];
+
+export const GROOVE_LATENCY_RANGE: [number, number] = [20, 500];
+
+export const GROOVE_HUMANIZE_SECONDS = 0.02;
+
+export const isGrooveDivision = (value: unknown): value is GrooveDivision =>
+  GROOVE_DIVISIONS.some((division) => division === value);
+
+/** One grid slot in seconds. */
+export const grooveStepSeconds = (division: GrooveDivision, bpm: number) =>
+  (60 / clampBpm(bpm)) * (NOTE_DIVISIONS.find((d) => d.id === division)?.beats ?? 0.5);
+
+/**
+ * Start of slot k on a grid anchored at context time 0. Swing pushes every
+ * odd slot later, from straight (0) to three quarters of the pair (1).
+ */
+export const grooveSlotTime = (k: number, step: number, swing: number) =>
+  k * step + (k % 2 !== 0 ? Math.max(0, Math.min(1, swing)) * 0.5 * step : 0);
+
+/**
+ * When a hit at `now` should sound: the next grid slot, nudged by humanize.
+ * Null when the slot is further away than the latency cutoff (the hit is skipped).
+ */
+export const nextGrooveTime = (now: number, bpm: number, settings: GrooveSettings, random: () => number): number | null => {
+  const step = grooveStepSeconds(settings.division, bpm);
+  let k = Math.max(0, Math.floor(now / step) - 1);
+  while (grooveSlotTime(k, step, settings.swing) < now - 1e-6) k += 1;
+  const slot = grooveSlotTime(k, step, settings.swing);
+  if ((slot - now) * 1000 > settings.maxLatencyMs) return null;
+  if (settings.humanize <= 0) return slot;
+  const nudge = (random() * 2 - 1) * settings.humanize * GROOVE_HUMANIZE_SECONDS;
+  return Math.max(now, slot + nudge);
+};
@@ -0,0 +1,107 @@
+import type { CollisionKind, HarmonySettings, HarmonyVoicing, MusicSettings } from '../../types';
+import type { ScaleDef } from './scales';
+
+export const HARMONY_VOICINGS: { id: HarmonyVoicing; label: string }[] = [
+  { id: 'single', label: 'Single' },
+  { id: 'thirds', label: '3rds' },
+  { id: 'fifths', label: '5ths' },
+  { id: 'quartal', label: '4ths' },
+];
+
+export const COLLISION_KINDS: { id: CollisionKind; label: string }[] = [
+  { id: 'wall', label: 'Wall' },
+  { id: 'bubble', label: 'Bubble' },
+  { id: 'void', label: 'Void' },
+];
+
+export const HARMONY_VOICE_RANGE: [number, number] = [1, 5];
+
+// Interval each stacked voice aims for above the previous one, in semitones.
+const VOICING_STEP: Record<Exclude<HarmonyVoicing, 'single'>, number> = {
+  thirds: 3.5, // minor or major, whichever the scale has
+  fifths: 7,
+  quartal: 5,
+};
+
+export const isHarmonyVoicing = (value: unknown): value is HarmonyVoicing =>
+  HARMONY_VOICINGS.some((voicing) => voicing.id === value);
+
+export const voicingFor = (settings: HarmonySettings, kind: CollisionKind | undefined): HarmonyVoicing => {
+  if (!settings.enabled) return 'single';
+  if (settings.byCollision && kind) return settings.rules[kind];
+  return settings.voicing;
+};
+
+const pitchClass = (semitones: number) => ((Math.round(semitones) % 12) + 12) % 12;
+
+/**
+ * Scale tones a chord may add, in semitones above the root (fractional for tuned
+ * scales). Same filters as the quantizer: no 3rds when asked, and no leading tone.
+ */
+const chordPool = (scale: ScaleDef, music: Pick<MusicSettings, 'noThirds' | 'avoidLeadingTone'>) => {
+  const degrees = scale.tuning ? scale.tuning.cents.map((cents) => cents / 100) : scale.intervals;
+  let pool = degrees;
+  if (music.noThirds || scale.tags?.includes('no3rd')) {
+    pool = pool.filter((d) => pitchClass(d) !== 3 && pitchClass(d) !== 4);
+  }
+  if (music.avoidLeadingTone || scale.avoid?.leadingTone) {
+    pool = pool.filter((d) => pitchClass(d) !== 11);
+  }
+  return pool.length ? pool : [0];
+};
+
+/**
+ * Notes for one collision: the quantized note first, then voices stacked above it
+ * on scale tones nearest to the voicing's interval. `spread` lifts alternate stacked
+ * voices by a period (drop-style open voicing), odd voices first.
+ */
+export const buildHarmony = (
+  noteMidi: number,
+  rootMidi: number,
+  scale: ScaleDef,
+  music: Pick<MusicSettings, 'noThirds' | 'avoidLeadingTone'>,
+  voicing: HarmonyVoicing,
+  voices: number,
+  spread: number
+): number[] => {
+  const count = Math.max(HARMONY_VOICE_RANGE[0], Math.min(HARMONY_VOICE_RANGE[1], Math.round(voices)));
+  if (voicing === 'single' || count === 1 || !Number.isFinite(noteMidi)) return [noteMidi];
+
+  const step = VOICING_STEP[voicing];
+  const period = scale.tuning ? scale.tuning.period / 100 : 12;
+  const pool = chordPool(scale, music);
+  const notes = [noteMidi];
+  let prev = noteMidi;
+  for (let i = 1; i < count; i++) {
+    const target = prev + step;
+    let best = Number.NaN;
+    const firstPeriod = Math.floor((prev - rootMidi) / period);
+    for (let k = firstPeriod; k <= firstPeriod + 2; k++) {
+      pool.forEach((degree) => {
+        const candidate = rootMidi + degree + k * period;
+        // At least a quarter tone above, so a voice never doubles the one below.
+        if (candidate <= prev + 0.5) return;
+        const d = Math.abs(candidate - target);
+        const bestD = Math.abs(best - target);
+        if (Number.isNaN(best) || d < bestD - 1e-9 || (Math.abs(d - bestD) <= 1e-9 && candidate < best)) best = candidate;
+      });
+    }
+    if (Number.isNaN(best)) break;
+    notes.push(best);
+    prev = best;
+  }
+
+  const clampedSpread = Math.max(0, Math.min(1, spread));
+  const stacked = notes.length - 1;
+  const lift = Math.round(clampedSpread * stacked);
+  if (lift > 0) {
+    const order = [
+      ...Array.from({ length: stacked }, (_, i) => i + 1).filter((i) => i % 2 === 1),
+      ...Array.from({ length: stacked }, (_, i) => i + 1).filter((i) => i % 2 === 0),
+    ];
+    order.slice(0, lift).forEach((index) => {
+      notes[index] += period;
+    });
+  }
+  return notes;
+};
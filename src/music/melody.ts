@@ -0,0 +1,151 @@
+import type { MelodyContour, MelodySettings } from '../../types';
+import { NOTE_NAMES } from './notes';
+import { scaleTonesInRange, type QuantizeConfig } from './quantize';
+
+export const MELODY_CONTOURS: { id: MelodyContour; label: string }[] = [
+  { id: 'free', label: 'Free' },
+  { id: 'arch', label: 'Arch' },
+  { id: 'valley', label: 'Valley' },
+  { id: 'rising', label: 'Rise' },
+  { id: 'falling', label: 'Fall' },
+];
+
+export const MELODY_PHRASE_RANGE: [number, number] = [2, 16];
+
+const DEGREES = 12;
+// How far from the physics' own pitch a melody may wander, in semitones.
+const MELODY_REACH = 12;
+// Counts added to every allowed transition so an untrained move stays possible.
+const MARKOV_SMOOTHING = 0.05;
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+export const isMelodyContour = (value: unknown): value is MelodyContour =>
+  MELODY_CONTOURS.some((contour) => contour.id === value);
+
+export const emptyMarkovTable = (): number[][] => Array.from({ length: DEGREES }, () => new Array<number>(DEGREES).fill(0));
+
+/** Semitones above the root, folded into one octave (tuned degrees round to the nearest key). */
+export const melodyDegree = (midi: number, rootMidi: number) => mod(Math.round(midi - rootMidi), DEGREES);
+
+/** A copy of the table with one count per consecutive pair of degrees. */
+export const trainMarkovTable = (table: number[][], degrees: number[]): number[][] => {
+  const next = table.map((row) => row.slice());
+  for (let i = 1; i < degrees.length; i++) {
+    const from = mod(Math.round(degrees[i - 1]), DEGREES);
+    const to = mod(Math.round(degrees[i]), DEGREES);
+    next[from][to] += 1;
+  }
+  return next;
+};
+
+export const markovTransitionCount = (table: number[][]) =>
+  table.reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0), 0);
+
+const NOTE_PATTERN = /^([A-Ga-g])([#b]?)(-?\d+)?$/;
+
+/**
+ * Training phrase as degrees above the root. Accepts note names ("C D E G",
+ * "A3 C4") or degree numbers in semitones ("0 2 4 7"); octaves are ignored.
+ */
+export const parseTrainingPhrase = (text: string, root: number): number[] => {
+  const tokens = text.split(/[\s,]+/).map((token) => token.trim()).filter(Boolean);
+  if (tokens.length < 2) throw new Error('need at least two notes');
+  return tokens.map((token) => {
+    if (/^-?\d+$/.test(token)) return mod(Number(token), DEGREES);
+    const match = NOTE_PATTERN.exec(token);
+    if (!match) throw new Error(`"${token}" is not a note`);
+    const natural = NOTE_NAMES.indexOf(match[1].toUpperCase() as (typeof NOTE_NAMES)[number]);
+    const shift = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+    return mod(natural + shift - root, DEGREES);
+  });
+};
+
+/** Direction the contour asks for at this point of the phrase: -1 down, 1 up, 0 either. */
+export const contourDirection = (contour: MelodyContour, progress: number) => {
+  switch (contour) {
+    case 'rising':
+      return 1;
+    case 'falling':
+      return -1;
+    case 'arch':
+      return progress < 0.5 ? 1 : -1;
+    case 'valley':
+      return progress < 0.5 ? -1 : 1;
+    default:
+      return 0;
+  }
+};
+
+/** Relative weight of every candidate note for the next melodic step. */
+export const melodyWeights = (
+  candidates: number[],
+  inputMidi: number,
+  cfg: Pick<QuantizeConfig, 'rootMidi' | 'lastMidi' | 'noImmediateRepeat' | 'avoidLeadingTone' | 'scale'>,
+  settings: MelodySettings,
+  phraseStep: number
+): number[] => {
+  const phraseLength = Math.max(MELODY_PHRASE_RANGE[0], Math.round(settings.phraseLength));
+  const progress = Math.min(1, Math.max(0, phraseStep) / (phraseLength - 1));
+  const want = contourDirection(settings.contour, progress);
+  const last = cfg.lastMidi ?? null;
+  const avoidLeadingTone = Boolean(cfg.avoidLeadingTone || cfg.scale.avoid?.leadingTone);
+
+  // Markov row of the last note, limited to the degrees on offer so neutral stays 1.
+  let markovRow: number[] | null = null;
+  let markovTotal = 0;
+  const offered = new Set(candidates.map((midi) => melodyDegree(midi, cfg.rootMidi)));
+  if (settings.markov && last !== null) {
+    markovRow = settings.markovTable[melodyDegree(last, cfg.rootMidi)] ?? null;
+    offered.forEach((degree) => {
+      markovTotal += (markovRow?.[degree] ?? 0) + MARKOV_SMOOTHING;
+    });
+  }
+
+  return candidates.map((midi) => {
+    const degree = melodyDegree(midi, cfg.rootMidi);
+    // Stay near where the physics put the note, so size and depth still mean register.
+    let weight = Math.exp(-Math.abs(midi - inputMidi) / 4);
+    if (last !== null) {
+      const leap = Math.abs(midi - last);
+      if (cfg.noImmediateRepeat && leap < 1e-6) return 0;
+      // Up to a whole tone counts as a step; every semitone beyond costs more with stepWeight.
+      weight *= Math.exp((-settings.stepWeight * 1.5 * Math.max(0, leap - 2)) / 2);
+      const direction = Math.sign(midi - last);
+      if (want !== 0 && direction !== 0) {
+        weight *= direction === want ? 1 + 2 * settings.contourAmount : 1 - 0.8 * settings.contourAmount;
+      }
+      if (markovRow && markovTotal > 0) {
+        weight *= (((markovRow[degree] ?? 0) + MARKOV_SMOOTHING) / markovTotal) * offered.size;
+      }
+    }
+    if (avoidLeadingTone && degree === 11) weight *= 0.5;
+    if (degree === 0) weight *= 1 + settings.resolution * 12 * Math.pow(progress, 3);
+    return Math.max(0, weight);
+  });
+};
+
+/**
+ * Melodic alternative to nearest-tone quantizing: scale tones around the physics'
+ * pitch, weighed by step size, contour, the phrase's pull home and (optionally) a
+ * trained degree-to-degree table, then drawn from the engine's random stream.
+ */
+export const pickMelodicNote = (
+  inputMidi: number,
+  cfg: QuantizeConfig,
+  settings: MelodySettings,
+  phraseStep: number,
+  random: () => number
+): number | null => {
+  const candidates = scaleTonesInRange(inputMidi - MELODY_REACH, inputMidi + MELODY_REACH, cfg);
+  if (candidates.length === 0) return null;
+  const weights = melodyWeights(candidates, inputMidi, cfg, settings, phraseStep);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!(total > 0)) return null;
+  let threshold = random() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    threshold -= weights[i];
+    if (threshold < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+};
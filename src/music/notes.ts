@@ -34,14 +34,23 @@ export const midiToNoteName = (midi: number): NoteName => {
   return pitchClassToNoteName(midi);
 };
 
-export const midiToFreq = (midi: number): number => {
-  const safeMidi = Number.isFinite(midi) ? midi : 69;
-  return 440 * Math.pow(2, (safeMidi - 69) / 12);
+/** Pitch anchor for midi <-> Hz: a note number and its frequency. */
+export interface TuningReference {
+  midi: number;
+  freq: number;
+}
+
+export const CONCERT_A: TuningReference = { midi: 69, freq: 440 };
+
+// Fractional midi numbers are cents / 100, so microtonal degrees pass straight through.
+export const midiToFreq = (midi: number, reference: TuningReference = CONCERT_A): number => {
+  const safeMidi = Number.isFinite(midi) ? midi : reference.midi;
+  return reference.freq * Math.pow(2, (safeMidi - reference.midi) / 12);
 };
 
-export const freqToMidi = (freq: number): number => {
-  const safeFreq = Number.isFinite(freq) && freq > 0 ? freq : 440;
-  return 69 + 12 * Math.log2(safeFreq / 440);
+export const freqToMidi = (freq: number, reference: TuningReference = CONCERT_A): number => {
+  const safeFreq = Number.isFinite(freq) && freq > 0 ? freq : reference.freq;
+  return reference.midi + 12 * Math.log2(safeFreq / reference.freq);
 };
 
 export const snapMidiToPitchClass = (midi: number, targetPc: number): number => {
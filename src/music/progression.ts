@@ -0,0 +1,193 @@
+import type { MusicSettings, ProgressionAdvance, ProgressionSettings, ProgressionStep } from '../../types';
+import { NOTE_NAMES } from './notes';
+import { getScaleById, SCALES, type ScaleDef } from './scales';
+import { clampBpm } from './tempo';
+
+export const MAX_PROGRESSION_STEPS = 16;
+// Step scale id for whichever user scale the Music panel has loaded ("D:custom").
+export const PROGRESSION_CUSTOM_SCALE = 'custom';
+export const BEATS_PER_BAR = 4;
+
+export const PROGRESSION_ADVANCES: { id: ProgressionAdvance; label: string; range: [number, number] }[] = [
+  { id: 'bars', label: 'Bars', range: [1, 16] },
+  { id: 'collisions', label: 'Hits', range: [1, 64] },
+];
+
+export const PROGRESSION_PRESETS: { id: string; label: string; text: string }[] = [
+  { id: 'ii-v-i', label: 'ii-V-I', text: 'Dm9 G7 Cmaj7 Cmaj7' },
+  { id: 'minor-drift', label: 'Minor drift', text: 'Am9 Fmaj7 Cmaj9 G7sus4' },
+  { id: 'dorian-vamp', label: 'Dorian vamp', text: 'Dm7 G7 Dm7 Em7' },
+  { id: 'modal-cycle', label: 'Modal cycle', text: 'C:ionian C:mixolydian C:dorian C:aeolian C:phrygian' },
+  { id: 'pentatonic-walk', label: 'Pentatonic walk', text: 'A:minor-pentatonic D:minor-pentatonic E:minor-pentatonic A:minor-pentatonic' },
+];
+
+// Chord quality (everything after the root) to the mode that carries it.
+// Longest suffixes first so "m7" is not read as "m" plus leftovers.
+const CHORD_QUALITIES: { pattern: RegExp; scaleId: string }[] = [
+  { pattern: /^(m|min|-)(maj7|M7|Δ)$/, scaleId: 'melodic-minor' },
+  { pattern: /^(maj|M|Δ)(7|9|11|13)?$/, scaleId: 'ionian' },
+  { pattern: /^(6|69|add9|add2)?$/, scaleId: 'ionian' },
+  { pattern: /^(m|min|-)(6|7|9|11|13)?$/, scaleId: 'dorian' },
+  { pattern: /^(m|min|-)b6$/, scaleId: 'aeolian' },
+  { pattern: /^(m|min|-)7b9$/, scaleId: 'phrygian' },
+  { pattern: /^(7|9|11|13)?(sus|sus4)?$/, scaleId: 'mixolydian' },
+  { pattern: /^sus2$/, scaleId: 'sus-hybrid' },
+  { pattern: /^(aug|\+)$/, scaleId: 'whole-tone' },
+  { pattern: /^5$/, scaleId: 'quartal' },
+];
+
+export const isProgressionScaleId = (value: unknown): value is string =>
+  value === PROGRESSION_CUSTOM_SCALE || SCALES.some((scale) => scale.id === value);
+
+const ROOT_PATTERN = /^([A-Ga-g])([#b]?)(.*)$/;
+
+const parseRoot = (letter: string, accidental: string) => {
+  const natural = NOTE_NAMES.indexOf(letter.toUpperCase() as (typeof NOTE_NAMES)[number]);
+  const shift = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  return (((natural + shift) % 12) + 12) % 12;
+};
+
+/**
+ * One progression step from a chord symbol ("Dm9", "G7", "Bbmaj7") or an explicit
+ * root and scale id ("D:dorian", "D:custom"). Throws with a readable message on anything else.
+ */
+export const parseProgressionStep = (token: string): ProgressionStep => {
+  const label = token.trim();
+  const match = ROOT_PATTERN.exec(label);
+  if (!match) throw new Error(`"${label}" has no root note`);
+  const [, letter, accidental, rest] = match;
+  const root = parseRoot(letter, accidental);
+
+  if (rest.startsWith(':')) {
+    const scaleId = rest.slice(1).toLowerCase();
+    if (!isProgressionScaleId(scaleId)) throw new Error(`unknown scale "${scaleId}"`);
+    return { label, root, scaleId };
+  }
+  const quality = CHORD_QUALITIES.find(({ pattern }) => pattern.test(rest));
+  if (!quality) throw new Error(`unknown chord "${label}"`);
+  return { label, root, scaleId: quality.scaleId };
+};
+
+/** Steps separated by spaces, commas or arrows ("Dm9 -> G -> Cmaj7"). */
+export const parseProgression = (text: string): ProgressionStep[] => {
+  const tokens = text.split(/[\s,|]+|->|→/).map((token) => token.trim()).filter(Boolean);
+  if (tokens.length === 0) throw new Error('no steps');
+  if (tokens.length > MAX_PROGRESSION_STEPS) throw new Error(`at most ${MAX_PROGRESSION_STEPS} steps`);
+  return tokens.map(parseProgressionStep);
+};
+
+export const formatProgression = (steps: ProgressionStep[]) => steps.map((step) => step.label).join(' ');
+
+export const progressionRange = (advance: ProgressionAdvance): [number, number] =>
+  PROGRESSION_ADVANCES.find((option) => option.id === advance)?.range ?? [1, 16];
+
+/**
+ * The panel's music settings with a step's root and scale in place of its own. The user
+ * scale stays along, so a custom step plays it; with none loaded it keeps the panel's scale.
+ */
+export const applyProgressionStep = (music: MusicSettings, step: ProgressionStep | null): MusicSettings => {
+  if (!step) return music;
+  const scaleId = step.scaleId === PROGRESSION_CUSTOM_SCALE ? (music.customScale?.id ?? music.scaleId) : step.scaleId;
+  if (music.root === step.root && music.scaleId === scaleId) return music;
+  return { ...music, root: step.root, scaleId };
+};
+
+/** Name of the scale a step plays, for chips and status lines. */
+export const progressionStepScaleLabel = (step: ProgressionStep, customScale: ScaleDef | null | undefined) =>
+  step.scaleId === PROGRESSION_CUSTOM_SCALE ? (customScale?.label ?? 'Custom (none loaded)') : getScaleById(step.scaleId).label;
+
+/** Seconds one step lasts in bar mode. */
+export const progressionStepSeconds = (every: number, bpm: number) => (60 / clampBpm(bpm)) * BEATS_PER_BAR * Math.max(1, every);
+
+export interface ProgressionPosition {
+  index: number;
+  step: ProgressionStep | null; // null while the progression is off or empty
+}
+
+/**
+ * Where a progression stands. Bar mode advances on the audio clock (so offline
+ * renders follow the same grid), collision mode on every Nth hit. Changing the
+ * steps keeps the position when it still exists; switching on starts at step 1.
+ */
+export const createProgressionClock = () => {
+  let settings: ProgressionSettings | null = null;
+  let index = 0;
+  let hits = 0;
+  let nextChangeAt: number | null = null;
+  let position: ProgressionPosition = { index: 0, step: null };
+
+  const active = () => (settings && settings.enabled && settings.steps.length > 0 ? settings : null);
+
+  const publish = () => {
+    const current = active();
+    const step = current ? current.steps[index] : null;
+    if (position.index !== index || position.step !== step) position = { index, step };
+    return position;
+  };
+
+  const configure = (next: ProgressionSettings) => {
+    const wasActive = active() !== null;
+    const previousAdvance = settings?.advance;
+    settings = next;
+    if (!next.enabled || !wasActive) {
+      index = 0;
+      hits = 0;
+      nextChangeAt = null;
+    } else if (index >= next.steps.length) {
+      index = 0;
+    }
+    if (previousAdvance !== next.advance) {
+      hits = 0;
+      nextChangeAt = null;
+    }
+    return publish();
+  };
+
+  /** Move the bar clock up to `now` (context seconds). */
+  const advanceTo = (now: number, bpm: number) => {
+    const current = active();
+    if (!current || current.advance !== 'bars') return publish();
+    const span = progressionStepSeconds(current.every, bpm);
+    if (nextChangeAt === null) nextChangeAt = now + span;
+    while (now >= nextChangeAt) {
+      index = (index + 1) % current.steps.length;
+      nextChangeAt += span;
+    }
+    return publish();
+  };
+
+  /** Count one collision; the step it plays is the one before any change it causes. */
+  const countHit = () => {
+    const current = active();
+    if (!current || current.advance !== 'collisions') return publish();
+    const playing = publish();
+    hits += 1;
+    if (hits >= Math.max(1, Math.round(current.every))) {
+      hits = 0;
+      index = (index + 1) % current.steps.length;
+    }
+    publish();
+    return playing;
+  };
+
+  /** Restart counting from a given step (the bar clock starts a full step from the next call). */
+  const jumpTo = (nextIndex: number) => {
+    const current = active();
+    if (!current) return publish();
+    index = ((Math.round(nextIndex) % current.steps.length) + current.steps.length) % current.steps.length;
+    hits = 0;
+    nextChangeAt = null;
+    return publish();
+  };
+
+  return {
+    configure,
+    advanceTo,
+    countHit,
+    jumpTo,
+    position: () => position,
+    secondsToNextChange: (now: number) => (nextChangeAt === null ? null : Math.max(0, nextChangeAt - now)),
+  };
+};
+
+export type ProgressionClock = ReturnType<typeof createProgressionClock>;
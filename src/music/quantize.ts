@@ -1,4 +1,4 @@
-import { getScaleById, ScaleDef } from './scales';
+import { centsToPitchClass, getScaleById, ScaleDef, ScaleTuning } from './scales';
 
 const mod = (n: number, m: number) => ((n % m) + m) % m;
 
@@ -13,7 +13,7 @@ export interface QuantizeConfig {
   noThirds?: boolean;
 }
 
-const buildAllowedPitchClasses = (rootMidi: number, scale: ScaleDef, cfg: QuantizeConfig) => {
+const buildAllowedPitchClasses = (rootMidi: number, scale: ScaleDef, cfg: Pick<QuantizeConfig, 'noThirds'>) => {
   const rootPc = mod(rootMidi, 12);
   const scaleIntervals = scale.intervals.slice().sort((a, b) => a - b);
   let filtered = scaleIntervals;
@@ -49,7 +49,7 @@ const pickCandidate = (
   const sorted = candidates
     .map((midi) => {
       const dist = Math.abs(midi - inputMidi);
-      const pc = mod(midi, 12);
+      const pc = mod(Math.round(midi), 12);
       const penalty = avoidLeadingTone && pc === leadingTonePc ? 0.25 : 0;
       return { midi, dist, score: dist + penalty };
     })
@@ -68,8 +68,52 @@ const pickCandidate = (
   return sorted;
 };
 
+// Tuned scales: degrees in semitones (cents / 100) above the root, repeating every period.
+const buildTunedCandidates = (
+  inputMidi: number,
+  rootMidi: number,
+  tuning: ScaleTuning,
+  cfg: Pick<QuantizeConfig, 'noThirds'>,
+  reach = 1
+) => {
+  let degrees = tuning.cents;
+  if (cfg.noThirds) {
+    const filtered = degrees.filter((c) => {
+      const pc = centsToPitchClass(c);
+      return pc !== 3 && pc !== 4;
+    });
+    if (filtered.length) degrees = filtered;
+  }
+  const period = tuning.period / 100;
+  const candidates: number[] = [];
+  degrees.forEach((cents) => {
+    const degree = cents / 100;
+    const k = Math.floor((inputMidi - rootMidi - degree) / period);
+    for (let o = k - reach; o <= k + reach; o++) candidates.push(rootMidi + degree + o * period);
+  });
+  return candidates.filter(Number.isFinite);
+};
+
+/**
+ * Snap a (fractional) midi note to the scale. 12-TET scales return whole notes;
+ * tuned scales return the degree's exact pitch, so the result can be fractional.
+ */
 export const quantizeMidiToScale = (inputMidi: number, cfg: QuantizeConfig): number => {
   const safeInput = Number.isFinite(inputMidi) ? inputMidi : cfg.rootMidi;
+  const tuning = cfg.scale.tuning;
+  if (tuning?.cents.length) {
+    const candidates = buildTunedCandidates(safeInput, cfg.rootMidi, tuning, cfg);
+    const leadingTonePc = mod(Math.round(cfg.rootMidi) + 11, 12);
+    const avoidLeadingTone = Boolean(cfg.avoidLeadingTone || cfg.scale.avoid?.leadingTone);
+    const ordered = pickCandidate(safeInput, candidates, cfg.mode ?? 'nearest', avoidLeadingTone, leadingTonePc);
+    let chosen = ordered[0]?.midi ?? safeInput;
+    if (cfg.noImmediateRepeat && cfg.lastMidi != null) {
+      const alt = ordered.find((c) => Math.abs(c.midi - cfg.lastMidi!) > 1e-6);
+      if (alt) chosen = alt.midi;
+    }
+    return chosen;
+  }
+
   const allowed = buildAllowedPitchClasses(cfg.rootMidi, cfg.scale, cfg);
   const candidates = buildCandidates(safeInput, allowed);
   const mode = cfg.mode ?? 'nearest';
@@ -87,6 +131,29 @@ export const quantizeMidiToScale = (inputMidi: number, cfg: QuantizeConfig): num
   return Math.round(chosen);
 };
 
+/**
+ * Every allowed scale pitch between low and high (inclusive), lowest first.
+ * Same filters as the quantizer; the leading tone stays in, callers weigh it.
+ */
+export const scaleTonesInRange = (low: number, high: number, cfg: Pick<QuantizeConfig, 'rootMidi' | 'scale' | 'noThirds'>): number[] => {
+  if (!Number.isFinite(low) || !Number.isFinite(high) || high < low) return [];
+  const tuning = cfg.scale.tuning;
+  if (tuning?.cents.length) {
+    const mid = (low + high) / 2;
+    const period = tuning.period / 100;
+    const reach = Math.ceil((high - low) / 2 / period) + 1;
+    return Array.from(new Set(buildTunedCandidates(mid, cfg.rootMidi, tuning, cfg, reach)))
+      .filter((midi) => midi >= low - 1e-9 && midi <= high + 1e-9)
+      .sort((a, b) => a - b);
+  }
+  const allowed = new Set(buildAllowedPitchClasses(cfg.rootMidi, cfg.scale, cfg));
+  const tones: number[] = [];
+  for (let midi = Math.ceil(low); midi <= Math.floor(high); midi++) {
+    if (allowed.has(mod(midi, 12))) tones.push(midi);
+  }
+  return tones;
+};
+
 let didDevCheck = false;
 
 const runDevChecks = () => {
@@ -0,0 +1,135 @@
+import { defineTunedScale, type ScaleDef } from './scales';
+import type { TuningReference } from './notes';
+
+/** A parsed .scl file: degrees in cents above 1/1 and the period (the last listed pitch). */
+export interface ScalaScale {
+  description: string;
+  cents: number[]; // starts at 0, the period itself excluded
+  period: number;
+}
+
+/** A parsed .kbm keyboard mapping. Keys map to degrees; null marks an unmapped key ("x"). */
+export interface ScalaKeyboardMap {
+  size: number;
+  firstNote: number;
+  lastNote: number;
+  middleNote: number; // key that plays degree 0
+  referenceNote: number;
+  referenceFreq: number;
+  octaveDegree: number;
+  mapping: (number | null)[];
+}
+
+// Non-comment lines; Scala comments start with "!" in the first column.
+const contentLines = (text: string) =>
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => !line.startsWith('!'));
+
+const ratioToCents = (ratio: number) => 1200 * Math.log2(ratio);
+
+/**
+ * One pitch line: a value with a period is cents, anything else a ratio ("3/2"
+ * or a bare integer "2"). Text after the value is a comment.
+ */
+export const parseScalaPitch = (line: string): number => {
+  const token = line.trim().split(/\s+/)[0] ?? '';
+  if (!token) throw new Error('Empty pitch line.');
+  if (token.includes('.')) {
+    const cents = Number(token);
+    if (!Number.isFinite(cents)) throw new Error(`Invalid cents value "${token}".`);
+    return cents;
+  }
+  const [num, den = '1'] = token.split('/');
+  const n = Number(num);
+  const d = Number(den);
+  if (!/^\d+$/.test(num) || !/^\d+$/.test(den) || n <= 0 || d <= 0) throw new Error(`Invalid ratio "${token}".`);
+  return ratioToCents(n / d);
+};
+
+/**
+ * Steps typed in the music panel, in .scl pitch syntax separated by spaces or
+ * commas ("9/8 5/4 3/2 2/1" or "240. 480. 1200."). The last step is the period.
+ */
+export const parseScaleSteps = (text: string): Omit<ScalaScale, 'description'> => {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  if (!tokens.length) throw new Error('Enter at least the period, e.g. 2/1.');
+  const pitches = tokens.map(parseScalaPitch);
+  const period = pitches[pitches.length - 1];
+  if (!(period > 0)) throw new Error('The last step (period) must be above 1/1.');
+  return { cents: [0, ...pitches.slice(0, -1)], period };
+};
+
+export const parseScala = (text: string): ScalaScale => {
+  const lines = contentLines(text);
+  if (lines.length < 2) throw new Error('Scala file needs a description and a note count.');
+  const description = lines[0].trim();
+  const count = Number(lines[1].trim().split(/\s+/)[0]);
+  if (!Number.isInteger(count) || count < 1) throw new Error('Scala note count must be a positive integer.');
+  const pitchLines = lines.slice(2).filter((line) => line.trim());
+  if (pitchLines.length < count) throw new Error(`Scala file lists ${pitchLines.length} of ${count} pitches.`);
+  const pitches = pitchLines.slice(0, count).map(parseScalaPitch);
+  const period = pitches[pitches.length - 1];
+  if (!(period > 0)) throw new Error('Scala period (last pitch) must be above 1/1.');
+  return { description, cents: [0, ...pitches.slice(0, -1)], period };
+};
+
+export const parseKbm = (text: string): ScalaKeyboardMap => {
+  const lines = contentLines(text).map((line) => line.trim()).filter(Boolean);
+  if (lines.length < 7) throw new Error('Keyboard mapping needs seven header lines.');
+  const header = lines.slice(0, 7).map((line) => Number(line.split(/\s+/)[0]));
+  if (header.some((value) => !Number.isFinite(value))) throw new Error('Keyboard mapping header must be numeric.');
+  const [size, firstNote, lastNote, middleNote, referenceNote, referenceFreq, octaveDegree] = header;
+  if (!Number.isInteger(size) || size < 0) throw new Error('Keyboard map size must be a whole number.');
+  if (!(referenceFreq > 0)) throw new Error('Reference frequency must be above 0 Hz.');
+  const mapping = lines.slice(7, 7 + size).map((line) => {
+    const token = line.split(/\s+/)[0];
+    if (token === 'x' || token === 'X') return null;
+    const degree = Number(token);
+    if (!Number.isInteger(degree) || degree < 0) throw new Error(`Invalid mapping entry "${token}".`);
+    return degree;
+  });
+  while (mapping.length < size) mapping.push(null);
+  return { size, firstNote, lastNote, middleNote, referenceNote, referenceFreq, octaveDegree, mapping };
+};
+
+/** Degree sounded by a key, counted from the middle note across periods (null = unmapped). */
+const keyDegree = (kbm: ScalaKeyboardMap, key: number, degreeCount: number) => {
+  const offset = key - kbm.middleNote;
+  if (kbm.size === 0) return offset;
+  const slot = ((offset % kbm.size) + kbm.size) % kbm.size;
+  const periods = Math.floor(offset / kbm.size);
+  const degree = kbm.mapping[slot];
+  if (degree === null || degree === undefined) return null;
+  const perPeriod = kbm.octaveDegree > 0 ? kbm.octaveDegree : degreeCount;
+  return degree + periods * perPeriod;
+};
+
+/**
+ * Apply a keyboard mapping to a scale. Bubbles have no keys, so only the pitch
+ * anchor and the set of mapped degrees are kept: degree 0 sounds at the middle
+ * note with the frequency the reference note implies, and unmapped degrees drop out.
+ */
+export const applyKeyboardMap = (scale: ScaleDef, kbm: ScalaKeyboardMap): ScaleDef => {
+  const tuning = scale.tuning ?? { cents: scale.intervals.map((i) => i * 100), period: 1200 };
+  const degrees = tuning.cents;
+  const count = degrees.length;
+  const centsOfDegree = (degree: number) => {
+    const wrapped = ((degree % count) + count) % count;
+    return degrees[wrapped] + Math.floor(degree / count) * tuning.period;
+  };
+
+  const refDegree = keyDegree(kbm, kbm.referenceNote, count);
+  // An unmapped reference key leaves the scale where 12-TET would put it.
+  const rootFreq = refDegree === null
+    ? kbm.referenceFreq * Math.pow(2, (kbm.middleNote - kbm.referenceNote) / 12)
+    : kbm.referenceFreq / Math.pow(2, centsOfDegree(refDegree) / 1200);
+  const reference: TuningReference = { midi: kbm.middleNote, freq: rootFreq };
+
+  const mapped = kbm.size === 0
+    ? degrees
+    : degrees.filter((_, index) => kbm.mapping.some((degree) => degree !== null && degree % count === index));
+  return defineTunedScale(scale.id, scale.label, mapped.length ? mapped : degrees, tuning.period, reference);
+};
+
+/** A custom scale from an .scl file, under the given id. */
+export const scaleFromScala = (id: string, scala: ScalaScale, fallbackLabel: string): ScaleDef =>
+  defineTunedScale(id, scala.description || fallbackLabel, scala.cents, scala.period);
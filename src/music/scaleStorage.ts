@@ -0,0 +1,40 @@
+import { sanitizeCustomScale, type ScaleDef } from './scales';
+
+const STORAGE_KEY = 'glassroom.scales';
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+/** Reads the custom scale library, dropping entries that no longer parse. */
+export const loadCustomScales = (): ScaleDef[] => {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(sanitizeCustomScale).filter((scale): scale is ScaleDef => scale !== null);
+  } catch (e) {
+    console.warn('Custom scales unavailable.', e);
+    return [];
+  }
+};
+
+export const saveCustomScales = (scales: ScaleDef[]): boolean => {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(scales));
+    return true;
+  } catch (e) {
+    console.warn('Failed to persist custom scales.', e);
+    return false;
+  }
+};
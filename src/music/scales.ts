@@ -1,13 +1,24 @@
+import type { MusicSettings } from '../../types';
+import type { TuningReference } from './notes';
+
 export type ScaleId = string;
 
+/** Degrees in cents for scales outside 12-TET (custom or Scala). */
+export interface ScaleTuning {
+  cents: number[]; // above the root within one period, ascending, starting at 0
+  period: number; // cents; 1200 repeats at the octave
+  reference?: TuningReference; // from a .kbm; replaces A4 = 440 Hz
+}
+
 export interface ScaleDef {
   id: ScaleId;
   label: string;
-  intervals: number[];
+  intervals: number[]; // pitch classes; for tuned scales the nearest semitone of each degree
   tags?: string[];
   avoid?: {
     leadingTone?: boolean;
   };
+  tuning?: ScaleTuning;
 }
 
 const normalizeIntervals = (intervals: number[]) => {
@@ -120,3 +131,61 @@ export const getScaleById = (id?: ScaleId): ScaleDef => {
   const fallback = SCALES.find((scale) => scale.id === DEFAULT_SCALE_ID);
   return fallback ?? SCALES[0];
 };
+
+export const CUSTOM_SCALE_PREFIX = 'custom:';
+
+export const isCustomScaleId = (id: string) => id.startsWith(CUSTOM_SCALE_PREFIX);
+
+/** Nearest semitone of a cent value, as a pitch class. */
+export const centsToPitchClass = (cents: number) => ((Math.round(cents / 100) % 12) + 12) % 12;
+
+/**
+ * Build a user scale from cent degrees. Degrees are folded into one period,
+ * de-duplicated to 0.01 cent and sorted; the root is always a degree.
+ */
+export const defineTunedScale = (
+  id: ScaleId,
+  label: string,
+  cents: number[],
+  period = 1200,
+  reference?: TuningReference
+): ScaleDef => {
+  const safePeriod = Number.isFinite(period) && period > 0 ? period : 1200;
+  const folded = cents
+    .filter(Number.isFinite)
+    .map((c) => Math.round((((c % safePeriod) + safePeriod) % safePeriod) * 100) / 100)
+    .filter((c) => c < safePeriod);
+  const degrees = Array.from(new Set([0, ...folded])).sort((a, b) => a - b);
+  return {
+    id,
+    label,
+    intervals: normalizeIntervals(degrees.map(centsToPitchClass)),
+    tags: ['custom'],
+    tuning: reference ? { cents: degrees, period: safePeriod, reference } : { cents: degrees, period: safePeriod },
+  };
+};
+
+/** The scale a music setting plays: its custom scale when it names one, else a built-in. */
+export const resolveScale = (music?: Pick<MusicSettings, 'scaleId' | 'customScale'> | null): ScaleDef => {
+  const custom = music?.customScale;
+  if (custom && custom.id === music?.scaleId) return custom;
+  return getScaleById(music?.scaleId);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Rebuild a stored or imported custom scale; null when it cannot be one. */
+export const sanitizeCustomScale = (raw: unknown): ScaleDef | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !isCustomScaleId(raw.id)) return null;
+  const tuning = isRecord(raw.tuning) ? raw.tuning : null;
+  if (!tuning || !Array.isArray(tuning.cents)) return null;
+  const cents = tuning.cents.filter((c): c is number => typeof c === 'number' && Number.isFinite(c));
+  const period = typeof tuning.period === 'number' && tuning.period > 0 && tuning.period <= 4800 ? tuning.period : 1200;
+  const ref = isRecord(tuning.reference) ? tuning.reference : null;
+  const reference = ref && typeof ref.midi === 'number' && Number.isFinite(ref.midi) && typeof ref.freq === 'number' && ref.freq > 0
+    ? { midi: ref.midi, freq: ref.freq }
+    : undefined;
+  const label = typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim() : 'Custom scale';
+  return defineTunedScale(raw.id, label, cents, period, reference);
+};
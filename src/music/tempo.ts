@@ -0,0 +1,49 @@
+import type { NoteDivision, TempoSettings } from '../../types';
+
+export const BPM_RANGE: [number, number] = [40, 240];
+
+// Physics tempo 1.0 (the speed the room was tuned at) corresponds to this BPM.
+export const PHYSICS_REFERENCE_BPM = 120;
+
+// Longest echo the ping-pong delay lines are built for.
+export const MAX_SYNC_DELAY_SECONDS = 2;
+
+export const NOTE_DIVISIONS: { id: NoteDivision; label: string; beats: number }[] = [
+  { id: '1/2', label: '1/2', beats: 2 },
+  { id: '1/4d', label: '1/4.', beats: 1.5 },
+  { id: '1/4', label: '1/4', beats: 1 },
+  { id: '1/4t', label: '1/4T', beats: 2 / 3 },
+  { id: '1/8d', label: '1/8.', beats: 0.75 },
+  { id: '1/8', label: '1/8', beats: 0.5 },
+  { id: '1/8t', label: '1/8T', beats: 1 / 3 },
+  { id: '1/16', label: '1/16', beats: 0.25 },
+  { id: '1/16t', label: '1/16T', beats: 1 / 6 },
+];
+
+export const clampBpm = (bpm: number) =>
+  Number.isFinite(bpm) ? Math.max(BPM_RANGE[0], Math.min(BPM_RANGE[1], bpm)) : PHYSICS_REFERENCE_BPM;
+
+export const isNoteDivision = (value: unknown): value is NoteDivision =>
+  NOTE_DIVISIONS.some((division) => division.id === value);
+
+/**
+ * Length of a division in seconds. Anything longer than the delay lines can hold
+ * is halved until it fits, so slow tempos still land on the grid.
+ */
+export const divisionSeconds = (division: NoteDivision, bpm: number, maxSeconds = MAX_SYNC_DELAY_SECONDS) => {
+  const beats = NOTE_DIVISIONS.find((d) => d.id === division)?.beats ?? 1;
+  let seconds = (60 / clampBpm(bpm)) * beats;
+  while (seconds > maxSeconds) seconds /= 2;
+  return seconds;
+};
+
+/** Raw Tempo knob (0..1) to the physics multiplier it has always meant. */
+export const tempoKnobToPhysics = (knob: number) => knob * 2 + 0.1;
+
+export const physicsTempoToBpm = (tempo: number) => tempo * PHYSICS_REFERENCE_BPM;
+
+export const bpmToPhysicsTempo = (bpm: number) => clampBpm(bpm) / PHYSICS_REFERENCE_BPM;
+
+/** MIDI clock wins while it is running; otherwise the internal BPM. */
+export const resolveBpm = (tempo: TempoSettings, clockBpm: number | null) =>
+  tempo.source === 'midi' && clockBpm !== null ? clampBpm(clockBpm) : clampBpm(tempo.bpm);
@@ -0,0 +1,52 @@
+/** A function with the Math.random contract: uniform in [0, 1). */
+export type RandomSource = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+/** FNV-1a over the UTF-16 code units, folded to an unsigned 32-bit seed. */
+export const hashSeed = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** mulberry32: tiny, fast and good enough for physics and note choices. */
+export const mulberry32 = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Independent stream per consumer, so the Visualizer drawing one more particle
+ * never shifts the note sequence drawn by the engine (and vice versa).
+ * A null seed means free-running Math.random.
+ */
+export const createRandomStream = (seed: number | null, stream: string): RandomSource => {
+  if (seed === null || !Number.isFinite(seed)) return Math.random;
+  return mulberry32(hashSeed(`${seed >>> 0}:${stream}`));
+};
+
+export const normalizeSeed = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.floor(Math.abs(value)) % (MAX_SEED + 1);
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    // Numeric text is used as-is so seeds read back the way they were typed.
+    if (/^\d+$/.test(trimmed)) return normalizeSeed(Number(trimmed));
+    return hashSeed(trimmed);
+  }
+  return null;
+};
+
+export const rollSeed = () => Math.floor(Math.random() * MAX_SEED);
@@ -0,0 +1,50 @@
+import { createDatabase, requestToPromise, transactionDone } from '../storage/idb';
+import type { TakeChunk, TakeMeta } from './takes';
+
+const TAKES = 'takes';
+const CHUNKS = 'chunks';
+
+const openTakeDb = createDatabase('glassroom-takes', 1, (db, oldVersion) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(TAKES, { keyPath: 'id' });
+    // Chunks are keyed [takeId, index] so one key range reads or deletes a whole take in order.
+    db.createObjectStore(CHUNKS);
+  }
+});
+
+const chunkRange = (takeId: string) => IDBKeyRange.bound([takeId, 0], [takeId, Number.MAX_SAFE_INTEGER]);
+
+export const listTakes = async (): Promise<TakeMeta[]> => {
+  const db = await openTakeDb();
+  const takes = await requestToPromise(db.transaction(TAKES).objectStore(TAKES).getAll() as IDBRequest<TakeMeta[]>);
+  return takes.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveTake = async (take: TakeMeta): Promise<void> => {
+  const db = await openTakeDb();
+  const tx = db.transaction(TAKES, 'readwrite');
+  tx.objectStore(TAKES).put(take);
+  await transactionDone(tx);
+};
+
+/** Writes one chunk and the updated meta together, so a crash never leaves them out of step. */
+export const appendTakeChunk = async (take: TakeMeta, index: number, chunk: TakeChunk): Promise<void> => {
+  const db = await openTakeDb();
+  const tx = db.transaction([TAKES, CHUNKS], 'readwrite');
+  tx.objectStore(CHUNKS).put(chunk, [take.id, index]);
+  tx.objectStore(TAKES).put(take);
+  await transactionDone(tx);
+};
+
+export const loadTakeChunks = async (takeId: string): Promise<TakeChunk[]> => {
+  const db = await openTakeDb();
+  return requestToPromise(db.transaction(CHUNKS).objectStore(CHUNKS).getAll(chunkRange(takeId)) as IDBRequest<TakeChunk[]>);
+};
+
+export const deleteTake = async (takeId: string): Promise<void> => {
+  const db = await openTakeDb();
+  const tx = db.transaction([TAKES, CHUNKS], 'readwrite');
+  tx.objectStore(TAKES).delete(takeId);
+  tx.objectStore(CHUNKS).delete(chunkRange(takeId));
+  await transactionDone(tx);
+};
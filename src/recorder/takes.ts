@@ -0,0 +1,63 @@
+import { encodeWav, joinFloat32Chunks } from '../audio/wav';
+
+export type TakeFormat = 'wav' | 'webm';
+// 'recovered' = the tab died mid-take; whatever reached IndexedDB is kept.
+export type TakeStatus = 'recording' | 'done' | 'recovered';
+
+export interface TakeMeta {
+  id: string;
+  name: string;
+  format: TakeFormat;
+  mimeType: string;
+  sampleRate: number;
+  createdAt: number; // epoch ms
+  durationMs: number;
+  peakDb: number;
+  chunkCount: number;
+  status: TakeStatus;
+}
+
+/** WAV takes store planar PCM blocks, WebM takes store MediaRecorder blobs. */
+export type TakeChunk = Float32Array[] | Blob;
+
+export const SILENCE_DB = -100;
+
+export const formatElapsed = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h ? `${h}:${mmss}` : mmss;
+};
+
+export const formatPeakDb = (db: number) => (db <= SILENCE_DB ? '-INF' : `${db > 0 ? '+' : ''}${db.toFixed(1)}`);
+
+export const peakDbOf = (channels: Float32Array[]) => {
+  let max = 0;
+  channels.forEach((ch) => {
+    for (let i = 0; i < ch.length; i++) {
+      const v = Math.abs(ch[i]);
+      if (v > max) max = v;
+    }
+  });
+  return max > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(max)) : SILENCE_DB;
+};
+
+export const takeFileName = (take: TakeMeta) => {
+  const slug = take.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'take'}.${take.format}`;
+};
+
+/** Rebuild a downloadable file from the stored chunks of a take. */
+export const assembleTake = (take: TakeMeta, chunks: TakeChunk[]): Blob => {
+  if (take.format === 'webm') {
+    return new Blob(chunks.filter((c): c is Blob => c instanceof Blob), { type: take.mimeType || 'audio/webm' });
+  }
+  const blocks = chunks.filter((c): c is Float32Array[] => Array.isArray(c));
+  const channelCount = blocks.reduce((max, block) => Math.max(max, block.length), 0) || 2;
+  const channels = Array.from({ length: channelCount }, (_, c) =>
+    joinFloat32Chunks(blocks.map((block) => block[c] ?? new Float32Array(block[0]?.length ?? 0)))
+  );
+  return encodeWav(channels, take.sampleRate, 'pcm24');
+};
@@ -0,0 +1,172 @@
+import type { AudioSettings, AuxSettings, BankSettings, FxRackSettings, GrooveSettings, GyroSettings, HarmonySettings, ImpulseSettings, LofiSettings, MelodySettings, MultibandSettings, MusicSettings, PhysicsKnobs, ProgressionSettings, ReverbSettings, RoleSettings, SynthSettings, TempoSettings, TimbreSettings } from '../../types';
+import { defaultAuxSettings } from '../audio/auxSends';
+import { defaultBankSettings } from '../audio/bankSelect';
+import { defaultFxRackSettings } from '../audio/effects/rack';
+import { DEFAULT_VOICE_ENGINE } from '../audio/engines/registry';
+import { defaultImpulseSettings } from '../audio/impulses';
+import { DEFAULT_LIMITER_CEILING } from '../audio/limiter';
+import { defaultMultibandSettings } from '../audio/multiband';
+import { defaultReverbSettings } from '../audio/reverb';
+import { defaultRoleVoices } from '../audio/roles';
+import { emptyMarkovTable } from '../music/melody';
+import { PROGRESSION_PRESETS, parseProgression } from '../music/progression';
+import { DEFAULT_SCALE_ID, SCALES } from '../music/scales';
+
+export const scaleValueForId = (scaleId: string) => {
+  const index = SCALES.findIndex((scale) => scale.id === scaleId);
+  if (index < 0 || SCALES.length < 2) return 0;
+  return index / (SCALES.length - 1);
+};
+
+// Mixer-controlled audio params; reverbWet/pingPongWet/baseFrequency are overridden by knobs in App.
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volume: 0.7,
+  low: 0,
+  mid: 0,
+  high: 0,
+  reverbWet: 0.3,
+  baseFrequency: 440,
+  pingPongWet: 0.0,
+  sampleGain: 1,
+  compThreshold: -12,
+  compRatio: 3,
+  compAttack: 0.005,   // 5ms
+  compRelease: 0.5,    // 500ms
+  makeupGainDb: 8,
+  limiterThreshold: DEFAULT_LIMITER_CEILING,
+};
+
+export const DEFAULT_PHYSICS_KNOBS: PhysicsKnobs = {
+  reverb: 0.3,
+  tempo: 0.5,
+  gravity: 0.0,
+  budding: 0.0,
+  cannibalism: 0.0,
+  wind: 0.0,
+  reverse: 0.0,
+  tuning: 0.5,
+  blackHole: 0.0,
+  doppler: 0.0,
+  pingPong: 0.0,
+  weakness: 0.0,
+  magneto: 0.5,
+  fragmentation: 0.0,
+  freeze: 0.0,
+  geometryWarp: 0.0,
+  roomWave: 0.0,
+};
+
+export const DEFAULT_MUSIC_SETTINGS: MusicSettings = {
+  root: 0,
+  scaleId: DEFAULT_SCALE_ID,
+  scaleIndex: scaleValueForId(DEFAULT_SCALE_ID),
+  quantizeEnabled: true,
+  noImmediateRepeat: true,
+  avoidLeadingTone: false,
+  noThirds: false,
+  customScale: null,
+};
+
+export const DEFAULT_LOFI_SETTINGS: LofiSettings = {
+  enabled: false,
+  drive: 0,
+  tape: 0,
+  crush: 0,
+};
+
+export const DEFAULT_GYRO_SETTINGS: GyroSettings = {
+  pan: 0,
+  depth: 0,
+  width: 0,
+  auto: false,
+};
+
+export const DEFAULT_TEMPO_SETTINGS: TempoSettings = {
+  bpm: 120,
+  source: 'internal',
+  delaySync: false,
+  delayLeft: '1/4',
+  delayRight: '1/8d',
+  physicsSync: false,
+};
+
+// Engines without stored params play their defaults.
+export const DEFAULT_SYNTH_SETTINGS: SynthSettings = {
+  engine: DEFAULT_VOICE_ENGINE,
+  params: {},
+};
+
+// A starting spread: big bubbles ring longer, charge splits the FM colour, hue and speed open the tone.
+export const DEFAULT_TIMBRE_SETTINGS: TimbreSettings = {
+  enabled: true,
+  routes: [
+    { source: 'radius', target: 'decay', amount: 0.5 },
+    { source: 'charge', target: 'fmIndex', amount: 0.4 },
+    { source: 'hue', target: 'brightness', amount: 0.4 },
+    { source: 'speed', target: 'brightness', amount: 0.3 },
+    { source: 'jelly', target: 'resonance', amount: 0.4 },
+  ],
+};
+
+// Off by default: single notes, as the room always played. Rules only apply with byCollision.
+export const DEFAULT_HARMONY_SETTINGS: HarmonySettings = {
+  enabled: false,
+  voicing: 'thirds',
+  voices: 3,
+  spread: 0.3,
+  byCollision: false,
+  rules: { wall: 'fifths', bubble: 'thirds', void: 'quartal' },
+};
+
+// Off by default: root and scale stay where the music panel puts them.
+export const DEFAULT_PROGRESSION_SETTINGS: ProgressionSettings = {
+  enabled: false,
+  steps: parseProgression(PROGRESSION_PRESETS[0].text),
+  advance: 'bars',
+  every: 2,
+};
+
+// Off by default: the quantizer picks the nearest scale tone. The table starts untrained.
+export const DEFAULT_MELODY_SETTINGS: MelodySettings = {
+  enabled: false,
+  stepWeight: 0.6,
+  contour: 'arch',
+  contourAmount: 0.5,
+  resolution: 0.6,
+  phraseLength: 8,
+  markov: false,
+  markovTable: emptyMarkovTable(),
+};
+
+// Off by default: hits sound the instant physics detects them.
+export const DEFAULT_GROOVE_SETTINGS: GrooveSettings = {
+  enabled: false,
+  division: '1/16',
+  swing: 0,
+  humanize: 0.2,
+  maxLatencyMs: 150,
+};
+
+// Off by default: every hit plays one voice, as before the matrix existed.
+export const DEFAULT_ROLE_SETTINGS: RoleSettings = {
+  enabled: false,
+  roles: defaultRoleVoices(),
+};
+
+// Six slots a bank in the shuffled cycle, every slot equal: the banks as they always were.
+export const DEFAULT_BANK_SETTINGS: BankSettings = defaultBankSettings();
+
+// The room as drawn shapes the reverb; the Mixer's wet knob still sets how much of it is heard.
+export const DEFAULT_REVERB_SETTINGS: ReverbSettings = defaultReverbSettings();
+
+// The room-shaped impulse, unedited; bundled and user IRs are picked per scene.
+export const DEFAULT_IMPULSE_SETTINGS: ImpulseSettings = defaultImpulseSettings();
+
+// No inserts: the master runs LO-FI straight into the EQ.
+export const DEFAULT_FX_RACK_SETTINGS: FxRackSettings = defaultFxRackSettings();
+
+// Send curves by depth and size; the FX returns are loaded but nothing is sent to them.
+export const DEFAULT_AUX_SETTINGS: AuxSettings = defaultAuxSettings();
+
+// Off by default: the EQ feeds the master compressor directly, as it always did.
+export const DEFAULT_MULTIBAND_SETTINGS: MultibandSettings = defaultMultibandSettings();
@@ -0,0 +1,602 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AudioSettings, AuxSend, AuxSettings, BankSettings, FxRackSettings, GrooveSettings, GyroSettings, HarmonySettings, ImpulseSettings, InsertSlot, LofiSettings, MelodySettings, MultibandBand, MultibandSettings, MusicSettings, PhysicsKnobs, ProgressionSettings, ProgressionStep, ReverbSettings, RoleSettings, RoleVoice, SampleBankId, SlotRule, SoundRole, SynthSettings, TempoSettings, TimbreRoute, TimbreSettings } from '../../types';
+import { AUX_BUSES, AUX_FX_BUSES, isAuxEffect, isAuxSendSource, legacyAuxSettings } from '../audio/auxSends';
+import {
+  BANK_SLOT_RANGE,
+  defaultSlotRule,
+  isBankSelectMode,
+  isSlotZone,
+  MAX_BANK_SLOTS,
+  SLOT_WEIGHT_RANGE,
+} from '../audio/bankSelect';
+import { MAX_INSERT_SLOTS } from '../audio/effects/rack';
+import { getInsertEffect, isInsertEffectId, resolveEffectParams } from '../audio/effects/registry';
+import { IMPULSE_STRETCH_RANGE, isImpulseSource, MIN_IMPULSE_SPAN } from '../audio/impulses';
+import { isVoiceEngineId, resolveEngineParams, VOICE_ENGINES } from '../audio/engines/registry';
+import { LIMITER_CEILING_RANGE } from '../audio/limiter';
+import {
+  BAND_GAIN_RANGE,
+  BAND_RATIO_RANGE,
+  BAND_THRESHOLD_RANGE,
+  HIGH_CROSSOVER_RANGE,
+  LOW_CROSSOVER_RANGE,
+  MULTIBAND_BANDS,
+} from '../audio/multiband';
+import {
+  isRoleSource,
+  ROLE_ATTACK_RANGE,
+  ROLE_DECAY_RANGE,
+  ROLE_GAIN_RANGE,
+  ROLE_PITCH_RANGE,
+  ROLE_SAMPLE_SLOTS,
+  SOUND_ROLES,
+} from '../audio/roles';
+import { REVERB_PRE_DELAY_RANGE } from '../audio/reverb';
+import { isTimbreSource, isTimbreTarget, MAX_TIMBRE_ROUTES } from '../audio/timbre';
+import { GROOVE_LATENCY_RANGE, isGrooveDivision } from '../music/groove';
+import { HARMONY_VOICE_RANGE, isHarmonyVoicing } from '../music/harmony';
+import { emptyMarkovTable, isMelodyContour, MELODY_PHRASE_RANGE } from '../music/melody';
+import { pitchClassToNoteName } from '../music/notes';
+import { isProgressionScaleId, MAX_PROGRESSION_STEPS, progressionRange } from '../music/progression';
+import { getScaleById, isCustomScaleId, sanitizeCustomScale } from '../music/scales';
+import { BPM_RANGE, isNoteDivision } from '../music/tempo';
+import { normalizeSeed } from '../random/seeded';
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  DEFAULT_AUX_SETTINGS,
+  DEFAULT_BANK_SETTINGS,
+  DEFAULT_FX_RACK_SETTINGS,
+  DEFAULT_GROOVE_SETTINGS,
+  DEFAULT_GYRO_SETTINGS,
+  DEFAULT_HARMONY_SETTINGS,
+  DEFAULT_IMPULSE_SETTINGS,
+  DEFAULT_LOFI_SETTINGS,
+  DEFAULT_MELODY_SETTINGS,
+  DEFAULT_MULTIBAND_SETTINGS,
+  DEFAULT_MUSIC_SETTINGS,
+  DEFAULT_PHYSICS_KNOBS,
+  DEFAULT_PROGRESSION_SETTINGS,
+  DEFAULT_REVERB_SETTINGS,
+  DEFAULT_ROLE_SETTINGS,
+  DEFAULT_SYNTH_SETTINGS,
+  DEFAULT_TEMPO_SETTINGS,
+  DEFAULT_TIMBRE_SETTINGS,
+  scaleValueForId,
+} from './defaults';
+
+export const SCENE_PRESET_VERSION = 17;
+export const SCENE_PRESET_FORMAT = 'glassroom.scene';
+
+export interface SceneState {
+  audio: AudioSettings;
+  physics: PhysicsKnobs;
+  music: MusicSettings;
+  lofi: LofiSettings;
+  gyro: GyroSettings;
+  tempo: TempoSettings;
+  synth: SynthSettings;
+  timbre: TimbreSettings;
+  harmony: HarmonySettings;
+  progression: ProgressionSettings;
+  melody: MelodySettings;
+  groove: GrooveSettings;
+  roles: RoleSettings;
+  banks: BankSettings;
+  reverb: ReverbSettings;
+  impulse: ImpulseSettings;
+  fxRack: FxRackSettings;
+  aux: AuxSettings;
+  multiband: MultibandSettings;
+  seed: number | null; // null = free-running randomness
+}
+
+export interface ScenePreset extends SceneState {
+  format: typeof SCENE_PRESET_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+}
+
+type RawDoc = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n document to version n + 1.
+// Add a step whenever the scene shape changes; missing fields are filled from defaults afterwards.
+const MIGRATIONS: Record<number, (doc: RawDoc) => RawDoc> = {
+  // v2: deterministic seed; older scenes keep their free-running behaviour.
+  1: (doc) => ({ ...doc, seed: null }),
+  // v3: tempo/clock settings; older scenes keep the pitch-derived delay and the free Tempo knob.
+  2: (doc) => ({ ...doc, tempo: { ...DEFAULT_TEMPO_SETTINGS } }),
+  // v4: pluggable synth engines; older scenes used the only synth there was.
+  3: (doc) => ({ ...doc, synth: { engine: 'classic', params: {} } }),
+  // v5: bubble timbre routes; older scenes get the default routes switched off, so they sound as saved.
+  4: (doc) => ({ ...doc, timbre: { ...DEFAULT_TIMBRE_SETTINGS, enabled: false } }),
+  // v6: custom and microtonal scales travel inside the scene; older scenes only knew the built-ins.
+  5: (doc) => ({ ...doc, music: { ...(isRecord(doc.music) ? doc.music : {}), customScale: null } }),
+  // v7: chord/harmony layer; older scenes played single notes.
+  6: (doc) => ({ ...doc, harmony: { ...DEFAULT_HARMONY_SETTINGS } }),
+  // v8: root/scale progression; older scenes kept the panel's root and scale.
+  7: (doc) => ({ ...doc, progression: { ...DEFAULT_PROGRESSION_SETTINGS } }),
+  // v9: melodic model; older scenes snapped to the nearest scale tone.
+  8: (doc) => ({ ...doc, melody: { ...DEFAULT_MELODY_SETTINGS } }),
+  // v10: rhythmic grid for collisions; older scenes played in free time.
+  9: (doc) => ({ ...doc, groove: { ...DEFAULT_GROOVE_SETTINGS } }),
+  // v11: role matrix; older scenes played every hit through one voice.
+  10: (doc) => ({ ...doc, roles: { ...DEFAULT_ROLE_SETTINGS } }),
+  // v12: bank sizes and slot rules; older scenes had six equal slots a bank in the shuffled cycle.
+  11: (doc) => ({ ...doc, banks: DEFAULT_BANK_SETTINGS }),
+  // v13: room reverb; the old fixed noise tail is gone, so older scenes get the drawn room at its own size.
+  12: (doc) => ({ ...doc, reverb: { ...DEFAULT_REVERB_SETTINGS } }),
+  // v14: IR choice and edits; before it the convolver always played the room.
+  13: (doc) => ({ ...doc, impulse: { ...DEFAULT_IMPULSE_SETTINGS } }),
+  // v15: master insert rack; older scenes had none.
+  14: (doc) => ({ ...doc, fxRack: { ...DEFAULT_FX_RACK_SETTINGS } }),
+  // v16: aux send curves; older scenes keep every hit at full level into the reverb and the delay.
+  15: (doc) => ({ ...doc, aux: legacyAuxSettings() }),
+  // v17: multiband compressor; older scenes went from the EQ straight into the master compressor.
+  16: (doc) => ({ ...doc, multiband: { ...DEFAULT_MULTIBAND_SETTINGS } }),
+};
+
+const AUDIO_RANGES: Record<keyof AudioSettings, [number, number]> = {
+  volume: [0, 1],
+  low: [-24, 24],
+  mid: [-24, 24],
+  high: [-24, 24],
+  reverbWet: [0, 1],
+  baseFrequency: [20, 20000],
+  pingPongWet: [0, 1],
+  sampleGain: [0, 2],
+  compThreshold: [-60, 0],
+  compRatio: [1, 20],
+  compAttack: [0, 1],
+  compRelease: [0, 1],
+  makeupGainDb: [-24, 24],
+  limiterThreshold: LIMITER_CEILING_RANGE,
+};
+
+const clamp = (x: number, a: number, b: number) => Math.max(a, Math.min(b, x));
+const isRecord = (value: unknown): value is RawDoc => typeof value === 'object' && value !== null && !Array.isArray(value);
+const readNumber = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? clamp(value, min, max) : fallback;
+const readBoolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+const readString = (value: unknown, fallback: string) => (typeof value === 'string' && value.trim() ? value : fallback);
+
+const sanitizeAudio = (raw: unknown): AudioSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const out = { ...DEFAULT_AUDIO_SETTINGS };
+  (Object.keys(AUDIO_RANGES) as (keyof AudioSettings)[]).forEach((key) => {
+    const [min, max] = AUDIO_RANGES[key];
+    const fallback = DEFAULT_AUDIO_SETTINGS[key] ?? min;
+    out[key] = readNumber(src[key], fallback, min, max);
+  });
+  return out;
+};
+
+const sanitizePhysics = (raw: unknown): PhysicsKnobs => {
+  const src = isRecord(raw) ? raw : {};
+  const out = { ...DEFAULT_PHYSICS_KNOBS };
+  (Object.keys(DEFAULT_PHYSICS_KNOBS) as (keyof PhysicsKnobs)[]).forEach((key) => {
+    out[key] = readNumber(src[key], DEFAULT_PHYSICS_KNOBS[key], 0, 1);
+  });
+  return out;
+};
+
+const sanitizeMusic = (raw: unknown): MusicSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const requested = readString(src.scaleId, DEFAULT_MUSIC_SETTINGS.scaleId);
+  const customScale = sanitizeCustomScale(src.customScale);
+  const isCustom = isCustomScaleId(requested) && customScale?.id === requested;
+  // getScaleById falls back to the default scale for unknown ids.
+  const scaleId = isCustom ? requested : getScaleById(requested).id;
+  return {
+    root: Math.round(readNumber(src.root, DEFAULT_MUSIC_SETTINGS.root, 0, 11)),
+    scaleId,
+    // A custom scale leaves the Music knob where it was.
+    scaleIndex: isCustom ? readNumber(src.scaleIndex, 0, 0, 1) : scaleValueForId(scaleId),
+    quantizeEnabled: readBoolean(src.quantizeEnabled, DEFAULT_MUSIC_SETTINGS.quantizeEnabled),
+    noImmediateRepeat: readBoolean(src.noImmediateRepeat, DEFAULT_MUSIC_SETTINGS.noImmediateRepeat),
+    avoidLeadingTone: readBoolean(src.avoidLeadingTone, DEFAULT_MUSIC_SETTINGS.avoidLeadingTone),
+    noThirds: readBoolean(src.noThirds, DEFAULT_MUSIC_SETTINGS.noThirds),
+    customScale: isCustom ? customScale : null,
+  };
+};
+
+const sanitizeLofi = (raw: unknown): LofiSettings => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    enabled: readBoolean(src.enabled, DEFAULT_LOFI_SETTINGS.enabled),
+    drive: readNumber(src.drive, DEFAULT_LOFI_SETTINGS.drive, 0, 1),
+    tape: readNumber(src.tape, DEFAULT_LOFI_SETTINGS.tape, 0, 1),
+    crush: readNumber(src.crush, DEFAULT_LOFI_SETTINGS.crush, 0, 1),
+  };
+};
+
+const sanitizeGyro = (raw: unknown): GyroSettings => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    pan: readNumber(src.pan, DEFAULT_GYRO_SETTINGS.pan, -1, 1),
+    depth: readNumber(src.depth, DEFAULT_GYRO_SETTINGS.depth, -1, 1),
+    width: readNumber(src.width, DEFAULT_GYRO_SETTINGS.width, -1, 1),
+    auto: readBoolean(src.auto, DEFAULT_GYRO_SETTINGS.auto),
+  };
+};
+
+const sanitizeTempo = (raw: unknown): TempoSettings => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    bpm: readNumber(src.bpm, DEFAULT_TEMPO_SETTINGS.bpm, BPM_RANGE[0], BPM_RANGE[1]),
+    source: src.source === 'midi' ? 'midi' : 'internal',
+    delaySync: readBoolean(src.delaySync, DEFAULT_TEMPO_SETTINGS.delaySync),
+    delayLeft: isNoteDivision(src.delayLeft) ? src.delayLeft : DEFAULT_TEMPO_SETTINGS.delayLeft,
+    delayRight: isNoteDivision(src.delayRight) ? src.delayRight : DEFAULT_TEMPO_SETTINGS.delayRight,
+    physicsSync: readBoolean(src.physicsSync, DEFAULT_TEMPO_SETTINGS.physicsSync),
+  };
+};
+
+const sanitizeSynth = (raw: unknown): SynthSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const rawParams = isRecord(src.params) ? src.params : {};
+  const params: SynthSettings['params'] = {};
+  VOICE_ENGINES.forEach((engine) => {
+    const stored = rawParams[engine.id];
+    if (isRecord(stored)) params[engine.id] = resolveEngineParams(engine, stored);
+  });
+  return {
+    engine: isVoiceEngineId(src.engine) ? src.engine : DEFAULT_SYNTH_SETTINGS.engine,
+    params,
+  };
+};
+
+const sanitizeTimbre = (raw: unknown): TimbreSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const rawRoutes = Array.isArray(src.routes) ? src.routes : DEFAULT_TIMBRE_SETTINGS.routes;
+  const routes: TimbreRoute[] = [];
+  rawRoutes.forEach((route: unknown) => {
+    if (!isRecord(route) || !isTimbreSource(route.source) || !isTimbreTarget(route.target)) return;
+    if (routes.length >= MAX_TIMBRE_ROUTES) return;
+    if (routes.some((kept) => kept.source === route.source && kept.target === route.target)) return;
+    routes.push({ source: route.source, target: route.target, amount: readNumber(route.amount, 0, -1, 1) });
+  });
+  return {
+    enabled: readBoolean(src.enabled, DEFAULT_TIMBRE_SETTINGS.enabled),
+    routes,
+  };
+};
+
+const sanitizeHarmony = (raw: unknown): HarmonySettings => {
+  const src = isRecord(raw) ? raw : {};
+  const rules = isRecord(src.rules) ? src.rules : {};
+  const readVoicing = (value: unknown, fallback: HarmonySettings['voicing']) => (isHarmonyVoicing(value) ? value : fallback);
+  return {
+    enabled: readBoolean(src.enabled, DEFAULT_HARMONY_SETTINGS.enabled),
+    voicing: readVoicing(src.voicing, DEFAULT_HARMONY_SETTINGS.voicing),
+    voices: Math.round(readNumber(src.voices, DEFAULT_HARMONY_SETTINGS.voices, HARMONY_VOICE_RANGE[0], HARMONY_VOICE_RANGE[1])),
+    spread: readNumber(src.spread, DEFAULT_HARMONY_SETTINGS.spread, 0, 1),
+    byCollision: readBoolean(src.byCollision, DEFAULT_HARMONY_SETTINGS.byCollision),
+    rules: {
+      wall: readVoicing(rules.wall, DEFAULT_HARMONY_SETTINGS.rules.wall),
+      bubble: readVoicing(rules.bubble, DEFAULT_HARMONY_SETTINGS.rules.bubble),
+      void: readVoicing(rules.void, DEFAULT_HARMONY_SETTINGS.rules.void),
+    },
+  };
+};
+
+const sanitizeProgression = (raw: unknown): ProgressionSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const rawSteps = Array.isArray(src.steps) ? src.steps : DEFAULT_PROGRESSION_SETTINGS.steps;
+  const steps: ProgressionStep[] = [];
+  rawSteps.forEach((step: unknown) => {
+    if (!isRecord(step) || steps.length >= MAX_PROGRESSION_STEPS) return;
+    if (typeof step.root !== 'number' || !Number.isFinite(step.root)) return;
+    if (!isProgressionScaleId(step.scaleId)) return;
+    const root = ((Math.round(step.root) % 12) + 12) % 12;
+    const scaleId = step.scaleId;
+    steps.push({ label: readString(step.label, `${pitchClassToNoteName(root)}:${scaleId}`).trim(), root, scaleId });
+  });
+  const advance = src.advance === 'collisions' ? 'collisions' : 'bars';
+  const [minEvery, maxEvery] = progressionRange(advance);
+  return {
+    enabled: readBoolean(src.enabled, DEFAULT_PROGRESSION_SETTINGS.enabled),
+    steps,
+    advance,
+    every: Math.round(readNumber(src.every, DEFAULT_PROGRESSION_SETTINGS.every, minEvery, maxEvery)),
+  };
+};
+
+// Square 12x12 table of non-negative counts; anything else starts untrained.
+const sanitizeMarkovTable = (raw: unknown): number[][] => {
+  const table = emptyMarkovTable();
+  if (!Array.isArray(raw) || raw.length !== table.length) return table;
+  if (!raw.every((row) => Array.isArray(row) && row.length === table.length)) return table;
+  return table.map((row, from) => row.map((_, to) => readNumber((raw[from] as unknown[])[to], 0, 0, Number.MAX_SAFE_INTEGER)));
+};
+
+const sanitizeMelody = (raw: unknown): MelodySettings => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    enabled: readBoolean(src.enabled, DEFAULT_MELODY_SETTINGS.enabled),
+    stepWeight: readNumber(src.stepWeight, DEFAULT_MELODY_SETTINGS.stepWeight, 0, 1),
+    contour: isMelodyContour(src.contour) ? src.contour : DEFAULT_MELODY_SETTINGS.contour,
+    contourAmount: readNumber(src.contourAmount, DEFAULT_MELODY_SETTINGS.contourAmount, 0, 1),
+    resolution: readNumber(src.resolution, DEFAULT_MELODY_SETTINGS.resolution, 0, 1),
+    phraseLength: Math.round(readNumber(src.phraseLength, DEFAULT_MELODY_SETTINGS.phraseLength, MELODY_PHRASE_RANGE[0], MELODY_PHRASE_RANGE[1])),
+    markov: readBoolean(src.markov, DEFAULT_MELODY_SETTINGS.markov),
+    markovTable: sanitizeMarkovTable(src.markovTable),
+  };
+};
+
+const sanitizeGroove = (raw: unknown): GrooveSettings => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    enabled: readBoolean(src.enabled, DEFAULT_GROOVE_SETTINGS.enabled),
+    division: isGrooveDivision(src.division) ? src.division : DEFAULT_GROOVE_SETTINGS.division,
+    swing: readNumber(src.swing, DEFAULT_GROOVE_SETTINGS.swing, 0, 1),
+    humanize: readNumber(src.humanize, DEFAULT_GROOVE_SETTINGS.humanize, 0, 1),
+    maxLatencyMs: readNumber(src.maxLatencyMs, DEFAULT_GROOVE_SETTINGS.maxLatencyMs, GROOVE_LATENCY_RANGE[0], GROOVE_LATENCY_RANGE[1]),
+  };
+};
+
+const sanitizeRoleVoice = (raw: unknown, fallback: RoleVoice): RoleVoice => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    source: isRoleSource(src.source) ? src.source : fallback.source,
+    slot: Math.round(readNumber(src.slot, fallback.slot, 0, ROLE_SAMPLE_SLOTS - 1)),
+    gain: readNumber(src.gain, fallback.gain, ROLE_GAIN_RANGE[0], ROLE_GAIN_RANGE[1]),
+    pitch: Math.round(readNumber(src.pitch, fallback.pitch, ROLE_PITCH_RANGE[0], ROLE_PITCH_RANGE[1])),
+    attack: readNumber(src.attack, fallback.attack, ROLE_ATTACK_RANGE[0], ROLE_ATTACK_RANGE[1]),
+    decay: readNumber(src.decay, fallback.decay, ROLE_DECAY_RANGE[0], ROLE_DECAY_RANGE[1]),
+  };
+};
+
+const sanitizeRoles = (raw: unknown): RoleSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const roles = isRecord(src.roles) ? src.roles : {};
+  const out = {} as Record<SoundRole, RoleVoice>;
+  SOUND_ROLES.forEach(({ id }) => {
+    out[id] = sanitizeRoleVoice(roles[id], DEFAULT_ROLE_SETTINGS.roles[id]);
+  });
+  return {
+    enabled: readBoolean(src.enabled, DEFAULT_ROLE_SETTINGS.enabled),
+    roles: out,
+  };
+};
+
+const sanitizeSlotRule = (raw: unknown): SlotRule => {
+  const src = isRecord(raw) ? raw : {};
+  const fallback = defaultSlotRule();
+  const minSize = readNumber(src.minSize, fallback.minSize, 0, 1);
+  return {
+    weight: readNumber(src.weight, fallback.weight, SLOT_WEIGHT_RANGE[0], SLOT_WEIGHT_RANGE[1]),
+    minSize,
+    maxSize: readNumber(src.maxSize, fallback.maxSize, minSize, 1),
+    zone: isSlotZone(src.zone) ? src.zone : fallback.zone,
+  };
+};
+
+const sanitizeBanks = (raw: unknown): BankSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const rules = isRecord(src.rules) ? src.rules : {};
+  const readRules = (bank: SampleBankId) => {
+    const list = Array.isArray(rules[bank]) ? rules[bank] : [];
+    return Array.from({ length: MAX_BANK_SLOTS }, (_, i) => sanitizeSlotRule(list[i]));
+  };
+  const readSlots = (value: unknown, fallback: number) =>
+    Math.round(readNumber(value, fallback, BANK_SLOT_RANGE[0], BANK_SLOT_RANGE[1]));
+  return {
+    micSlots: readSlots(src.micSlots, DEFAULT_BANK_SETTINGS.micSlots),
+    smpSlots: readSlots(src.smpSlots, DEFAULT_BANK_SETTINGS.smpSlots),
+    mode: isBankSelectMode(src.mode) ? src.mode : DEFAULT_BANK_SETTINGS.mode,
+    synthWeight: readNumber(src.synthWeight, DEFAULT_BANK_SETTINGS.synthWeight, SLOT_WEIGHT_RANGE[0], SLOT_WEIGHT_RANGE[1]),
+    rules: { mic: readRules('mic'), smp: readRules('smp') },
+  };
+};
+
+const sanitizeReverb = (raw: unknown): ReverbSettings => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    followRoom: readBoolean(src.followRoom, DEFAULT_REVERB_SETTINGS.followRoom),
+    size: readNumber(src.size, DEFAULT_REVERB_SETTINGS.size, 0, 1),
+    preDelay: readNumber(src.preDelay, DEFAULT_REVERB_SETTINGS.preDelay, REVERB_PRE_DELAY_RANGE[0], REVERB_PRE_DELAY_RANGE[1]),
+    damping: readNumber(src.damping, DEFAULT_REVERB_SETTINGS.damping, 0, 1),
+    diffusion: readNumber(src.diffusion, DEFAULT_REVERB_SETTINGS.diffusion, 0, 1),
+    early: readNumber(src.early, DEFAULT_REVERB_SETTINGS.early, 0, 1),
+  };
+};
+
+// A user IR is only a library reference; without one the scene falls back to the room.
+const sanitizeImpulse = (raw: unknown): ImpulseSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const sampleId = typeof src.sampleId === 'string' && src.sampleId ? src.sampleId : null;
+  const requested = isImpulseSource(src.source) ? src.source : DEFAULT_IMPULSE_SETTINGS.source;
+  const source = requested === 'user' && !sampleId ? 'room' : requested;
+  const start = readNumber(src.start, DEFAULT_IMPULSE_SETTINGS.start, 0, 1 - MIN_IMPULSE_SPAN);
+  return {
+    source,
+    sampleId: source === 'user' ? sampleId : null,
+    name: source === 'user' && typeof src.name === 'string' ? src.name.trim().slice(0, 80) : '',
+    start,
+    end: readNumber(src.end, DEFAULT_IMPULSE_SETTINGS.end, start + MIN_IMPULSE_SPAN, 1),
+    reverse: readBoolean(src.reverse, DEFAULT_IMPULSE_SETTINGS.reverse),
+    stretch: readNumber(src.stretch, DEFAULT_IMPULSE_SETTINGS.stretch, IMPULSE_STRETCH_RANGE[0], IMPULSE_STRETCH_RANGE[1]),
+    normalize: readBoolean(src.normalize, DEFAULT_IMPULSE_SETTINGS.normalize),
+  };
+};
+
+// Unknown effects are dropped; a missing or repeated slot id gets a fresh one so the engine can tell slots apart.
+const sanitizeFxRack = (raw: unknown): FxRackSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const seen = new Set<string>();
+  const slots: InsertSlot[] = [];
+  (Array.isArray(src.slots) ? src.slots : []).forEach((entry) => {
+    if (!isRecord(entry) || !isInsertEffectId(entry.effect) || slots.length >= MAX_INSERT_SLOTS) return;
+    const id = typeof entry.id === 'string' && entry.id && !seen.has(entry.id) ? entry.id : uuidv4();
+    seen.add(id);
+    slots.push({
+      id,
+      effect: entry.effect,
+      bypass: readBoolean(entry.bypass, false),
+      params: resolveEffectParams(getInsertEffect(entry.effect), isRecord(entry.params) ? entry.params : undefined),
+    });
+  });
+  return { slots };
+};
+
+const sanitizeAuxSend = (raw: unknown, fallback: AuxSend): AuxSend => {
+  const src = isRecord(raw) ? raw : {};
+  const roles = isRecord(src.roles) ? src.roles : {};
+  const out = {} as Record<SoundRole, number>;
+  SOUND_ROLES.forEach(({ id }) => {
+    out[id] = readNumber(roles[id], fallback.roles[id], 0, 1);
+  });
+  return {
+    source: isAuxSendSource(src.source) ? src.source : fallback.source,
+    low: readNumber(src.low, fallback.low, 0, 1),
+    high: readNumber(src.high, fallback.high, 0, 1),
+    curve: readNumber(src.curve, fallback.curve, -1, 1),
+    roles: out,
+  };
+};
+
+const sanitizeAux = (raw: unknown): AuxSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const sends = isRecord(src.sends) ? src.sends : {};
+  const returns = isRecord(src.returns) ? src.returns : {};
+  const out = { sends: {}, returns: {} } as AuxSettings;
+  AUX_BUSES.forEach(({ id }) => {
+    out.sends[id] = sanitizeAuxSend(sends[id], DEFAULT_AUX_SETTINGS.sends[id]);
+  });
+  AUX_FX_BUSES.forEach((bus) => {
+    const entry = isRecord(returns[bus]) ? returns[bus] : {};
+    const fallback = DEFAULT_AUX_SETTINGS.returns[bus];
+    out.returns[bus] = {
+      effect: isAuxEffect(entry.effect) ? entry.effect : fallback.effect,
+      level: readNumber(entry.level, fallback.level, 0, 1),
+    };
+  });
+  return out;
+};
+
+const sanitizeMultibandBand = (raw: unknown, fallback: MultibandBand): MultibandBand => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    threshold: readNumber(src.threshold, fallback.threshold, BAND_THRESHOLD_RANGE[0], BAND_THRESHOLD_RANGE[1]),
+    ratio: readNumber(src.ratio, fallback.ratio, BAND_RATIO_RANGE[0], BAND_RATIO_RANGE[1]),
+    gain: readNumber(src.gain, fallback.gain, BAND_GAIN_RANGE[0], BAND_GAIN_RANGE[1]),
+  };
+};
+
+const sanitizeMultiband = (raw: unknown): MultibandSettings => {
+  const src = isRecord(raw) ? raw : {};
+  const fallback = DEFAULT_MULTIBAND_SETTINGS;
+  const bandsRaw = isRecord(src.bands) ? src.bands : {};
+  const bands = {} as MultibandSettings['bands'];
+  MULTIBAND_BANDS.forEach(({ id }) => {
+    bands[id] = sanitizeMultibandBand(bandsRaw[id], fallback.bands[id]);
+  });
+  return {
+    enabled: readBoolean(src.enabled, fallback.enabled),
+    lowCrossover: readNumber(src.lowCrossover, fallback.lowCrossover, LOW_CROSSOVER_RANGE[0], LOW_CROSSOVER_RANGE[1]),
+    highCrossover: readNumber(src.highCrossover, fallback.highCrossover, HIGH_CROSSOVER_RANGE[0], HIGH_CROSSOVER_RANGE[1]),
+    bands,
+  };
+};
+
+export const sanitizeSceneState = (raw: unknown): SceneState => {
+  const src = isRecord(raw) ? raw : {};
+  return {
+    audio: sanitizeAudio(src.audio),
+    physics: sanitizePhysics(src.physics),
+    music: sanitizeMusic(src.music),
+    lofi: sanitizeLofi(src.lofi),
+    gyro: sanitizeGyro(src.gyro),
+    tempo: sanitizeTempo(src.tempo),
+    synth: sanitizeSynth(src.synth),
+    timbre: sanitizeTimbre(src.timbre),
+    harmony: sanitizeHarmony(src.harmony),
+    progression: sanitizeProgression(src.progression),
+    melody: sanitizeMelody(src.melody),
+    groove: sanitizeGroove(src.groove),
+    roles: sanitizeRoles(src.roles),
+    banks: sanitizeBanks(src.banks),
+    reverb: sanitizeReverb(src.reverb),
+    impulse: sanitizeImpulse(src.impulse),
+    fxRack: sanitizeFxRack(src.fxRack),
+    aux: sanitizeAux(src.aux),
+    multiband: sanitizeMultiband(src.multiband),
+    seed: normalizeSeed(src.seed),
+  };
+};
+
+export const createScenePreset = (name: string, state: SceneState, now = Date.now()): ScenePreset => ({
+  format: SCENE_PRESET_FORMAT,
+  version: SCENE_PRESET_VERSION,
+  id: uuidv4(),
+  name: name.trim() || 'Untitled scene',
+  createdAt: now,
+  updatedAt: now,
+  ...sanitizeSceneState(state),
+});
+
+export const duplicateScenePreset = (preset: ScenePreset, now = Date.now()): ScenePreset =>
+  createScenePreset(`${preset.name} copy`, preset, now);
+
+/**
+ * Append imported scenes to a library. An id already in use (in the library or earlier
+ * in the same import) gets a fresh one, so re-importing never clobbers an entry.
+ */
+export const mergeImportedPresets = (existing: ScenePreset[], imported: ScenePreset[], now = Date.now()): ScenePreset[] => {
+  const taken = new Set(existing.map((preset) => preset.id));
+  const fresh = imported.map((preset) => {
+    const accepted = taken.has(preset.id) ? { ...duplicateScenePreset(preset, now), name: preset.name } : preset;
+    taken.add(accepted.id);
+    return accepted;
+  });
+  return [...existing, ...fresh];
+};
+
+/**
+ * Upgrade any stored or imported scene document to the current version.
+ * Throws when the input is not a scene or comes from a newer Glass Room.
+ */
+export const migrateScenePreset = (raw: unknown): ScenePreset => {
+  if (!isRecord(raw)) {
+    throw new Error('Scene preset must be a JSON object.');
+  }
+  if (raw.format !== undefined && raw.format !== SCENE_PRESET_FORMAT) {
+    throw new Error(`Unknown scene format: ${String(raw.format)}`);
+  }
+  let version = typeof raw.version === 'number' && Number.isInteger(raw.version) ? raw.version : 1;
+  if (version > SCENE_PRESET_VERSION) {
+    throw new Error(`Scene preset version ${version} is newer than supported (${SCENE_PRESET_VERSION}).`);
+  }
+
+  let doc: RawDoc = raw;
+  while (version < SCENE_PRESET_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from scene preset version ${version}.`);
+    doc = step(doc);
+    version += 1;
+  }
+
+  const now = Date.now();
+  const createdAt = readNumber(doc.createdAt, now, 0, Number.MAX_SAFE_INTEGER);
+  return {
+    format: SCENE_PRESET_FORMAT,
+    version: SCENE_PRESET_VERSION,
+    id: readString(doc.id, uuidv4()),
+    name: readString(doc.name, 'Untitled scene'),
+    createdAt,
+    updatedAt: readNumber(doc.updatedAt, createdAt, 0, Number.MAX_SAFE_INTEGER),
+    ...sanitizeSceneState(doc),
+  };
+};
+
+export const serializeScenePreset = (preset: ScenePreset) => JSON.stringify(preset, null, 2);
+
+/** Accepts a single exported preset or an array of presets. */
+export const parseScenePresetFile = (text: string): ScenePreset[] => {
+  const parsed: unknown = JSON.parse(text);
+  const docs = Array.isArray(parsed) ? parsed : [parsed];
+  return docs.map(migrateScenePreset);
+};
@@ -0,0 +1,66 @@
+import { migrateScenePreset, type ScenePreset } from './presets';
+
+const STORAGE_KEY = 'glassroom.scenes';
+// Where a library that is not JSON at all is kept before the first save replaces it.
+const BACKUP_KEY = 'glassroom.scenes.unreadable';
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export interface StoredScenePresets {
+  presets: ScenePreset[];
+  // Stored docs this version cannot read (e.g. saved by a newer Glass Room), written back untouched.
+  unreadable: unknown[];
+}
+
+/** Reads the preset library, migrating entries and setting aside the ones that cannot be read. */
+export const loadScenePresets = (): StoredScenePresets => {
+  const empty: StoredScenePresets = { presets: [], unreadable: [] };
+  const storage = getStorage();
+  if (!storage) return empty;
+  let raw: string | null = null;
+  try {
+    raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return empty;
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('Scene library is not a list.');
+    const stored: StoredScenePresets = { presets: [], unreadable: [] };
+    parsed.forEach((doc) => {
+      try {
+        stored.presets.push(migrateScenePreset(doc));
+      } catch (e) {
+        console.warn('Keeping unreadable scene preset as stored.', e);
+        stored.unreadable.push(doc);
+      }
+    });
+    return stored;
+  } catch (e) {
+    console.warn('Scene presets unavailable.', e);
+    if (raw) {
+      try {
+        storage.setItem(BACKUP_KEY, raw);
+      } catch (backupError) {
+        console.warn('Failed to back up the unreadable scene library.', backupError);
+      }
+    }
+    return empty;
+  }
+};
+
+export const saveScenePresets = (presets: ScenePreset[], unreadable: unknown[] = []): boolean => {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify([...presets, ...unreadable]));
+    return true;
+  } catch (e) {
+    console.warn('Failed to persist scene presets.', e);
+    return false;
+  }
+};
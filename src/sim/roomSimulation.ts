@@ -0,0 +1,984 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Bubble, CollisionKind, PhysicsSettings, SoundRole, TimbreFeatures } from '../../types';
+import { collisionKindForRole } from '../audio/roles';
+import type { SourceContext } from '../audio/bankSelect';
+
+// Room geometry shared with the Visualizer projection.
+export const DEPTH = 1000;
+export const FOCAL_LENGTH = 700;
+export const VERTEX_COUNT = 8;
+
+// ---- STABILITY GUARDS (no design change) ----
+export const EPS = 1e-6;
+
+// Magneto distances (keep your feel, but prevent singularities)
+const MAG_MIN_DIST_SQ = 140;     // was 100; a bit safer
+const MAG_MAX_DIST_SQ = 150000;  // keep your cutoff
+
+// Caps to prevent velocity runaway on dense clusters
+const MAX_SPEED = 22;            // px per tick-ish (tempo-scaled below)
+const MAX_ACCEL = 6;             // per frame contribution (tempo-scaled below)
+
+// Audio spam guard (optional but helps when magneto pins on walls)
+const AUDIO_COOLDOWN_MS = 50;
+const MAGNETO_BOOST = 3.8;
+const SHRED_GRACE_MS = 1400;
+const SHRED_MIN_BUBBLES = 6;
+const VOID_PLANE_Z = DEPTH * 0.95; // inner back wall plane for Void sink
+export const DIGIT_OVERLAY_MIN_R2D = 14;
+const DIGIT_IMPACT_COOLDOWN_MS = 140;
+const TESLA_JUMP_PROB = 0.35;
+const TESLA_MIN_DIST = 80;
+const BUBBLE_COLORS = [
+  { hue: 60, color: 'hsla(60, 5%, 95%, 1)' },   // Snow White
+  { hue: 180, color: 'hsla(180, 10%, 85%, 1)' }, // Icy Grey
+  { hue: 100, color: 'hsla(100, 10%, 80%, 1)' }, // Pale Moss
+  { hue: 200, color: 'hsla(200, 15%, 90%, 1)' }, // Cold Blue
+];
+// Timbre feature ranges: radius seldom passes this after merging, vertices swing about this much.
+const TIMBRE_RADIUS_MAX = 120;
+const TIMBRE_VERTEX_SPREAD = 1.2;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const clampSigned = (v: number) => Math.max(-1, Math.min(1, v));
+
+export type DigitChar = '3' | '6' | '9';
+export type DigitOverlay = { digit: DigitChar; since: number; until: number };
+export type SourceChoice = { type: 'mic' | 'smp' | 'synth'; index?: number };
+export type BankSnapshot = { mic: boolean[]; smp: boolean[]; synthEnabled: boolean };
+
+export type JellyState = {
+  sx: number; sy: number; rot: number;
+  vsx: number; vsy: number; vrot: number;
+  vOff: number[];
+  vVel: number[];
+  nx2: number; ny2: number;
+};
+
+export type SimBubble = Bubble & {
+  lastAudioAt?: number;
+  jelly?: JellyState;
+  voidEnteredAt?: number;
+  voidGraceMs?: number;
+  audioSource?: SourceChoice | null;
+  digitOverlay?: DigitOverlay;
+  digitImpactsLeft?: number;
+  lastDigitImpactAt?: number;
+  labelAlpha?: number;
+  labelTargetAlpha?: number;
+  spawnedAt?: number;
+  overlapFrame?: number;
+};
+
+/** Frozen copy of a room, used as the starting point of an offline render. */
+export interface RoomSnapshot {
+  bubbles: SimBubble[];
+  width: number;
+  height: number;
+}
+
+export type BubblePair = { b1: SimBubble | null; b2: SimBubble | null; dist: number };
+
+/** Everything triggerSound needs from a hit, already mapped to engine ranges. */
+export interface RoomSoundEvent {
+  bubble: SimBubble;
+  features: TimbreFeatures;
+  trigger: 'WALL' | 'FLOOR' | 'ABSORB' | 'COLLIDE' | 'VOID' | 'POP' | 'SHATTER' | 'TESLA';
+  role: SoundRole;
+  kind: CollisionKind;
+  sizeFactor: number;
+  pan: number;
+  depth: number;
+  height: number;
+  velocityZ: number;
+  doppler: number;
+  isReverse: boolean;
+  volume: number;
+  source: SourceChoice | null | undefined;
+}
+
+const ROLE_FOR_TRIGGER: Record<RoomSoundEvent['trigger'], SoundRole> = {
+  WALL: 'wall',
+  FLOOR: 'floor',
+  ABSORB: 'bubble',
+  COLLIDE: 'bubble',
+  VOID: 'void',
+  POP: 'pop',
+  SHATTER: 'shatter',
+  TESLA: 'tesla',
+};
+
+export interface RoomSimulationHooks {
+  random: () => number;
+  now: () => number;
+  assignSource: (context?: SourceContext) => SourceChoice | null;
+  onSound: (event: RoomSoundEvent) => void;
+  onShatter?: (b: SimBubble) => void;
+  onPuff?: (b: SimBubble) => void;
+  onTeslaArc?: (from: SimBubble, to: SimBubble) => void;
+  log?: (msg: string) => void;
+}
+
+export interface RoomStepInput {
+  physics: PhysicsSettings;
+  width: number;
+  height: number;
+  nowMs: number;
+  time: number; // animation phase (tempo-scaled seconds * 2)
+  frameId: number;
+  bank: BankSnapshot;
+  poolSize: number;
+  running: boolean; // false = only housekeeping (sources, digits), no motion
+  recovering?: boolean; // perf guard: blocks budding
+  shred?: { ready: boolean; severity: number }; // perf guard: gradual auto shred
+}
+
+export const isSourceValid = (source: SourceChoice | null, bank: BankSnapshot) => {
+  if (!source) return false;
+  if (source.type === 'synth') return bank.synthEnabled;
+  if (source.type === 'mic' && typeof source.index === 'number') return Boolean(bank.mic[source.index]);
+  if (source.type === 'smp' && typeof source.index === 'number') return Boolean(bank.smp[source.index]);
+  return false;
+};
+
+/** The bubble's look at the moment of a hit, each property on 0..1, for timbre routes. */
+export const bubbleTimbreFeatures = (b: SimBubble): TimbreFeatures => {
+  const speed = Math.sqrt(b.vx * b.vx + b.vy * b.vy + b.vz * b.vz);
+  const squash = b.jelly ? Math.max(Math.abs(1 - b.jelly.sx), Math.abs(1 - b.jelly.sy)) : 0;
+  const vertices = b.vertices.length ? b.vertices : [1];
+  const spread = Math.max(...vertices) - Math.min(...vertices);
+  return {
+    charge: b.charge > 0 ? 1 : 0,
+    hue: clamp01((((b.hue % 360) + 360) % 360) / 360),
+    radius: clamp01(b.radius / TIMBRE_RADIUS_MAX),
+    speed: clamp01(speed / MAX_SPEED),
+    jelly: clamp01(squash / 0.3),
+    irregularity: clamp01(spread / TIMBRE_VERTEX_SPREAD),
+  };
+};
+
+export const hasPlayableSource = (bank: BankSnapshot) =>
+  bank.synthEnabled || bank.mic.some(Boolean) || bank.smp.some(Boolean);
+
+const resetJelly = (jelly: JellyState) => {
+  jelly.sx = 1; jelly.sy = 1; jelly.rot = 0;
+  jelly.vsx = 0; jelly.vsy = 0; jelly.vrot = 0;
+  jelly.nx2 = 1; jelly.ny2 = 0;
+  if (jelly.vOff.length !== VERTEX_COUNT) jelly.vOff = new Array(VERTEX_COUNT).fill(0);
+  if (jelly.vVel.length !== VERTEX_COUNT) jelly.vVel = new Array(VERTEX_COUNT).fill(0);
+  for (let i = 0; i < VERTEX_COUNT; i++) {
+    jelly.vOff[i] = 0;
+    jelly.vVel[i] = 0;
+  }
+};
+
+export const applyJellyImpact = (b: SimBubble, nx: number, ny: number, impulse: number) => {
+  if (!b.jelly) return;
+  let nl = Math.sqrt(nx * nx + ny * ny);
+  if (nl < EPS) nl = 1;
+  nx /= nl; ny /= nl;
+
+  const k = Math.min(1, Math.max(0, impulse / 18)) * (50 / Math.max(18, b.radius));
+  const squash = 1 - 0.28 * k;
+  const stretch = 1 + 0.18 * k;
+  const targetRot = Math.atan2(ny, nx);
+
+  b.jelly.nx2 = nx; b.jelly.ny2 = ny;
+  b.jelly.vsx += (squash - b.jelly.sx) * 0.9;
+  b.jelly.vsy += (stretch - b.jelly.sy) * 0.9;
+  b.jelly.vrot += (targetRot - b.jelly.rot) * 0.25;
+
+  const step = (Math.PI * 2) / VERTEX_COUNT;
+  for (let i = 0; i < VERTEX_COUNT; i++) {
+    const a = i * step;
+    const vx = Math.cos(a);
+    const vy = Math.sin(a);
+    const d = vx * nx + vy * ny;
+    const push = (-0.22 * k) * Math.max(0, d) + (0.10 * k) * Math.max(0, -d);
+    b.jelly.vVel[i] += push * 3.2;
+  }
+};
+
+const updateJelly = (b: SimBubble, tempo: number) => {
+  if (!b.jelly) return;
+  const SPR = 0.18 * tempo;
+  const DMP = 0.78;
+  const ROT_SPR = 0.10 * tempo;
+  const ROT_DMP = 0.80;
+
+  const ax = (1 - b.jelly.sx) * SPR;
+  const ay = (1 - b.jelly.sy) * SPR;
+  b.jelly.vsx = (b.jelly.vsx + ax) * DMP;
+  b.jelly.vsy = (b.jelly.vsy + ay) * DMP;
+  b.jelly.sx += b.jelly.vsx;
+  b.jelly.sy += b.jelly.vsy;
+
+  const arot = (0 - b.jelly.rot) * ROT_SPR;
+  b.jelly.vrot = (b.jelly.vrot + arot) * ROT_DMP;
+  b.jelly.rot += b.jelly.vrot;
+
+  b.jelly.sx = Math.max(0.7, Math.min(1.3, b.jelly.sx));
+  b.jelly.sy = Math.max(0.7, Math.min(1.3, b.jelly.sy));
+
+  const VSPR = 0.22 * tempo;
+  const VDMP = 0.70;
+  for (let i = 0; i < VERTEX_COUNT; i++) {
+    const a = (0 - b.jelly.vOff[i]) * VSPR;
+    b.jelly.vVel[i] = (b.jelly.vVel[i] + a) * VDMP;
+    b.jelly.vOff[i] += b.jelly.vVel[i];
+    b.jelly.vOff[i] = Math.max(-0.35, Math.min(0.35, b.jelly.vOff[i]));
+  }
+
+  b.deformation.scaleX = b.jelly.sx;
+  b.deformation.scaleY = b.jelly.sy;
+  b.deformation.rotation = b.jelly.rot;
+};
+
+/** Deep copy, so an offline run can start from the live room without sharing state. */
+export const cloneBubble = (b: SimBubble): SimBubble => ({
+  ...b,
+  vertices: [...b.vertices],
+  vertexPhases: [...b.vertexPhases],
+  deformation: { ...b.deformation },
+  jelly: b.jelly ? { ...b.jelly, vOff: [...b.jelly.vOff], vVel: [...b.jelly.vVel] } : undefined,
+  audioSource: b.audioSource ? { ...b.audioSource } : b.audioSource,
+  digitOverlay: b.digitOverlay ? { ...b.digitOverlay } : undefined,
+});
+
+/**
+ * The bubble room without a canvas: forces, walls, void, magneto, collisions
+ * and the sound events they fire. The Visualizer drives it once per frame;
+ * the offline bounce drives it at a fixed timestep.
+ */
+export const createRoomSimulation = (hooks: RoomSimulationHooks) => {
+  const { random } = hooks;
+  const bubbles: SimBubble[] = [];
+  const bubblePool: SimBubble[] = [];
+  const topPairs: BubblePair[] = [
+    { b1: null, b2: null, dist: Infinity },
+    { b1: null, b2: null, dist: Infinity },
+    { b1: null, b2: null, dist: Infinity },
+  ];
+  const digit = { nextAt: hooks.now() + 8000 };
+  const frame = { width: 1000, height: 1000, nowMs: 0, physics: null as PhysicsSettings | null };
+
+  // Where a bubble sits, in the terms bank rules use (size 0-1 of the largest radius).
+  const sourceContext = (b: SimBubble): SourceContext => ({
+    size: clamp01(b.radius / 180),
+    pan: clampSigned((b.x / frame.width) * 2 - 1),
+    depth: clamp01(Math.pow(b.z / DEPTH, 0.75)),
+  });
+
+  const log = (msg: string) => hooks.log?.(msg);
+
+  const acquireBubble = (): SimBubble => {
+    const b = bubblePool.pop();
+    if (b) return b;
+    return {
+      id: '',
+      x: 0, y: 0, z: 0,
+      vx: 0, vy: 0, vz: 0,
+      radius: 0,
+      color: '',
+      hue: 0,
+      charge: 1,
+      vertices: new Array(VERTEX_COUNT).fill(1),
+      vertexPhases: new Array(VERTEX_COUNT).fill(0),
+      deformation: { scaleX: 1, scaleY: 1, rotation: 0 },
+    };
+  };
+
+  const releaseBubble = (b: SimBubble) => {
+    b.audioSource = null;
+    b.digitOverlay = undefined;
+    b.digitImpactsLeft = undefined;
+    b.lastDigitImpactAt = undefined;
+    b.voidEnteredAt = undefined;
+    b.voidGraceMs = undefined;
+    b.labelAlpha = undefined;
+    b.labelTargetAlpha = undefined;
+    b.spawnedAt = undefined;
+    b.overlapFrame = undefined;
+    bubblePool.push(b);
+  };
+
+  const removeBubbleAt = (index: number) => {
+    const removed = bubbles[index];
+    const last = bubbles.pop();
+    if (last && last !== removed) {
+      bubbles[index] = last;
+      releaseBubble(removed);
+      return true;
+    }
+    if (removed) releaseBubble(removed);
+    return false;
+  };
+
+  const spawnBubble = (x: number, y: number, z: number = 0, r?: number) => {
+    const { hue, color } = BUBBLE_COLORS[Math.floor(random() * BUBBLE_COLORS.length)];
+    const radius = r || random() * 35 + 15;
+    const b = acquireBubble();
+    const vertices = b.vertices.length === VERTEX_COUNT ? b.vertices : new Array(VERTEX_COUNT).fill(1);
+    const vertexPhases = b.vertexPhases.length === VERTEX_COUNT ? b.vertexPhases : new Array(VERTEX_COUNT).fill(0);
+    for (let i = 0; i < VERTEX_COUNT; i++) {
+      vertices[i] = 1;
+      vertexPhases[i] = random() * Math.PI * 2;
+    }
+    b.vertices = vertices;
+    b.vertexPhases = vertexPhases;
+    const jelly = b.jelly ?? {
+      sx: 1, sy: 1, rot: 0,
+      vsx: 0, vsy: 0, vrot: 0,
+      vOff: new Array(VERTEX_COUNT).fill(0),
+      vVel: new Array(VERTEX_COUNT).fill(0),
+      nx2: 1, ny2: 0,
+    };
+    resetJelly(jelly);
+    const charge = random() > 0.5 ? 1 : -1;
+    const id = uuidv4().substring(0, 6).toUpperCase();
+
+    const spawnedAt = hooks.now();
+    b.id = id;
+    b.x = x;
+    b.y = y;
+    b.z = z || random() * (DEPTH * 0.5);
+    b.vx = (random() - 0.5) * 2;
+    b.vy = (random() - 0.5) * 2;
+    b.vz = (random() - 0.5) * 2;
+    b.radius = radius;
+    b.color = color;
+    b.hue = hue;
+    b.charge = charge;
+    if (!b.deformation) b.deformation = { scaleX: 1, scaleY: 1, rotation: 0 };
+    b.deformation.scaleX = 1;
+    b.deformation.scaleY = 1;
+    b.deformation.rotation = 0;
+    b.jelly = jelly;
+    b.lastAudioAt = 0;
+    // Picked once the bubble has its place and size, so bank rules and zones can see them.
+    const audioSource = hooks.assignSource(sourceContext(b));
+    const hasLabel = Boolean(audioSource);
+    b.audioSource = audioSource;
+    b.digitOverlay = undefined;
+    b.digitImpactsLeft = undefined;
+    b.lastDigitImpactAt = undefined;
+    b.voidEnteredAt = undefined;
+    b.voidGraceMs = undefined;
+    b.overlapFrame = undefined;
+    b.labelAlpha = hasLabel ? 0.6 : 0;
+    b.labelTargetAlpha = hasLabel ? 0.6 : 0;
+    b.spawnedAt = spawnedAt;
+    bubbles.push(b);
+
+    log(`SPAWN: ${id} <R:${Math.round(radius)}>`);
+    return b;
+  };
+
+  const assignDigitOverlay = (digitChar: DigitChar, nowMs: number) => {
+    if (!bubbles.length) return;
+    if (bubbles.some((b) => b.digitOverlay)) return;
+
+    const candidates = bubbles.filter((b) => {
+      if (b.digitOverlay) return false;
+      const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
+      return b.radius * scale >= DIGIT_OVERLAY_MIN_R2D;
+    });
+    if (!candidates.length) return;
+
+    candidates.sort((a, b) => b.radius - a.radius);
+    const slice = Math.max(1, Math.floor(candidates.length * 0.35));
+    const pick = candidates[Math.floor(random() * slice)];
+    const impacts = parseInt(digitChar, 10);
+    pick.digitOverlay = {
+      digit: digitChar,
+      since: nowMs,
+      until: Number.POSITIVE_INFINITY,
+    };
+    pick.digitImpactsLeft = Number.isFinite(impacts) ? impacts : undefined;
+    pick.lastDigitImpactAt = undefined;
+  };
+
+  const teslaJump = (from: SimBubble, nowMs: number) => {
+    const overlay = from.digitOverlay;
+    if (!overlay) return;
+    const candidates = bubbles.filter((b) => {
+      if (b === from) return false;
+      if (b.digitOverlay) return false;
+      const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
+      if (b.radius * scale < DIGIT_OVERLAY_MIN_R2D) return false;
+      const dx = b.x - from.x;
+      const dy = b.y - from.y;
+      const dz = b.z - from.z;
+      const distSq = dx * dx + dy * dy + dz * dz;
+      return distSq >= TESLA_MIN_DIST * TESLA_MIN_DIST;
+    });
+    if (!candidates.length) return;
+    const target = candidates[Math.floor(random() * candidates.length)];
+    hooks.onTeslaArc?.(from, target);
+    triggerEventSound(target, 'TESLA');
+    const impactsLeft = from.digitImpactsLeft;
+    from.digitOverlay = undefined;
+    from.digitImpactsLeft = undefined;
+    from.lastDigitImpactAt = undefined;
+    target.digitOverlay = { ...overlay, since: nowMs, until: Number.POSITIVE_INFINITY };
+    target.digitImpactsLeft = impactsLeft;
+    target.lastDigitImpactAt = nowMs;
+  };
+
+  const registerDigitImpact = (b: SimBubble, nowMs: number) => {
+    if (!b.digitOverlay || !b.digitImpactsLeft) return;
+    if (b.lastDigitImpactAt && (nowMs - b.lastDigitImpactAt) < DIGIT_IMPACT_COOLDOWN_MS) return;
+    b.lastDigitImpactAt = nowMs;
+    b.digitImpactsLeft -= 1;
+    if (b.digitImpactsLeft <= 0) return;
+    if (random() < TESLA_JUMP_PROB) teslaJump(b, nowMs);
+  };
+
+  const soundEvent = (b: SimBubble, trigger: RoomSoundEvent['trigger'], phys: PhysicsSettings, isReverse: boolean): RoomSoundEvent => {
+    const sizeVol = Math.min(1, Math.max(0.2, b.radius / 70));
+    const distanceFactor = Math.max(0, 1 - (b.z / (DEPTH * 1.5)));
+    const role = ROLE_FOR_TRIGGER[trigger];
+    return {
+      bubble: b,
+      features: bubbleTimbreFeatures(b),
+      trigger,
+      role,
+      kind: collisionKindForRole(role),
+      sizeFactor: 1 - (b.radius / 180),
+      pan: (b.x / frame.width) * 2 - 1,
+      depth: clamp01(Math.pow(b.z / DEPTH, 0.75)),
+      height: clampSigned(1 - (b.y / frame.height) * 2),
+      velocityZ: b.vz,
+      doppler: phys.doppler,
+      isReverse,
+      volume: sizeVol * distanceFactor,
+      source: b.audioSource,
+    };
+  };
+
+  const triggerBubbleSound = (b: SimBubble, trigger: RoomSoundEvent['trigger']) => {
+    const now = frame.nowMs;
+    if (b.lastAudioAt && (now - b.lastAudioAt) < AUDIO_COOLDOWN_MS) return;
+    b.lastAudioAt = now;
+
+    const phys = frame.physics;
+    if (!phys) return;
+    const isReverse = random() < phys.reverseChance;
+
+    hooks.onSound(soundEvent(b, trigger, phys, isReverse));
+
+    if (random() > 0.85) {
+      log(`AUDIO: ${trigger} [${b.id}]`);
+    }
+  };
+
+  // Swallows, pops, shatters and tesla jumps happen once per bubble: no cooldown, and no draw from
+  // the physics stream, so the room moves the same whether the role matrix plays them or not.
+  const triggerEventSound = (b: SimBubble, trigger: RoomSoundEvent['trigger']) => {
+    const phys = frame.physics;
+    if (!phys) return;
+    hooks.onSound(soundEvent(b, trigger, phys, false));
+  };
+
+  const clampBubble = (b: SimBubble, tempo: number) => {
+    const maxV = MAX_SPEED * Math.max(0.2, tempo);
+    const vx = b.vx, vy = b.vy, vz = b.vz;
+    const sp = Math.sqrt(vx * vx + vy * vy + vz * vz);
+    if (sp > maxV && sp > EPS) {
+      const s = maxV / sp;
+      b.vx *= s; b.vy *= s; b.vz *= s;
+    }
+    if (!Number.isFinite(b.x) || !Number.isFinite(b.y) || !Number.isFinite(b.z) ||
+        !Number.isFinite(b.vx) || !Number.isFinite(b.vy) || !Number.isFinite(b.vz)) {
+      b.x = Math.max(0, Math.min(frame.width, Number.isFinite(b.x) ? b.x : 0));
+      b.y = Math.max(0, Math.min(frame.height, Number.isFinite(b.y) ? b.y : 0));
+      b.z = Math.max(0, Math.min(DEPTH, Number.isFinite(b.z) ? b.z : 0));
+      b.vx = 0; b.vy = 0; b.vz = 0;
+    }
+  };
+
+  const applySchooling = (wave: number, tempo: number, time: number) => {
+    const w = wave * 0.35; // 65% reduction
+    if (w < 0.01 || bubbles.length < 2) return;
+    const neighborR = 180 + w * 320;
+    const neighborSq = neighborR * neighborR;
+    const sepR = 80 + w * 120;
+    const sepSq = sepR * sepR;
+    const alignW = 0.04 * w * Math.max(0.4, tempo);
+    const cohW = 0.02 * w * Math.max(0.4, tempo);
+    const sepW = 0.08 * w * Math.max(0.4, tempo);
+    const sway = 6 * w;
+
+    for (let i = 0; i < bubbles.length; i++) {
+      const b = bubbles[i];
+      let count = 0;
+      let ax = 0, ay = 0, az = 0;
+      let cx = 0, cy = 0, cz = 0;
+      let sx = 0, sy = 0, sz = 0;
+
+      for (let j = 0; j < bubbles.length; j++) {
+        if (i === j) continue;
+        const o = bubbles[j];
+        const dx = o.x - b.x;
+        const dy = o.y - b.y;
+        const dz = o.z - b.z;
+        const dSq = dx * dx + dy * dy + dz * dz;
+        if (dSq > neighborSq) continue;
+        count++;
+        ax += o.vx; ay += o.vy; az += o.vz;
+        cx += o.x; cy += o.y; cz += o.z;
+        if (dSq < sepSq) {
+          const inv = 1 / Math.sqrt(Math.max(EPS, dSq));
+          sx -= dx * inv;
+          sy -= dy * inv;
+          sz -= dz * inv;
+        }
+      }
+
+      if (count > 0) {
+        const invC = 1 / count;
+        b.vx += (ax * invC - b.vx) * alignW;
+        b.vy += (ay * invC - b.vy) * alignW;
+        b.vz += (az * invC - b.vz) * alignW;
+
+        b.vx += (cx * invC - b.x) * cohW;
+        b.vy += (cy * invC - b.y) * cohW;
+        b.vz += (cz * invC - b.z) * cohW;
+      }
+
+      b.vx += sx * sepW;
+      b.vy += sy * sepW;
+      b.vz += sz * sepW;
+
+      const swayPhase = b.vertexPhases[0] ?? 0;
+      b.vx += Math.sin(time * 1.2 + b.x * 0.01 + swayPhase) * sway * 0.2;
+      b.vy += Math.cos(time * 1.1 + b.y * 0.01 + swayPhase * 0.3) * sway * 0.15;
+    }
+  };
+
+  const step = (input: RoomStepInput) => {
+    const { nowMs, time, frameId, bank, poolSize } = input;
+    frame.width = input.width > 0 ? input.width : 1000;
+    frame.height = input.height > 0 ? input.height : 1000;
+    frame.nowMs = nowMs;
+    frame.physics = input.physics;
+
+    if (digit.nextAt < nowMs) {
+      const shouldSpawn = poolSize === 3 || poolSize === 6 || poolSize === 9;
+      if (shouldSpawn) assignDigitOverlay(String(poolSize) as DigitChar, nowMs);
+      digit.nextAt = nowMs + 8000 + random() * 12000;
+    }
+
+    if (hasPlayableSource(bank)) {
+      const unassigned = bubbles.filter((b) => !b.audioSource);
+      if (unassigned.length) {
+        unassigned.sort(() => random() - 0.5);
+        unassigned.forEach((b) => {
+          const source = hooks.assignSource(sourceContext(b));
+          if (!source) return;
+          b.audioSource = source;
+          b.labelAlpha = 0;
+          b.labelTargetAlpha = 0.6;
+        });
+      }
+    }
+
+    const severity = input.shred?.severity ?? 0;
+    let shredQuota = 0;
+    const shredReady = Boolean(input.shred?.ready);
+    const safeMin = Math.max(SHRED_MIN_BUBBLES, poolSize);
+    if (shredReady && bubbles.length > safeMin) {
+      // Gradual decay: remove a small fraction per frame based on severity, capped
+      shredQuota = Math.max(1, Math.floor(bubbles.length * (0.01 + severity * 0.03)));
+      shredQuota = Math.min(shredQuota, Math.max(1, Math.floor(bubbles.length * 0.06)));
+      shredQuota = Math.min(shredQuota, bubbles.length - safeMin);
+    }
+
+    if (!input.running) return;
+
+    const { tempo, gravity, buddingChance, cannibalism, wind, blackHole, weakness, magneto, fragmentation, freeze, roomWave } = input.physics;
+    const width = frame.width;
+    const height = frame.height;
+    const cx = width / 2; const cy = height / 2;
+    const voidZ = VOID_PLANE_Z;
+
+    // Schooling / wave behaviour (fish-like swirls)
+    applySchooling(roomWave, tempo, time);
+
+    // --- BUBBLE PHYSICS (local forces) ---
+    for (let i = 0; i < bubbles.length; i++) {
+      const b = bubbles[i];
+      if (b.audioSource && !isSourceValid(b.audioSource, bank)) {
+        b.labelTargetAlpha = 0;
+      }
+      if (b.labelTargetAlpha === undefined) {
+        b.labelTargetAlpha = b.audioSource ? 0.6 : 0;
+      }
+      const labelTarget = b.labelTargetAlpha ?? 0;
+      const labelAlpha = b.labelAlpha ?? labelTarget;
+      b.labelAlpha = labelAlpha + (labelTarget - labelAlpha) * 0.08;
+      if (b.labelAlpha < 0.02 && labelTarget === 0) {
+        b.labelAlpha = 0;
+        b.audioSource = null;
+      }
+      if (b.digitImpactsLeft !== undefined && b.digitImpactsLeft <= 0) {
+        hooks.onPuff?.(b);
+        triggerEventSound(b, 'POP');
+        if (removeBubbleAt(i)) i--;
+        continue;
+      }
+
+      // Freeze (Viscosity)
+      if (freeze > 0) {
+        const drag = 1 - (freeze * 0.1 * tempo);
+        b.vx *= drag;
+        b.vy *= drag;
+        b.vz *= drag;
+      }
+
+      // Auto shred if perf drops (gradual, not all at once)
+      if (
+        shredReady &&
+        shredQuota > 0 &&
+        bubbles.length > safeMin &&
+        (!b.spawnedAt || (nowMs - b.spawnedAt) > SHRED_GRACE_MS) &&
+        random() < (0.25 + severity * 0.35)
+      ) {
+        hooks.onShatter?.(b);
+        log(`FPS_SHRED: ${b.id}`);
+        shredQuota -= 1;
+        if (removeBubbleAt(i)) i--;
+        continue;
+      }
+
+      if (fragmentation > 0 && random() < fragmentation * 0.005) {
+        hooks.onShatter?.(b);
+        triggerEventSound(b, 'SHATTER');
+        log(`ERR_FRAG: ${b.id}`);
+        if (removeBubbleAt(i)) i--;
+        continue;
+      }
+
+      if (weakness > 0) {
+        b.radius -= (weakness * 0.1) * tempo;
+        if (b.radius < 5) {
+          triggerEventSound(b, 'POP');
+          if (removeBubbleAt(i)) i--;
+          continue;
+        }
+      }
+
+      const blackHoleEff = Math.max(0, blackHole - 0.08);
+      if (blackHoleEff > 0.001) {
+        // VOID: central gravity + frame-drag swirl + accretion (tangential drag)
+        // Use XY distance for the "on-screen" spiral; Z is treated as a funnel into depth.
+        const dx = cx - b.x;
+        const dy = cy - b.y;
+        const dzVoid = voidZ - b.z;
+        const rSq = dx * dx + dy * dy;
+        const distSq3d = rSq + dzVoid * dzVoid;
+        const r = Math.sqrt(Math.max(EPS, rSq));
+        const dist3d = Math.sqrt(Math.max(EPS, distSq3d));
+        const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
+        const dist3d2d = dist3d * scale;
+
+        // event horizon in *screen space* (projection), so it matches what the player sees
+        const bhCurve = blackHoleEff * blackHoleEff;
+        const horizon = 14 + bhCurve * 90;
+        const horizonWithSize = horizon + (b.radius * scale) * 0.2;
+        const horizonHit = dist3d2d < horizonWithSize;
+        let shouldSwallow = false;
+        if (horizonHit) {
+          if (!b.voidEnteredAt) {
+            b.voidEnteredAt = nowMs;
+            b.voidGraceMs = 1000 + random() * 1000; // 1-2s grace to show spiral
+          }
+          const elapsed = nowMs - (b.voidEnteredAt ?? nowMs);
+          if (elapsed >= (b.voidGraceMs ?? 0)) shouldSwallow = true;
+        } else {
+          b.voidEnteredAt = undefined;
+          b.voidGraceMs = undefined;
+        }
+        if (shouldSwallow) {
+          triggerEventSound(b, 'VOID');
+          if (removeBubbleAt(i)) i--;
+          continue;
+        }
+
+        const ux = dx / r;
+        const uy = dy / r;
+        const uz = dzVoid / dist3d;
+        const tx = -uy;
+        const ty = ux;
+
+        // Newtonian-like gravity with softening + accel clamp for stability
+        const gm = 32000 * bhCurve + 6000 * blackHoleEff;
+        const soft = 2500; // px^2
+        const reachFalloff = 1 / (1 + (dist3d / 900));
+        let a = (gm / (distSq3d + soft)) * reachFalloff;
+        const maxA = MAX_ACCEL * Math.max(0.2, tempo);
+        if (a > maxA) a = maxA;
+
+        // "Spin": swirl is proportional to gravity (stronger near the hole, weaker far away)
+        const swirlFloor = 0.02 + 0.18 * blackHoleEff;
+        const aTan = a * (0.06 + 0.22 * blackHoleEff) + swirlFloor * reachFalloff;
+
+        b.vx += ux * a + tx * aTan;
+        b.vy += uy * a + ty * aTan;
+        b.vz += uz * a;
+
+        // Depth funnel: pull towards mid-depth so bubbles don't "bounce" off the back wall.
+        const funnel = (1 / (1 + (dist3d / 900))) * bhCurve;
+        b.vz += uz * a * 0.25 * funnel;
+
+        // Accretion drag: remove angular momentum so orbits become spirals
+        const vTan = b.vx * tx + b.vy * ty;
+        const dragT = Math.min(0.08, (0.01 + 0.07 * blackHoleEff) * funnel * Math.max(0.2, tempo));
+        b.vx -= tx * vTan * dragT;
+        b.vy -= ty * vTan * dragT;
+
+        // Small damping to counter the injected swirl energy (keeps capture stable)
+        const damp = 1 - Math.min(0.06, dragT * 0.25);
+        b.vx *= damp; b.vy *= damp; b.vz *= damp;
+      } else {
+        b.vy += gravity * 0.15;
+      }
+
+      if (wind > 0) {
+        const windForce = wind * 0.15;
+        b.vx += (random() - 0.5) * windForce;
+        b.vy += (random() - 0.5) * windForce;
+        b.vz += (random() - 0.5) * windForce;
+      }
+
+      // integrate
+      b.x += b.vx * tempo; b.y += b.vy * tempo; b.z += b.vz * tempo;
+
+      // Elasticity + jelly offsets
+      const elasticity = 0.25 + (0.25 * (1 - freeze));
+      for (let j = 0; j < VERTEX_COUNT; j++) {
+        const base = 1 + (
+          Math.sin(time * 1.5 + b.vertexPhases[j]) * elasticity * 0.6 +
+          Math.sin(time * 0.8 + j) * elasticity * 0.4
+        );
+        const local = b.jelly ? b.jelly.vOff[j] : 0;
+        b.vertices[j] = base + local;
+      }
+
+      // Wall Collisions
+      let wallHit = false;
+      let floorHit = false;
+      if (b.x - b.radius < 0) { const imp = Math.abs(b.vx); b.x = b.radius; b.vx *= -0.9; wallHit = true; applyJellyImpact(b, +1, 0, imp); }
+      else if (b.x + b.radius > width) { const imp = Math.abs(b.vx); b.x = width - b.radius; b.vx *= -0.9; wallHit = true; applyJellyImpact(b, -1, 0, imp); }
+
+      if (b.y - b.radius < 0) { const imp = Math.abs(b.vy); b.y = b.radius; b.vy *= -0.9; wallHit = true; applyJellyImpact(b, 0, +1, imp); }
+      else if (b.y + b.radius > height) { const imp = Math.abs(b.vy); b.y = height - b.radius; b.vy *= gravity > 0.5 ? -0.6 : -0.9; wallHit = true; floorHit = true; applyJellyImpact(b, 0, -1, imp); }
+
+      if (b.z < 0) { b.z = 0; b.vz *= -0.9; wallHit = true; }
+      else if (b.z > DEPTH) { b.z = DEPTH; b.vz *= -0.9; wallHit = true; }
+
+      if (wallHit) registerDigitImpact(b, nowMs);
+      if (wallHit && blackHole < 0.5) {
+        if ((Math.abs(b.vx) + Math.abs(b.vy) + Math.abs(b.vz)) > 0.5) triggerBubbleSound(b, floorHit ? 'FLOOR' : 'WALL');
+      }
+
+      // Budding (unchanged behaviour, but safer spawn offset against dist=0)
+      const effectiveBudding = input.recovering ? 0 : buddingChance;
+      if (random() < effectiveBudding * 0.05 && b.radius > 15) {
+        b.radius *= 0.8;
+        spawnBubble(
+          b.x + (random() - 0.5) * 6,
+          b.y + (random() - 0.5) * 6,
+          b.z + (random() - 0.5) * 12,
+          b.radius
+        );
+      }
+
+      updateJelly(b, tempo);
+
+      // Spaghettification (tidal stretching) near the event horizon: stretch radial, squeeze tangential.
+      if (blackHoleEff > 0.001) {
+        const dx = cx - b.x;
+        const dy = cy - b.y;
+        const rSq = dx * dx + dy * dy;
+        const r = Math.sqrt(Math.max(EPS, rSq));
+        const scale = FOCAL_LENGTH / (FOCAL_LENGTH + b.z);
+        const r2d = r * scale;
+
+        const tidal = (blackHoleEff * blackHoleEff) / (1 + Math.pow(r2d / 140, 3));
+        if (tidal > 0.002) {
+          const targetRot = Math.atan2(dy, dx);
+          const blend = Math.min(1, tidal * 1.25);
+          const curRot = b.deformation.rotation;
+          const delta = Math.atan2(Math.sin(targetRot - curRot), Math.cos(targetRot - curRot));
+
+          b.deformation.rotation = curRot + delta * blend;
+          b.deformation.scaleX = Math.max(0.35, Math.min(3.0, b.deformation.scaleX * (1 + tidal * 1.6)));
+          b.deformation.scaleY = Math.max(0.35, Math.min(3.0, b.deformation.scaleY * (1 - tidal * 0.7)));
+        }
+      }
+      clampBubble(b, tempo);
+    }
+
+    // --- MAGNETO (pairwise, symmetric, clamped) ---
+    const safeMagneto = Number.isFinite(magneto) ? magneto : 0.5;
+    if (Math.abs(safeMagneto - 0.5) > 0.01) {
+      const magIntensity = (safeMagneto - 0.5) * 2; // [-1..1]
+      const magAbs = Math.abs(magIntensity);
+
+      for (let i = 0; i < bubbles.length; i++) {
+        for (let j = i + 1; j < bubbles.length; j++) {
+          const b1 = bubbles[i];
+          const b2 = bubbles[j];
+
+          const dx = b2.x - b1.x;
+          const dy = b2.y - b1.y;
+          const dz = b2.z - b1.z;
+          const distSq = dx * dx + dy * dy + dz * dz;
+
+          if (distSq < MAG_MIN_DIST_SQ || distSq > MAG_MAX_DIST_SQ) continue;
+
+          const dist = Math.sqrt(Math.max(EPS, distSq));
+          const nx = dx / dist; const ny = dy / dist; const nz = dz / dist;
+
+          // base force scaled by distance and knob intensity
+          const baseForce = (200 * MAGNETO_BOOST * magAbs) / distSq;
+
+          // charge interaction preference (keep your "feel")
+          const chargeFactor = b1.charge * b2.charge;
+
+          // magIntensity > 0: "attract opposites stronger"
+          // magIntensity < 0: "repel likes stronger"
+          let desire: number;
+          if (magIntensity > 0) {
+            desire = (chargeFactor < 0) ? +1.5 : -0.5;
+          } else {
+            desire = (chargeFactor > 0) ? +1.5 : -0.5;
+          }
+
+          let force = baseForce * desire;
+
+          // clamp accel per pair
+          const maxA = MAX_ACCEL * Math.max(0.2, tempo) * (0.9 + magAbs * 2.2);
+          if (force > maxA) force = maxA;
+          if (force < -maxA) force = -maxA;
+
+          // apply symmetrically (action-reaction)
+          b1.vx += nx * force; b1.vy += ny * force; b1.vz += nz * force;
+          b2.vx -= nx * force; b2.vy -= ny * force; b2.vz -= nz * force;
+        }
+      }
+
+      // clamp after magneto
+      for (let i = 0; i < bubbles.length; i++) clampBubble(bubbles[i], tempo);
+    }
+
+    // --- COLLISIONS ---
+    topPairs[0].b1 = null; topPairs[0].b2 = null; topPairs[0].dist = Infinity;
+    topPairs[1].b1 = null; topPairs[1].b2 = null; topPairs[1].dist = Infinity;
+    topPairs[2].b1 = null; topPairs[2].b2 = null; topPairs[2].dist = Infinity;
+    for (let i = 0; i < bubbles.length; i++) {
+      for (let j = i + 1; j < bubbles.length; j++) {
+        const b1 = bubbles[i]; const b2 = bubbles[j];
+        const dx = b2.x - b1.x; const dy = b2.y - b1.y; const dz = b2.z - b1.z;
+        const distSq = dx * dx + dy * dy + dz * dz;
+        const minDist = b1.radius + b2.radius;
+
+        const dist = Math.sqrt(Math.max(EPS, distSq));
+        if (dist < minDist * 3) {
+          b1.overlapFrame = frameId;
+          b2.overlapFrame = frameId;
+          const p0 = topPairs[0];
+          const p1 = topPairs[1];
+          const p2 = topPairs[2];
+          if (dist < p0.dist) {
+            p2.b1 = p1.b1; p2.b2 = p1.b2; p2.dist = p1.dist;
+            p1.b1 = p0.b1; p1.b2 = p0.b2; p1.dist = p0.dist;
+            p0.b1 = b1; p0.b2 = b2; p0.dist = dist;
+          } else if (dist < p1.dist) {
+            p2.b1 = p1.b1; p2.b2 = p1.b2; p2.dist = p1.dist;
+            p1.b1 = b1; p1.b2 = b2; p1.dist = dist;
+          } else if (dist < p2.dist) {
+            p2.b1 = b1; p2.b2 = b2; p2.dist = dist;
+          }
+        }
+
+        if (dist < minDist) {
+          if (random() < cannibalism) {
+            if (b1.radius > 0 && b2.radius > 0) {
+              if (b1.radius > b2.radius) {
+                b1.radius = Math.pow(Math.pow(b1.radius, 3) + Math.pow(b2.radius, 3), 1 / 3);
+                b2.radius = 0;
+              } else {
+                b2.radius = Math.pow(Math.pow(b1.radius, 3) + Math.pow(b2.radius, 3), 1 / 3);
+                b1.radius = 0;
+              }
+              triggerBubbleSound(b1, 'ABSORB');
+            }
+          } else {
+            // normal (safe when dist ~ 0)
+            let nx = dx / dist; let ny = dy / dist; let nz = dz / dist;
+            if (!Number.isFinite(nx) || !Number.isFinite(ny) || !Number.isFinite(nz)) {
+              // random fallback normal
+              const ax = (random() - 0.5);
+              const ay = (random() - 0.5);
+              const az = (random() - 0.5);
+              const al = Math.sqrt(Math.max(EPS, ax * ax + ay * ay + az * az));
+              nx = ax / al; ny = ay / al; nz = az / al;
+            }
+
+            const rvx = b2.vx - b1.vx; const rvy = b2.vy - b1.vy; const rvz = b2.vz - b1.vz;
+            const velAlongNormal = rvx * nx + rvy * ny + rvz * nz;
+
+            if (velAlongNormal < 0) {
+              const jImp = -(1.95) * velAlongNormal / (1 / b1.radius + 1 / b2.radius);
+              const im1 = 1 / b1.radius; const im2 = 1 / b2.radius;
+              b1.vx -= (jImp * nx) * im1; b1.vy -= (jImp * ny) * im1; b1.vz -= (jImp * nz) * im1;
+              b2.vx += (jImp * nx) * im2; b2.vy += (jImp * ny) * im2; b2.vz += (jImp * nz) * im2;
+
+              const overlap = minDist - dist;
+              b1.x -= nx * overlap * 0.5; b1.y -= ny * overlap * 0.5; b1.z -= nz * overlap * 0.5;
+              b2.x += nx * overlap * 0.5; b2.y += ny * overlap * 0.5; b2.z += nz * overlap * 0.5;
+
+              const impulse = Math.min(20, -velAlongNormal) + overlap * 0.25;
+              applyJellyImpact(b1, -nx, -ny, impulse);
+              applyJellyImpact(b2, nx, ny, impulse);
+
+              triggerBubbleSound(b1, 'COLLIDE');
+              registerDigitImpact(b1, nowMs);
+              registerDigitImpact(b2, nowMs);
+            }
+          }
+        }
+      }
+    }
+  };
+
+  const reset = () => {
+    bubbles.forEach(releaseBubble);
+    bubbles.length = 0;
+    digit.nextAt = hooks.now() + 8000;
+  };
+
+  /**
+   * Replace the room with copies of the given bubbles (e.g. a live snapshot).
+   * Timestamps belong to the source clock, so cooldowns and void grace start over.
+   */
+  const restore = (source: SimBubble[]) => {
+    reset();
+    source.forEach((b) => {
+      const copy = cloneBubble(b);
+      copy.lastAudioAt = 0;
+      copy.spawnedAt = undefined;
+      copy.voidEnteredAt = undefined;
+      copy.voidGraceMs = undefined;
+      copy.lastDigitImpactAt = undefined;
+      if (copy.digitOverlay) copy.digitOverlay.since = 0;
+      bubbles.push(copy);
+    });
+  };
+
+  return { bubbles, topPairs, spawnBubble, step, reset, restore };
+};
+
+export type RoomSimulation = ReturnType<typeof createRoomSimulation>;
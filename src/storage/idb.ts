@@ -0,0 +1,50 @@
+/** Minimal promise helpers over IndexedDB; every caller degrades to "no storage" when it is missing. */
+
+export const hasIndexedDb = () => typeof indexedDB !== 'undefined';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted.'));
+  });
+
+/**
+ * Opens (and caches) a database. upgrade runs inside versionchange with the
+ * version the database had before, so stores can be added step by step.
+ */
+export const createDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+) => {
+  let pending: Promise<IDBDatabase> | null = null;
+  return (): Promise<IDBDatabase> => {
+    if (!hasIndexedDb()) return Promise.reject(new Error('IndexedDB is not available.'));
+    if (pending) return pending;
+    pending = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        db.onversionchange = () => {
+          db.close();
+          pending = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error(`IndexedDB "${name}" is blocked by another tab.`));
+    });
+    pending.catch(() => {
+      pending = null;
+    });
+    return pending;
+  };
+};
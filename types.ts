@@ -1,4 +1,4 @@
-import type { ScaleId } from './src/music/scales';
+import type { ScaleDef, ScaleId } from './src/music/scales';
 
 export interface AudioSettings {
   volume: number; // 0 to 1
@@ -14,7 +14,7 @@ export interface AudioSettings {
   compAttack?: number; // seconds
   compRelease?: number; // seconds
   makeupGainDb?: number; // dB
-  limiterThreshold?: number; // dB
+  limiterThreshold?: number; // dBTP ceiling of the true-peak master limiter
 }
 
 export interface PhysicsSettings {
@@ -35,6 +35,267 @@ export interface PhysicsSettings {
   roomWave: number; // 0 to 1 (Room wave animation)
 }
 
+// Raw knob positions behind PhysicsSettings (plus the knobs that feed AudioSettings)
+export interface PhysicsKnobs {
+  reverb: number; // 0 to 1
+  tempo: number; // 0 to 1 (mapped to 0.1..2.1)
+  gravity: number;
+  budding: number;
+  cannibalism: number;
+  wind: number;
+  reverse: number;
+  tuning: number; // 0 to 1 (mapped to 110..880 Hz)
+  blackHole: number;
+  doppler: number;
+  pingPong: number;
+  weakness: number;
+  magneto: number;
+  fragmentation: number;
+  freeze: number;
+  geometryWarp: number;
+  roomWave: number;
+}
+
+export interface LofiSettings {
+  enabled: boolean;
+  drive: number; // 0 to 1
+  tape: number; // 0 to 1
+  crush: number; // 0 to 1
+}
+
+export type MultibandBandId = 'low' | 'mid' | 'high';
+
+export interface MultibandBand {
+  threshold: number; // dB, -60 to 0
+  ratio: number; // 1 to 20
+  gain: number; // makeup in dB, -12 to 12
+}
+
+// Optional 3-band compressor between the EQ and the master compressor.
+export interface MultibandSettings {
+  enabled: boolean;
+  lowCrossover: number; // Hz, 40 to 1000
+  highCrossover: number; // Hz, 1000 to 12000
+  bands: Record<MultibandBandId, MultibandBand>;
+}
+
+export interface GyroSettings {
+  pan: number; // -1 to 1
+  depth: number; // -1 to 1
+  width: number; // -1 to 1
+  auto: boolean; // AUTO drift mode
+}
+
+export type NoteDivision = '1/2' | '1/4d' | '1/4' | '1/4t' | '1/8d' | '1/8' | '1/8t' | '1/16' | '1/16t';
+
+export interface TempoSettings {
+  bpm: number; // 40 to 240, internal clock
+  source: 'internal' | 'midi'; // midi = follow incoming MIDI clock while it runs
+  delaySync: boolean; // ping-pong times on note divisions instead of the tuning pitch
+  delayLeft: NoteDivision;
+  delayRight: NoteDivision;
+  physicsSync: boolean; // physics tempo follows the BPM instead of the Tempo knob
+}
+
+export type GrooveDivision = Extract<NoteDivision, '1/8' | '1/8t' | '1/16' | '1/16t'>;
+
+export interface GrooveSettings {
+  enabled: boolean; // off = collisions sound the moment physics detects them
+  division: GrooveDivision;
+  swing: number; // 0 (straight) to 1 (every second slot 3/4 of the way through its pair)
+  humanize: number; // 0 to 1, up to +-20 ms of random push and pull
+  maxLatencyMs: number; // hits that would wait longer for their slot are skipped
+}
+
+export type SampleBankId = 'mic' | 'smp';
+
+/** Edit state of one loaded sample slot; lives with the buffer, not in scenes. */
+export interface SampleSlotSettings {
+  start: number; // seconds into the buffer
+  end: number; // seconds, after start
+  loop: boolean; // loop from loopStart to end while the note holds
+  loopStart: number; // seconds, between start and end
+  gain: number; // trim in dB, -24 to 12
+  rootMidi: number; // note the recording sounds at unshifted; 69 (A4) = the old fixed assumption
+  detectedMidi: number | null; // what pitch detection heard on load; null for unpitched sounds
+  granular: boolean; // shift pitch with grains so the sample keeps its length
+  attack: number; // seconds
+  decay: number; // seconds
+  sustain: number; // 0 to 1 of the peak
+  release: number; // seconds
+  hold: number; // seconds a looped note sustains before its release
+  slices: number[]; // slice starts in seconds; when set, each hit plays one slice
+}
+
+// How a bubble's source is picked: 'cycle' walks the shuffled pool of 3/6/9 it always has.
+export type BankSelectMode = 'cycle' | 'roundRobin' | 'random' | 'weighted' | 'zone';
+
+// Part of the room a slot is limited to; front/back split the depth, left/right the width.
+export type SlotZone = 'any' | 'front' | 'back' | 'left' | 'right';
+
+export interface SlotRule {
+  weight: number; // 0 = never picked; only 'weighted' reads the amount
+  minSize: number; // bubble size 0-1 (radius / 180) the slot plays from
+  maxSize: number; // and up to
+  zone: SlotZone;
+}
+
+export interface BankSettings {
+  micSlots: number; // active mic slots, 1 to 12
+  smpSlots: number; // active sample slots, 1 to 12
+  mode: BankSelectMode;
+  synthWeight: number; // the synth's weight when it is in the pool
+  rules: Record<SampleBankId, SlotRule[]>; // one rule per slot, 12 per bank
+}
+
+export interface ReverbSettings {
+  followRoom: boolean; // off = a fixed box, the drawn room no longer shapes the sound
+  size: number; // 0 to 1, 0.5 = the room as drawn; every step of 0.25 doubles or halves it
+  preDelay: number; // seconds before the first reflection
+  damping: number; // 0 (bright tail) to 1 (highs die early)
+  diffusion: number; // 0 (separate echoes) to 1 (smooth wash)
+  early: number; // 0 to 1 level of the early reflections against the tail
+}
+
+// What the convolver plays: the room-shaped impulse, a bundled one, or a user IR from the library.
+export type ImpulseSource = 'room' | 'hall' | 'plate' | 'spring' | 'glass' | 'ice' | 'user';
+
+export interface ImpulseSettings {
+  source: ImpulseSource;
+  sampleId: string | null; // library sample holding the user IR
+  name: string; // user IR name, kept so a scene can say which IR is missing
+  start: number; // 0 to 1 of the IR, trimmed off the front
+  end: number; // 0 to 1, after start; the rest is trimmed off
+  reverse: boolean;
+  stretch: number; // 0.5 to 2, resampled length (and lower pitch when longer)
+  normalize: boolean; // level the edited IR again; off = trims and reverses change the level
+}
+
+export type InsertEffectId = 'chorus' | 'phaser' | 'flanger' | 'tiltEq' | 'widener' | 'shimmer' | 'filter';
+
+export interface InsertSlot {
+  id: string; // stays with the slot through reorders, so the engine keeps its nodes
+  effect: InsertEffectId;
+  bypass: boolean;
+  params: Record<string, number>; // the effect's params, filled and clamped by resolveEffectParams
+}
+
+export interface FxRackSettings {
+  slots: InsertSlot[]; // master inserts in signal order, up to MAX_INSERT_SLOTS
+}
+
+// Aux buses every voice sends into: the convolver, the ping-pong delay and two effect returns.
+export type AuxBusId = 'reverb' | 'delay' | 'fxA' | 'fxB';
+
+export type AuxFxBusId = Extract<AuxBusId, 'fxA' | 'fxB'>;
+
+// What a voice's send level follows; 'fixed' sends every hit at the high level.
+export type AuxSendSource = 'fixed' | 'depth' | 'size';
+
+export interface AuxSend {
+  source: AuxSendSource;
+  low: number; // 0 to 1, send when the source reads 0 (near, or the smallest bubble)
+  high: number; // 0 to 1, send when the source reads 1 (far, or the largest bubble)
+  curve: number; // -1 (rises early) to 1 (rises late), 0 = straight line
+  roles: Record<SoundRole, number>; // 0 to 1 trim per sound role; hits without a role are not trimmed
+}
+
+export interface AuxReturnSettings {
+  effect: InsertEffectId; // only effects with a mix param, run fully wet
+  level: number; // 0 to 1, return into the master
+}
+
+export interface AuxSettings {
+  sends: Record<AuxBusId, AuxSend>;
+  returns: Record<AuxFxBusId, AuxReturnSettings>; // reverb and delay return on the Mixer's knobs
+}
+
+export type VoiceEngineId ='classic' | 'fmBell' | 'pluck' | 'glass' | 'pad' | 'noise';
+
+export interface SynthSettings {
+  engine: VoiceEngineId; // engine used for SYNTH voices
+  params: Partial<Record<VoiceEngineId, Record<string, number>>>; // per engine, so switching keeps each engine's sound
+}
+
+/** Bubble properties a timbre route can read, each normalised to 0..1 at the hit. */
+export type TimbreSource = 'charge' | 'hue' | 'radius' | 'speed' | 'jelly' | 'irregularity';
+
+/** Synth parameters a route can push; engines tag the params they expose for each. */
+export type TimbreTarget = 'brightness' | 'fmIndex' | 'decay' | 'resonance';
+
+export type TimbreFeatures = Record<TimbreSource, number>;
+
+export interface TimbreRoute {
+  source: TimbreSource;
+  target: TimbreTarget;
+  amount: number; // -1 to 1; the property's deviation from mid-range times this moves the param
+}
+
+export interface TimbreSettings {
+  enabled: boolean;
+  routes: TimbreRoute[];
+}
+
+/** How a collision's note is voiced: alone or stacked with diatonic 3rds, 5ths or 4ths. */
+export type HarmonyVoicing = 'single' | 'thirds' | 'fifths' | 'quartal';
+
+export type CollisionKind = 'wall' | 'bubble' | 'void';
+
+export interface HarmonySettings {
+  enabled: boolean;
+  voicing: HarmonyVoicing;
+  voices: number; // 1 to 5 notes, the collision's own note included
+  spread: number; // 0 (close) to 1 (alternate voices an octave up)
+  byCollision: boolean; // when on, rules pick the voicing per collision kind
+  rules: Record<CollisionKind, HarmonyVoicing>;
+}
+
+export type SoundRole = 'wall' | 'floor' | 'bubble' | 'void' | 'pop' | 'shatter' | 'tesla';
+
+export type RoleSource = 'auto' | 'synth' | 'smp';
+
+export interface RoleVoice {
+  source: RoleSource; // auto = whatever the bubble carries
+  slot: number; // sample slot, 0-based, when source is 'smp'
+  gain: number; // 0 (muted) to 2
+  pitch: number; // -24 to 24 semitones, applied before the scale snap
+  attack: number; // seconds, 0 = the voice's own attack
+  decay: number; // seconds after the attack, 0 = let the voice ring out
+}
+
+export interface RoleSettings {
+  enabled: boolean; // off = every hit plays the same voice and pop, shatter and tesla stay silent
+  roles: Record<SoundRole, RoleVoice>;
+}
+
+export type MelodyContour = 'free' | 'arch' | 'valley' | 'rising' | 'falling';
+
+export interface MelodySettings {
+  enabled: boolean; // off = nearest scale tone, as the quantizer always did
+  stepWeight: number; // 0 (leaps as welcome as steps) to 1 (mostly steps)
+  contour: MelodyContour;
+  contourAmount: number; // 0 to 1
+  resolution: number; // 0 to 1 pull toward the root as a phrase ends
+  phraseLength: number; // 2 to 16 notes
+  markov: boolean; // weigh notes by the trained transition table
+  markovTable: number[][]; // 12x12 counts, semitones above the root, [from][to]
+}
+
+export type ProgressionAdvance = 'bars' | 'collisions';
+
+export interface ProgressionStep {
+  label: string; // as typed, e.g. "Dm9" or "D:dorian"
+  root: number; // 0 to 11 (pitch class)
+  scaleId: ScaleId; // built-in scales only
+}
+
+export interface ProgressionSettings {
+  enabled: boolean;
+  steps: ProgressionStep[];
+  advance: ProgressionAdvance;
+  every: number; // bars of 4/4 or collisions per step
+}
+
 export interface MusicSettings {
   root: number; // 0 to 11 (pitch class)
   scaleId: ScaleId;
@@ -43,6 +304,7 @@ export interface MusicSettings {
   noImmediateRepeat: boolean;
   avoidLeadingTone: boolean;
   noThirds: boolean;
+  customScale?: ScaleDef | null; // carried with the scene when scaleId names a user scale
 }
 
 export enum SoundType {
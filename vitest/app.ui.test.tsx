@@ -18,19 +18,45 @@ vi.mock("../components/BufferedKnob", () => ({
   BufferedKnob: () => <div data-testid="buffered-knob" />,
 }));
 
-const { audioServiceMock } = vi.hoisted(() => ({
-  audioServiceMock: {
-    updateSettings: vi.fn(),
-    updateMusicSettings: vi.fn(),
-    primeFromGesture: vi.fn(async () => {}),
-    init: vi.fn(async () => {}),
-    resume: vi.fn(async () => {}),
-    suspend: vi.fn(async () => {}),
-    getContextState: vi.fn(() => "running"),
-    setReverbWet: vi.fn(),
-    setPingPongWet: vi.fn(),
-  },
-}));
+const { audioServiceMock } = vi.hoisted(() => {
+  const progressionPosition = { index: 0, step: null };
+  const bank = { mic: new Array(6).fill(false), smp: new Array(6).fill(false), loadedLabels: [], synthEnabled: true, activePoolSize: 3 };
+  return {
+    audioServiceMock: {
+      updateSettings: vi.fn(),
+      updateMusicSettings: vi.fn(),
+      primeFromGesture: vi.fn(async () => {}),
+      init: vi.fn(async () => {}),
+      resume: vi.fn(async () => {}),
+      suspend: vi.fn(async () => {}),
+      getContextState: vi.fn(() => "running"),
+      setReverbWet: vi.fn(),
+      setPingPongWet: vi.fn(),
+      setRandomSeed: vi.fn(),
+      setTempo: vi.fn(),
+      setSynthSettings: vi.fn(),
+      setTimbreSettings: vi.fn(),
+      setHarmonySettings: vi.fn(),
+      setProgressionSettings: vi.fn(),
+      setMelodySettings: vi.fn(),
+      setGrooveSettings: vi.fn(),
+      setRoleSettings: vi.fn(),
+      setBankSettings: vi.fn(),
+      setReverbSettings: vi.fn(),
+      setImpulseSettings: vi.fn(),
+      setFxRackSettings: vi.fn(),
+      setAuxSettings: vi.fn(),
+      setMultibandSettings: vi.fn(),
+      jumpProgression: vi.fn(),
+      subscribeProgression: vi.fn(() => () => {}),
+      getProgressionPosition: vi.fn(() => progressionPosition),
+      subscribeBank: vi.fn(() => () => {}),
+      getBankRevision: vi.fn(() => 0),
+      getBankSnapshot: vi.fn(() => bank),
+      getSampleSlot: vi.fn(() => null),
+    },
+  };
+});
 
 vi.mock("../services/audioEngine", () => ({
   audioService: audioServiceMock,
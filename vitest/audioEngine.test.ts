@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { audioService } from "../services/audioEngine";
 import { getScaleById } from "../src/music/scales";
+import { parseProgression } from "../src/music/progression";
 import { SoundType } from "../types";
 
 type AnyEngine = Record<string, any>;
@@ -173,3 +174,153 @@ describe("audio interactions", () => {
     });
   });
 });
+
+describe("seeded randomness", () => {
+  it("replays the same source pool and drone choices for a seed", () => {
+    engine.sampleBank[0] = { duration: 1 } as AudioBuffer;
+    engine.sampleBank[3] = { duration: 1 } as AudioBuffer;
+    engine.micBank[1] = { duration: 1 } as AudioBuffer;
+    engine.micBank[4] = { duration: 1 } as AudioBuffer;
+    const drone = getScaleById("drone-1-3");
+
+    const run = () => {
+      audioService.setRandomSeed(2024);
+      const pool = audioService.getActivePoolInfo().labels.join("|");
+      const drones = Array.from({ length: 3 }, () => {
+        engine.droneScaleId = null;
+        return engine.getScaleForQuantize(drone).intervals.join(",");
+      });
+      return { pool, drones };
+    };
+
+    const first = run();
+    expect(run()).toEqual(first);
+    expect(audioService.getRandomSeed()).toBe(2024);
+
+    audioService.setRandomSeed(null);
+    expect(audioService.getRandomSeed()).toBeNull();
+  });
+
+  it("renders the same room reverb for the same acoustics and seed", () => {
+    const render = () => {
+      const raw = engine.rawImpulse(8000);
+      return { key: raw.key, left: Array.from(raw.render().left as Float32Array) };
+    };
+
+    const unseeded = render();
+    expect(render()).toEqual(unseeded);
+
+    audioService.setRandomSeed(7);
+    const seeded = render();
+    expect(render()).toEqual(seeded);
+    expect(seeded.key).not.toBe(unseeded.key);
+    expect(seeded.left).not.toEqual(unseeded.left);
+    audioService.setRandomSeed(null);
+  });
+});
+
+describe("tempo sync", () => {
+  it("locks ping-pong times to note divisions and falls back to pitch", () => {
+    const delayLSet = vi.fn<(value: number, at: number, tc: number) => void>();
+    const delayRSet = vi.fn<(value: number, at: number, tc: number) => void>();
+    engine.ctx = { currentTime: 3 };
+    engine.delayL = { delayTime: { setTargetAtTime: delayLSet } };
+    engine.delayR = { delayTime: { setTargetAtTime: delayRSet } };
+    engine.lastDelayTimes = null;
+    engine.lastAudioSettings = { baseFrequency: 440 };
+
+    const tempo = { bpm: 120, source: "internal", delaySync: true, delayLeft: "1/4", delayRight: "1/8d", physicsSync: false } as const;
+    audioService.setTempo(tempo);
+    expect(delayLSet.mock.calls.at(-1)?.[0]).toBeCloseTo(0.5, 8);
+    expect(delayRSet.mock.calls.at(-1)?.[0]).toBeCloseTo(0.375, 8);
+
+    audioService.setTempo({ ...tempo, bpm: 90, delayRight: "1/8t" });
+    expect(delayLSet.mock.calls.at(-1)?.[0]).toBeCloseTo(2 / 3, 8);
+    expect(delayRSet.mock.calls.at(-1)?.[0]).toBeCloseTo(2 / 9, 8);
+
+    audioService.setTempo({ ...tempo, delaySync: false });
+    const pitched = delayLSet.mock.calls.at(-1)?.[0] ?? 0;
+    expect(pitched).toBeGreaterThanOrEqual(0.22);
+    expect(pitched).toBeLessThanOrEqual(0.85);
+    expect(pitched).not.toBeCloseTo(0.5, 3);
+  });
+});
+
+describe("progression", () => {
+  it("moves root and scale on the bar clock, notifies and retunes the drone", () => {
+    engine.ctx = { currentTime: 0 };
+    engine.tempoSettings = { bpm: 120, source: "internal", delaySync: true, delayLeft: "1/4", delayRight: "1/8", physicsSync: false };
+    engine.lastMusicSettings = { root: 0, scaleId: "ionian", scaleIndex: 0, quantizeEnabled: true, noImmediateRepeat: false, avoidLeadingTone: false, noThirds: false };
+    const listener = vi.fn();
+    const unsubscribe = audioService.subscribeProgression(listener);
+
+    audioService.setProgressionSettings({ enabled: true, steps: parseProgression("Dm9 G7"), advance: "bars", every: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(engine.playedMusicSettings()).toMatchObject({ root: 2, scaleId: "dorian" });
+
+    const restartDrone = vi.spyOn(engine, "startBackgroundDrone").mockImplementation(() => {});
+    const stopDrone = vi.spyOn(engine, "stopBackgroundDrone").mockImplementation(() => {});
+    const glide = vi.fn<(value: number, at: number, tc: number) => void>();
+    engine.backgroundDrone = { oscillators: [{ frequency: { setTargetAtTime: glide } }, { frequency: { setTargetAtTime: glide } }] };
+    engine.moveProgression();
+    engine.ctx.currentTime = 2.01; // one 4/4 bar at 120 BPM
+    engine.moveProgression();
+    expect(audioService.getProgressionPosition().index).toBe(1);
+    expect(engine.playedMusicSettings()).toMatchObject({ root: 7, scaleId: "mixolydian" });
+    expect(listener).toHaveBeenCalledTimes(2);
+    // The running drone glides to G instead of being rebuilt, its lowest voice on G2.
+    expect(stopDrone).not.toHaveBeenCalled();
+    expect(restartDrone).not.toHaveBeenCalled();
+    expect(glide).toHaveBeenCalledTimes(2);
+    expect(glide.mock.calls[0][0]).toBeCloseTo(98, 1);
+
+    audioService.setProgressionSettings({ enabled: false, steps: [], advance: "bars", every: 1 });
+    expect(audioService.getProgressionPosition().step).toBeNull();
+    unsubscribe();
+    restartDrone.mockRestore();
+    stopDrone.mockRestore();
+    engine.backgroundDrone = null;
+  });
+});
+
+describe("midi out", () => {
+  // Any node the engine asks for; unknown fields read as automatable params.
+  const fakeNode = (): AnyEngine =>
+    new Proxy({} as AnyEngine, {
+      get: (target, key: string) => {
+        if (!(key in target)) {
+          target[key] = ["connect", "disconnect", "start", "stop"].includes(key)
+            ? (to?: unknown) => to
+            : { value: 0, setValueAtTime: vi.fn(), setTargetAtTime: vi.fn(), linearRampToValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn(), cancelScheduledValues: vi.fn() };
+        }
+        return target[key];
+      },
+    });
+
+  it("sends notes only for hits that resolve to a source", () => {
+    const roleSettings = engine.roleSettings;
+    const bankSettings = engine.bankSettings;
+    engine.ctx = new Proxy({ currentTime: 1, sampleRate: 48000 } as AnyEngine, {
+      get: (target, key: string) => (key in target ? target[key] : () => fakeNode()),
+    });
+    const notes = vi.fn();
+    audioService.setNoteListener(notes);
+    // The wall role names S05 while the sample bank only plays two slots.
+    engine.bankSettings = { ...bankSettings, smpSlots: 2 };
+    engine.roleSettings = { enabled: true, roles: { ...roleSettings.roles, wall: { ...roleSettings.roles.wall, source: "smp", slot: 4 } } };
+    engine.sampleBank[4] = { duration: 1 } as AudioBuffer;
+
+    audioService.triggerSound(0.5, 440, 0, 0, 0, 0, 0, false, 0.5, undefined, 1, null, undefined, "wall", "wall");
+    expect(notes).not.toHaveBeenCalled();
+
+    // The same hit on a synth voice plays, so its note goes out.
+    engine.roleSettings.roles.wall.source = "synth";
+    audioService.triggerSound(0.5, 440, 0, 0, 0, 0, 0, false, 0.5, undefined, 1, null, undefined, "wall", "wall");
+    expect(notes).toHaveBeenCalledTimes(1);
+
+    audioService.setNoteListener(null);
+    engine.roleSettings = roleSettings;
+    engine.bankSettings = bankSettings;
+    engine.ctx = null;
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { AUX_EFFECTS, auxSendLevel, defaultAuxSettings } from "../src/audio/auxSends";
+import type { AuxSend } from "../types";
+
+const send = (patch: Partial<AuxSend>): AuxSend => ({ ...defaultAuxSettings().sends.reverb, ...patch });
+
+describe("aux sends", () => {
+  it("sends far hits into the reverb and small ones into the delay by default", () => {
+    const { sends } = defaultAuxSettings();
+    const near = { depth: 0, size: 0.5 };
+    const far = { depth: 1, size: 0.5 };
+    expect(auxSendLevel(sends.reverb, far)).toBeGreaterThan(auxSendLevel(sends.reverb, near));
+    expect(auxSendLevel(sends.delay, { depth: 0, size: 0.05 })).toBeGreaterThan(auxSendLevel(sends.delay, { depth: 0, size: 0.9 }));
+    expect(auxSendLevel(sends.fxA, far)).toBe(0);
+  });
+
+  it("bends the line between low and high and trims by role", () => {
+    const linear = send({ source: "size", low: 0.2, high: 1, curve: 0 });
+    expect(auxSendLevel(linear, { depth: 0, size: 0.5 })).toBeCloseTo(0.6, 6);
+    expect(auxSendLevel({ ...linear, curve: 1 }, { depth: 0, size: 0.5 })).toBeCloseTo(0.2 + 0.8 * 0.125, 6);
+    expect(auxSendLevel({ ...linear, curve: -1 }, { depth: 0, size: 0.5 })).toBeGreaterThan(0.6);
+    expect(auxSendLevel(linear, { depth: 0, size: 4 })).toBe(1);
+
+    const fixed = send({ source: "fixed", low: 0, high: 0.8, roles: { ...linear.roles, pop: 0.5 } });
+    expect(auxSendLevel(fixed, { depth: 0.3, size: 0.3 })).toBeCloseTo(0.8, 6);
+    expect(auxSendLevel(fixed, { depth: 0.3, size: 0.3, role: "pop" })).toBeCloseTo(0.4, 6);
+    expect(auxSendLevel(fixed, { depth: 0.3, size: 0.3, role: "wall" })).toBeCloseTo(0.8, 6);
+  });
+
+  it("only offers effects that can run fully wet on a return", () => {
+    expect(AUX_EFFECTS.map((effect) => effect.id)).toEqual(["chorus", "phaser", "flanger", "shimmer"]);
+  });
+});
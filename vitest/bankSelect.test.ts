@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { audioService } from "../services/audioEngine";
+import { defaultBankSettings, pickByZone, pickWeighted, ruleAllows, type SourceContext } from "../src/audio/bankSelect";
+import type { BankSettings, SlotRule } from "../types";
+
+type AnyEngine = Record<string, any>;
+
+const engine = audioService as unknown as AnyEngine;
+
+const sourceLabel = (source: any): string => {
+  if (!source) return "NONE";
+  if (source.type === "synth") return "SYNTH";
+  return `${source.type}-${source.index}`;
+};
+
+const at = (patch: Partial<SourceContext> = {}): SourceContext => ({ size: 0.5, pan: 0, depth: 0, ...patch });
+
+const withRules = (patch: Partial<BankSettings>, smp: Record<number, Partial<SlotRule>> = {}): BankSettings => {
+  const base = defaultBankSettings();
+  return {
+    ...base,
+    ...patch,
+    rules: { ...base.rules, smp: base.rules.smp.map((rule, i) => ({ ...rule, ...smp[i] })) },
+  };
+};
+
+const loadSamples = (...slots: number[]) => {
+  slots.forEach((slot) => {
+    engine.sampleBank[slot] = { duration: 1 } as AudioBuffer;
+  });
+  engine.updatePlayPool();
+};
+
+afterEach(() => {
+  audioService.setBankSettings(defaultBankSettings());
+  audioService.clearAllSamples();
+  audioService.setSynthEnabled(true);
+});
+
+describe("bank selection", () => {
+  it("checks weight, size and zone against the bubble", () => {
+    const rule: SlotRule = { weight: 1, minSize: 0.3, maxSize: 0.8, zone: "back" };
+    expect(ruleAllows(rule)).toBe(true);
+    expect(ruleAllows(rule, at({ size: 0.5, depth: 0.7 }))).toBe(true);
+    expect(ruleAllows(rule, at({ size: 0.2, depth: 0.7 }))).toBe(false);
+    expect(ruleAllows(rule, at({ size: 0.5, depth: 0.2 }))).toBe(false);
+    expect(ruleAllows({ ...rule, weight: 0 })).toBe(false);
+  });
+
+  it("draws in proportion to weight and splits the room by zone", () => {
+    const candidates = [
+      { choice: "a", weight: 1 },
+      { choice: "b", weight: 3 },
+    ];
+    expect(pickWeighted(candidates, () => 0.2)).toBe("a");
+    expect(pickWeighted(candidates, () => 0.3)).toBe("b");
+    expect(pickWeighted([{ choice: "a", weight: 0 }], () => 0.5)).toBeNull();
+    expect(pickByZone(["l", "m", "r"], at({ pan: -1 }))).toBe("l");
+    expect(pickByZone(["l", "m", "r"], at({ pan: 0 }))).toBe("m");
+    expect(pickByZone(["l", "m", "r"], at({ pan: 1 }))).toBe("r");
+  });
+
+  it("keeps slots past the bank size loaded but out of play", () => {
+    loadSamples(0, 8);
+    expect(audioService.getBankSnapshot().smp).toHaveLength(6);
+    expect(audioService.getActivePoolInfo().labels).not.toContain("S09");
+
+    audioService.setBankSettings(withRules({ smpSlots: 10, mode: "roundRobin", synthWeight: 0 }));
+    expect(audioService.getBankSnapshot().smp).toHaveLength(10);
+    expect(audioService.getBankSnapshot().loadedLabels).toContain("S09");
+    const picks = Array.from({ length: 4 }, () => sourceLabel(audioService.assignSourceToBubble()));
+    expect(picks).toEqual(["smp-0", "smp-8", "smp-0", "smp-8"]);
+  });
+
+  it("skips slots whose rule rejects the bubble and falls back to the synth", () => {
+    audioService.setBankSettings(withRules({ mode: "roundRobin", synthWeight: 0 }, { 1: { minSize: 0.6 } }));
+    loadSamples(0, 1);
+    const small = Array.from({ length: 3 }, () => sourceLabel(audioService.assignSourceToBubble(at({ size: 0.3 }))));
+    expect(small).toEqual(["smp-0", "smp-0", "smp-0"]);
+    expect(sourceLabel(audioService.assignSourceToBubble(at({ size: 0.9 })))).toBe("smp-1");
+    expect(sourceLabel(audioService.assignSourceToBubble(at({ size: 0.9 })))).toBe("smp-0");
+
+    audioService.setBankSettings(withRules({ mode: "roundRobin", synthWeight: 0 }, { 0: { zone: "left" }, 1: { zone: "left" } }));
+    expect(sourceLabel(audioService.assignSourceToBubble(at({ pan: 0.5 })))).toBe("SYNTH");
+  });
+
+  it("picks by weight and by where the bubble is", () => {
+    audioService.setRandomSeed(7);
+    audioService.setBankSettings(withRules({ mode: "weighted", synthWeight: 0 }, { 0: { weight: 0.25 }, 1: { weight: 4 } }));
+    loadSamples(0, 1);
+    const picks = Array.from({ length: 200 }, () => sourceLabel(audioService.assignSourceToBubble()));
+    expect(picks.filter((pick) => pick === "smp-1").length).toBeGreaterThan(160);
+
+    audioService.setBankSettings(withRules({ mode: "zone", synthWeight: 0 }));
+    expect(sourceLabel(audioService.assignSourceToBubble(at({ pan: -0.9 })))).toBe("smp-0");
+    expect(sourceLabel(audioService.assignSourceToBubble(at({ pan: 0.9 })))).toBe("smp-1");
+    audioService.setRandomSeed(null);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { createFxRack, createInsertSlot, moveInsertSlot } from "../src/audio/effects/rack";
+import { getInsertEffect, INSERT_EFFECTS, resolveEffectParams } from "../src/audio/effects/registry";
+import { filterCutoffHz } from "../src/audio/effects/filter";
+
+type FakeNode = { kind: string; connect: (to: FakeNode) => FakeNode; disconnect: () => void; [key: string]: unknown };
+
+// Just enough of a context to record the graph: every node connects, disconnects and has glideable params.
+const createFakeContext = () => {
+  const edges = new Set<[FakeNode, FakeNode]>();
+  const param = () => ({
+    value: 0,
+    setTargetAtTime() {},
+    setValueAtTime() {},
+    linearRampToValueAtTime() {},
+    cancelScheduledValues() {},
+  });
+  const node = (kind: string): FakeNode => {
+    const self: FakeNode = new Proxy(
+      {
+        kind,
+        connect: (to: FakeNode) => {
+          edges.add([self, to]);
+          return to;
+        },
+        disconnect: () => {
+          edges.forEach((edge) => {
+            if (edge[0] === self) edges.delete(edge);
+          });
+        },
+        start() {},
+        stop() {},
+      } as FakeNode,
+      {
+        get: (target, key: string) => {
+          if (!(key in target)) target[key] = param();
+          return target[key];
+        },
+      }
+    );
+    return self;
+  };
+  const ctx = new Proxy({ currentTime: 0, sampleRate: 48000 } as Record<string, unknown>, {
+    get: (target, key: string) => (key in target ? target[key] : () => node(key.replace(/^create/, ""))),
+  });
+  // Whether any chain of recorded connections leads from `from` to `to`.
+  const reaches = (from: FakeNode, to: FakeNode, seen = new Set<FakeNode>()): boolean => {
+    if (from === to) return true;
+    if (seen.has(from)) return false;
+    seen.add(from);
+    return [...edges].some(([a, b]) => a === from && reaches(b, to, seen));
+  };
+  return { ctx: ctx as unknown as BaseAudioContext, node, edges, reaches };
+};
+
+describe("insert effects", () => {
+  it("fills, clamps and rounds effect params", () => {
+    expect(new Set(INSERT_EFFECTS.map((effect) => effect.id)).size).toBe(7);
+    expect(resolveEffectParams(getInsertEffect("filter"), { mode: 1.4, cutoff: 4, resonance: "sharp" })).toEqual({
+      mode: 1,
+      cutoff: 1,
+      resonance: 0.7,
+    });
+    expect(filterCutoffHz(0)).toBe(20);
+    expect(filterCutoffHz(1)).toBeCloseTo(20000, 6);
+    expect(createInsertSlot("tiltEq")).toMatchObject({ effect: "tiltEq", bypass: false, params: { tilt: 0, pivot: 900 } });
+  });
+
+  it("moves a slot and leaves the rest in order", () => {
+    const slots = ["a", "b", "c", "d"].map((id) => ({ ...createInsertSlot("chorus"), id }));
+    expect(moveInsertSlot(slots, 0, 2).map((slot) => slot.id)).toEqual(["b", "c", "a", "d"]);
+    expect(moveInsertSlot(slots, 3, 0).map((slot) => slot.id)).toEqual(["d", "a", "b", "c"]);
+    expect(moveInsertSlot(slots, 1, 9).map((slot) => slot.id)).toEqual(["a", "c", "d", "b"]);
+    expect(moveInsertSlot(slots, 2, 2)).toBe(slots);
+  });
+
+  it("wires slots in order, keeps their nodes through a reorder and drops removed ones", () => {
+    const { ctx, node, edges, reaches } = createFakeContext();
+    const input = node("input");
+    const output = node("output");
+    const rack = createFxRack(ctx, input as unknown as AudioNode, output as unknown as AudioNode);
+    rack.setSlots([]);
+    expect(reaches(input, output)).toBe(true);
+
+    const tilt = { ...createInsertSlot("tiltEq"), id: "tilt" };
+    const widen = { ...createInsertSlot("widener"), id: "widen" };
+    rack.setSlots([tilt, widen]);
+    const firstHop = () => [...edges].find(([a]) => a === input)![1];
+    const tiltInput = firstHop();
+    expect(reaches(input, output)).toBe(true);
+
+    rack.setSlots([widen, tilt]);
+    const widenInput = firstHop();
+    expect(widenInput).not.toBe(tiltInput);
+    expect(reaches(widenInput, tiltInput)).toBe(true);
+
+    rack.setSlots([tilt]);
+    expect(firstHop()).toBe(tiltInput);
+    expect(reaches(widenInput, output)).toBe(false);
+    expect(reaches(input, output)).toBe(true);
+    rack.dispose();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { grooveSlotTime, grooveStepSeconds, nextGrooveTime } from "../src/music/groove";
+import { DEFAULT_GROOVE_SETTINGS } from "../src/scene/defaults";
+import type { GrooveSettings } from "../types";
+
+const groove = (patch: Partial<GrooveSettings>): GrooveSettings => ({
+  ...DEFAULT_GROOVE_SETTINGS,
+  enabled: true,
+  humanize: 0,
+  maxLatencyMs: 500,
+  ...patch,
+});
+const never = () => {
+  throw new Error("humanize off must not draw randomness");
+};
+
+describe("groove grid", () => {
+  it("sizes slots from the clock", () => {
+    expect(grooveStepSeconds("1/16", 120)).toBeCloseTo(0.125, 10);
+    expect(grooveStepSeconds("1/8", 120)).toBeCloseTo(0.25, 10);
+    expect(grooveStepSeconds("1/8t", 120)).toBeCloseTo(1 / 6, 10);
+  });
+
+  it("defers a hit to the next slot and keeps one already on it", () => {
+    expect(nextGrooveTime(1.01, 120, groove({ division: "1/8" }), never)).toBeCloseTo(1.25, 10);
+    expect(nextGrooveTime(1.25, 120, groove({ division: "1/8" }), never)).toBeCloseTo(1.25, 10);
+    expect(nextGrooveTime(0.1, 120, groove({ division: "1/16t" }), never)).toBeCloseTo(1 / 6, 10);
+  });
+
+  it("swings every second slot later", () => {
+    const step = 0.125;
+    expect(grooveSlotTime(2, step, 1)).toBeCloseTo(0.25, 10);
+    expect(grooveSlotTime(3, step, 1)).toBeCloseTo(0.375 + 0.0625, 10);
+    // Straight off-beat at 0.375 has moved; a hit just after 0.375 waits for the swung slot.
+    expect(nextGrooveTime(0.38, 120, groove({ swing: 1 }), never)).toBeCloseTo(0.4375, 10);
+    expect(nextGrooveTime(0.44, 120, groove({ swing: 1 }), never)).toBeCloseTo(0.5, 10);
+  });
+
+  it("skips hits whose slot is past the latency cutoff", () => {
+    expect(nextGrooveTime(1.01, 120, groove({ division: "1/8", maxLatencyMs: 200 }), never)).toBeNull();
+    expect(nextGrooveTime(1.01, 120, groove({ division: "1/8", maxLatencyMs: 240 }), never)).toBeCloseTo(1.25, 10);
+  });
+
+  it("humanizes around the slot but never into the past", () => {
+    const early = nextGrooveTime(1.01, 120, groove({ division: "1/8", humanize: 1 }), () => 0);
+    const late = nextGrooveTime(1.01, 120, groove({ division: "1/8", humanize: 1 }), () => 1);
+    expect(early).toBeCloseTo(1.23, 10);
+    expect(late).toBeCloseTo(1.27, 10);
+    expect(nextGrooveTime(1.25, 120, groove({ division: "1/8", humanize: 1 }), () => 0)).toBeCloseTo(1.25, 10);
+  });
+});
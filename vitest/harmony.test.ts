@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { buildHarmony, voicingFor } from "../src/music/harmony";
+import { defineTunedScale, getScaleById } from "../src/music/scales";
+import { DEFAULT_HARMONY_SETTINGS } from "../src/scene/defaults";
+
+// Ionian avoids its leading tone by default; the filter tests switch that on explicitly.
+const major = { ...getScaleById("ionian"), avoid: undefined };
+const plain = { noThirds: false, avoidLeadingTone: false };
+
+describe("harmony", () => {
+  it("stacks diatonic thirds, fifths and fourths above the played note", () => {
+    expect(buildHarmony(60, 60, major, plain, "thirds", 3, 0)).toEqual([60, 64, 67]);
+    expect(buildHarmony(62, 60, major, plain, "thirds", 4, 0)).toEqual([62, 65, 69, 72]);
+    expect(buildHarmony(60, 60, major, plain, "fifths", 3, 0)).toEqual([60, 67, 74]);
+    expect(buildHarmony(60, 60, major, plain, "quartal", 3, 0)).toEqual([60, 65, 69]);
+    expect(buildHarmony(60, 60, major, plain, "single", 5, 0)).toEqual([60]);
+    expect(buildHarmony(60, 60, major, plain, "thirds", 1, 0)).toEqual([60]);
+  });
+
+  it("keeps the quantizer's filters out of the stacked voices", () => {
+    expect(buildHarmony(64, 60, major, plain, "thirds", 3, 0)).toEqual([64, 67, 71]);
+    expect(buildHarmony(64, 60, major, { ...plain, avoidLeadingTone: true }, "thirds", 3, 0)).toEqual([64, 67, 69]);
+    expect(buildHarmony(64, 60, getScaleById("ionian"), plain, "thirds", 3, 0)).toEqual([64, 67, 69]);
+
+    const noThirds = buildHarmony(60, 60, major, { ...plain, noThirds: true }, "thirds", 4, 0);
+    expect(noThirds.slice(1).every((midi) => midi % 12 !== 3 && midi % 12 !== 4)).toBe(true);
+  });
+
+  it("opens the voicing by lifting alternate voices a period", () => {
+    expect(buildHarmony(60, 60, major, plain, "thirds", 3, 0.5)).toEqual([60, 76, 67]);
+    expect(buildHarmony(60, 60, major, plain, "thirds", 3, 1)).toEqual([60, 76, 79]);
+  });
+
+  it("stacks tuned scales on their own steps and period", () => {
+    const fiveEdo = defineTunedScale("custom:5edo", "5-EDO", [240, 480, 720, 960], 1200);
+    const notes = buildHarmony(60, 60, fiveEdo, plain, "fifths", 3, 0);
+    expect(notes[1]).toBeCloseTo(67.2, 6);
+    expect(notes[2]).toBeCloseTo(74.4, 6);
+
+    const lifted = buildHarmony(60, 60, fiveEdo, plain, "fifths", 2, 1);
+    expect(lifted[1]).toBeCloseTo(79.2, 6);
+  });
+
+  it("picks the voicing from the collision only when rules are on", () => {
+    const on = { ...DEFAULT_HARMONY_SETTINGS, enabled: true };
+    expect(voicingFor(DEFAULT_HARMONY_SETTINGS, "wall")).toBe("single");
+    expect(voicingFor(on, "wall")).toBe(on.voicing);
+    const byHit = { ...on, byCollision: true };
+    expect(voicingFor(byHit, "wall")).toBe(byHit.rules.wall);
+    expect(voicingFor(byHit, "void")).toBe(byHit.rules.void);
+    expect(voicingFor(byHit, undefined)).toBe(byHit.voicing);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUNDLED_IMPULSES,
+  defaultImpulseSettings,
+  normalizeImpulse,
+  processImpulse,
+  renderBundledImpulse,
+  type StereoImpulse,
+} from "../src/audio/impulses";
+
+const ramp = (frames: number): StereoImpulse => ({
+  left: Float32Array.from({ length: frames }, (_, i) => 1 - i / frames),
+  right: Float32Array.from({ length: frames }, (_, i) => -(1 - i / frames)),
+});
+
+const rms = (ir: StereoImpulse) => {
+  let sum = 0;
+  for (let i = 0; i < ir.left.length; i++) sum += ir.left[i] ** 2 + ir.right[i] ** 2;
+  return Math.sqrt(sum / (ir.left.length * 2));
+};
+
+describe("impulse library", () => {
+  it("renders every bundled IR the same way twice", () => {
+    BUNDLED_IMPULSES.forEach(({ id }) => {
+      const first = renderBundledImpulse(id, 8000);
+      const again = renderBundledImpulse(id, 8000);
+      expect(first.left.length).toBeGreaterThan(8000);
+      expect(first.left.length).toBe(first.right.length);
+      expect(Array.from(first.left.subarray(0, 4000))).toEqual(Array.from(again.left.subarray(0, 4000)));
+      expect(first.left.every(Number.isFinite)).toBe(true);
+    });
+    expect(renderBundledImpulse("ice", 8000).left.length).toBeGreaterThan(renderBundledImpulse("plate", 8000).left.length);
+  });
+
+  it("levels IRs like the convolver would", () => {
+    expect(rms(normalizeImpulse(ramp(1000), 44100))).toBeCloseTo(0.00125, 6);
+    expect(rms(normalizeImpulse(ramp(1000), 48000))).toBeCloseTo(0.00125 * (44100 / 48000), 6);
+  });
+
+  it("trims, reverses and stretches without touching the original", () => {
+    const source = ramp(1000);
+    const settings = { ...defaultImpulseSettings(), start: 0.25, end: 0.75, normalize: false };
+    const trimmed = processImpulse(source, settings, 1000, 1000);
+    expect(trimmed.left.length).toBe(500);
+    expect(trimmed.left[0]).toBe(0);
+    expect(trimmed.left[100]).toBeCloseTo(0.65, 5);
+
+    const reversed = processImpulse(source, { ...settings, start: 0, end: 1, reverse: true }, 1000, 1000);
+    expect(reversed.left[0]).toBeCloseTo(0.001, 5);
+    expect(reversed.left[999]).toBe(1);
+    expect(source.left[0]).toBe(1);
+
+    const stretched = processImpulse(source, { ...settings, start: 0, end: 1, stretch: 2 }, 1000, 1000);
+    expect(stretched.left.length).toBe(2000);
+    expect(stretched.left[1000]).toBeCloseTo(source.left[500], 5);
+    expect(processImpulse(source, { ...settings, start: 0, end: 1 }, 1000, 2000).left.length).toBe(2000);
+  });
+
+  it("normalizes after the edits only when asked", () => {
+    const source = normalizeImpulse(ramp(1000), 1000);
+    const tailOnly = { ...defaultImpulseSettings(), start: 0.8, normalize: false };
+    const quiet = processImpulse(source, tailOnly, 1000, 1000);
+    const levelled = processImpulse(source, { ...tailOnly, normalize: true }, 1000, 1000);
+    expect(rms(quiet)).toBeLessThan(rms(source) * 0.5);
+    expect(rms(levelled)).toBeCloseTo(rms(source), 6);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { LIMITER_LOOKAHEAD_SECONDS, TRUE_PEAK_LIMITER_WORKLET_CODE } from "../src/audio/limiter";
+
+const SAMPLE_RATE = 48000;
+const BLOCK = 128;
+
+type Processor = {
+  process: (inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) => boolean;
+};
+
+// Runs the worklet source against just enough of the AudioWorkletGlobalScope to construct it.
+const createProcessor = () => {
+  const reports: number[] = [];
+  let Registered: (new () => Processor) | null = null;
+  class FakeProcessor {
+    port = { postMessage: (value: number) => reports.push(value) };
+  }
+  new Function("AudioWorkletProcessor", "registerProcessor", "sampleRate", TRUE_PEAK_LIMITER_WORKLET_CODE)(
+    FakeProcessor,
+    (_name: string, ctor: new () => Processor) => {
+      Registered = ctor;
+    },
+    SAMPLE_RATE
+  );
+  return { processor: new Registered!(), reports };
+};
+
+const run = (signal: (n: number) => number, frames: number, ceilingDb: number) => {
+  const { processor, reports } = createProcessor();
+  const out = new Float32Array(frames);
+  for (let start = 0; start < frames; start += BLOCK) {
+    const input = Float32Array.from({ length: BLOCK }, (_, i) => signal(start + i));
+    const left = new Float32Array(BLOCK);
+    const right = new Float32Array(BLOCK);
+    processor.process([[input, input]], [[left, right]], { ceiling: new Float32Array([ceilingDb]) });
+    out.set(left.subarray(0, Math.min(BLOCK, frames - start)), start);
+  }
+  return { out, reports };
+};
+
+const maxAbs = (values: Float32Array) => values.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+const LATENCY = Math.round(LIMITER_LOOKAHEAD_SECONDS * SAMPLE_RATE) + 5;
+
+describe("true-peak limiter worklet", () => {
+  it("passes quiet audio through untouched, only late by the lookahead", () => {
+    const signal = (n: number) => 0.5 * Math.sin(n * 0.05);
+    const { out, reports } = run(signal, 4096, -1);
+    for (let n = 1000; n < 4096; n += 97) expect(out[n]).toBeCloseTo(signal(n - LATENCY), 5);
+    expect(Math.max(...reports)).toBeCloseTo(0, 6);
+  });
+
+  it("pulls down peaks that fall between the samples", () => {
+    // A quarter-rate sine sampled at 45 degrees: every sample reads 0.849, the waveform peaks at 1.2.
+    const amplitude = 1.2;
+    const signal = (n: number) => amplitude * Math.sin((Math.PI / 2) * n + Math.PI / 4);
+    const ceiling = Math.pow(10, -1 / 20);
+    const { out, reports } = run(signal, 8192, -1);
+    const settled = maxAbs(out.subarray(4096));
+    // Sample peaks alone never cross the ceiling; the true peak lands on it.
+    expect(amplitude * Math.SQRT1_2).toBeLessThan(ceiling);
+    expect(settled / Math.SQRT1_2).toBeLessThanOrEqual(ceiling * 1.02);
+    expect(settled / Math.SQRT1_2).toBeGreaterThan(ceiling * 0.9);
+    expect(reports[reports.length - 1]).toBeGreaterThan(2);
+  });
+
+  it("has the gain down before a sudden peak comes out of the delay", () => {
+    const signal = (n: number) => (n >= 2000 && n < 2010 ? 4 : 0.1);
+    const ceiling = Math.pow(10, -3 / 20);
+    const { out } = run(signal, SAMPLE_RATE, -3);
+    expect(maxAbs(out)).toBeLessThanOrEqual(ceiling + 1e-6);
+    // The burst comes through just under the ceiling (its edges overshoot between samples), not clipped, then recovers.
+    expect(Math.abs(out[2000 + LATENCY])).toBeLessThan(ceiling);
+    expect(Math.abs(out[2000 + LATENCY])).toBeGreaterThan(ceiling * 0.8);
+    expect(out[SAMPLE_RATE - 1]).toBeCloseTo(0.1, 3);
+  });
+});
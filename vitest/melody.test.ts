@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  emptyMarkovTable,
+  markovTransitionCount,
+  melodyWeights,
+  parseTrainingPhrase,
+  pickMelodicNote,
+  trainMarkovTable,
+} from "../src/music/melody";
+import { scaleTonesInRange } from "../src/music/quantize";
+import { defineTunedScale, getScaleById } from "../src/music/scales";
+import { mulberry32 } from "../src/random/seeded";
+import { DEFAULT_MELODY_SETTINGS } from "../src/scene/defaults";
+import type { MelodySettings } from "../types";
+
+const major = { ...getScaleById("ionian"), avoid: undefined };
+const cfg = { rootMidi: 60, scale: major, lastMidi: 64 as number | null };
+const melody = (patch: Partial<MelodySettings>): MelodySettings => ({
+  ...DEFAULT_MELODY_SETTINGS,
+  enabled: true,
+  contour: "free",
+  contourAmount: 0,
+  resolution: 0,
+  stepWeight: 0,
+  ...patch,
+});
+
+// Average |interval| over many draws from the same starting note.
+const meanLeap = (settings: MelodySettings, runs = 400) => {
+  const random = mulberry32(7);
+  let total = 0;
+  for (let i = 0; i < runs; i++) {
+    const next = pickMelodicNote(64, cfg, settings, 1, random) ?? 64;
+    total += Math.abs(next - 64);
+  }
+  return total / runs;
+};
+
+describe("melodic model", () => {
+  it("lists scale tones in a range, tuned ones included", () => {
+    expect(scaleTonesInRange(59, 65, cfg)).toEqual([59, 60, 62, 64, 65]);
+    expect(scaleTonesInRange(60, 72, { ...cfg, noThirds: true })).toEqual([60, 62, 65, 67, 69, 71, 72]);
+    const fiveEdo = defineTunedScale("custom:5edo", "5-EDO", [240, 480, 720, 960], 1200);
+    const tuned = scaleTonesInRange(60, 72, { rootMidi: 60, scale: fiveEdo });
+    expect(tuned.map((midi) => Number(midi.toFixed(2)))).toEqual([60, 62.4, 64.8, 67.2, 69.6, 72]);
+  });
+
+  it("prefers steps over leaps as the step weight rises", () => {
+    expect(meanLeap(melody({ stepWeight: 1 }))).toBeLessThan(meanLeap(melody({ stepWeight: 0 })) * 0.7);
+  });
+
+  it("follows the contour and resolves to the root at the phrase end", () => {
+    const tones = scaleTonesInRange(52, 76, cfg);
+    const sum = (weights: number[], pick: (midi: number) => boolean) =>
+      weights.reduce((acc, w, i) => acc + (pick(tones[i]) ? w : 0), 0);
+
+    const rising = melodyWeights(tones, 64, cfg, melody({ contour: "rising", contourAmount: 1 }), 0);
+    expect(sum(rising, (midi) => midi > 64)).toBeGreaterThan(sum(rising, (midi) => midi < 64) * 3);
+    // Arch turns downward in the second half of the phrase.
+    const arch = melodyWeights(tones, 64, cfg, melody({ contour: "arch", contourAmount: 1, phraseLength: 8 }), 6);
+    expect(sum(arch, (midi) => midi < 64)).toBeGreaterThan(sum(arch, (midi) => midi > 64));
+
+    const start = melodyWeights(tones, 64, cfg, melody({ resolution: 1, phraseLength: 8 }), 0);
+    const end = melodyWeights(tones, 64, cfg, melody({ resolution: 1, phraseLength: 8 }), 7);
+    const rootShare = (weights: number[]) => sum(weights, (midi) => midi % 12 === 0) / sum(weights, () => true);
+    expect(rootShare(end)).toBeGreaterThan(0.6);
+    expect(rootShare(end)).toBeGreaterThan(rootShare(start) * 3);
+  });
+
+  it("never repeats the last note when asked", () => {
+    const random = mulberry32(3);
+    for (let i = 0; i < 100; i++) {
+      expect(pickMelodicNote(64, { ...cfg, noImmediateRepeat: true }, melody({ stepWeight: 1 }), 1, random)).not.toBe(64);
+    }
+  });
+
+  it("trains a degree table and follows it", () => {
+    const degrees = parseTrainingPhrase("C E G E C", 0);
+    expect(degrees).toEqual([0, 4, 7, 4, 0]);
+    expect(parseTrainingPhrase("D4 F#4 0 9", 2)).toEqual([0, 4, 0, 9]);
+    expect(() => parseTrainingPhrase("C", 0)).toThrow(/two notes/);
+    expect(() => parseTrainingPhrase("C Q", 0)).toThrow(/not a note/);
+
+    const table = trainMarkovTable(emptyMarkovTable(), degrees);
+    expect(table[4][7]).toBe(1);
+    expect(table[4][0]).toBe(1);
+    expect(markovTransitionCount(table)).toBe(4);
+
+    // From E (degree 4) the table only knows G and C; with heavy training those dominate.
+    let heavy = emptyMarkovTable();
+    for (let i = 0; i < 50; i++) heavy = trainMarkovTable(heavy, [4, 7]);
+    const random = mulberry32(11);
+    let toG = 0;
+    for (let i = 0; i < 200; i++) {
+      const next = pickMelodicNote(64, cfg, melody({ markov: true, markovTable: heavy }), 1, random);
+      if (next !== null && next % 12 === 7) toG += 1;
+    }
+    expect(toG).toBeGreaterThan(150);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  bipolarToCc,
+  collisionMessages,
+  COLLISION_CC,
+  levelToVelocity,
+  noteOff,
+  noteOn,
+} from "../src/midi/messages";
+import { DEFAULT_MIDI_OUT, sanitizeMidiOut } from "../src/midi/settings";
+
+describe("MIDI messages", () => {
+  it("builds channel voice messages on 1-based channels", () => {
+    expect(noteOn(1, 60, 100)).toEqual([0x90, 60, 100]);
+    expect(noteOn(16, 200, 0)).toEqual([0x9f, 127, 1]);
+    expect(noteOff(10, 64)).toEqual([0x89, 64, 0]);
+  });
+
+  it("maps level to a usable velocity curve", () => {
+    expect(levelToVelocity(0)).toBe(1);
+    expect(levelToVelocity(1)).toBe(127);
+    expect(levelToVelocity(0.25)).toBe(64);
+    expect(levelToVelocity(Number.NaN)).toBe(1);
+  });
+
+  it("centres bipolar controls on 64", () => {
+    expect(bipolarToCc(0)).toBe(64);
+    expect(bipolarToCc(-1)).toBe(0);
+    expect(bipolarToCc(1)).toBe(127);
+  });
+
+  it("turns a collision into CC, note-on and note-off", () => {
+    const msg = collisionMessages({ midi: 62.4, level: 1, pan: -1, depth: 0.5, doppler: -0.5 }, 2);
+
+    expect(msg.cc).toEqual([
+      [0xb1, COLLISION_CC.pan, 0],
+      [0xb1, COLLISION_CC.depth, 64],
+      [0xb1, COLLISION_CC.doppler, 64],
+    ]);
+    expect(msg.on).toEqual([0x91, 62, 127]);
+    expect(msg.off).toEqual([0x81, 62, 0]);
+  });
+
+  it("sanitizes stored output settings", () => {
+    expect(sanitizeMidiOut(null)).toEqual(DEFAULT_MIDI_OUT);
+    expect(sanitizeMidiOut({ enabled: true, portId: "abc", channel: 22, gateMs: 1 })).toEqual({
+      enabled: true,
+      portId: "abc",
+      channel: 16,
+      gateMs: 20,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyTakeover,
+  ccToControlValue,
+  createMapping,
+  sanitizeMappingBook,
+  upsertMapping,
+  type TakeoverState,
+} from "../src/midi/learn";
+import { parseMidiMessage } from "../src/midi/messages";
+
+const fresh: TakeoverState = { engaged: false, lastSent: null, lastIncoming: null };
+
+describe("MIDI input parsing", () => {
+  it("reads control change on 1-based channels", () => {
+    expect(parseMidiMessage([0xb3, 74, 100])).toEqual({ type: "cc", channel: 4, controller: 74, value: 100 });
+    expect(parseMidiMessage([0x90, 60, 100])).toEqual({ type: "other", status: 0x90 });
+    expect(parseMidiMessage([0xb0, 1])).toEqual({ type: "other", status: 0xb0 });
+  });
+});
+
+describe("MIDI learn mappings", () => {
+  it("scales CC into the mapped range, optionally inverted", () => {
+    const mapping = { ...createMapping("knob.speed", 1, 20), min: 0.2, max: 0.6 };
+    expect(ccToControlValue(mapping, 0)).toBeCloseTo(0.2);
+    expect(ccToControlValue(mapping, 127)).toBeCloseTo(0.6);
+    expect(ccToControlValue({ ...mapping, invert: true }, 127)).toBeCloseTo(0.2);
+  });
+
+  it("replaces the control's old CC and the CC's old control", () => {
+    const a = createMapping("a", 1, 10);
+    const b = createMapping("b", 1, 11);
+    expect(upsertMapping([a, b], createMapping("a", 1, 12)).map((m) => m.cc)).toEqual([11, 12]);
+    expect(upsertMapping([a, b], createMapping("c", 1, 10)).map((m) => m.controlId)).toEqual(["b", "c"]);
+  });
+
+  it("drops malformed stored mappings and clamps ranges", () => {
+    const book = sanitizeMappingBook({
+      Pad: [{ controlId: "a", channel: 20, cc: 300, min: -1, max: 2, invert: true }, { controlId: "", channel: 1, cc: 1 }],
+      Empty: [{ nope: true }],
+      Broken: "x",
+    });
+    expect(book).toEqual({
+      Pad: [{ controlId: "a", channel: 16, cc: 127, min: 0, max: 1, invert: true, soft: true }],
+    });
+  });
+});
+
+describe("soft takeover", () => {
+  it("passes every value through when soft is off", () => {
+    expect(applyTakeover(fresh, 0.9, 0.1, false).value).toBe(0.9);
+  });
+
+  it("waits until the hardware reaches the current value", () => {
+    let step = applyTakeover(fresh, 0.1, 0.5, true);
+    expect(step.value).toBeNull();
+    step = applyTakeover(step.state, 0.3, 0.5, true);
+    expect(step.value).toBeNull();
+    step = applyTakeover(step.state, 0.49, 0.5, true);
+    expect(step.value).toBe(0.49);
+    step = applyTakeover(step.state, 0.2, 0.49, true);
+    expect(step.value).toBe(0.2);
+  });
+
+  it("picks up when a fast move jumps across the current value", () => {
+    const first = applyTakeover(fresh, 0.2, 0.5, true);
+    expect(applyTakeover(first.state, 0.8, 0.5, true).value).toBe(0.8);
+  });
+
+  it("lets go once the control is moved elsewhere", () => {
+    const engaged = applyTakeover(fresh, 0.5, 0.5, true);
+    expect(engaged.value).toBe(0.5);
+    const released = applyTakeover(engaged.state, 0.55, 0.9, true);
+    expect(released.value).toBeNull();
+    expect(released.state.engaged).toBe(false);
+  });
+});
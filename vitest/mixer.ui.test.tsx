@@ -3,7 +3,7 @@
 import React from "react";
 import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import type { AudioSettings } from "../types";
+import type { AudioSettings, LofiSettings, MultibandSettings } from "../types";
 
 vi.mock("../components/BufferedKnob", () => ({
   BufferedKnob: () => <div data-testid="buffered-knob" />,
@@ -36,6 +36,7 @@ const { bankState, audioServiceMock } = vi.hoisted(() => {
       getPeakLevel: vi.fn(() => -12),
       getMainLevel: vi.fn(() => -10),
       getMicLevelDb: vi.fn(() => -30),
+      getDynamicsReduction: vi.fn(() => ({ low: 0, mid: 0, high: 0, limiter: 0 })),
       primeFromGesture: vi.fn(async () => {}),
       loadSampleFiles: vi.fn(async () => ({ loaded: 1, skipped: 0 })),
       setSynthEnabled: vi.fn((enabled: boolean) => {
@@ -49,6 +50,7 @@ const { bankState, audioServiceMock } = vi.hoisted(() => {
       setLofiParams: vi.fn(),
       getMicStream: vi.fn(() => null),
       isMicBankFull: vi.fn(() => false),
+      subscribeBank: vi.fn(() => () => {}),
       getMicRecordStream: vi.fn(() => null),
       loadMicSampleBlob: vi.fn(async () => true),
     },
@@ -60,6 +62,7 @@ vi.mock("../services/audioEngine", () => ({
 }));
 
 import { Mixer } from "../components/Mixer";
+import { defaultMultibandSettings } from "../src/audio/multiband";
 
 const defaultSettings: AudioSettings = {
   volume: 0.7,
@@ -78,6 +81,9 @@ const defaultSettings: AudioSettings = {
   limiterThreshold: -1,
 };
 
+const defaultLofi: LofiSettings = { enabled: false, drive: 0, tape: 0, crush: 0 };
+const defaultMultiband: MultibandSettings = defaultMultibandSettings();
+
 beforeEach(() => {
   bankState.mic = [false, false, false, false, false, false];
   bankState.smp = [true, false, false, false, false, false];
@@ -97,7 +103,7 @@ describe("Mixer UI (RTL)", () => {
     const onStop = vi.fn();
     const setSettings = vi.fn();
     const { container } = render(
-      <Mixer settings={defaultSettings} setSettings={setSettings} isPlaying={false} onPlayPause={onPlayPause} onStop={onStop} />
+      <Mixer settings={defaultSettings} setSettings={setSettings} lofi={defaultLofi} setLofi={vi.fn()} multiband={defaultMultiband} setMultiband={vi.fn()} isPlaying={false} onPlayPause={onPlayPause} onStop={onStop} />
     );
 
     const buttons = Array.from(container.querySelectorAll("button"));
@@ -110,7 +116,7 @@ describe("Mixer UI (RTL)", () => {
 
   it("toggles synth source from data section", () => {
     const setSettings = vi.fn();
-    render(<Mixer settings={defaultSettings} setSettings={setSettings} isPlaying={false} onPlayPause={vi.fn()} onStop={vi.fn()} />);
+    render(<Mixer settings={defaultSettings} setSettings={setSettings} lofi={defaultLofi} setLofi={vi.fn()} multiband={defaultMultiband} setMultiband={vi.fn()} isPlaying={false} onPlayPause={vi.fn()} onStop={vi.fn()} />);
 
     const synthToggle = screen.getByRole("button", { name: /synth on/i });
     fireEvent.click(synthToggle);
@@ -121,7 +127,7 @@ describe("Mixer UI (RTL)", () => {
   it("loads sample files from hidden input change", async () => {
     const setSettings = vi.fn();
     const { container } = render(
-      <Mixer settings={defaultSettings} setSettings={setSettings} isPlaying={false} onPlayPause={vi.fn()} onStop={vi.fn()} />
+      <Mixer settings={defaultSettings} setSettings={setSettings} lofi={defaultLofi} setLofi={vi.fn()} multiband={defaultMultiband} setMultiband={vi.fn()} isPlaying={false} onPlayPause={vi.fn()} onStop={vi.fn()} />
     );
 
     const input = container.querySelector("#sample-input") as HTMLInputElement;
@@ -135,11 +141,26 @@ describe("Mixer UI (RTL)", () => {
   it("toggles LO-FI from cassette switch", () => {
     const setSettings = vi.fn();
     const { container } = render(
-      <Mixer settings={defaultSettings} setSettings={setSettings} isPlaying={false} onPlayPause={vi.fn()} onStop={vi.fn()} />
+      <Mixer settings={defaultSettings} setSettings={setSettings} lofi={defaultLofi} setLofi={vi.fn()} multiband={defaultMultiband} setMultiband={vi.fn()} isPlaying={false} onPlayPause={vi.fn()} onStop={vi.fn()} />
     );
 
     const lofiButton = container.querySelector("button[aria-pressed]") as HTMLButtonElement;
     fireEvent.click(lofiButton);
     expect(audioServiceMock.setLofiEnabled).toHaveBeenCalledWith(true);
   });
+
+  it("switches the multiband compressor from the dynamics strip", () => {
+    const setMultiband = vi.fn();
+    render(
+      <Mixer settings={defaultSettings} setSettings={vi.fn()} lofi={defaultLofi} setLofi={vi.fn()} multiband={defaultMultiband} setMultiband={setMultiband} isPlaying={false} onPlayPause={vi.fn()} onStop={vi.fn()} />
+    );
+
+    const toggle = screen.getByRole("button", { name: /multiband compressor/i });
+    expect(toggle.getAttribute("aria-pressed")).toBe("false");
+    fireEvent.click(toggle);
+
+    const update = setMultiband.mock.calls[0][0] as (prev: MultibandSettings) => MultibandSettings;
+    expect(update(defaultMultiband)).toEqual({ ...defaultMultiband, enabled: true });
+    expect(screen.getAllByRole("meter")).toHaveLength(4);
+  });
 });
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { createMultiband, defaultMultibandSettings } from "../src/audio/multiband";
+
+type FakeParam = { value: number; target: number | null; setTargetAtTime: (value: number) => void };
+type FakeNode = { kind: string; type?: string; connect: (to: FakeNode) => FakeNode; disconnect: () => void; [key: string]: unknown };
+
+// Records connections and the last value each param was sent towards.
+const createFakeContext = () => {
+  const edges: [FakeNode, FakeNode][] = [];
+  const nodes: FakeNode[] = [];
+  const param = (): FakeParam => {
+    const self: FakeParam = {
+      value: 0,
+      target: null,
+      setTargetAtTime: (value: number) => {
+        self.target = value;
+      },
+    };
+    return self;
+  };
+  const node = (kind: string): FakeNode => {
+    const self: FakeNode = new Proxy(
+      {
+        kind,
+        reduction: 0,
+        connect: (to: FakeNode) => {
+          edges.push([self, to]);
+          return to;
+        },
+        disconnect: () => {},
+      } as FakeNode,
+      {
+        get: (target, key: string) => {
+          if (!(key in target)) target[key] = param();
+          return target[key];
+        },
+        set: (target, key: string, value) => {
+          target[key] = value;
+          return true;
+        },
+      }
+    );
+    nodes.push(self);
+    return self;
+  };
+  const ctx = { currentTime: 0 } as Record<string, unknown>;
+  ["BiquadFilter", "Gain", "DynamicsCompressor"].forEach((kind) => {
+    ctx[`create${kind}`] = () => node(kind);
+  });
+  const reaches = (from: FakeNode, to: FakeNode, seen = new Set<FakeNode>()): boolean => {
+    if (from === to) return true;
+    if (seen.has(from)) return false;
+    seen.add(from);
+    return edges.some(([a, b]) => a === from && reaches(b, to, seen));
+  };
+  return { ctx: ctx as unknown as BaseAudioContext, node, nodes, reaches };
+};
+
+describe("multiband compressor", () => {
+  it("splits at both crossovers and brings every band back to the output", () => {
+    const { ctx, node, nodes, reaches } = createFakeContext();
+    const input = node("input");
+    const output = node("output");
+    const multiband = createMultiband(ctx, input as unknown as AudioNode, output as unknown as AudioNode);
+    multiband.setSettings({ ...defaultMultibandSettings(), lowCrossover: 180, highCrossover: 5000 });
+
+    const filters = nodes.filter((n) => n.kind === "BiquadFilter");
+    const at = (hz: number) => filters.filter((f) => (f.frequency as FakeParam).target === hz).map((f) => f.type);
+    // Two LR4 halves at each crossover, plus the all-pass that keeps the low band in phase with the rest.
+    expect(at(180).sort()).toEqual(["highpass", "highpass", "lowpass", "lowpass"]);
+    expect(at(5000).sort()).toEqual(["allpass", "highpass", "highpass", "lowpass", "lowpass"]);
+
+    const compressors = nodes.filter((n) => n.kind === "DynamicsCompressor");
+    expect(compressors).toHaveLength(3);
+    compressors.forEach((compressor) => {
+      expect(reaches(input, compressor)).toBe(true);
+      expect(reaches(compressor, output)).toBe(true);
+    });
+  });
+
+  it("crossfades with the straight path and reports reduction only while on", () => {
+    const { ctx, node, nodes } = createFakeContext();
+    const multiband = createMultiband(ctx, node("input") as unknown as AudioNode, node("output") as unknown as AudioNode);
+    const [dry, wet] = nodes.filter((n) => n.kind === "Gain");
+    nodes.filter((n) => n.kind === "DynamicsCompressor").forEach((c, i) => {
+      c.reduction = -(i + 1) * 2;
+    });
+
+    multiband.setSettings(defaultMultibandSettings());
+    expect([(dry.gain as FakeParam).target, (wet.gain as FakeParam).target]).toEqual([1, 0]);
+    expect(multiband.getReduction()).toEqual({ low: 0, mid: 0, high: 0 });
+
+    multiband.setSettings({ ...defaultMultibandSettings(), enabled: true });
+    expect([(dry.gain as FakeParam).target, (wet.gain as FakeParam).target]).toEqual([0, 1]);
+    expect(multiband.getReduction()).toEqual({ low: 2, mid: 4, high: 6 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { detectRootMidi, yinPitch } from "../src/audio/pitchDetect";
+import { defaultSampleSlot } from "../src/audio/sampleSlot";
+import { mulberry32 } from "../src/random/seeded";
+
+const RATE = 44100;
+
+// A decaying tone with a few harmonics, like a plucked or struck note.
+const tone = (freq: number, seconds = 1) => {
+  const data = new Float32Array(Math.round(seconds * RATE));
+  for (let i = 0; i < data.length; i++) {
+    const t = i / RATE;
+    const decay = Math.exp(-t * 2);
+    data[i] = decay * (0.6 * Math.sin(2 * Math.PI * freq * t) + 0.25 * Math.sin(4 * Math.PI * freq * t) + 0.1 * Math.sin(6 * Math.PI * freq * t));
+  }
+  return data;
+};
+
+describe("pitch detection", () => {
+  it("finds the fundamental of a harmonic tone", () => {
+    expect(yinPitch(tone(440), RATE)?.freq).toBeCloseTo(440, 0);
+    expect(detectRootMidi(tone(261.63), RATE)).toBeCloseTo(60, 1);
+    expect(detectRootMidi(tone(98), RATE)).toBeCloseTo(43, 1);
+  });
+
+  it("keeps cents off the equal-tempered grid", () => {
+    const sharp = detectRootMidi(tone(440 * Math.pow(2, 0.3 / 12)), RATE)!;
+    expect(sharp).toBeGreaterThan(69.25);
+    expect(sharp).toBeLessThan(69.35);
+  });
+
+  it("reports no root for noise or silence", () => {
+    const random = mulberry32(7);
+    const noise = Float32Array.from({ length: RATE }, () => random() * 2 - 1);
+    expect(detectRootMidi(noise, RATE)).toBeNull();
+    expect(detectRootMidi(new Float32Array(RATE), RATE)).toBeNull();
+    expect(detectRootMidi(new Float32Array(100), RATE)).toBeNull();
+  });
+
+  it("roots a fresh slot on the detected note, A4 without one", () => {
+    expect(defaultSampleSlot(1, 60.12)).toMatchObject({ rootMidi: 60.12, detectedMidi: 60.12, granular: false });
+    expect(defaultSampleSlot(1)).toMatchObject({ rootMidi: 69, detectedMidi: null });
+  });
+});
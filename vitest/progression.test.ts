@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyProgressionStep,
+  createProgressionClock,
+  parseProgression,
+  parseProgressionStep,
+  progressionStepScaleLabel,
+  progressionStepSeconds,
+} from "../src/music/progression";
+import { defineTunedScale, resolveScale } from "../src/music/scales";
+import { DEFAULT_MUSIC_SETTINGS } from "../src/scene/defaults";
+import type { ProgressionSettings } from "../types";
+
+const settings = (patch: Partial<ProgressionSettings>): ProgressionSettings => ({
+  enabled: true,
+  steps: parseProgression("Dm9 G7 Cmaj7"),
+  advance: "bars",
+  every: 1,
+  ...patch,
+});
+
+describe("progression parsing", () => {
+  it("reads chord symbols as root plus the mode that carries them", () => {
+    expect(parseProgression("Dm9 -> G7 -> Cmaj7").map(({ root, scaleId }) => [root, scaleId])).toEqual([
+      [2, "dorian"],
+      [7, "mixolydian"],
+      [0, "ionian"],
+    ]);
+    expect(parseProgressionStep("Bbmaj7")).toMatchObject({ root: 10, scaleId: "ionian" });
+    expect(parseProgressionStep("F#m7b9")).toMatchObject({ root: 6, scaleId: "phrygian" });
+    expect(parseProgressionStep("E")).toMatchObject({ root: 4, scaleId: "ionian" });
+  });
+
+  it("takes explicit root:scale steps and rejects the rest", () => {
+    expect(parseProgressionStep("A:minor-pentatonic")).toEqual({ label: "A:minor-pentatonic", root: 9, scaleId: "minor-pentatonic" });
+    expect(parseProgressionStep("D:Custom")).toEqual({ label: "D:Custom", root: 2, scaleId: "custom" });
+    expect(() => parseProgressionStep("D:lydian-dominant")).toThrow(/unknown scale/);
+    expect(() => parseProgressionStep("Hm7")).toThrow(/root/);
+    expect(() => parseProgressionStep("Cwhatever")).toThrow(/unknown chord/);
+    expect(() => parseProgression("  ")).toThrow(/no steps/);
+    expect(() => parseProgression(Array(17).fill("C").join(" "))).toThrow(/16/);
+  });
+
+  it("replaces root and scale and plays the loaded user scale on custom steps", () => {
+    const [step, custom] = parseProgression("Dm9 E:custom");
+    const music = { ...DEFAULT_MUSIC_SETTINGS, noThirds: true };
+    expect(applyProgressionStep(music, null)).toBe(music);
+    expect(applyProgressionStep(music, step)).toEqual({ ...music, root: 2, scaleId: "dorian" });
+    // Without a user scale a custom step only moves the root.
+    expect(applyProgressionStep(music, custom)).toEqual({ ...music, root: 4 });
+
+    const pelog = defineTunedScale("custom:pelog", "Pelog", [120, 270, 540, 670, 785], 1200);
+    const tuned = { ...music, scaleId: pelog.id, customScale: pelog };
+    expect(resolveScale(applyProgressionStep(tuned, custom))).toBe(pelog);
+    expect(resolveScale(applyProgressionStep(tuned, step)).id).toBe("dorian");
+    expect(progressionStepScaleLabel(custom, pelog)).toBe("Pelog");
+    expect(progressionStepScaleLabel(step, pelog)).toBe("Dorian");
+  });
+});
+
+describe("progression clock", () => {
+  it("advances every N bars on the audio clock", () => {
+    const clock = createProgressionClock();
+    const bar = progressionStepSeconds(1, 120);
+    expect(bar).toBeCloseTo(2, 8);
+
+    clock.configure(settings({}));
+    expect(clock.advanceTo(10, 120).index).toBe(0);
+    expect(clock.advanceTo(10 + bar * 0.99, 120).index).toBe(0);
+    expect(clock.advanceTo(10 + bar, 120).index).toBe(1);
+    // A long gap catches up step by step and wraps around.
+    expect(clock.advanceTo(10 + bar * 3, 120).index).toBe(0);
+    expect(clock.secondsToNextChange(10 + bar * 3)).toBeCloseTo(bar, 8);
+  });
+
+  it("advances every N collisions, playing the old step on the hit that moves it", () => {
+    const clock = createProgressionClock();
+    clock.configure(settings({ advance: "collisions", every: 2 }));
+    expect(clock.countHit().index).toBe(0);
+    expect(clock.countHit().index).toBe(0);
+    expect(clock.position().index).toBe(1);
+    expect(clock.countHit().step?.label).toBe("G7");
+    // Bar time does not move a collision progression.
+    expect(clock.advanceTo(1000, 120).index).toBe(1);
+  });
+
+  it("keeps its place when steps change and restarts when switched on", () => {
+    const clock = createProgressionClock();
+    clock.configure(settings({ advance: "collisions" }));
+    clock.countHit();
+    clock.countHit();
+    expect(clock.position().index).toBe(2);
+
+    clock.configure(settings({ advance: "collisions", steps: parseProgression("Am F C G") }));
+    expect(clock.position().step?.label).toBe("C");
+    clock.configure(settings({ advance: "collisions", steps: parseProgression("Am F") }));
+    expect(clock.position().index).toBe(0);
+
+    clock.configure(settings({ enabled: false }));
+    expect(clock.position().step).toBeNull();
+    clock.configure(settings({}));
+    expect(clock.position().index).toBe(0);
+    expect(clock.jumpTo(-1).index).toBe(2);
+  });
+
+  it("returns the same position object until something moves", () => {
+    const clock = createProgressionClock();
+    const first = clock.configure(settings({}));
+    expect(clock.advanceTo(0, 120)).toBe(first);
+    expect(clock.advanceTo(1, 120)).toBe(first);
+    expect(clock.advanceTo(2, 120)).not.toBe(first);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { createRandomStream, hashSeed, mulberry32, normalizeSeed } from "../src/random/seeded";
+
+const take = (next: () => number, count: number) => Array.from({ length: count }, () => next());
+
+describe("seeded random", () => {
+  it("repeats the same sequence for the same seed", () => {
+    expect(take(mulberry32(42), 8)).toEqual(take(mulberry32(42), 8));
+    expect(take(mulberry32(42), 8)).not.toEqual(take(mulberry32(43), 8));
+  });
+
+  it("stays within [0, 1)", () => {
+    const values = take(mulberry32(7), 2000);
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+
+  it("keeps named streams independent", () => {
+    const physics = take(createRandomStream(9, "physics"), 5);
+    const engine = take(createRandomStream(9, "engine"), 5);
+    expect(physics).not.toEqual(engine);
+    expect(take(createRandomStream(9, "physics"), 5)).toEqual(physics);
+  });
+
+  it("falls back to Math.random without a seed", () => {
+    expect(createRandomStream(null, "physics")).toBe(Math.random);
+  });
+
+  it("normalizes typed seeds", () => {
+    expect(normalizeSeed("1234")).toBe(1234);
+    expect(normalizeSeed(" ")).toBeNull();
+    expect(normalizeSeed("ice cave")).toBe(hashSeed("ice cave"));
+    expect(normalizeSeed(-5.7)).toBe(5);
+    expect(normalizeSeed(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  acousticsKey,
+  defaultReverbSettings,
+  renderImpulseResponse,
+  restingRoomShape,
+  roomAcoustics,
+  type RoomShape,
+} from "../src/audio/reverb";
+
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const energy = (samples: Float32Array, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return sum;
+};
+
+// Energy of the sample-to-sample difference: a crude high-frequency measure.
+const edgeEnergy = (samples: Float32Array, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from + 1; i < to; i++) sum += (samples[i] - samples[i - 1]) ** 2;
+  return sum;
+};
+
+describe("room reverb", () => {
+  it("decays like a room and grows with the size knob", () => {
+    const shape = restingRoomShape();
+    const room = roomAcoustics(shape, 0.5);
+    expect(room.rt60).toBeGreaterThan(0.3);
+    expect(room.rt60).toBeLessThan(4);
+    expect(roomAcoustics(shape, 0.75).rt60).toBeGreaterThan(room.rt60);
+    expect(roomAcoustics(shape, 0.25).rt60).toBeLessThan(room.rt60);
+
+    expect(room.reflections).toHaveLength(6 + 6 * 5);
+    room.reflections.forEach((echo, i) => {
+      expect(echo.delay).toBeGreaterThanOrEqual(0);
+      if (i > 0) expect(echo.delay).toBeGreaterThanOrEqual(room.reflections[i - 1].delay);
+    });
+  });
+
+  it("moves the echoes when the room warps", () => {
+    const shape = restingRoomShape();
+    const warped: RoomShape = {
+      front: shape.front,
+      back: shape.back.map((p) => ({ ...p, x: p.x + 4, z: p.z * 1.5 })),
+    };
+    const settings = defaultReverbSettings();
+    const still = roomAcoustics(shape, 0.5);
+    const moved = roomAcoustics(warped, 0.5);
+    expect(acousticsKey(still, settings)).toBe(acousticsKey(roomAcoustics(restingRoomShape(), 0.5), settings));
+    expect(acousticsKey(moved, settings)).not.toBe(acousticsKey(still, settings));
+    expect(moved.rt60).toBeGreaterThan(still.rt60);
+  });
+
+  it("renders a pre-delayed impulse that damping darkens", () => {
+    const sampleRate = 22050;
+    const acoustics = roomAcoustics(restingRoomShape(), 0.5);
+    const settings = { ...defaultReverbSettings(), preDelay: 0.05, damping: 0 };
+    const bright = renderImpulseResponse(acoustics, settings, sampleRate, seeded(3));
+    const dark = renderImpulseResponse(acoustics, { ...settings, damping: 1 }, sampleRate, seeded(3));
+
+    expect(bright.left.length).toBe(bright.right.length);
+    expect(bright.left.length).toBeGreaterThanOrEqual(Math.round((0.05 + acoustics.rt60) * sampleRate));
+    const silent = Math.round(0.05 * sampleRate) - 1;
+    expect(energy(bright.left, 0, silent) + energy(bright.right, 0, silent)).toBe(0);
+
+    const lateFrom = Math.round((0.05 + acoustics.rt60 * 0.4) * sampleRate);
+    const lateTo = Math.round((0.05 + acoustics.rt60 * 0.8) * sampleRate);
+    const brightRatio = edgeEnergy(bright.left, lateFrom, lateTo) / energy(bright.left, lateFrom, lateTo);
+    const darkRatio = edgeEnergy(dark.left, lateFrom, lateTo) / energy(dark.left, lateFrom, lateTo);
+    expect(darkRatio).toBeLessThan(brightRatio * 0.5);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { RoleSettings } from "../types";
+import { collisionKindForRole, defaultRoleVoices, resolveRoleVoice, SOUND_ROLES } from "../src/audio/roles";
+
+const settings = (enabled: boolean): RoleSettings => ({ enabled, roles: defaultRoleVoices() });
+
+describe("sound roles", () => {
+  it("plays matrix-off hits as before and keeps the new events silent", () => {
+    const off = settings(false);
+    expect(resolveRoleVoice(off, undefined)).toBeUndefined();
+    expect(resolveRoleVoice(off, "wall")).toBeUndefined();
+    expect(resolveRoleVoice(off, "void")).toBeNull();
+    expect(resolveRoleVoice(off, "pop")).toBeNull();
+    expect(resolveRoleVoice(off, "shatter")).toBeNull();
+    expect(resolveRoleVoice(off, "tesla")).toBeNull();
+  });
+
+  it("hands out each role's voice and mutes a role at zero gain", () => {
+    const on = settings(true);
+    expect(resolveRoleVoice(on, "void")).toEqual(on.roles.void);
+    expect(resolveRoleVoice(on, "tesla")?.source).toBe("synth");
+
+    on.roles.floor = { ...on.roles.floor, gain: 0 };
+    expect(resolveRoleVoice(on, "floor")).toBeNull();
+  });
+
+  it("starts walls and pairs neutral and folds roles into collision kinds", () => {
+    const voices = defaultRoleVoices();
+    expect(voices.wall).toEqual({ source: "auto", slot: 0, gain: 1, pitch: 0, attack: 0, decay: 0 });
+    expect(voices.bubble).toEqual(voices.wall);
+    expect(Object.keys(voices).sort()).toEqual(SOUND_ROLES.map((role) => role.id).sort());
+
+    expect(collisionKindForRole("floor")).toBe("wall");
+    expect(collisionKindForRole("void")).toBe("void");
+    expect(collisionKindForRole("shatter")).toBe("bubble");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { PhysicsSettings } from "../types";
+import { resolveRoleVoice } from "../src/audio/roles";
+import { createRandomStream } from "../src/random/seeded";
+import { DEFAULT_ROLE_SETTINGS } from "../src/scene/defaults";
+import { cloneBubble, createRoomSimulation, type RoomSoundEvent } from "../src/sim/roomSimulation";
+
+const physics: PhysicsSettings = {
+  tempo: 1.5,
+  gravity: 0.3,
+  buddingChance: 0,
+  cannibalism: 0,
+  wind: 0.4,
+  reverseChance: 0.2,
+  blackHole: 0.2,
+  doppler: 0.5,
+  pingPong: 0,
+  weakness: 0,
+  magneto: 0.3,
+  fragmentation: 0,
+  freeze: 0,
+  geometryWarp: 0.2,
+  roomWave: 0.2,
+};
+
+const bank = { mic: [], smp: [], synthEnabled: true };
+
+// Headless run on a fixed 60 Hz clock, the way the offline bounce drives it.
+const run = (seed: number, steps: number, overrides: Partial<PhysicsSettings> = {}) => {
+  let nowMs = 0;
+  const events: RoomSoundEvent[] = [];
+  const random = createRandomStream(seed, "physics");
+  const sim = createRoomSimulation({
+    random,
+    now: () => nowMs,
+    assignSource: () => ({ type: "synth" }),
+    onSound: (event) => events.push(event),
+  });
+  for (let i = 0; i < 6; i++) sim.spawnBubble(200 + i * 100, 300 + i * 50, 100);
+  for (let frame = 1; frame <= steps; frame++) {
+    nowMs = frame * (1000 / 60);
+    sim.step({ physics: { ...physics, ...overrides }, width: 1000, height: 800, nowMs, time: nowMs * 0.002 * physics.tempo, frameId: frame, bank, poolSize: 1, running: true });
+  }
+  return { sim, events };
+};
+
+const summarize = (events: RoomSoundEvent[]) => events.map((e) => [e.trigger, e.pan.toFixed(6), e.volume.toFixed(6)]);
+
+describe("room simulation", () => {
+  it("replays the same hits for the same seed", () => {
+    const a = run(77, 600);
+    const b = run(77, 600);
+
+    expect(a.events.length).toBeGreaterThan(0);
+    expect(summarize(a.events)).toEqual(summarize(b.events));
+    expect(summarize(run(78, 600).events)).not.toEqual(summarize(a.events));
+  });
+
+  it("tags floor hits and pops with their sound roles", () => {
+    const { events } = run(3, 900, { gravity: 1, blackHole: 0, weakness: 0.6 });
+
+    expect(events.some((e) => e.trigger === "FLOOR" && e.role === "floor" && e.kind === "wall")).toBe(true);
+    expect(events.some((e) => e.trigger === "WALL" && e.role === "wall")).toBe(true);
+    const pops = events.filter((e) => e.trigger === "POP");
+    expect(pops.length).toBeGreaterThan(0);
+    expect(pops.every((e) => e.role === "pop" && e.kind === "bubble" && !e.isReverse)).toBe(true);
+  });
+
+  it("keeps swallows silent unless the role matrix plays them", () => {
+    const { sim, events } = run(9, 900, { blackHole: 1, wind: 0, magneto: 0 });
+    const swallows = events.filter((e) => e.trigger === "VOID");
+
+    expect(sim.bubbles.length).toBeLessThan(6);
+    expect(swallows.length).toBeGreaterThan(0);
+    expect(swallows.every((e) => e.role === "void" && !e.isReverse)).toBe(true);
+    expect(swallows.every((e) => resolveRoleVoice(DEFAULT_ROLE_SETTINGS, e.role) === null)).toBe(true);
+  });
+
+  it("assigns sources and keeps still rooms still when not running", () => {
+    const sim = createRoomSimulation({
+      random: createRandomStream(1, "physics"),
+      now: () => 0,
+      assignSource: () => ({ type: "synth" }),
+      onSound: () => {},
+    });
+    const b = sim.spawnBubble(100, 100, 50);
+    const { x, y } = b;
+    sim.step({ physics, width: 1000, height: 800, nowMs: 16, time: 0, frameId: 1, bank, poolSize: 1, running: false });
+
+    expect(b.audioSource).toEqual({ type: "synth" });
+    expect([b.x, b.y]).toEqual([x, y]);
+  });
+
+  it("restores a snapshot as independent copies", () => {
+    const { sim } = run(5, 10);
+    const snapshot = sim.bubbles.map(cloneBubble);
+    const restored = createRoomSimulation({ random: Math.random, now: () => 0, assignSource: () => null, onSound: () => {} });
+    restored.restore(snapshot);
+
+    expect(restored.bubbles).toHaveLength(snapshot.length);
+    restored.bubbles[0].x += 10;
+    expect(snapshot[0].x).not.toBe(restored.bubbles[0].x);
+    expect(restored.bubbles.every((b) => b.lastAudioAt === 0)).toBe(true);
+  });
+});
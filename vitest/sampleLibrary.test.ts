@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { defaultSampleSlot } from "../src/audio/sampleSlot";
+import {
+  buildLibraryArchive,
+  KIT_SLOTS,
+  kitSlotBank,
+  kitSlotIndex,
+  kitSlotLabel,
+  kitSlotsInLayout,
+  matchesSampleQuery,
+  parseLibraryArchive,
+  parseTags,
+  sanitizeKit,
+  type LibrarySample,
+  type SampleKit,
+} from "../src/library/sampleLibrary";
+import { crc32, createZip, readZip } from "../src/storage/zip";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const sample = (patch: Partial<LibrarySample> = {}): LibrarySample => ({
+  id: "s1",
+  name: "Glass Tap",
+  tags: ["glass", "mic"],
+  duration: 1.5,
+  sampleRate: 48000,
+  mimeType: "audio/wav",
+  size: 4,
+  createdAt: 1,
+  ...patch,
+});
+
+describe("sample library", () => {
+  it("writes zips that read back byte for byte", async () => {
+    expect(crc32(bytes("123456789"))).toBe(0xcbf43926);
+    const entries = [
+      { name: "manifest.json", data: bytes("{}") },
+      { name: "samples/ą.wav", data: new Uint8Array([0, 1, 2, 255]) },
+    ];
+    const read = await readZip(await createZip(entries).arrayBuffer());
+    expect(read.map((entry) => entry.name)).toEqual(["manifest.json", "samples/ą.wav"]);
+    expect(Array.from(read[1].data)).toEqual([0, 1, 2, 255]);
+    await expect(readZip(new ArrayBuffer(40))).rejects.toThrow("Not a zip archive.");
+  });
+
+  it("round-trips samples and kits through an archive", () => {
+    const kitSlots: SampleKit["slots"] = Array.from({ length: KIT_SLOTS }, () => null);
+    kitSlots[0] = { sampleId: "s1", settings: { ...defaultSampleSlot(1.5), loop: true } };
+    kitSlots[7] = { sampleId: "s2", settings: null };
+    const kit: SampleKit = { id: "k1", name: "Rehearsal", createdAt: 2, slots: kitSlots };
+    const files = new Map([["s1", new Uint8Array([1, 2, 3, 4])]]);
+    const entries = buildLibraryArchive([sample(), sample({ id: "s2" })], files, [kit]);
+    expect(entries.map((entry) => entry.name)).toEqual(["manifest.json", "samples/s1.wav"]);
+
+    const parsed = parseLibraryArchive(entries);
+    expect(parsed.samples).toHaveLength(1);
+    expect(parsed.samples[0].sample).toEqual(sample());
+    expect(parsed.kits[0].slots[0]?.settings?.loop).toBe(true);
+    // s2 had no file in the archive: the kit still names it, without settings to check against.
+    expect(parsed.kits[0].slots[7]).toEqual({ sampleId: "s2", settings: null });
+    expect(parsed.kits[0].slots.filter(Boolean)).toHaveLength(2);
+  });
+
+  it("reads kits saved with six-slot banks into the full layout", () => {
+    const legacy = Array.from({ length: 12 }, (_, i) => ({ sampleId: `s${i}`, settings: null }));
+    const kit = sanitizeKit({ id: "old", name: "Six", slots: legacy }, () => undefined)!;
+
+    expect(kit.slots).toHaveLength(KIT_SLOTS);
+    expect(kit.slots[kitSlotIndex("mic", 5)]?.sampleId).toBe("s5");
+    expect(kit.slots[kitSlotIndex("mic", 6)]).toBeNull();
+    expect(kit.slots[kitSlotIndex("smp", 0)]?.sampleId).toBe("s6");
+    expect(kit.slots[kitSlotIndex("smp", 5)]?.sampleId).toBe("s11");
+    expect(kit.slots.filter(Boolean)).toHaveLength(12);
+    expect(kitSlotsInLayout(kit.slots)).toEqual(kit.slots);
+  });
+
+  it("rejects archives that are not a library or come from a newer app", () => {
+    expect(() => parseLibraryArchive([{ name: "x.wav", data: bytes("") }])).toThrow("No manifest.json");
+    expect(() => parseLibraryArchive([{ name: "manifest.json", data: bytes('{"version":99}') }])).toThrow("newer");
+  });
+
+  it("maps kit slots to banks and matches searches on names and tags", () => {
+    expect(kitSlotBank(0)).toEqual({ bank: "mic", index: 0 });
+    expect(kitSlotBank(11)).toEqual({ bank: "mic", index: 11 });
+    expect(kitSlotBank(23)).toEqual({ bank: "smp", index: 11 });
+    expect(kitSlotLabel(12)).toBe("S01");
+    expect(kitSlotLabel(23)).toBe("S12");
+    expect(parseTags("Glass, metal  glass")).toEqual(["glass", "metal"]);
+    expect(matchesSampleQuery(sample(), "tap mic")).toBe(true);
+    expect(matchesSampleQuery(sample(), "metal")).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultSampleSlot,
+  detectTransients,
+  findSilenceBounds,
+  pickSampleRegion,
+  sampleEnvelope,
+  sanitizeSampleSlot,
+} from "../src/audio/sampleSlot";
+
+const RATE = 8000;
+
+// Silence with bursts of noise-free sine starting at the given seconds.
+const bursts = (duration: number, starts: number[], length = 0.1, level = 0.8) => {
+  const data = new Float32Array(Math.round(duration * RATE));
+  for (const start of starts) {
+    const from = Math.round(start * RATE);
+    for (let i = 0; i < length * RATE && from + i < data.length; i++) {
+      data[from + i] = level * Math.sin((2 * Math.PI * 440 * i) / RATE);
+    }
+  }
+  return data;
+};
+
+describe("sample slots", () => {
+  it("finds where the sound starts and stops", () => {
+    const bounds = findSilenceBounds(bursts(2, [0.5], 0.5), RATE);
+    expect(bounds.start).toBeGreaterThan(0.4);
+    expect(bounds.start).toBeLessThan(0.5);
+    expect(bounds.end).toBeGreaterThan(1);
+    expect(bounds.end).toBeLessThan(1.15);
+    expect(findSilenceBounds(new Float32Array(RATE), RATE)).toEqual({ start: 0, end: 1 });
+  });
+
+  it("detects each hit once inside the asked range", () => {
+    const data = bursts(2, [0.2, 0.7, 1.4]);
+    const onsets = detectTransients(data, RATE, 0.5);
+    expect(onsets).toHaveLength(3);
+    [0.2, 0.7, 1.4].forEach((at, i) => expect(Math.abs(onsets[i] - at)).toBeLessThan(0.05));
+    expect(detectTransients(data, RATE, 0.5, 0.5, 1)).toHaveLength(1);
+  });
+
+  it("keeps points ordered inside the buffer and slices inside the region", () => {
+    const slot = sanitizeSampleSlot(
+      { ...defaultSampleSlot(2), start: 1.5, end: 0.5, loopStart: -1, gain: 40, rootMidi: 200, slices: [1.8, 0.2, 1.6, 1.6, NaN] },
+      2
+    );
+    expect(slot.start).toBe(1.5);
+    expect(slot.end).toBeCloseTo(1.51);
+    expect(slot.loopStart).toBe(1.5);
+    expect(slot.gain).toBe(12);
+    expect(slot.rootMidi).toBe(108);
+    expect(slot.slices).toEqual([]);
+
+    const sliced = sanitizeSampleSlot({ ...defaultSampleSlot(2), start: 0.5, slices: [1.8, 0.2, 1.6, 1.6, NaN, 1.995] }, 2);
+    expect(sliced.slices).toEqual([1.6, 1.8]);
+  });
+
+  it("plays a random slice of a sliced slot", () => {
+    const slot = { ...defaultSampleSlot(2), slices: [0, 0.5, 1.2] };
+    expect(pickSampleRegion(slot, () => 0)).toEqual({ from: 0, to: 0.5 });
+    expect(pickSampleRegion(slot, () => 0.99)).toEqual({ from: 1.2, to: 2 });
+    expect(pickSampleRegion(defaultSampleSlot(2), () => 0.5)).toEqual({ from: 0, to: 2 });
+  });
+
+  it("shapes one-shots by the region and loops by the envelope", () => {
+    const shot = sampleEnvelope(defaultSampleSlot(1), 1);
+    expect(shot).toEqual({ attack: 0.01, decayEnd: 0.01, sustain: 1, releaseAt: 0.92, end: 1 });
+
+    const looped = sampleEnvelope({ ...defaultSampleSlot(1), loop: true, attack: 0.1, decay: 0.2, sustain: 0.5, hold: 1, release: 0.5 }, 1);
+    expect(looped.end).toBeCloseTo(1.8);
+    expect(looped.decayEnd).toBeCloseTo(0.3);
+    expect(looped.releaseAt).toBeCloseTo(1.3);
+
+    const cut = sampleEnvelope(defaultSampleSlot(1), 1, { attack: 0.02, decay: 0.3 });
+    expect(cut.end).toBeCloseTo(0.32);
+    expect(cut.releaseAt).toBeCloseTo(0.02);
+  });
+});
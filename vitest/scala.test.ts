@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { applyKeyboardMap, parseKbm, parseScala, parseScaleSteps } from "../src/music/scala";
+import { defineTunedScale, resolveScale, sanitizeCustomScale } from "../src/music/scales";
+import { quantizeMidiToScale } from "../src/music/quantize";
+import { midiToFreq } from "../src/music/notes";
+
+const JUST_MAJOR = `! just.scl
+!
+Just major
+ 7
+!
+ 9/8
+ 5/4
+ 4/3
+ 3/2
+ 5/3
+ 15/8
+ 2/1
+`;
+
+describe("scala parsing", () => {
+  it("reads ratios, cents and the period", () => {
+    const scale = parseScala(JUST_MAJOR);
+    expect(scale.description).toBe("Just major");
+    expect(scale.cents).toHaveLength(7);
+    expect(scale.cents[0]).toBe(0);
+    expect(scale.cents[2]).toBeCloseTo(386.3137, 3);
+    expect(scale.period).toBeCloseTo(1200, 8);
+
+    const bp = parseScala("Tritave steps\n2\n950.0 cents\n3\n");
+    expect(bp.cents[1]).toBe(950);
+    expect(bp.period).toBeCloseTo(1901.955, 3);
+  });
+
+  it("rejects broken files", () => {
+    expect(() => parseScala("Short\n3\n9/8\n2/1\n")).toThrow(/2 of 3/);
+    expect(() => parseScala("Bad\n1\n-3/2\n")).toThrow(/Invalid ratio/);
+    expect(() => parseScaleSteps("  ")).toThrow();
+  });
+
+  it("maps degree 0 from the keyboard reference and drops unmapped degrees", () => {
+    const scale = defineTunedScale("custom:just", "Just", parseScala(JUST_MAJOR).cents, 1200);
+    // Middle C plays 1/1, A above it is reference at 440 Hz and maps to degree 5 (5/3).
+    const kbm = parseKbm(`! kbm: white keys, B left unmapped
+12
+0
+127
+60
+69
+440.0
+7
+0
+x
+1
+x
+2
+3
+x
+4
+x
+5
+x
+x
+`);
+    expect(kbm.mapping[1]).toBeNull();
+    const mapped = applyKeyboardMap(scale, kbm);
+    expect(mapped.tuning?.reference?.midi).toBe(60);
+    expect(mapped.tuning?.reference?.freq).toBeCloseTo(264, 2);
+    expect(mapped.tuning?.cents).toHaveLength(6);
+  });
+});
+
+describe("tuned scales", () => {
+  it("quantizes to exact cent degrees across periods", () => {
+    const scale = defineTunedScale("custom:just", "Just", parseScala(JUST_MAJOR).cents, 1200);
+    expect(scale.intervals).toEqual([0, 2, 4, 5, 7, 9, 11]);
+
+    const third = quantizeMidiToScale(63.9, { rootMidi: 60, scale, mode: "nearest" });
+    expect(third).toBeCloseTo(63.863137, 3);
+    const upper = quantizeMidiToScale(75.9, { rootMidi: 60, scale, mode: "nearest" });
+    expect(upper).toBeCloseTo(75.863137, 3);
+    expect(quantizeMidiToScale(63.9, { rootMidi: 60, scale, mode: "nearest", noThirds: true })).toBeCloseTo(64.980450, 3);
+    expect(
+      quantizeMidiToScale(63.9, { rootMidi: 60, scale, mode: "nearest", noImmediateRepeat: true, lastMidi: third })
+    ).not.toBeCloseTo(third, 5);
+  });
+
+  it("honours the tuning reference in midiToFreq", () => {
+    expect(midiToFreq(60, { midi: 60, freq: 264 })).toBeCloseTo(264, 8);
+    expect(midiToFreq(63.863137, { midi: 60, freq: 264 })).toBeCloseTo(330, 3);
+  });
+
+  it("resolves and sanitizes custom scales carried by music settings", () => {
+    const scale = defineTunedScale("custom:pelog", "Pelog", [120, 270, 540, 670, 785], 1200);
+    expect(resolveScale({ scaleId: "custom:pelog", customScale: scale })).toBe(scale);
+    expect(resolveScale({ scaleId: "dorian", customScale: scale }).id).toBe("dorian");
+
+    expect(sanitizeCustomScale(JSON.parse(JSON.stringify(scale)))).toEqual(scale);
+    expect(sanitizeCustomScale({ ...scale, id: "dorian" })).toBeNull();
+  });
+});
@@ -0,0 +1,435 @@
+import { describe, expect, it } from "vitest";
+import { emptyMarkovTable, trainMarkovTable } from "../src/music/melody";
+import { parseProgression } from "../src/music/progression";
+import { defineTunedScale } from "../src/music/scales";
+import { legacyAuxSettings } from "../src/audio/auxSends";
+import {
+  createScenePreset,
+  duplicateScenePreset,
+  mergeImportedPresets,
+  migrateScenePreset,
+  parseScenePresetFile,
+  serializeScenePreset,
+  SCENE_PRESET_VERSION,
+  type SceneState,
+} from "../src/scene/presets";
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  DEFAULT_BANK_SETTINGS,
+  DEFAULT_GROOVE_SETTINGS,
+  DEFAULT_GYRO_SETTINGS,
+  DEFAULT_HARMONY_SETTINGS,
+  DEFAULT_LOFI_SETTINGS,
+  DEFAULT_MELODY_SETTINGS,
+  DEFAULT_MUSIC_SETTINGS,
+  DEFAULT_PHYSICS_KNOBS,
+  DEFAULT_ROLE_SETTINGS,
+  DEFAULT_PROGRESSION_SETTINGS,
+  DEFAULT_REVERB_SETTINGS,
+  DEFAULT_IMPULSE_SETTINGS,
+  DEFAULT_FX_RACK_SETTINGS,
+  DEFAULT_AUX_SETTINGS,
+  DEFAULT_MULTIBAND_SETTINGS,
+  DEFAULT_SYNTH_SETTINGS,
+  DEFAULT_TEMPO_SETTINGS,
+  DEFAULT_TIMBRE_SETTINGS,
+} from "../src/scene/defaults";
+
+const scene: SceneState = {
+  audio: { ...DEFAULT_AUDIO_SETTINGS, volume: 0.5, low: -6 },
+  physics: { ...DEFAULT_PHYSICS_KNOBS, gravity: 0.4, blackHole: 0.9 },
+  music: { ...DEFAULT_MUSIC_SETTINGS, root: 2, scaleId: "dorian" },
+  lofi: { enabled: true, drive: 0.3, tape: 0.6, crush: 0.1 },
+  gyro: { pan: -0.5, depth: 0.25, width: 0, auto: true },
+  tempo: { ...DEFAULT_TEMPO_SETTINGS, bpm: 96, delaySync: true, delayRight: "1/8t" },
+  synth: { engine: "glass", params: { glass: { decay: 5, inharmonic: 0.9, brightness: 0.2 } } },
+  timbre: { enabled: true, routes: [{ source: "jelly", target: "decay", amount: -0.7 }] },
+  harmony: { ...DEFAULT_HARMONY_SETTINGS, enabled: true, voicing: "quartal", voices: 4 },
+  progression: { enabled: true, steps: parseProgression("Dm9 G7 Cmaj7"), advance: "collisions", every: 12 },
+  groove: { enabled: true, division: "1/8t", swing: 0.4, humanize: 0, maxLatencyMs: 300 },
+  melody: { ...DEFAULT_MELODY_SETTINGS, enabled: true, contour: "valley", markov: true, markovTable: trainMarkovTable(emptyMarkovTable(), [0, 2, 4, 2, 0]) },
+  roles: {
+    enabled: true,
+    roles: { ...DEFAULT_ROLE_SETTINGS.roles, void: { source: "smp", slot: 2, gain: 1.4, pitch: -19, attack: 0.2, decay: 3 } },
+  },
+  banks: {
+    ...DEFAULT_BANK_SETTINGS,
+    smpSlots: 9,
+    mode: "weighted",
+    rules: {
+      ...DEFAULT_BANK_SETTINGS.rules,
+      smp: DEFAULT_BANK_SETTINGS.rules.smp.map((rule, i) => (i === 2 ? { weight: 2.5, minSize: 0.4, maxSize: 1, zone: "back" } : rule)),
+    },
+  },
+  reverb: { followRoom: false, size: 0.8, preDelay: 0.05, damping: 0.2, diffusion: 0.3, early: 0.9 },
+  impulse: { source: "user", sampleId: "ir-1", name: "Stairwell", start: 0.1, end: 0.8, reverse: true, stretch: 1.5, normalize: false },
+  fxRack: {
+    slots: [
+      { id: "fx-a", effect: "shimmer", bypass: false, params: { mix: 0.5, decay: 0.7, tone: 4000 } },
+      { id: "fx-b", effect: "filter", bypass: true, params: { mode: 1, cutoff: 0.3, resonance: 4 } },
+    ],
+  },
+  aux: {
+    sends: {
+      reverb: { source: "depth", low: 0.2, high: 0.9, curve: 0.5, roles: { wall: 1, floor: 0.5, bubble: 1, void: 1, pop: 0, shatter: 1, tesla: 1 } },
+      delay: { source: "size", low: 1, high: 0, curve: -0.4, roles: { wall: 0, floor: 0, bubble: 1, void: 1, pop: 1, shatter: 1, tesla: 0.3 } },
+      fxA: { source: "fixed", low: 0, high: 0.6, curve: 0, roles: { wall: 1, floor: 1, bubble: 1, void: 1, pop: 1, shatter: 1, tesla: 1 } },
+      fxB: { source: "depth", low: 0, high: 0.3, curve: 1, roles: { wall: 1, floor: 1, bubble: 1, void: 0.2, pop: 1, shatter: 1, tesla: 1 } },
+    },
+    returns: { fxA: { effect: "flanger", level: 0.4 }, fxB: { effect: "shimmer", level: 1 } },
+  },
+  multiband: {
+    enabled: true,
+    lowCrossover: 150,
+    highCrossover: 4500,
+    bands: {
+      low: { threshold: -24, ratio: 4, gain: 2 },
+      mid: { threshold: -18, ratio: 2, gain: 0 },
+      high: { threshold: -30, ratio: 6, gain: -1.5 },
+    },
+  },
+  seed: 1234,
+};
+
+describe("scene presets", () => {
+  it("round-trips through the exported file format", () => {
+    const preset = createScenePreset("Ice Cave", scene, 1000);
+    const [restored] = parseScenePresetFile(serializeScenePreset(preset));
+
+    expect(restored).toEqual(preset);
+    expect(restored.version).toBe(SCENE_PRESET_VERSION);
+    expect(restored.music.scaleIndex).toBeGreaterThan(0);
+  });
+
+  it("fills missing fields from defaults and clamps out-of-range values", () => {
+    const preset = migrateScenePreset({
+      name: "Partial",
+      audio: { volume: 4 },
+      physics: { tempo: -1, wind: "strong" },
+      music: { scaleId: "not-a-scale", root: 14 },
+      gyro: { pan: 3 },
+    });
+
+    expect(preset.audio.volume).toBe(1);
+    expect(preset.audio.compRatio).toBe(DEFAULT_AUDIO_SETTINGS.compRatio);
+    expect(preset.physics.tempo).toBe(0);
+    expect(preset.physics.wind).toBe(DEFAULT_PHYSICS_KNOBS.wind);
+    expect(preset.music.scaleId).toBe(DEFAULT_MUSIC_SETTINGS.scaleId);
+    expect(preset.music.root).toBe(11);
+    expect(preset.lofi).toEqual(DEFAULT_LOFI_SETTINGS);
+    expect(preset.gyro).toEqual({ ...DEFAULT_GYRO_SETTINGS, pan: 1 });
+  });
+
+  it("migrates version 1 documents to a free-running seed", () => {
+    const preset = migrateScenePreset({ version: 1, name: "Old", physics: { gravity: 0.2 } });
+
+    expect(preset.version).toBe(SCENE_PRESET_VERSION);
+    expect(preset.seed).toBeNull();
+    expect(preset.physics.gravity).toBe(0.2);
+  });
+
+  it("migrates version 2 documents to the internal clock and drops unknown divisions", () => {
+    const preset = migrateScenePreset({ version: 2, name: "Seeded", seed: 7 });
+
+    expect(preset.seed).toBe(7);
+    expect(preset.tempo).toEqual(DEFAULT_TEMPO_SETTINGS);
+
+    const current = migrateScenePreset({ version: SCENE_PRESET_VERSION, tempo: { bpm: 500, source: "midi", delayLeft: "1/3" } });
+    expect(current.tempo.bpm).toBe(240);
+    expect(current.tempo.source).toBe("midi");
+    expect(current.tempo.delayLeft).toBe(DEFAULT_TEMPO_SETTINGS.delayLeft);
+  });
+
+  it("migrates version 3 documents to the classic synth and cleans engine params", () => {
+    const preset = migrateScenePreset({ version: 3, name: "Clocked", tempo: { bpm: 100 } });
+
+    expect(preset.tempo.bpm).toBe(100);
+    expect(preset.synth).toEqual({ engine: "classic", params: {} });
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      synth: { engine: "theremin", params: { pluck: { decay: 99, brightness: "x" }, bogus: { a: 1 } } },
+    });
+    expect(current.synth.engine).toBe(DEFAULT_SYNTH_SETTINGS.engine);
+    expect(current.synth.params).toEqual({ pluck: { decay: 4, brightness: 0.6 } });
+  });
+
+  it("migrates version 4 documents with the timbre routes switched off and drops bad routes", () => {
+    const preset = migrateScenePreset({ version: 4, name: "Engines", synth: { engine: "pad" } });
+
+    expect(preset.synth.engine).toBe("pad");
+    expect(preset.timbre).toEqual({ ...DEFAULT_TIMBRE_SETTINGS, enabled: false });
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      timbre: {
+        enabled: true,
+        routes: [
+          { source: "hue", target: "decay", amount: 3 },
+          { source: "hue", target: "decay", amount: 0.1 },
+          { source: "mood", target: "decay", amount: 0.5 },
+          { source: "speed", target: "resonance" },
+        ],
+      },
+    });
+    expect(current.timbre.routes).toEqual([
+      { source: "hue", target: "decay", amount: 1 },
+      { source: "speed", target: "resonance", amount: 0 },
+    ]);
+  });
+
+  it("keeps a custom scale only together with the scene that selects it", () => {
+    const customScale = defineTunedScale("custom:slendro", "Slendro", [240, 480, 720, 960], 1200);
+    const migrated = migrateScenePreset({ version: 5, music: { scaleId: "dorian" } });
+    expect(migrated.music.customScale).toBeNull();
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      music: { scaleId: customScale.id, scaleIndex: 0.3, customScale },
+    });
+    expect(current.music.scaleId).toBe(customScale.id);
+    expect(current.music.customScale).toEqual(customScale);
+    expect(current.music.scaleIndex).toBeCloseTo(0.3, 8);
+
+    const orphan = migrateScenePreset({ version: SCENE_PRESET_VERSION, music: { scaleId: "custom:missing" } });
+    expect(orphan.music.scaleId).toBe(DEFAULT_MUSIC_SETTINGS.scaleId);
+  });
+
+  it("migrates version 6 documents with chords off and clamps harmony settings", () => {
+    const migrated = migrateScenePreset({ version: 6, name: "Tuned" });
+    expect(migrated.harmony).toEqual(DEFAULT_HARMONY_SETTINGS);
+    expect(migrated.harmony.enabled).toBe(false);
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      harmony: { enabled: true, voicing: "clusters", voices: 9.4, spread: -1, byCollision: true, rules: { wall: "quartal", void: 3 } },
+    });
+    expect(current.harmony).toEqual({
+      enabled: true,
+      voicing: DEFAULT_HARMONY_SETTINGS.voicing,
+      voices: 5,
+      spread: 0,
+      byCollision: true,
+      rules: { wall: "quartal", bubble: DEFAULT_HARMONY_SETTINGS.rules.bubble, void: DEFAULT_HARMONY_SETTINGS.rules.void },
+    });
+  });
+
+  it("migrates version 7 documents with the progression off and drops unknown steps", () => {
+    const migrated = migrateScenePreset({ version: 7, name: "Chords" });
+    expect(migrated.progression).toEqual(DEFAULT_PROGRESSION_SETTINGS);
+    expect(migrated.progression.enabled).toBe(false);
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      progression: {
+        enabled: true,
+        steps: [
+          { label: "Dm9", root: 14, scaleId: "dorian" },
+          { root: 7, scaleId: "mixolydian" },
+          { label: "X", root: 0, scaleId: "custom:missing" },
+          { label: "A:custom", root: 9, scaleId: "custom" },
+          "Cmaj7",
+        ],
+        advance: "bars",
+        every: 40,
+      },
+    });
+    expect(current.progression).toEqual({
+      enabled: true,
+      steps: [
+        { label: "Dm9", root: 2, scaleId: "dorian" },
+        { label: "G:mixolydian", root: 7, scaleId: "mixolydian" },
+        { label: "A:custom", root: 9, scaleId: "custom" },
+      ],
+      advance: "bars",
+      every: 16,
+    });
+  });
+
+  it("migrates version 8 documents to the nearest-note quantizer and resets a broken table", () => {
+    const migrated = migrateScenePreset({ version: 8, name: "Phrases" });
+    expect(migrated.melody).toEqual(DEFAULT_MELODY_SETTINGS);
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      melody: { enabled: true, contour: "zigzag", phraseLength: 40, stepWeight: 2, markov: true, markovTable: [[1, 2, 3]] },
+    });
+    expect(current.melody).toEqual({
+      ...DEFAULT_MELODY_SETTINGS,
+      enabled: true,
+      phraseLength: 16,
+      stepWeight: 1,
+      markov: true,
+      markovTable: emptyMarkovTable(),
+    });
+
+    const table = emptyMarkovTable();
+    table[0][7] = 3;
+    table[7][0] = -2;
+    const trained = migrateScenePreset({ version: SCENE_PRESET_VERSION, melody: { markovTable: table } });
+    expect(trained.melody.markovTable[0][7]).toBe(3);
+    expect(trained.melody.markovTable[7][0]).toBe(0);
+  });
+
+  it("migrates version 9 documents to free time and clamps the groove", () => {
+    const migrated = migrateScenePreset({ version: 9, name: "Free" });
+    expect(migrated.groove).toEqual(DEFAULT_GROOVE_SETTINGS);
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      groove: { enabled: true, division: "1/4", swing: 3, humanize: -1, maxLatencyMs: 5 },
+    });
+    expect(current.groove).toEqual({ enabled: true, division: DEFAULT_GROOVE_SETTINGS.division, swing: 1, humanize: 0, maxLatencyMs: 20 });
+  });
+
+  it("migrates version 10 documents to one voice and clamps the role matrix", () => {
+    const migrated = migrateScenePreset({ version: 10, name: "Plain" });
+    expect(migrated.roles).toEqual(DEFAULT_ROLE_SETTINGS);
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      roles: { enabled: true, roles: { floor: { source: "mic", slot: 15, gain: 5, pitch: 3.6, attack: -1, decay: 10 }, pop: "loud" } },
+    });
+    expect(current.roles.enabled).toBe(true);
+    expect(current.roles.roles.floor).toEqual({ source: DEFAULT_ROLE_SETTINGS.roles.floor.source, slot: 11, gain: 2, pitch: 4, attack: 0, decay: 4 });
+    expect(current.roles.roles.pop).toEqual(DEFAULT_ROLE_SETTINGS.roles.pop);
+  });
+
+  it("migrates version 11 documents to six-slot banks and clamps the slot rules", () => {
+    const migrated = migrateScenePreset({ version: 11, name: "Six" });
+    expect(migrated.banks).toEqual(DEFAULT_BANK_SETTINGS);
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      banks: { micSlots: 30, smpSlots: 0.2, mode: "shuffle", synthWeight: -1, rules: { mic: [{ weight: 9, minSize: 0.8, maxSize: 0.3, zone: "up" }] } },
+    });
+    expect(current.banks.micSlots).toBe(12);
+    expect(current.banks.smpSlots).toBe(1);
+    expect(current.banks.mode).toBe(DEFAULT_BANK_SETTINGS.mode);
+    expect(current.banks.synthWeight).toBe(0);
+    expect(current.banks.rules.mic[0]).toEqual({ weight: 4, minSize: 0.8, maxSize: 0.8, zone: "any" });
+    expect(current.banks.rules.mic).toHaveLength(12);
+    expect(current.banks.rules.smp).toEqual(DEFAULT_BANK_SETTINGS.rules.smp);
+  });
+
+  it("migrates version 12 documents to the room reverb and clamps its knobs", () => {
+    const migrated = migrateScenePreset({ version: 12, name: "Hall" });
+    expect(migrated.reverb).toEqual(DEFAULT_REVERB_SETTINGS);
+
+    const current = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      reverb: { followRoom: "yes", size: 3, preDelay: 1, damping: -1, diffusion: 0.25 },
+    });
+    expect(current.reverb).toEqual({
+      followRoom: DEFAULT_REVERB_SETTINGS.followRoom,
+      size: 1,
+      preDelay: 0.2,
+      damping: 0,
+      diffusion: 0.25,
+      early: DEFAULT_REVERB_SETTINGS.early,
+    });
+  });
+
+  it("migrates version 13 documents to the room impulse and drops dangling user IRs", () => {
+    expect(migrateScenePreset({ version: 13, name: "Room" }).impulse).toEqual(DEFAULT_IMPULSE_SETTINGS);
+
+    const orphan = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      impulse: { source: "user", sampleId: "", name: "Gone", start: 0.995, end: 0.2, stretch: 9 },
+    });
+    expect(orphan.impulse).toEqual({ ...DEFAULT_IMPULSE_SETTINGS, start: 0.99, end: 1, stretch: 2 });
+
+    const bundled = migrateScenePreset({ version: SCENE_PRESET_VERSION, impulse: { source: "ice", sampleId: "ir-1", name: "x" } });
+    expect(bundled.impulse).toMatchObject({ source: "ice", sampleId: null, name: "" });
+  });
+
+  it("migrates version 14 documents to an empty rack and cleans up slots", () => {
+    expect(migrateScenePreset({ version: 14, name: "Dry" }).fxRack).toEqual(DEFAULT_FX_RACK_SETTINGS);
+
+    const messy = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      fxRack: {
+        slots: [
+          { id: "a", effect: "chorus", params: { rate: 99, depth: "deep" } },
+          { id: "a", effect: "filter", bypass: true, params: { mode: 1.6 } },
+          { id: "b", effect: "fuzz" },
+          ...Array.from({ length: 10 }, (_, i) => ({ id: `w${i}`, effect: "widener" })),
+        ],
+      },
+    });
+    const { slots } = messy.fxRack;
+    expect(slots).toHaveLength(8);
+    expect(slots[0]).toEqual({ id: "a", effect: "chorus", bypass: false, params: { rate: 5, depth: 0.5, mix: 0.5 } });
+    expect(slots[1].id).not.toBe("a");
+    expect(slots[1]).toMatchObject({ effect: "filter", bypass: true, params: { mode: 2, cutoff: 0.75, resonance: 0.7 } });
+    expect(slots.slice(2).every((slot) => slot.effect === "widener")).toBe(true);
+  });
+
+  it("migrates version 15 documents to the full fixed sends they were made with", () => {
+    const old = migrateScenePreset({ version: 15, name: "Wet" }).aux;
+    expect(old).toEqual(legacyAuxSettings());
+    expect(old.sends.reverb).toMatchObject({ source: "fixed", high: 1 });
+    expect(old.sends.delay).toMatchObject({ source: "fixed", high: 1 });
+    expect(old.sends.fxA.high).toBe(0);
+
+    const messy = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      aux: {
+        sends: { reverb: { source: "height", low: -1, high: 3, curve: 9, roles: { pop: 4, wall: "loud" } } },
+        returns: { fxA: { effect: "tiltEq", level: 2 }, fxB: { effect: "phaser" } },
+      },
+    }).aux;
+    expect(messy.sends.reverb).toMatchObject({ source: "depth", low: 0, high: 1, curve: 1 });
+    expect(messy.sends.reverb.roles).toMatchObject({ pop: 1, wall: 1 });
+    expect(messy.sends.delay).toEqual(DEFAULT_AUX_SETTINGS.sends.delay);
+    expect(messy.returns).toEqual({ fxA: { effect: "chorus", level: 1 }, fxB: { effect: "phaser", level: 0.8 } });
+  });
+
+  it("migrates version 16 documents with the multiband switched off and clamps its bands", () => {
+    expect(migrateScenePreset({ version: 16, name: "Loud" }).multiband).toEqual(DEFAULT_MULTIBAND_SETTINGS);
+
+    const messy = migrateScenePreset({
+      version: SCENE_PRESET_VERSION,
+      audio: { limiterThreshold: -30 },
+      multiband: {
+        enabled: "yes",
+        lowCrossover: 5,
+        highCrossover: 40000,
+        bands: { low: { threshold: 12, ratio: 0.5, gain: "hot" }, high: { ratio: 50 } },
+      },
+    });
+    expect(messy.audio.limiterThreshold).toBe(-12);
+    expect(messy.multiband).toMatchObject({ enabled: false, lowCrossover: 40, highCrossover: 12000 });
+    expect(messy.multiband.bands.low).toEqual({ threshold: 0, ratio: 1, gain: 0 });
+    expect(messy.multiband.bands.mid).toEqual(DEFAULT_MULTIBAND_SETTINGS.bands.mid);
+    expect(messy.multiband.bands.high).toMatchObject({ ratio: 20 });
+  });
+
+  it("gives imported scenes fresh ids when theirs are taken, also within one import", () => {
+    const original = createScenePreset("Hall", scene, 1000);
+    const other = createScenePreset("Cave", scene, 1000);
+    const merged = mergeImportedPresets([original], [original, other, other], 2000);
+
+    expect(merged).toHaveLength(4);
+    expect(new Set(merged.map((preset) => preset.id)).size).toBe(4);
+    expect(merged[0]).toBe(original);
+    expect(merged[1]).toMatchObject({ name: "Hall", physics: original.physics });
+    expect(merged[2]).toBe(other);
+    expect(merged[3].name).toBe("Cave");
+  });
+
+  it("rejects foreign documents and newer versions", () => {
+    expect(() => migrateScenePreset("nope")).toThrow();
+    expect(() => migrateScenePreset({ format: "something-else" })).toThrow();
+    expect(() => migrateScenePreset({ version: SCENE_PRESET_VERSION + 1 })).toThrow(/newer/);
+  });
+
+  it("duplicates with a fresh id and copied state", () => {
+    const preset = createScenePreset("Hall", scene);
+    const copy = duplicateScenePreset(preset);
+
+    expect(copy.id).not.toBe(preset.id);
+    expect(copy.name).toBe("Hall copy");
+    expect(copy.physics).toEqual(preset.physics);
+  });
+});
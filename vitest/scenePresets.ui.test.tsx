@@ -0,0 +1,30 @@
+/** @vitest-environment jsdom */
+
+import React from "react";
+import { cleanup, render, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ScenePresets } from "../components/ScenePresets";
+import { createScenePreset, SCENE_PRESET_VERSION, type SceneState } from "../src/scene/presets";
+
+afterEach(() => {
+  cleanup();
+  window.localStorage.clear();
+});
+
+describe("ScenePresets UI (RTL)", () => {
+  it("keeps stored scenes it cannot read when it saves the library", async () => {
+    const valid = createScenePreset("Hall", {} as SceneState, 1000);
+    const newer = { format: valid.format, version: SCENE_PRESET_VERSION + 1, id: "from-the-future", name: "Later" };
+    window.localStorage.setItem("glassroom.scenes", JSON.stringify([newer, valid]));
+    const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+    render(<ScenePresets getScene={() => ({}) as SceneState} onLoad={vi.fn()} seed={null} onSeedChange={vi.fn()} />);
+
+    await waitFor(() => expect(setItem).toHaveBeenCalledWith("glassroom.scenes", expect.any(String)));
+    const stored = JSON.parse(window.localStorage.getItem("glassroom.scenes") ?? "[]");
+    expect(stored).toHaveLength(2);
+    expect(stored).toContainEqual(newer);
+    expect(stored.map((doc: { id: string }) => doc.id)).toContain(valid.id);
+    setItem.mockRestore();
+  });
+});
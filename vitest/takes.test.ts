@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from "vitest";
+import { assembleTake, formatElapsed, formatPeakDb, peakDbOf, SILENCE_DB, takeFileName, type TakeMeta } from "../src/recorder/takes";
+
+const { storedChunks, takeStoreMock, tap } = vi.hoisted(() => {
+  const stored = new Map<number, unknown>();
+  const tapState: { onBlock: ((block: Float32Array[]) => void) | null } = { onBlock: null };
+  return {
+    storedChunks: stored,
+    tap: tapState,
+    takeStoreMock: {
+      listTakes: vi.fn(async () => []),
+      saveTake: vi.fn(async () => {}),
+      // The store fills up on the second chunk of the take.
+      appendTakeChunk: vi.fn(async (_take: unknown, index: number, chunk: unknown) => {
+        if (index === 1) throw new Error("QuotaExceededError");
+        stored.set(index, chunk);
+      }),
+      loadTakeChunks: vi.fn(async () => [...stored.keys()].sort((a, b) => a - b).map((index) => stored.get(index))),
+      deleteTake: vi.fn(async () => {
+        stored.clear();
+      }),
+    },
+  };
+});
+
+vi.mock("../src/storage/idb", () => ({ hasIndexedDb: () => true }));
+vi.mock("../src/recorder/takeStore", () => takeStoreMock);
+vi.mock("../services/audioEngine", () => ({
+  audioService: {
+    init: vi.fn(async () => {}),
+    // Two frames a second, so every two-frame block fills a chunk.
+    getSampleRate: () => 2,
+    getMainLevel: () => SILENCE_DB,
+    openMasterTap: vi.fn(async (onBlock: (block: Float32Array[]) => void) => {
+      tap.onBlock = onBlock;
+      return () => {};
+    }),
+  },
+}));
+
+import { createMasterRecorder } from "../services/masterRecorder";
+
+const take = (patch: Partial<TakeMeta> = {}): TakeMeta => ({
+  id: "t1",
+  name: "Take One",
+  format: "wav",
+  mimeType: "audio/wav",
+  sampleRate: 48000,
+  createdAt: 0,
+  durationMs: 0,
+  peakDb: SILENCE_DB,
+  chunkCount: 0,
+  status: "done",
+  ...patch,
+});
+
+describe("master takes", () => {
+  it("formats the elapsed timer", () => {
+    expect(formatElapsed(0)).toBe("00:00");
+    expect(formatElapsed(65_400)).toBe("01:05");
+    expect(formatElapsed(20 * 60_000 + 3_000)).toBe("20:03");
+    expect(formatElapsed(3_600_000 + 61_000)).toBe("1:01:01");
+  });
+
+  it("reads peaks across channels", () => {
+    expect(peakDbOf([new Float32Array([0.1, -0.5]), new Float32Array([0.25])])).toBeCloseTo(-6.02, 2);
+    expect(peakDbOf([new Float32Array(4)])).toBe(SILENCE_DB);
+    expect(formatPeakDb(SILENCE_DB)).toBe("-INF");
+    expect(formatPeakDb(-0.04)).toBe("-0.0");
+  });
+
+  it("joins stored PCM blocks into one 24-bit WAV", async () => {
+    const blocks = [
+      [new Float32Array([0.5, 0.5]), new Float32Array([-0.5, -0.5])],
+      [new Float32Array([0.25]), new Float32Array([-0.25])],
+    ];
+    const blob = assembleTake(take(), blocks);
+    const view = new DataView(await blob.arrayBuffer());
+
+    expect(blob.type).toBe("audio/wav");
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(3 * 2 * 3);
+  });
+
+  it("concatenates WebM chunks with the recorded mime type", () => {
+    const blob = assembleTake(take({ format: "webm", mimeType: "audio/webm;codecs=opus" }), [new Blob(["ab"]), new Blob(["c"])]);
+    expect(blob.type).toBe("audio/webm;codecs=opus");
+    expect(blob.size).toBe(3);
+  });
+
+  it("names downloads after the take", () => {
+    expect(takeFileName(take({ name: "Take 19.10.2026, 17:30:00" }))).toBe("take-19-10-2026-17-30-00.wav");
+    expect(takeFileName(take({ name: "???", format: "webm" }))).toBe("take.webm");
+  });
+
+  it("keeps every frame of a take whose storage failed part way through, and drops the stored part on stop", async () => {
+    vi.stubGlobal("window", globalThis);
+    const recorder = createMasterRecorder();
+    await recorder.start();
+    const block = (v: number) => [new Float32Array([v, v]), new Float32Array([-v, -v])];
+    [0.1, 0.2, 0.3].forEach((v) => tap.onBlock?.(block(v)));
+    await recorder.stop();
+
+    const { takes, persistent } = recorder.getState();
+    expect(persistent).toBe(false);
+    // Nothing left in storage that a reload would list as a recovered take.
+    expect(takeStoreMock.deleteTake).toHaveBeenCalledWith(takes[0].id);
+    expect(storedChunks.size).toBe(0);
+    const blob = await recorder.exportTake(takes[0].id);
+    const view = new DataView(await blob!.arrayBuffer());
+    // Three blocks of two stereo frames, 24-bit: the first chunk read back from storage plus the two kept in memory.
+    expect(view.getUint32(40, true)).toBe(3 * 2 * 2 * 3);
+
+    await recorder.remove(takes[0].id);
+    expect(recorder.getState().takes).toHaveLength(0);
+    vi.unstubAllGlobals();
+  });
+});
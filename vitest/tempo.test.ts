@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { CLOCK_PPQN, createClockFollower } from "../src/midi/clock";
+import { parseMidiMessage } from "../src/midi/messages";
+import { bpmToPhysicsTempo, divisionSeconds, physicsTempoToBpm, resolveBpm, tempoKnobToPhysics } from "../src/music/tempo";
+import { DEFAULT_TEMPO_SETTINGS } from "../src/scene/defaults";
+
+const pulses = (follower: ReturnType<typeof createClockFollower>, bpm: number, count: number, start = 0) => {
+  const step = 60000 / (bpm * CLOCK_PPQN);
+  let last: number | null = null;
+  for (let i = 0; i < count; i++) last = follower.pulse(start + i * step);
+  return last;
+};
+
+describe("note divisions", () => {
+  it("converts divisions to seconds at a BPM", () => {
+    expect(divisionSeconds("1/4", 120)).toBeCloseTo(0.5, 8);
+    expect(divisionSeconds("1/8d", 120)).toBeCloseTo(0.375, 8);
+    expect(divisionSeconds("1/8t", 120)).toBeCloseTo(1 / 6, 8);
+    expect(divisionSeconds("1/16t", 60)).toBeCloseTo(1 / 6, 8);
+  });
+
+  it("halves divisions that do not fit the delay line", () => {
+    expect(divisionSeconds("1/2", 40)).toBeCloseTo(1.5, 8);
+    expect(divisionSeconds("1/2", 40, 1)).toBeCloseTo(0.75, 8);
+  });
+});
+
+describe("tempo resolution", () => {
+  it("prefers a running MIDI clock only when following it", () => {
+    expect(resolveBpm(DEFAULT_TEMPO_SETTINGS, 98)).toBe(120);
+    expect(resolveBpm({ ...DEFAULT_TEMPO_SETTINGS, source: "midi" }, 98)).toBe(98);
+    expect(resolveBpm({ ...DEFAULT_TEMPO_SETTINGS, source: "midi" }, null)).toBe(120);
+    expect(resolveBpm({ ...DEFAULT_TEMPO_SETTINGS, bpm: 999 }, null)).toBe(240);
+  });
+
+  it("expresses physics tempo in BPM", () => {
+    expect(tempoKnobToPhysics(0.5)).toBeCloseTo(1.1, 8);
+    expect(physicsTempoToBpm(1)).toBe(120);
+    expect(bpmToPhysicsTempo(60)).toBeCloseTo(0.5, 8);
+  });
+});
+
+describe("MIDI clock follower", () => {
+  it("estimates BPM from 24 PPQN pulses", () => {
+    const follower = createClockFollower();
+    expect(pulses(follower, 128, 4)).toBeNull();
+    expect(pulses(follower, 128, 48, 1000)).toBeCloseTo(128, 1);
+  });
+
+  it("restarts after the clock stops", () => {
+    const follower = createClockFollower();
+    pulses(follower, 90, 48);
+    expect(follower.pulse(60000)).toBeNull();
+    expect(pulses(follower, 140, 48, 61000)).toBeCloseTo(140, 1);
+  });
+
+  it("parses real-time messages", () => {
+    expect(parseMidiMessage([0xf8])).toEqual({ type: "clock" });
+    expect(parseMidiMessage([0xfa])).toEqual({ type: "start" });
+    expect(parseMidiMessage([0xfc])).toEqual({ type: "stop" });
+  });
+});
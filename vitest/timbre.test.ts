@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { getVoiceEngine } from "../src/audio/engines/registry";
+import { applyTimbre, nextFreeTimbreRoute, resolveTimbre } from "../src/audio/timbre";
+import { bubbleTimbreFeatures, type SimBubble } from "../src/sim/roomSimulation";
+import type { TimbreFeatures } from "../types";
+
+const features = (patch: Partial<TimbreFeatures>): TimbreFeatures => ({
+  charge: 0.5,
+  hue: 0.5,
+  radius: 0.5,
+  speed: 0.5,
+  jelly: 0.5,
+  irregularity: 0.5,
+  ...patch,
+});
+
+describe("bubble timbre features", () => {
+  it("normalises the bubble's look to 0..1", () => {
+    const bubble = {
+      charge: -1,
+      hue: 180,
+      radius: 60,
+      vx: 3, vy: 4, vz: 0,
+      vertices: [0.8, 1.4, 1, 1.1],
+      jelly: { sx: 0.85, sy: 1.1 },
+    } as unknown as SimBubble;
+
+    const out = bubbleTimbreFeatures(bubble);
+    expect(out.charge).toBe(0);
+    expect(out.hue).toBeCloseTo(0.5, 8);
+    expect(out.radius).toBeCloseTo(0.5, 8);
+    expect(out.speed).toBeGreaterThan(0);
+    expect(out.jelly).toBeCloseTo(0.5, 8);
+    expect(out.irregularity).toBeCloseTo(0.5, 8);
+    Object.values(out).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(1);
+    });
+  });
+});
+
+describe("timbre routes", () => {
+  it("centres features, sums per target and clamps", () => {
+    const settings = {
+      enabled: true,
+      routes: [
+        { source: "charge" as const, target: "fmIndex" as const, amount: 0.5 },
+        { source: "radius" as const, target: "decay" as const, amount: 0.8 },
+        { source: "speed" as const, target: "decay" as const, amount: 0.8 },
+      ],
+    };
+
+    expect(resolveTimbre(settings, features({}))).toEqual({ fmIndex: 0, decay: 0 });
+    expect(resolveTimbre(settings, features({ charge: 0, radius: 1, speed: 1 }))).toEqual({ fmIndex: -0.5, decay: 1 });
+    expect(resolveTimbre({ ...settings, enabled: false }, features({ charge: 1 }))).toEqual({});
+  });
+
+  it("moves only the params the engine tags, by ratio on positive ranges", () => {
+    const pad = getVoiceEngine("pad");
+    const params = { attack: 0.4, length: 3, cutoff: 1800, resonance: 2, detune: 12 };
+
+    const brighter = applyTimbre(pad, params, { brightness: 0.5, fmIndex: 1 });
+    expect(brighter.cutoff).toBeCloseTo(1800 * Math.pow(40, 0.25), 6);
+    expect(brighter.attack).toBe(0.4);
+    expect(brighter.detune).toBe(12);
+
+    expect(applyTimbre(pad, params, { decay: 1 }).length).toBe(8);
+
+    const pluck = getVoiceEngine("pluck");
+    expect(applyTimbre(pluck, { decay: 1.6, brightness: 0.6 }, { brightness: -0.4 }).brightness).toBeCloseTo(0.4, 8);
+  });
+
+  it("offers the first unused source and target pair", () => {
+    expect(nextFreeTimbreRoute([])).toEqual({ source: "charge", target: "brightness" });
+    expect(nextFreeTimbreRoute([{ source: "charge", target: "brightness", amount: 1 }])).toEqual({
+      source: "charge",
+      target: "fmIndex",
+    });
+  });
+});
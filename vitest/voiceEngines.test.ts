@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { GLASS_RATIOS, modalRatios } from "../src/audio/engines/glass";
+import { renderPluck } from "../src/audio/engines/pluck";
+import { VOICE_ENGINES, activeEngineParams, getVoiceEngine, resolveEngineParams } from "../src/audio/engines/registry";
+import { mulberry32 } from "../src/random/seeded";
+
+const rms = (data: Float32Array, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / (to - from));
+};
+
+describe("voice engine registry", () => {
+  it("falls back to the classic engine and fills in clamped params", () => {
+    expect(getVoiceEngine(undefined).id).toBe("classic");
+    expect(new Set(VOICE_ENGINES.map((engine) => engine.id)).size).toBe(VOICE_ENGINES.length);
+
+    const pad = getVoiceEngine("pad");
+    expect(resolveEngineParams(pad, { attack: 10, cutoff: "bright", detune: Number.NaN })).toEqual({
+      attack: 2,
+      length: 3,
+      cutoff: 1800,
+      resonance: 2,
+      detune: 12,
+    });
+
+    const { engine, params } = activeEngineParams({ engine: "noise", params: { noise: { decay: 0.5 } } });
+    expect(engine.id).toBe("noise");
+    expect(params).toEqual({ decay: 0.5, resonance: 8 });
+  });
+});
+
+describe("pluck rendering", () => {
+  it("is periodic at the note and dies away", () => {
+    const sampleRate = 48000;
+    const freq = 440;
+    const out = renderPluck(freq, sampleRate, 1, 0.6, mulberry32(7));
+    const period = Math.round(sampleRate / freq);
+
+    // Autocorrelation peaks at one period, well above half a period.
+    const corr = (lag: number) => {
+      let sum = 0;
+      for (let i = 4000; i < 8000; i++) sum += out[i] * out[i + lag];
+      return sum;
+    };
+    expect(corr(period)).toBeGreaterThan(0);
+    expect(corr(period)).toBeGreaterThan(corr(Math.round(period / 2)));
+
+    expect(rms(out, 40000, 48000)).toBeLessThan(rms(out, 0, 8000) * 0.05);
+    expect(renderPluck(freq, sampleRate, 1, 0.6, mulberry32(7))).toEqual(out);
+  });
+});
+
+describe("glass modes", () => {
+  it("blends from a harmonic series to the bar modes", () => {
+    expect(modalRatios(0)).toEqual([1, 2, 3, 4, 5]);
+    expect(modalRatios(1)).toEqual(GLASS_RATIOS);
+    expect(modalRatios(0.5)[1]).toBeCloseTo((2 + GLASS_RATIOS[1]) / 2, 8);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { createVoiceAllocator, estimateVoiceLevel, pickVoiceToSteal, type Voice } from "../src/audio/voices";
+
+const voice = (patch: Partial<Voice>): Omit<Voice, "id"> => ({
+  kind: "synth",
+  midi: 60,
+  peak: 0.2,
+  shape: "decay",
+  startedAt: 0,
+  endsAt: 1.5,
+  release: vi.fn(),
+  ...patch,
+});
+
+describe("voice level estimate", () => {
+  it("decays synth voices and holds sample voices until they end", () => {
+    expect(estimateVoiceLevel(voice({}) as Voice, 0)).toBeCloseTo(0.2, 8);
+    expect(estimateVoiceLevel(voice({}) as Voice, 0.75)).toBeCloseTo(0.025, 8);
+    expect(estimateVoiceLevel(voice({ shape: "sustain" }) as Voice, 1)).toBeCloseTo(0.2, 8);
+    expect(estimateVoiceLevel(voice({ shape: "sustain" }) as Voice, 2)).toBe(0);
+  });
+});
+
+describe("voice allocator", () => {
+  it("only steals when the pool is full", () => {
+    const pool = createVoiceAllocator(2);
+    pool.add(voice({}));
+    expect(pool.makeRoom(0.1)).toBeNull();
+    pool.add(voice({ startedAt: 0.1, endsAt: 1.6 }));
+    expect(pool.makeRoom(0.2)).not.toBeNull();
+    expect(pool.size()).toBe(1);
+    expect(pool.metrics(0.2).stolen).toBe(1);
+  });
+
+  it("steals the quietest voice and fades it out", () => {
+    const pool = createVoiceAllocator(3);
+    const loud = voice({ shape: "sustain", peak: 0.3, startedAt: 0, endsAt: 4 });
+    const fading = voice({ peak: 0.3, startedAt: 0.2, endsAt: 1.7 });
+    const fresh = voice({ peak: 0.1, startedAt: 1.2, endsAt: 2.7 });
+    pool.add(loud);
+    pool.add(fading);
+    pool.add(fresh);
+
+    const victim = pool.makeRoom(1.3);
+    expect(victim?.startedAt).toBe(0.2);
+    expect(fading.release).toHaveBeenCalledWith(1.3);
+    expect(loud.release).not.toHaveBeenCalled();
+  });
+
+  it("breaks ties by age", () => {
+    const victim = pickVoiceToSteal(
+      [
+        { ...voice({ shape: "sustain", startedAt: 0.5 }), id: 1 },
+        { ...voice({ shape: "sustain", startedAt: 0.1 }), id: 2 },
+        { ...voice({ shape: "sustain", startedAt: 0.3 }), id: 3 },
+      ],
+      1
+    );
+    expect(victim?.id).toBe(2);
+  });
+
+  it("reports per-voice metrics and forgets finished voices", () => {
+    const pool = createVoiceAllocator(4);
+    const id = pool.add(voice({ kind: "smp", midi: 67, shape: "sustain", startedAt: 1, endsAt: 3 }));
+    pool.add(voice({ startedAt: 1.5, endsAt: 3 }));
+
+    const metrics = pool.metrics(2);
+    expect(metrics).toMatchObject({ active: 2, max: 4, stolen: 0 });
+    expect(metrics.voices[0]).toEqual({ id, kind: "smp", midi: 67, age: 1, level: 0.2 });
+
+    pool.remove(id);
+    expect(pool.metrics(2).active).toBe(1);
+  });
+});
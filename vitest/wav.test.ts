@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { encodeWavBytes, joinFloat32Chunks } from "../src/audio/wav";
+
+const ascii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+describe("wav encoder", () => {
+  it("writes a 16-bit PCM header by default", () => {
+    const view = new DataView(encodeWavBytes([new Float32Array([0, 0.5, -0.5])], 44100));
+
+    expect(ascii(view, 0, 4)).toBe("RIFF");
+    expect(ascii(view, 8, 4)).toBe("WAVE");
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(view, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(6);
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+  });
+
+  it("interleaves channels as little-endian 24-bit", () => {
+    const left = new Float32Array([1, 0]);
+    const right = new Float32Array([-1, 2]);
+    const view = new DataView(encodeWavBytes([left, right], 48000, "pcm24"));
+
+    expect(view.getUint16(32, true)).toBe(6);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(28, true)).toBe(48000 * 6);
+    const data = 44;
+    const sample = (index: number) => {
+      const raw = view.getUint8(data + index * 3) | (view.getUint8(data + index * 3 + 1) << 8) | (view.getUint8(data + index * 3 + 2) << 16);
+      return (raw << 8) >> 8;
+    };
+    expect(sample(0)).toBe(0x7fffff);
+    expect(sample(1)).toBe(-0x800000);
+    expect(sample(2)).toBe(0);
+    // Integer formats clip overs.
+    expect(sample(3)).toBe(0x7fffff);
+  });
+
+  it("writes IEEE float with a fact chunk and keeps overs", () => {
+    const view = new DataView(encodeWavBytes([new Float32Array([1.5, NaN]), new Float32Array([-0.25, 0])], 48000, "float32"));
+
+    expect(view.getUint32(16, true)).toBe(18);
+    expect(view.getUint16(20, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(32);
+    expect(ascii(view, 38, 4)).toBe("fact");
+    expect(view.getUint32(46, true)).toBe(2);
+    expect(ascii(view, 50, 4)).toBe("data");
+    expect(view.getUint32(54, true)).toBe(16);
+    expect(view.getFloat32(58, true)).toBe(1.5);
+    expect(view.getFloat32(62, true)).toBe(-0.25);
+    expect(view.getFloat32(66, true)).toBe(0);
+  });
+
+  it("joins recorder chunks in order", () => {
+    const joined = joinFloat32Chunks([new Float32Array([1, 2]), new Float32Array([3])]);
+    expect(Array.from(joined)).toEqual([1, 2, 3]);
+  });
+});